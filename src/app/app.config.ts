@@ -10,6 +10,7 @@ import {
 import { provideFirebaseApp, initializeApp } from '@angular/fire/app';
 import { provideAuth, getAuth } from '@angular/fire/auth';
 import { provideFirestore, getFirestore } from '@angular/fire/firestore';
+import { provideStorage, getStorage, connectStorageEmulator } from '@angular/fire/storage';
 import { routes } from './app.routes';
 import { environment } from '../environments/environment';
 
@@ -27,6 +28,13 @@ export const appConfig: ApplicationConfig = {
     ),
     provideFirebaseApp(() => initializeApp(environment.firebase)),
     provideAuth(() => getAuth()),
-    provideFirestore(() => getFirestore())
+    provideFirestore(() => getFirestore()),
+    provideStorage(() => {
+      const storage = getStorage();
+      if (environment.storageEmulator.enabled) {
+        connectStorageEmulator(storage, environment.storageEmulator.host, environment.storageEmulator.port);
+      }
+      return storage;
+    })
   ]
 };
\ No newline at end of file
@@ -36,6 +36,42 @@ export const routes: Routes = [
             ),
         canActivate: [doctorGuard]
     },
+    {
+        path: 'formulary',
+        loadComponent: () =>
+            import('./components/formulary/formulary').then(m => m.FormularyComponent),
+        canActivate: [doctorGuard]
+    },
+    {
+        path: 'patient-import',
+        loadComponent: () =>
+            import('./components/patient-import/patient-import').then(m => m.PatientImportComponent),
+        canActivate: [doctorGuard]
+    },
+    {
+        path: 'templates',
+        loadComponent: () =>
+            import('./components/visit-templates/visit-templates').then(m => m.VisitTemplatesComponent),
+        canActivate: [doctorGuard]
+    },
+    {
+        path: 'duplicates',
+        loadComponent: () =>
+            import('./components/duplicate-patients/duplicate-patients').then(m => m.DuplicatePatientsComponent),
+        canActivate: [doctorGuard]
+    },
+    {
+        path: 'recycle-bin',
+        loadComponent: () =>
+            import('./components/recycle-bin/recycle-bin').then(m => m.RecycleBinComponent),
+        canActivate: [doctorGuard]
+    },
+    {
+        path: 'audit-log',
+        loadComponent: () =>
+            import('./components/audit-log/audit-log').then(m => m.AuditLogComponent),
+        canActivate: [doctorGuard]
+    },
     // ── Receptionist-only routes ─────────────────────────────────────────────
     {
         path: 'reception-home',
@@ -54,6 +90,12 @@ export const routes: Routes = [
             ),
         canActivate: [authGuard]
     },
+    {
+        path: 'family/:id',
+        loadComponent: () =>
+            import('./components/family/family').then(m => m.FamilyComponent),
+        canActivate: [authGuard]
+    },
     {
         path: 'appointments',
         loadComponent: () =>
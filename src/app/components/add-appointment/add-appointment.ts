@@ -2,7 +2,7 @@
 import { Component, OnInit, inject, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Router, ActivatedRoute } from '@angular/router';
+import { Router, ActivatedRoute, RouterLink } from '@angular/router';
 import { AppointmentService } from '../../services/appointmentService';
 import { FirebaseService } from '../../services/firebase';
 import { AuthenticationService } from '../../services/authenticationService';
@@ -10,12 +10,15 @@ import { AuthorizationService } from '../../services/authorizationService';
 import { PatientService } from '../../services/patient';
 import { Patient } from '../../models/patient.model';
 import { NavbarComponent } from '../navbar/navbar';
+import { AllergyAlertComponent } from '../allergy-alert/allergy-alert';
 import doctorsData from '../../data/doctors.json';
 import { normalizeEmail } from '../../utilities/normalize-email';
 import { DEFAULT_SYSTEM_SETTINGS } from '../../config/systemSettings';
 import { generateTimeSlotsFromConfig } from '../../utilities/timeSlotUtils';
 import { ClinicContextService } from '../../services/clinicContextService';
 import { todayLocalISO } from '../../utilities/local-date';
+import { createAllergy, mergeAllergies } from '../../utilities/allergyUtils';
+import { createProblem, mergeProblems } from '../../utilities/problemUtils';
 
 export interface Doctor {
   id: string;
@@ -28,7 +31,7 @@ export interface Doctor {
 @Component({
   selector: 'app-add-appointment',
   standalone: true,
-  imports: [CommonModule, FormsModule, NavbarComponent],
+  imports: [CommonModule, FormsModule, RouterLink, NavbarComponent, AllergyAlertComponent],
   templateUrl: './add-appointment.html',
   styleUrl: './add-appointment.css'
 })
@@ -734,7 +737,8 @@ export class AddAppointmentComponent implements OnInit {
 
     try {
       const ailmentsText = this.ailmentChips.join(', ');
-      const allergiesText = this.allergyChips.join(', ');
+      const newAllergies = this.allergyChips.map(chip => createAllergy(chip));
+      const newProblems = this.ailmentChips.map(chip => createProblem(chip));
 
       const rawEmail = this.authService.currentUserValue?.email || '';
       const authEmail = rawEmail ? normalizeEmail(rawEmail) : '';
@@ -752,10 +756,11 @@ export class AddAppointmentComponent implements OnInit {
         patientPhone = this.matchedPatient.phone ?? this.normalizedPhoneDigits;
         patientFamilyId = this.matchedPatient.familyId ?? '';
 
-        // Persist ailments/allergies to existing patient record
+        // Persist ailments/allergies to existing patient record; entries already
+        // on file keep the details (severity, status, onset) recorded by the doctor
         const updateData: any = {};
-        if (ailmentsText.trim()) updateData.ailments = ailmentsText;
-        if (allergiesText.trim()) updateData.allergies = allergiesText;
+        if (newProblems.length) updateData.ailments = mergeProblems(this.matchedPatient.ailments || [], newProblems);
+        if (newAllergies.length) updateData.allergies = mergeAllergies(this.matchedPatient.allergies || [], newAllergies);
         if (Object.keys(updateData).length > 0) {
           await this.patientService.updatePatient(patientId, updateData);
         }
@@ -768,8 +773,8 @@ export class AddAppointmentComponent implements OnInit {
         if (this.patientEmail.trim()) patientData.email = this.patientEmail.trim();
         if (this.dateOfBirth) patientData.dateOfBirth = new Date(this.dateOfBirth);
         if (this.gender) patientData.gender = this.gender;
-        if (allergiesText) patientData.allergies = allergiesText;
-        if (ailmentsText) patientData.ailments = ailmentsText;
+        if (newAllergies.length) patientData.allergies = newAllergies;
+        if (newProblems.length) patientData.ailments = newProblems;
 
         patientId = await this.patientService.createPatient({ ...patientData, clinicId: this.selectedClinicId || undefined });
         // After creation, fetch the familyId generated by the service
@@ -5,6 +5,15 @@ import { Router } from '@angular/router';
 import { PatientService } from '../../services/patient';
 import { ClinicContextService } from '../../services/clinicContextService';
 import { todayLocalISO } from '../../utilities/local-date';
+import { Allergy, Problem } from '../../models/patient.model';
+import { cleanAllergy } from '../../utilities/allergyUtils';
+import { cleanProblem, parseLegacyProblems } from '../../utilities/problemUtils';
+import { PatientDemographics, cleanDemographics, emptyDemographics } from '../../utilities/demographicsUtils';
+import { AllergyEditorComponent } from '../allergy-editor/allergy-editor';
+import { ProblemEditorComponent } from '../problem-editor/problem-editor';
+import { DemographicsEditorComponent } from '../demographics-editor/demographics-editor';
+import { PhotoCaptureComponent } from '../photo-capture/photo-capture';
+import { PatientPhotoService } from '../../services/patientPhotoService';
 
 // SweetAlert2 is NOT imported at the top level.
 // It is dynamically imported only when a dialog is actually needed,
@@ -13,7 +22,8 @@ import { todayLocalISO } from '../../utilities/local-date';
 @Component({
   selector: 'app-add-patient',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, AllergyEditorComponent, ProblemEditorComponent, DemographicsEditorComponent,
+    PhotoCaptureComponent],
   templateUrl: './add-patient.html',
   styleUrl: './add-patient.css'
 })
@@ -36,11 +46,15 @@ export class AddPatientComponent implements OnInit, OnDestroy {
   gender: string = '';
   familyId: string = '';
 
-  // Patient allergies & ailments as chips
-  allergyChips: string[] = [];
-  newAllergyInput: string = '';
-  ailmentChips: string[] = [];
-  newAilmentInput: string = '';
+  // Address, emergency contact, blood group, IDs…
+  demographics: PatientDemographics = emptyDemographics();
+
+  // Cropped photo, uploaded once the patient exists
+  photo: Blob | null = null;
+
+  // Structured allergies and problem list
+  allergies: Allergy[] = [];
+  problems: Problem[] = [];
 
   todayDate: string = todayLocalISO();
 
@@ -51,6 +65,7 @@ export class AddPatientComponent implements OnInit, OnDestroy {
 
   private checkDebounceTimer: any = null;
   private readonly patientService = inject(PatientService);
+  private readonly photoService = inject(PatientPhotoService);
   private readonly clinicContextService = inject(ClinicContextService);
   private readonly router = inject(Router);
   private readonly cdr = inject(ChangeDetectorRef);
@@ -63,7 +78,7 @@ export class AddPatientComponent implements OnInit, OnDestroy {
   ngOnChanges(changes: SimpleChanges): void {
     // If prefill changes while modal is open, apply again.
     if ((changes['prefillName'] || changes['prefillPhone'] || changes['prefillAilments'])
-      && (this.showPrefillAllowed() || this.ailmentChips.length === 0)) {
+      && (this.showPrefillAllowed() || this.problems.length === 0)) {
       this.applyPrefill();
     }
   }
@@ -83,10 +98,10 @@ export class AddPatientComponent implements OnInit, OnDestroy {
     this.email = '';
     this.gender = '';
     this.familyId = '';
-    this.allergyChips = [];
-    this.newAllergyInput = '';
-    this.ailmentChips = [];
-    this.newAilmentInput = '';
+    this.demographics = emptyDemographics();
+    this.photo = null;
+    this.allergies = [];
+    this.problems = [];
     this.errorMessage = '';
     this.successMessage = '';
     this.warningMessage = '';
@@ -122,13 +137,9 @@ export class AddPatientComponent implements OnInit, OnDestroy {
       }
     }
 
-    // Prefill ailment chips (do not overwrite if user already added ailments).
-    if (prefillAilmentsText && this.ailmentChips.length === 0) {
-      const parsed = prefillAilmentsText
-        .split(',')
-        .map(a => a.trim())
-        .filter(a => a.length > 0);
-      this.ailmentChips = parsed;
+    // Prefill the problem list (do not overwrite if user already added problems).
+    if (prefillAilmentsText && this.problems.length === 0) {
+      this.problems = parseLegacyProblems(prefillAilmentsText);
     }
 
     // Recompute preview familyId + (optionally) uniqueness warning.
@@ -199,54 +210,6 @@ export class AddPatientComponent implements OnInit, OnDestroy {
     return cleanPhone ? `${lastName}_${cleanPhone}` : lastName;
   }
 
-  // ── Allergy chips ──
-  onAllergyKeydown(event: KeyboardEvent): void {
-    if (event.key === 'Enter') {
-      event.preventDefault();
-      const trimmed = this.newAllergyInput.trim();
-      if (trimmed && !this.allergyChips.includes(trimmed)) {
-        this.allergyChips.push(trimmed);
-        this.newAllergyInput = '';
-      }
-    }
-  }
-
-  onAllergyBlur(): void {
-    const trimmed = this.newAllergyInput.trim();
-    if (trimmed && !this.allergyChips.includes(trimmed)) {
-      this.allergyChips.push(trimmed);
-      this.newAllergyInput = '';
-    }
-  }
-
-  removeAllergy(index: number): void {
-    this.allergyChips.splice(index, 1);
-  }
-
-  // ── Ailment chips ──
-  onAilmentKeydown(event: KeyboardEvent): void {
-    if (event.key === 'Enter') {
-      event.preventDefault();
-      const trimmed = this.newAilmentInput.trim();
-      if (trimmed && !this.ailmentChips.includes(trimmed)) {
-        this.ailmentChips.push(trimmed);
-        this.newAilmentInput = '';
-      }
-    }
-  }
-
-  onAilmentBlur(): void {
-    const trimmed = this.newAilmentInput.trim();
-    if (trimmed && !this.ailmentChips.includes(trimmed)) {
-      this.ailmentChips.push(trimmed);
-      this.newAilmentInput = '';
-    }
-  }
-
-  removeAilment(index: number): void {
-    this.ailmentChips.splice(index, 1);
-  }
-
   async onSubmit(): Promise<void> {
     this.errorMessage = '';
     this.successMessage = '';
@@ -270,16 +233,25 @@ export class AddPatientComponent implements OnInit, OnDestroy {
       if (this.email.trim()) patientData.email = this.email.trim();
       if (this.dateOfBirth) patientData.dateOfBirth = new Date(this.dateOfBirth);
       if (this.gender) patientData.gender = this.gender;
-      const allergiesText = this.allergyChips.join(', ');
-      if (allergiesText) patientData.allergies = allergiesText;
-      const ailmentsText = this.ailmentChips.join(', ');
-      if (ailmentsText) patientData.ailments = ailmentsText;
+      Object.assign(patientData, cleanDemographics(this.demographics));
+      if (this.allergies.length) patientData.allergies = this.allergies.map(cleanAllergy);
+      if (this.problems.length) patientData.ailments = this.problems.map(cleanProblem);
 
       const patientId = await this.patientService.createPatient({
         ...patientData,
         clinicId: this.clinicContextService.getSelectedClinicId() || undefined
       });
 
+      // The patient is saved either way; a failed upload only loses the photo
+      let photoFailed = false;
+      if (this.photo) {
+        try {
+          await this.photoService.setPhoto({ uniqueId: patientId }, this.photo);
+        } catch {
+          photoFailed = true;
+        }
+      }
+
       this.isSubmitting = false;
       this.patientAdded.emit(patientId);
       this.onClose();
@@ -289,6 +261,7 @@ export class AddPatientComponent implements OnInit, OnDestroy {
       const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
       const result = await Swal.fire({
         title: 'Patient Added Successfully!',
+        ...(photoFailed ? { text: 'The photo could not be saved — add it from Edit Patient.' } : {}),
         icon: 'success',
         showConfirmButton: true,
         confirmButtonText: 'Add Visit',
@@ -296,7 +269,7 @@ export class AddPatientComponent implements OnInit, OnDestroy {
         showDenyButton: true,
         denyButtonText: 'OK',
         denyButtonColor: '#94a3b8',
-        timer: 2000,
+        timer: photoFailed ? undefined : 2000,
         timerProgressBar: true,
         background: isDark ? '#1f1f1f' : '#ffffff',
         color: isDark ? '#e0e0e0' : '#1e293b',
@@ -351,13 +324,20 @@ export class AddPatientComponent implements OnInit, OnDestroy {
       }
     }
 
+    const demographicErrors = this.patientService.validateDemographics(this.demographics, this.phone.trim());
+    if (demographicErrors.length) {
+      this.errorMessage = demographicErrors[0];
+      return false;
+    }
+
     return true;
   }
 
   onClose(): void {
     const hasData = this.firstName.trim() || this.lastName.trim() || this.phone.trim() ||
         this.middleName.trim() || this.email.trim() || this.dateOfBirth ||
-        this.gender || this.allergyChips.length || this.ailmentChips.length;
+        this.gender || this.photo || this.allergies.length || this.problems.length ||
+        Object.keys(cleanDemographics(this.demographics)).length;
 
     if (hasData) {
       // Dynamically import Swal only when the dialog is actually needed
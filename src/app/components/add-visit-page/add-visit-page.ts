@@ -1,11 +1,50 @@
-import { Component, OnInit, ChangeDetectorRef, NgZone, inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, HostListener, NgZone, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router } from '@angular/router';
+import { DocumentData, QueryDocumentSnapshot } from '@angular/fire/firestore';
 import { PatientService } from '../../services/patient';
 import { AppointmentService } from '../../services/appointmentService';
-import { Patient, Visit } from '../../models/patient.model';
+import { AuthenticationService } from '../../services/authenticationService';
+import { ClinicContextService } from '../../services/clinicContextService';
+import { PrescriptionPrintService } from '../../services/prescriptionPrintService';
+import { FormularyService } from '../../services/formularyService';
+import { LabOrderService } from '../../services/labOrderService';
+import { VisitTemplateService } from '../../services/visitTemplateService';
+import { VisitDraftService } from '../../services/visitDraftService';
+import { FormularyDrug } from '../../models/formulary.model';
+import { VisitTemplate, VisitTemplateFields } from '../../models/visitTemplate.model';
+import { VisitDraft, VisitDraftFields } from '../../models/visitDraft.model';
+import { Allergy, AllergyOverride, CodedDiagnosis, Problem, Medicine, Patient, Visit, Vitals } from '../../models/patient.model';
 import { NavbarComponent } from '../navbar/navbar';
+import { Icd10PickerComponent } from '../icd10-picker/icd10-picker';
+import { AllergyEditorComponent } from '../allergy-editor/allergy-editor';
+import { AllergyAlertComponent } from '../allergy-alert/allergy-alert';
+import { ProblemEditorComponent } from '../problem-editor/problem-editor';
+import { MedicineLinePipe } from '../../pipes/medicine-line.pipe';
+import { VitalsSummaryPipe } from '../../pipes/vitals-summary.pipe';
+import { MEDICINE_ROUTES, cleanMedicine } from '../../utilities/prescriptionUtils';
+import {
+    VitalKey,
+    VitalStatus,
+    calculateBmi,
+    cleanVitals,
+    getVitalRangeLabel,
+    getVitalStatus
+} from '../../utilities/vitalsUtils';
+import { AllergyConflict, describeAllergyConflict, findAllergyConflicts } from '../../utilities/allergyConflictUtils';
+import { allergiesChanged, allergySubstances, cleanAllergy } from '../../utilities/allergyUtils';
+import { activeProblems, cleanProblem, diffProblems, formatProblem, problemsChanged } from '../../utilities/problemUtils';
+import { escapeHtml } from '../../utilities/prescriptionDocument';
+import { formularyKey, searchFormulary } from '../../utilities/formularyUtils';
+import { LAB_TESTS, findLabTest } from '../../utilities/labOrderUtils';
+import { normalizeDiagnosisCodes } from '../../utilities/icd10Utils';
+import { normalizeEmail } from '../../utilities/normalize-email';
+import { addDaysLocalISO, daysFromTodayLocal, todayLocalISO } from '../../utilities/local-date';
+import { findFollowUpSlot, isClosedDay } from '../../utilities/timeSlotUtils';
+import { DEFAULT_SYSTEM_SETTINGS } from '../../config/systemSettings';
+import { cleanTemplateFields, describeTemplateFields } from '../../utilities/visitTemplateUtils';
+import { VISIT_DRAFT_AUTOSAVE_MS, describeVisitDraft } from '../../utilities/visitDraftUtils';
 import Swal from 'sweetalert2';
 
 interface DynamicField {
@@ -15,11 +54,6 @@ interface Examination {
     testName: string;
     result: string;
 }
-interface Medicine {
-    name: string;
-    dosage: string;
-    frequency: string;
-}
 
 /**
  * AddVisitPageComponent: Full-page version of the Add Visit form.
@@ -29,36 +63,79 @@ interface Medicine {
 @Component({
     selector: 'app-add-visit-page',
     standalone: true,
-    imports: [CommonModule, FormsModule, NavbarComponent],
+    imports: [CommonModule, FormsModule, NavbarComponent, Icd10PickerComponent, AllergyEditorComponent, AllergyAlertComponent, ProblemEditorComponent, MedicineLinePipe, VitalsSummaryPipe],
     templateUrl: './add-visit-page.html',
     styleUrl: './add-visit-page.css'
 })
-export class AddVisitPageComponent implements OnInit {
+export class AddVisitPageComponent implements OnInit, OnDestroy {
 
     // ── Patient & Visit Data ──────────────────────────────────
     patient: Patient | null = null;
     visits: Visit[] = [];
     isLoadingPatient: boolean = true;
     isLoadingVisits: boolean = false;
+    hasMoreVisits: boolean = false;
+    isLoadingMoreVisits: boolean = false;
+    visitCount: number = 0;
+    private visitsCursor: QueryDocumentSnapshot<DocumentData> | null = null;
 
     // ── Form Fields ───────────────────────────────────────────
     chiefComplaintsText: string = '';
     presentIllnesses: DynamicField[] = [];
     newIllnessInput: string = '';
-    existingAllergies: string[] = [];
-    newAllergyInput: string = '';
-    existingAilments: string[] = [];
-    newAilmentInput: string = '';
+    existingAllergies: Allergy[] = [];
+    existingProblems: Problem[] = [];
     diagnosis: string = '';
+    diagnosisCodes: CodedDiagnosis[] = [];
     examinations: Examination[] = [];
     newExamTestName: string = '';
     newExamResult: string = '';
+    labTestOrders: string[] = [];
+    newLabTestName: string = '';
+    readonly labTests = LAB_TESTS;
     treatmentPlan: string = '';
     advice: string = '';
+    followUpDate: string = ''; // YYYY-MM-DD
+    followUpAmount: number | null = null;
+    followUpUnit: 'days' | 'weeks' = 'days';
+    bookFollowUp: boolean = true;
+    readonly today: string = todayLocalISO();
     medicines: Medicine[] = [];
+    allergyOverrides: AllergyOverride[] = [];
     newMedicineName: string = '';
     newMedicineDosage: string = '';
     newMedicineFrequency: string = '';
+    newMedicineDuration: string = '';
+    newMedicineRoute: string = '';
+    newMedicineQuantity: number | null = null;
+    newMedicineInstructions: string = '';
+    readonly medicineRoutes: string[] = MEDICINE_ROUTES;
+    formularyDrugs: FormularyDrug[] = [];
+    medicineSuggestions: FormularyDrug[] = [];
+    activeSuggestionIndex: number = -1;
+    showMedicineSuggestions: boolean = false;
+    selectedFormularyDrug: FormularyDrug | null = null;
+    isAddingToFormulary: boolean = false;
+    vitals: Partial<Record<VitalKey, number | null>> = {};
+    readonly vitalInputs: Array<{ key: VitalKey; label: string; unit: string; step: number }> = [
+        { key: 'pulse', label: 'Pulse', unit: 'bpm', step: 1 },
+        { key: 'temperature', label: 'Temp', unit: '°F', step: 0.1 },
+        { key: 'spo2', label: 'SpO₂', unit: '%', step: 1 },
+        { key: 'respiratoryRate', label: 'Resp. Rate', unit: '/min', step: 1 },
+        { key: 'heightCm', label: 'Height', unit: 'cm', step: 0.5 },
+        { key: 'weightKg', label: 'Weight', unit: 'kg', step: 0.1 }
+    ];
+
+    // ── Visit templates ───────────────────────────────────────
+    templates: VisitTemplate[] = [];
+    selectedTemplateId: string = '';
+    isSavingTemplate: boolean = false;
+    templateMessage: string = '';
+
+    // ── Autosaved draft ───────────────────────────────────────
+    resumableDraft: VisitDraft | null = null;
+    draftStatus: 'idle' | 'saving' | 'saved' | 'error' = 'idle';
+    draftSavedAt: Date | null = null;
 
     errorMessage: string = '';
     successMessage: string = '';
@@ -69,13 +146,27 @@ export class AddVisitPageComponent implements OnInit {
 
     // ── Navigation origin ─────────────────────────────────────
     private origin: 'home' | 'patient' = 'home';
-    private originalAllergies: string[] = [];
-    private originalAilments: string[] = [];
+    private originalAllergies: Allergy[] = [];
+    private originalProblems: Problem[] = [];
+
+    // Autosave starts once any earlier draft has been resumed or discarded
+    private draftsEnabled: boolean = false;
+    private hasStoredDraft: boolean = false;
+    private visitSaved: boolean = false;
+    private lastDraftSnapshot: string = '';
+    private draftTimer: any;
 
     private readonly route = inject(ActivatedRoute);
     private readonly router = inject(Router);
     private readonly patientService = inject(PatientService);
     private readonly appointmentService = inject(AppointmentService);
+    private readonly authService = inject(AuthenticationService);
+    private readonly clinicContextService = inject(ClinicContextService);
+    private readonly printService = inject(PrescriptionPrintService);
+    private readonly formularyService = inject(FormularyService);
+    private readonly labOrderService = inject(LabOrderService);
+    private readonly templateService = inject(VisitTemplateService);
+    private readonly draftService = inject(VisitDraftService);
     private readonly cdr = inject(ChangeDetectorRef);
     private readonly ngZone = inject(NgZone);
 
@@ -88,9 +179,30 @@ export class AddVisitPageComponent implements OnInit {
             this.router.navigate(['/home']);
             return;
         }
+        this.loadFormulary();
+        this.loadTemplates();
         await this.loadPatient(patientId);
     }
 
+    ngOnDestroy(): void {
+        clearTimeout(this.draftTimer);
+        // Navigating away inside the app — keep what was typed since the last save
+        if (this.draftsEnabled && !this.visitSaved && this.patient) {
+            void this.saveDraftNow();
+        }
+    }
+
+    /** A reload or closed tab cannot wait for Firestore — keep the draft in this browser */
+    @HostListener('window:beforeunload')
+    onBeforeUnload(): void {
+        if (!this.draftsEnabled || this.visitSaved || !this.patient || !this.hasUnsavedInput()) return;
+        try {
+            this.draftService.saveLocalDraft(this.patient, this.buildDraftFields());
+        } catch {
+            // Signed out — nothing to keep
+        }
+    }
+
     async loadPatient(patientId: string): Promise<void> {
         this.ngZone.run(() => {
             this.isLoadingPatient = true;
@@ -108,6 +220,7 @@ export class AddVisitPageComponent implements OnInit {
                 this.cdr.detectChanges();
                 this.loadVisits();
             });
+            if (this.patient) await this.loadDraft(this.patient.uniqueId);
         } catch {
             this.ngZone.run(() => {
                 this.isLoadingPatient = false;
@@ -118,14 +231,154 @@ export class AddVisitPageComponent implements OnInit {
 
     private initializePatientFields(): void {
         if (!this.patient) return;
-        this.existingAllergies = this.patient.allergies
-            ? this.patient.allergies.split(',').map(a => a.trim()).filter(a => a.length > 0)
-            : [];
-        this.existingAilments = this.patient.ailments
-            ? this.patient.ailments.split(',').map(a => a.trim()).filter(a => a.length > 0)
-            : [];
+        this.existingAllergies = [...(this.patient.allergies || [])];
+        this.existingProblems = [...(this.patient.ailments || [])];
         this.originalAllergies = [...this.existingAllergies];
-        this.originalAilments = [...this.existingAilments];
+        this.originalProblems = [...this.existingProblems];
+    }
+
+    // ── Draft autosave ────────────────────────────────────────
+    private async loadDraft(patientId: string): Promise<void> {
+        let draft: VisitDraft | null = null;
+        try {
+            draft = await this.draftService.getDraft(patientId);
+        } catch {
+            // No draft to offer — start autosaving a fresh one
+        }
+        this.ngZone.run(() => {
+            this.lastDraftSnapshot = JSON.stringify(this.buildDraftFields());
+            if (draft) {
+                this.resumableDraft = draft;
+                this.hasStoredDraft = true;
+            } else {
+                this.draftsEnabled = true;
+            }
+            this.cdr.detectChanges();
+        });
+    }
+
+    get resumableDraftSummary(): string {
+        return this.resumableDraft ? describeVisitDraft(this.resumableDraft.fields) : '';
+    }
+
+    get resumableDraftFromOtherDevice(): boolean {
+        return !!this.resumableDraft && !this.draftService.isFromThisDevice(this.resumableDraft);
+    }
+
+    resumeDraft(): void {
+        if (!this.resumableDraft) return;
+        this.applyDraftFields(this.resumableDraft.fields);
+        this.draftSavedAt = this.resumableDraft.updatedAt;
+        this.draftStatus = 'saved';
+        this.resumableDraft = null;
+        this.lastDraftSnapshot = JSON.stringify(this.buildDraftFields());
+        this.draftsEnabled = true;
+    }
+
+    async discardDraft(): Promise<void> {
+        if (!this.patient) return;
+        this.resumableDraft = null;
+        this.draftsEnabled = true;
+        this.hasStoredDraft = false;
+        try {
+            await this.draftService.deleteDraft(this.patient.uniqueId);
+        } catch {
+            // A leftover draft is offered again next time
+        }
+        // Anything typed while the banner was open still gets saved
+        this.lastDraftSnapshot = '';
+        this.scheduleDraftSave();
+    }
+
+    /** Called on every edit; writes the draft once typing pauses */
+    scheduleDraftSave(): void {
+        if (!this.draftsEnabled || this.visitSaved || !this.patient) return;
+        clearTimeout(this.draftTimer);
+        this.draftTimer = setTimeout(() => this.saveDraftNow(), VISIT_DRAFT_AUTOSAVE_MS);
+    }
+
+    private async saveDraftNow(): Promise<void> {
+        if (!this.patient || this.isSubmitting || this.visitSaved) return;
+        const fields = this.buildDraftFields();
+        const snapshot = JSON.stringify(fields);
+        if (snapshot === this.lastDraftSnapshot) return;
+        this.lastDraftSnapshot = snapshot;
+        const patientId = this.patient.uniqueId;
+
+        // Everything cleared again — there is nothing left to resume
+        if (!this.hasUnsavedInput()) {
+            if (!this.hasStoredDraft) return;
+            this.hasStoredDraft = false;
+            this.draftService.deleteDraft(patientId).catch(() => { /* offered again next time */ });
+            this.ngZone.run(() => {
+                this.draftStatus = 'idle';
+                this.cdr.detectChanges();
+            });
+            return;
+        }
+
+        this.ngZone.run(() => {
+            this.draftStatus = 'saving';
+            this.cdr.detectChanges();
+        });
+        try {
+            await this.draftService.saveDraft(this.patient, fields);
+            this.hasStoredDraft = true;
+            this.ngZone.run(() => {
+                this.draftStatus = 'saved';
+                this.draftSavedAt = new Date();
+                this.cdr.detectChanges();
+            });
+        } catch {
+            // The local copy was still written; retry on the next edit
+            this.lastDraftSnapshot = '';
+            this.ngZone.run(() => {
+                this.draftStatus = 'error';
+                this.cdr.detectChanges();
+            });
+        }
+    }
+
+    private buildDraftFields(): VisitDraftFields {
+        const fields: VisitDraftFields = {
+            chiefComplaints: this.chiefComplaintsText,
+            presentIllness: this.presentIllnesses.map(i => i.description),
+            allergies: [...this.existingAllergies],
+            ailments: [...this.existingProblems],
+            diagnosis: this.diagnosis,
+            diagnosisCodes: this.diagnosisCodes,
+            examinations: this.examinations,
+            labTestOrders: [...this.labTestOrders],
+            treatmentPlan: this.treatmentPlan,
+            advice: this.advice,
+            followUpDate: this.followUpDate,
+            bookFollowUp: this.bookFollowUp,
+            medicines: this.medicines,
+            allergyOverrides: this.allergyOverrides
+        };
+        const vitals = cleanVitals(this.vitals);
+        if (vitals) fields.vitals = vitals;
+        return fields;
+    }
+
+    private applyDraftFields(fields: VisitDraftFields): void {
+        this.chiefComplaintsText = fields.chiefComplaints;
+        this.presentIllnesses = fields.presentIllness.map(description => ({ description }));
+        this.existingAllergies = [...fields.allergies];
+        this.existingProblems = [...fields.ailments];
+        this.diagnosis = fields.diagnosis;
+        this.diagnosisCodes = [...fields.diagnosisCodes];
+        this.examinations = fields.examinations.map(e => ({ ...e }));
+        this.labTestOrders = [...fields.labTestOrders];
+        this.treatmentPlan = fields.treatmentPlan;
+        this.advice = fields.advice;
+        this.followUpDate = fields.followUpDate;
+        this.bookFollowUp = fields.bookFollowUp;
+        this.onFollowUpDateChange();
+        this.medicines = fields.medicines.map(m => ({ ...m }));
+        this.allergyOverrides = [...fields.allergyOverrides];
+        const { bmi, ...vitals } = fields.vitals ?? {};
+        this.vitals = { ...vitals };
     }
 
     async loadVisits(): Promise<void> {
@@ -135,8 +388,16 @@ export class AddVisitPageComponent implements OnInit {
             this.cdr.detectChanges();
         });
         try {
-            this.visits = await this.patientService.getPatientVisits(this.patient!.uniqueId);
+            const patientId = this.patient.uniqueId;
+            const [page, count] = await Promise.all([
+                this.patientService.getPatientVisitsPage(patientId),
+                this.patientService.getPatientVisitCount(patientId).catch(() => null)
+            ]);
             this.ngZone.run(() => {
+                this.visits = page.visits;
+                this.visitsCursor = page.lastDoc;
+                this.hasMoreVisits = page.hasMore;
+                this.visitCount = count ?? page.visits.length;
                 this.isLoadingVisits = false;
                 this.cdr.detectChanges();
             });
@@ -148,6 +409,165 @@ export class AddVisitPageComponent implements OnInit {
         }
     }
 
+    async loadMoreVisits(): Promise<void> {
+        if (!this.patient || !this.hasMoreVisits || this.isLoadingMoreVisits) return;
+        this.isLoadingMoreVisits = true;
+        try {
+            const page = await this.patientService.getPatientVisitsPage(this.patient.uniqueId, this.visitsCursor);
+            this.ngZone.run(() => {
+                this.visits = [...this.visits, ...page.visits];
+                this.visitsCursor = page.lastDoc;
+                this.hasMoreVisits = page.hasMore;
+                this.visitCount = Math.max(this.visitCount, this.visits.length);
+                this.isLoadingMoreVisits = false;
+                this.cdr.detectChanges();
+            });
+        } catch {
+            this.ngZone.run(() => {
+                this.isLoadingMoreVisits = false;
+                this.cdr.detectChanges();
+            });
+        }
+    }
+
+    async loadFormulary(): Promise<void> {
+        try {
+            this.formularyDrugs = await this.formularyService.getDrugs();
+        } catch {
+            // Autocomplete is optional — free-text entry still works
+            this.formularyDrugs = [];
+        }
+    }
+
+    async loadTemplates(): Promise<void> {
+        try {
+            const templates = await this.templateService.getTemplates();
+            this.ngZone.run(() => {
+                this.templates = templates;
+                this.cdr.detectChanges();
+            });
+        } catch {
+            this.templates = [];
+        }
+    }
+
+    // ── Visit templates ───────────────────────────────────────
+    describeTemplate(template: VisitTemplate): string {
+        return describeTemplateFields(template.fields).join(' · ');
+    }
+
+    onTemplateSelected(): void {
+        const template = this.templates.find(t => t.id === this.selectedTemplateId);
+        this.selectedTemplateId = '';
+        if (template) this.applyTemplate(template);
+    }
+
+    /**
+     * Fill the form from a template. Empty text fields are filled; medicines,
+     * examinations, illnesses and codes are added to what is already entered.
+     * Template medicines go through the same allergy check as typed ones.
+     */
+    async applyTemplate(template: VisitTemplate): Promise<void> {
+        const f = template.fields;
+        for (const illness of f.presentIllness || []) {
+            if (!this.presentIllnesses.some(i => i.description.toLowerCase() === illness.toLowerCase())) {
+                this.presentIllnesses.push({ description: illness });
+            }
+        }
+        if (f.chiefComplaints && !this.chiefComplaintsText.trim()) this.chiefComplaintsText = f.chiefComplaints;
+        if (f.diagnosis && !this.diagnosis.trim()) this.diagnosis = f.diagnosis;
+        if (f.diagnosisCodes?.length) this.diagnosisCodes = normalizeDiagnosisCodes([...this.diagnosisCodes, ...f.diagnosisCodes]);
+        if (f.treatmentPlan && !this.treatmentPlan.trim()) this.treatmentPlan = f.treatmentPlan;
+        if (f.advice && !this.advice.trim()) this.advice = f.advice;
+        if (f.followUpDays && !this.followUpDate) {
+            this.followUpDate = addDaysLocalISO(f.followUpDays);
+            this.onFollowUpDateChange();
+        }
+        for (const exam of f.examinations || []) {
+            if (!this.examinations.some(e => e.testName.toLowerCase() === exam.testName.toLowerCase())) {
+                this.examinations.push({ ...exam });
+            }
+        }
+
+        const skipped: string[] = [];
+        for (const medicine of f.medicines || []) {
+            if (this.medicines.some(m => m.name.toLowerCase() === medicine.name.toLowerCase())) continue;
+            const conflicts = findAllergyConflicts(medicine.name, allergySubstances(this.existingAllergies));
+            if (conflicts.length && !(await this.acknowledgeAllergyConflicts(conflicts))) {
+                skipped.push(medicine.name);
+                continue;
+            }
+            this.medicines.push({ ...medicine });
+        }
+
+        this.ngZone.run(() => {
+            this.errorMessage = '';
+            this.templateMessage = skipped.length
+                ? `Applied “${template.name}” without ${skipped.join(', ')}`
+                : `Applied “${template.name}”`;
+            this.cdr.detectChanges();
+        });
+        this.scheduleDraftSave();
+    }
+
+    /** Current form contents as template fields (vitals and patient history are never templated) */
+    private buildTemplateFields(): VisitTemplateFields {
+        const followUpDays = this.followUpDate ? daysFromTodayLocal(this.followUpDate) : 0;
+        return cleanTemplateFields({
+            presentIllness: this.presentIllnesses.map(i => i.description),
+            chiefComplaints: this.chiefComplaintsText,
+            diagnosis: this.diagnosis,
+            diagnosisCodes: this.diagnosisCodes,
+            examinations: this.examinations,
+            medicines: this.medicines,
+            treatmentPlan: this.treatmentPlan,
+            advice: this.advice,
+            followUpDays
+        });
+    }
+
+    async saveAsTemplate(): Promise<void> {
+        const fields = this.buildTemplateFields();
+        if (describeTemplateFields(fields).length === 0) {
+            this.errorMessage = 'Fill in some of the visit form before saving it as a template';
+            return;
+        }
+        const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+        const result = await Swal.fire({
+            title: 'Save as template',
+            html: `<p class="template-save-summary">${escapeHtml(describeTemplateFields(fields).join(' · '))}</p>`,
+            input: 'text',
+            inputLabel: 'Template name',
+            inputPlaceholder: 'e.g. Viral fever adult',
+            inputValidator: (value: string) => !value?.trim() ? 'A name is required' : null,
+            showCancelButton: true,
+            confirmButtonText: 'Save template',
+            confirmButtonColor: '#6366f1',
+            cancelButtonColor: '#6b7280',
+            background: isDark ? '#1f1f1f' : '#ffffff',
+            color: isDark ? '#e0e0e0' : '#1e293b',
+        });
+        if (!result.isConfirmed) return;
+
+        this.isSavingTemplate = true;
+        try {
+            const name = String(result.value).trim();
+            await this.templateService.saveTemplate({ name, fields, shared: false });
+            await this.loadTemplates();
+            this.ngZone.run(() => {
+                this.templateMessage = `Template “${name}” saved. Share it with the clinic from Visit Templates.`;
+                this.isSavingTemplate = false;
+                this.cdr.detectChanges();
+            });
+        } catch {
+            this.ngZone.run(() => {
+                this.errorMessage = 'Failed to save the template. Please try again.';
+                this.isSavingTemplate = false;
+                this.cdr.detectChanges();
+            });
+        }
+    }
+
     // ── Present Illness ───────────────────────────────────────
     onIllnessKeydown(event: KeyboardEvent): void {
         if (event.key === 'Enter') {
@@ -163,41 +583,208 @@ export class AddVisitPageComponent implements OnInit {
     removeIllness(index: number): void { this.presentIllnesses.splice(index, 1); }
 
     // ── Allergies ─────────────────────────────────────────────
-    onAllergyKeydown(event: KeyboardEvent): void {
-        if (event.key === 'Enter') { event.preventDefault(); this.addNewAllergy(); }
+    onAllergiesChange(allergies: Allergy[]): void {
+        this.existingAllergies = allergies;
+        this.scheduleDraftSave();
     }
-    onAllergyBlur(): void { this.addNewAllergy(); }
-    addNewAllergy(): void {
-        const trimmed = this.newAllergyInput.trim();
-        if (trimmed && !this.existingAllergies.includes(trimmed)) { this.existingAllergies.push(trimmed); }
-        this.newAllergyInput = '';
+
+    // ── Problem list ──────────────────────────────────────────
+    onProblemsChange(problems: Problem[]): void {
+        this.existingProblems = problems;
+        this.scheduleDraftSave();
     }
-    removeAllergy(index: number): void { this.existingAllergies.splice(index, 1); }
 
-    // ── Ailments ──────────────────────────────────────────────
-    onAilmentKeydown(event: KeyboardEvent): void {
-        if (event.key === 'Enter') { event.preventDefault(); this.addNewAilment(); }
+    get activeProblems(): Problem[] {
+        return activeProblems(this.existingProblems);
     }
-    onAilmentBlur(): void { this.addNewAilment(); }
-    addNewAilment(): void {
-        const trimmed = this.newAilmentInput.trim();
-        if (trimmed && !this.existingAilments.includes(trimmed)) { this.existingAilments.push(trimmed); }
-        this.newAilmentInput = '';
+
+    /** "Hypertension (I10) · since Mar 2019" */
+    describeActiveProblem(problem: Problem): string {
+        const since = problem.onsetDate
+            ? ` · since ${problem.onsetDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`
+            : '';
+        return `${formatProblem(problem)}${since}`;
     }
-    removeAilment(index: number): void { this.existingAilments.splice(index, 1); }
 
     // ── Medicines ─────────────────────────────────────────────
-    addMedicineChip(): void {
+    async addMedicineChip(): Promise<void> {
         const name = this.newMedicineName.trim();
         if (!name) return;
-        this.medicines.push({ name, dosage: this.newMedicineDosage.trim(), frequency: this.newMedicineFrequency.trim() });
+        const medicine = cleanMedicine({
+            name,
+            dosage: this.newMedicineDosage,
+            frequency: this.newMedicineFrequency,
+            duration: this.newMedicineDuration,
+            route: this.newMedicineRoute,
+            quantity: this.newMedicineQuantity ?? undefined,
+            instructions: this.newMedicineInstructions
+        });
+        // Clear first so a blur while the warning is open doesn't add it twice
         this.newMedicineName = ''; this.newMedicineDosage = ''; this.newMedicineFrequency = '';
+        this.newMedicineDuration = ''; this.newMedicineRoute = ''; this.newMedicineQuantity = null;
+        this.newMedicineInstructions = '';
+        this.selectedFormularyDrug = null;
+        this.closeMedicineSuggestions();
+
+        const conflicts = findAllergyConflicts(medicine.name, allergySubstances(this.existingAllergies));
+        if (conflicts.length && !(await this.acknowledgeAllergyConflicts(conflicts))) {
+            this.cdr.detectChanges();
+            return;
+        }
+        this.medicines.push(medicine);
+        this.cdr.detectChanges();
+        this.scheduleDraftSave();
     }
     onMedicineKeydown(event: KeyboardEvent): void {
         if (event.key === 'Enter') { event.preventDefault(); this.addMedicineChip(); }
     }
     onMedicineBlur(): void { this.addMedicineChip(); }
-    removeMedicine(index: number): void { this.medicines.splice(index, 1); }
+
+    // ── Formulary autocomplete ────────────────────────────────
+    onMedicineNameInput(): void {
+        const name = this.newMedicineName.trim();
+        this.medicineSuggestions = searchFormulary(this.formularyDrugs, name);
+        this.activeSuggestionIndex = -1;
+        this.showMedicineSuggestions = name.length > 0;
+        this.selectedFormularyDrug = this.findFormularyDrug(name);
+    }
+    onMedicineNameKeydown(event: KeyboardEvent): void {
+        const count = this.medicineSuggestions.length;
+        if (this.showMedicineSuggestions && count > 0 && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+            event.preventDefault();
+            const step = event.key === 'ArrowDown' ? 1 : -1;
+            this.activeSuggestionIndex = (this.activeSuggestionIndex + step + count) % count;
+            return;
+        }
+        if (event.key === 'Enter' && this.showMedicineSuggestions && this.activeSuggestionIndex >= 0) {
+            event.preventDefault();
+            this.selectFormularyDrug(this.medicineSuggestions[this.activeSuggestionIndex]);
+            return;
+        }
+        if (event.key === 'Escape') { this.closeMedicineSuggestions(); return; }
+        this.onMedicineKeydown(event);
+    }
+    closeMedicineSuggestions(): void {
+        this.showMedicineSuggestions = false;
+        this.activeSuggestionIndex = -1;
+    }
+
+    /** Fill the line from the formulary entry without overwriting anything already typed */
+    selectFormularyDrug(drug: FormularyDrug): void {
+        this.newMedicineName = drug.genericName;
+        this.selectedFormularyDrug = drug;
+        if (!this.newMedicineDosage.trim() && drug.strengths.length) this.newMedicineDosage = drug.strengths[0];
+        if (!this.newMedicineFrequency.trim() && drug.defaultFrequency) this.newMedicineFrequency = drug.defaultFrequency;
+        if (!this.newMedicineRoute && drug.defaultRoute && this.medicineRoutes.includes(drug.defaultRoute)) {
+            this.newMedicineRoute = drug.defaultRoute;
+        }
+        this.closeMedicineSuggestions();
+        this.cdr.detectChanges();
+    }
+
+    /** True when the typed name is not in the formulary yet */
+    get canAddToFormulary(): boolean {
+        return this.newMedicineName.trim().length > 0 && !this.findFormularyDrug(this.newMedicineName);
+    }
+
+    /** Add the drug being typed to the formulary, using the line's dosage/frequency/route as defaults */
+    async addMissingToFormulary(): Promise<void> {
+        const genericName = this.newMedicineName.trim();
+        if (!genericName || this.isAddingToFormulary) return;
+        this.isAddingToFormulary = true;
+        try {
+            await this.formularyService.addDrug({
+                genericName,
+                brands: [],
+                strengths: this.newMedicineDosage.trim() ? [this.newMedicineDosage.trim()] : [],
+                forms: [],
+                ...(this.newMedicineFrequency.trim() ? { defaultFrequency: this.newMedicineFrequency.trim() } : {}),
+                ...(this.newMedicineRoute ? { defaultRoute: this.newMedicineRoute } : {})
+            });
+            await this.loadFormulary();
+            this.ngZone.run(() => {
+                this.selectedFormularyDrug = this.findFormularyDrug(genericName);
+                this.closeMedicineSuggestions();
+                this.isAddingToFormulary = false;
+                this.cdr.detectChanges();
+            });
+        } catch {
+            this.ngZone.run(() => {
+                this.errorMessage = 'Failed to add the drug to the formulary. Please try again.';
+                this.isAddingToFormulary = false;
+                this.cdr.detectChanges();
+            });
+        }
+    }
+
+    private findFormularyDrug(name: string): FormularyDrug | null {
+        const key = formularyKey(name);
+        if (!key) return null;
+        return this.formularyDrugs.find(d =>
+            formularyKey(d.genericName) === key || d.brands.some(b => formularyKey(b) === key)
+        ) ?? null;
+    }
+    removeMedicine(index: number): void {
+        const [removed] = this.medicines.splice(index, 1);
+        if (removed && !this.medicines.some(m => m.name === removed.name)) {
+            this.allergyOverrides = this.allergyOverrides.filter(o => o.medicine !== removed.name);
+        }
+    }
+
+    // ── Drug–allergy conflicts ────────────────────────────────
+    hasAllergyOverride(medicineName: string): boolean {
+        return this.allergyOverrides.some(o => o.medicine === medicineName);
+    }
+
+    /** Conflicts in the current prescription that have not been acknowledged yet */
+    private getUnacknowledgedConflicts(): AllergyConflict[] {
+        const substances = allergySubstances(this.existingAllergies);
+        return this.medicines
+            .flatMap(m => findAllergyConflicts(m.name, substances))
+            .filter(c => !this.allergyOverrides.some(o => o.medicine === c.medicine && o.allergy === c.allergy));
+    }
+
+    /**
+     * Blocking warning; the doctor must give a reason to prescribe anyway.
+     * Resolves true (and records the override) only when acknowledged.
+     */
+    private async acknowledgeAllergyConflicts(conflicts: AllergyConflict[]): Promise<boolean> {
+        const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+        const items = conflicts.map(c => `<li>${escapeHtml(describeAllergyConflict(c))}</li>`).join('');
+        const result = await Swal.fire({
+            title: 'Allergy conflict',
+            html: `<ul class="allergy-conflict-list">${items}</ul>`,
+            icon: 'error',
+            input: 'textarea',
+            inputLabel: 'Reason for prescribing anyway',
+            inputPlaceholder: 'e.g. Tolerated previously without reaction',
+            inputValidator: (value: string) => !value?.trim() ? 'A reason is required to override this warning' : null,
+            showCancelButton: true,
+            confirmButtonText: 'Prescribe anyway',
+            cancelButtonText: "Don't prescribe",
+            confirmButtonColor: '#ef4444',
+            cancelButtonColor: '#6b7280',
+            allowOutsideClick: false,
+            background: isDark ? '#1f1f1f' : '#ffffff',
+            color: isDark ? '#e0e0e0' : '#1e293b',
+        });
+        if (!result.isConfirmed) return false;
+
+        const user = this.authService.currentUserValue;
+        const acknowledgedBy = user?.name || user?.email || 'Unknown';
+        const reason = String(result.value).trim();
+        for (const c of conflicts) {
+            this.allergyOverrides.push({
+                medicine: c.medicine,
+                allergy: c.allergy,
+                ...(c.allergenClass ? { allergenClass: c.allergenClass } : {}),
+                reason,
+                acknowledgedBy,
+                acknowledgedAt: new Date()
+            });
+        }
+        return true;
+    }
 
     // ── Examinations ──────────────────────────────────────────
     addExaminationChip(): void {
@@ -212,6 +799,36 @@ export class AddVisitPageComponent implements OnInit {
     onExaminationBlur(): void { this.addExaminationChip(); }
     removeExamination(index: number): void { this.examinations.splice(index, 1); }
 
+    // ── Lab orders ────────────────────────────────────────────
+    addLabTestOrder(): void {
+        const typed = this.newLabTestName.trim();
+        if (!typed) return;
+        // Use the catalog spelling so results prefill with the right analytes
+        const name = findLabTest(typed)?.name ?? typed;
+        if (!this.labTestOrders.some(t => t.toLowerCase() === name.toLowerCase())) {
+            this.labTestOrders.push(name);
+        }
+        this.newLabTestName = '';
+    }
+    onLabTestKeydown(event: KeyboardEvent): void {
+        if (event.key === 'Enter') { event.preventDefault(); this.addLabTestOrder(); }
+    }
+    removeLabTestOrder(index: number): void { this.labTestOrders.splice(index, 1); }
+
+    // ── Vitals ────────────────────────────────────────────────
+    get computedBmi(): number | undefined {
+        return calculateBmi(this.vitals.heightCm, this.vitals.weightKg);
+    }
+    vitalStatus(key: VitalKey): VitalStatus {
+        if (key === 'bmi') return getVitalStatus('bmi', this.computedBmi);
+        return getVitalStatus(key, this.vitals[key]);
+    }
+    vitalRangeLabel(key: VitalKey): string { return getVitalRangeLabel(key); }
+    get hasVitalFlags(): boolean {
+        return (['systolicBp', 'diastolicBp', 'pulse', 'temperature', 'spo2', 'respiratoryRate', 'bmi'] as VitalKey[])
+            .some(key => this.vitalStatus(key) !== 'normal');
+    }
+
     // ── Visit History helpers ─────────────────────────────────
     toggleVisitExpand(visitId: string): void {
         if (this.expandedVisitIds.has(visitId)) {
@@ -224,39 +841,156 @@ export class AddVisitPageComponent implements OnInit {
         return visitId ? this.expandedVisitIds.has(visitId) : false;
     }
 
+    // ── Print ─────────────────────────────────────────────────
+    /** Clinical content of the form, shared by Save and the print preview */
+    private buildVisitContent(): Omit<Visit, 'id' | 'visitType' | 'createdAt' | 'updatedAt'> {
+        const visitData: Omit<Visit, 'id' | 'visitType' | 'createdAt' | 'updatedAt'> = {
+            chiefComplaints: this.chiefComplaintsText.trim(),
+            diagnosis: this.diagnosis.trim(),
+            examination: this.formatExaminations(),
+            treatmentPlan: this.treatmentPlan.trim(),
+            advice: this.advice.trim(),
+        };
+        const vitals: Vitals | undefined = cleanVitals(this.vitals);
+        if (vitals) visitData.vitals = vitals;
+        const diagnosisCodes = normalizeDiagnosisCodes(this.diagnosisCodes);
+        if (diagnosisCodes.length) visitData.diagnosisCodes = diagnosisCodes;
+        const presentIllnessText = this.formatArrayField(this.presentIllnesses);
+        if (presentIllnessText) visitData.presentIllness = presentIllnessText;
+        const medicines = this.medicines.filter(m => m.name.trim()).map(cleanMedicine);
+        if (medicines.length) visitData.medicines = medicines;
+        if (this.followUpDate) visitData.followUpDate = new Date(`${this.followUpDate}T00:00:00`);
+        const overrides = this.allergyOverrides.filter(o =>
+            medicines.some(m => m.name === o.medicine) && allergySubstances(this.existingAllergies).includes(o.allergy));
+        if (overrides.length) visitData.allergyOverrides = overrides;
+        const problemChanges = diffProblems(this.patient?.ailments, this.existingProblems);
+        if (problemChanges.length) visitData.problemChanges = problemChanges;
+        const doctorEmail = this.authService.currentUserValue?.email;
+        if (doctorEmail) visitData.doctorId = normalizeEmail(doctorEmail);
+        return visitData;
+    }
+
+    /** Preview the prescription as currently filled in, without saving */
+    printDraft(): void {
+        if (!this.patient) return;
+        if (!this.printService.print(this.patient, { ...this.buildVisitContent(), createdAt: new Date() })) {
+            this.errorMessage = 'Allow pop-ups for this site to print the prescription';
+        }
+    }
+
+    async saveAndPrint(): Promise<void> {
+        // Open the tab while still inside the click handler so it isn't blocked
+        const printWindow = this.printService.openWindow();
+        if (!printWindow) {
+            this.errorMessage = 'Allow pop-ups for this site to print the prescription';
+            return;
+        }
+        const saved = await this.onSubmit(printWindow);
+        if (!saved) printWindow.close();
+    }
+
+    // ── Follow-up ─────────────────────────────────────────────
+    /** "Follow-up in N days/weeks" sets the follow-up date */
+    onFollowUpIntervalChange(): void {
+        const amount = Math.floor(Number(this.followUpAmount));
+        if (!amount || amount < 1) {
+            this.followUpDate = '';
+            return;
+        }
+        this.followUpDate = addDaysLocalISO(this.followUpUnit === 'weeks' ? amount * 7 : amount);
+    }
+
+    /** Keep the interval in step when a date is picked directly */
+    onFollowUpDateChange(): void {
+        const days = this.followUpDate ? daysFromTodayLocal(this.followUpDate) : 0;
+        if (days < 1) {
+            this.followUpAmount = null;
+        } else if (days % 7 === 0) {
+            this.followUpAmount = days / 7;
+            this.followUpUnit = 'weeks';
+        } else {
+            this.followUpAmount = days;
+            this.followUpUnit = 'days';
+        }
+    }
+
+    /**
+     * Book the follow-up with the same doctor and clinic in the first free slot of the day.
+     * Returns a line for the confirmation dialog; never throws so the saved visit is not affected.
+     */
+    private async bookFollowUpAppointment(patient: Patient): Promise<{ booked: boolean; message: string }> {
+        const dateLabel = new Date(`${this.followUpDate}T00:00:00`)
+            .toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+        if (isClosedDay(this.followUpDate, DEFAULT_SYSTEM_SETTINGS.timeSlots)) {
+            return { booked: false, message: `The clinic is closed on ${dateLabel} — book the follow-up from Appointments.` };
+        }
+        try {
+            const doctorEmail = normalizeEmail(this.authService.currentUserValue?.email || '');
+            const bookedSlots = await this.appointmentService.getBookedSlotsForDate(this.followUpDate, doctorEmail || undefined);
+            const slot = findFollowUpSlot(this.followUpDate, bookedSlots, DEFAULT_SYSTEM_SETTINGS.timeSlots);
+            if (!slot) {
+                return { booked: false, message: `No free slot on ${dateLabel} — book the follow-up from Appointments.` };
+            }
+
+            await this.appointmentService.createAppointment({
+                patientId: patient.uniqueId,
+                patientName: patient.name,
+                patientPhone: patient.phone,
+                patientFamilyId: patient.familyId ?? '',
+                appointmentDate: new Date(`${this.followUpDate}T00:00:00`),
+                appointmentTime: slot,
+                reason: 'Follow-up',
+                status: 'scheduled',
+                isNewPatient: false,
+                doctorId: doctorEmail,
+                clinicId: this.clinicContextService.getSelectedClinicId() || patient.clinicId || undefined,
+                subscriptionId: this.clinicContextService.getSubscriptionId() || undefined
+            });
+            return { booked: true, message: `Follow-up booked for ${dateLabel} at ${slot}.` };
+        } catch {
+            return { booked: false, message: 'The follow-up appointment could not be booked — please book it from Appointments.' };
+        }
+    }
+
     // ── Submit ────────────────────────────────────────────────
-    async onSubmit(): Promise<void> {
+    async onSubmit(printWindow?: Window | null): Promise<boolean> {
         this.errorMessage = '';
         this.successMessage = '';
         if (!this.chiefComplaintsText.trim()) {
             this.errorMessage = 'Chief complaints is required';
-            return;
+            return false;
         }
         if (this.chiefComplaintsText.length > 200) {
             this.errorMessage = 'Chief complaints cannot exceed 200 characters';
-            return;
+            return false;
         }
         if (this.diagnosis.length > 200) {
             this.errorMessage = 'Diagnosis cannot exceed 200 characters';
-            return;
+            return false;
         }
         if (this.treatmentPlan.length > 200) {
             this.errorMessage = 'Treatment plan cannot exceed 200 characters';
-            return;
+            return false;
         }
-        if (!this.patient) return;
+        if (!this.patient) return false;
+
+        // Allergies may have been added after a medicine was prescribed
+        const pendingConflicts = this.getUnacknowledgedConflicts();
+        if (pendingConflicts.length && !(await this.acknowledgeAllergyConflicts(pendingConflicts))) {
+            this.errorMessage = 'Remove the conflicting medicine or record a reason to prescribe it';
+            return false;
+        }
+
         this.isSubmitting = true;
         try {
             const patientId = this.patient.uniqueId;
 
-            // Update allergies/ailments if changed
-            const allergiesText = this.existingAllergies.join(', ');
-            if (allergiesText !== (this.patient.allergies || '').trim()) {
-                await this.patientService.updatePatient(patientId, { allergies: allergiesText });
+            // Update allergies/problem list if changed
+            if (allergiesChanged(this.existingAllergies, this.patient.allergies)) {
+                await this.patientService.updatePatient(patientId, { allergies: this.existingAllergies.map(cleanAllergy) });
             }
-            const ailmentsText = this.existingAilments.join(', ');
-            if (ailmentsText !== (this.patient.ailments || '').trim()) {
-                await this.patientService.updatePatient(patientId, { ailments: ailmentsText });
+            if (problemsChanged(this.existingProblems, this.patient.ailments)) {
+                await this.patientService.updatePatient(patientId, { ailments: this.existingProblems.map(cleanProblem) });
             }
 
             // ── Check for a matching appointment BEFORE saving the visit ──
@@ -291,19 +1025,13 @@ export class AddVisitPageComponent implements OnInit {
             const visitType = matchedAppointment?.id ? 'appointment' : 'walk-in';
 
             // Save visit
-            const visitData: any = {
-                visitType,
-                chiefComplaints: this.chiefComplaintsText.trim(),
-                diagnosis: this.diagnosis.trim(),
-                examination: this.formatExaminations(),
-                treatmentPlan: this.treatmentPlan.trim(),
-            };
-            const presentIllnessText = this.formatArrayField(this.presentIllnesses);
-            if (presentIllnessText) visitData.presentIllness = presentIllnessText;
-            const medicinesText = this.formatMedicines();
-            if (medicinesText) visitData.medicines = medicinesText;
-
-            await this.patientService.addVisit(patientId, visitData);
+            const visitData: Omit<Visit, 'id' | 'createdAt' | 'updatedAt'> = { visitType, ...this.buildVisitContent() };
+
+            const visitId = await this.patientService.addVisit(patientId, visitData);
+
+            if (printWindow) {
+                this.printService.print(this.patient, { ...visitData, createdAt: new Date() }, printWindow);
+            }
 
             // ── Auto-complete the matched appointment ──────────────
             if (matchedAppointment?.id) {
@@ -314,25 +1042,49 @@ export class AddVisitPageComponent implements OnInit {
                 }
             }
 
+            // ── Place lab orders and book the follow-up ────────────
+            const notices: string[] = [];
+            let hasProblem = false;
+            if (this.labTestOrders.length) {
+                try {
+                    await this.labOrderService.createLabOrders(this.patient, this.labTestOrders, visitId);
+                    notices.push(`${this.labTestOrders.length} lab test${this.labTestOrders.length === 1 ? '' : 's'} ordered.`);
+                } catch {
+                    hasProblem = true;
+                    notices.push('The lab orders could not be saved — please order them again from the patient page.');
+                }
+            }
+            if (this.bookFollowUp && this.followUpDate) {
+                const followUp = await this.bookFollowUpAppointment(this.patient);
+                hasProblem = hasProblem || !followUp.booked;
+                notices.push(followUp.message);
+            }
+
             this.isSubmitting = false;
+            this.visitSaved = true;
+            clearTimeout(this.draftTimer);
+            this.draftService.deleteDraft(patientId).catch(() => { /* offered again next time */ });
 
             const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
             await Swal.fire({
                 title: 'Visit Added!',
-                text: 'The new visit has been recorded.',
-                icon: 'success',
+                text: ['The new visit has been recorded.', ...notices].join(' '),
+                icon: hasProblem ? 'warning' : 'success',
                 confirmButtonText: 'OK',
                 confirmButtonColor: '#6366f1',
-                timer: 2000,
-                timerProgressBar: true,
+                // Leave a problem on screen until it is read
+                timer: hasProblem ? undefined : (notices.length ? 3500 : 2000),
+                timerProgressBar: !hasProblem,
                 background: isDark ? '#1f1f1f' : '#ffffff',
                 color: isDark ? '#e0e0e0' : '#1e293b',
             });
 
             this.router.navigate(['/patient', patientId]);
+            return true;
         } catch (error: any) {
             this.isSubmitting = false;
             this.errorMessage = `Failed to save visit: ${error?.message || 'An unexpected error occurred'}`;
+            return false;
         }
     }
 
@@ -344,33 +1096,43 @@ export class AddVisitPageComponent implements OnInit {
         }
     }
 
-    onCancel(): void {
-        const allergiesChanged = this.existingAllergies.length !== this.originalAllergies.length ||
-            this.existingAllergies.some(a => !this.originalAllergies.includes(a));
-        const ailmentsChanged = this.existingAilments.length !== this.originalAilments.length ||
-            this.existingAilments.some(a => !this.originalAilments.includes(a));
+    /** True when anything was entered beyond the patient's recorded allergies and problem list */
+    private hasUnsavedInput(): boolean {
 
-        const hasData = this.chiefComplaintsText.trim() || this.presentIllnesses.length ||
-            allergiesChanged || ailmentsChanged ||
-            this.diagnosis.trim() || this.treatmentPlan.trim() ||
-            this.examinations.length || this.medicines.length;
+        return !!(this.chiefComplaintsText.trim() || this.presentIllnesses.length ||
+            allergiesChanged(this.existingAllergies, this.originalAllergies) ||
+            problemsChanged(this.existingProblems, this.originalProblems) ||
+            this.diagnosis.trim() || this.diagnosisCodes.length || this.treatmentPlan.trim() || this.advice.trim() || this.followUpDate ||
+            this.examinations.length || this.labTestOrders.length || this.medicines.length || !!cleanVitals(this.vitals));
+    }
 
-        if (hasData) {
+    onCancel(): void {
+        if (this.hasUnsavedInput()) {
             const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
             Swal.fire({
-                title: 'Discard changes?',
-                text: 'All unsaved data will be lost.',
+                title: 'Leave this visit?',
+                text: 'Your notes are kept as a draft you can resume later, or you can discard them.',
                 icon: 'warning',
                 showConfirmButton: true,
-                confirmButtonText: 'Yes, cancel',
+                confirmButtonText: 'Discard',
                 confirmButtonColor: '#ef4444',
                 showDenyButton: true,
-                denyButtonText: 'Keep editing',
+                denyButtonText: 'Keep draft',
                 denyButtonColor: '#6366f1',
+                showCancelButton: true,
+                cancelButtonText: 'Keep editing',
                 background: isDark ? '#1f1f1f' : '#ffffff',
                 color: isDark ? '#e0e0e0' : '#1e293b',
-            }).then(result => {
+            }).then(async result => {
                 if (result.isConfirmed) {
+                    // Stop ngOnDestroy from saving the notes again
+                    this.draftsEnabled = false;
+                    clearTimeout(this.draftTimer);
+                    if (this.patient && (this.hasStoredDraft || this.resumableDraft)) {
+                        await this.draftService.deleteDraft(this.patient.uniqueId).catch(() => { /* offered again next time */ });
+                    }
+                    this.navigateBack();
+                } else if (result.isDenied) {
                     this.navigateBack();
                 }
             });
@@ -389,16 +1151,6 @@ export class AddVisitPageComponent implements OnInit {
             .map(e => `${e.testName.trim()}: ${e.result.trim()}`)
             .join(', ');
     }
-    private formatMedicines(): string {
-        return this.medicines
-            .filter(m => m.name.trim())
-            .map(m => {
-                const parts = [m.name.trim()];
-                if (m.dosage.trim()) parts.push(m.dosage.trim());
-                if (m.frequency.trim()) parts.push(m.frequency.trim());
-                return parts.join(' - ');
-            }).join(', ');
-    }
 
     getInitials(name: string): string {
         if (!name) return '?';
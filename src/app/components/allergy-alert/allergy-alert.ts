@@ -0,0 +1,27 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Allergy } from '../../models/patient.model';
+import { formatAllergy, severeAllergies } from '../../utilities/allergyUtils';
+
+/**
+ * AllergyAlertComponent: red banner listing the patient's severe allergies.
+ * Renders nothing when none are recorded; it cannot be dismissed.
+ */
+@Component({
+  selector: 'app-allergy-alert',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './allergy-alert.html',
+  styleUrl: './allergy-alert.css'
+})
+export class AllergyAlertComponent {
+  @Input() allergies: Allergy[] | undefined = [];
+
+  get severe(): Allergy[] {
+    return severeAllergies(this.allergies);
+  }
+
+  format(allergy: Allergy): string {
+    return formatAllergy(allergy);
+  }
+}
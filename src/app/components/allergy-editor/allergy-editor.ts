@@ -0,0 +1,63 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Allergy } from '../../models/patient.model';
+import { ALLERGY_CATEGORIES, ALLERGY_SEVERITIES, createAllergy, mergeAllergies } from '../../utilities/allergyUtils';
+
+/**
+ * AllergyEditorComponent: list of structured allergy records with category,
+ * reaction and severity, plus a free-text box to add a substance.
+ * Usage: <app-allergy-editor [(allergies)]="allergies"></app-allergy-editor>
+ */
+@Component({
+  selector: 'app-allergy-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './allergy-editor.html',
+  styleUrl: './allergy-editor.css'
+})
+export class AllergyEditorComponent {
+  @Input() allergies: Allergy[] = [];
+  @Input() inputId: string = 'allergyInput';
+
+  @Output() allergiesChange = new EventEmitter<Allergy[]>();
+
+  readonly categories = ALLERGY_CATEGORIES;
+  readonly severities = ALLERGY_SEVERITIES;
+
+  newSubstance: string = '';
+
+  /** Rows are replaced on every edit; keep the DOM so the reaction box keeps focus */
+  trackByIndex(index: number): number {
+    return index;
+  }
+
+  onAddKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' || event.key === ',') {
+      // Never submit the surrounding form from the add box
+      event.preventDefault();
+      this.addSubstance();
+    }
+  }
+
+  addSubstance(): void {
+    const added = this.newSubstance.split(',').map(s => s.trim()).filter(s => s).map(s => createAllergy(s));
+    this.newSubstance = '';
+    if (!added.length) return;
+    const merged = mergeAllergies(this.allergies, added);
+    if (merged.length !== this.allergies.length) this.emit(merged);
+  }
+
+  updateAllergy(index: number, changes: Partial<Allergy>): void {
+    this.emit(this.allergies.map((a, i) => i === index ? { ...a, ...changes } : a));
+  }
+
+  removeAllergy(index: number): void {
+    this.emit(this.allergies.filter((_, i) => i !== index));
+  }
+
+  private emit(allergies: Allergy[]): void {
+    this.allergies = allergies;
+    this.allergiesChange.emit(allergies);
+  }
+}
@@ -4,6 +4,7 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { NavbarComponent } from '../navbar/navbar';
+import { PatientAvatarComponent } from '../patient-avatar/patient-avatar';
 import { AppointmentService } from '../../services/appointmentService';
 import { Appointment } from '../../models/appointment.model';
 import { PatientService } from '../../services/patient';
@@ -27,7 +28,7 @@ export interface KanbanColumn {
 @Component({
   selector: 'app-appointments-list',
   standalone: true,
-  imports: [CommonModule, FormsModule, NavbarComponent],
+  imports: [CommonModule, FormsModule, NavbarComponent, PatientAvatarComponent],
   templateUrl: './appointments-list.html',
   styleUrl: './appointments-list.css'
 })
@@ -224,7 +225,8 @@ export class AppointmentsListComponent implements OnInit, OnDestroy {
     if (cache.has(cacheKey)) return cache.get(cacheKey)!;
 
     const checkVisitsForPatientId = async (patientId: string): Promise<boolean> => {
-      const visits = await this.patientService.getPatientVisits(patientId);
+      // Newest first — a visit today is always on the first page
+      const { visits } = await this.patientService.getPatientVisitsPage(patientId);
       return visits.some(v => this.isSameLocalDay(new Date((v as any).createdAt), today));
     };
 
@@ -537,10 +539,10 @@ export class AppointmentsListComponent implements OnInit, OnDestroy {
   async openVisitFromAppointment(appt: Appointment): Promise<void> {
     const directPatientId = (appt.patientId || '').trim();
     if (directPatientId) {
-      // Keep patient ailments in sync with what was entered during appointment booking.
+      // Add ailments entered during appointment booking to the patient's problem list.
       if (appt.ailments && appt.ailments.trim()) {
         try {
-          await this.patientService.updatePatient(directPatientId, { ailments: appt.ailments });
+          await this.patientService.addPatientProblems(directPatientId, appt.ailments.split(','));
         } catch {
           // Don't block navigation if the update fails.
         }
@@ -0,0 +1,50 @@
+import { Component, EventEmitter, HostListener, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { Attachment } from '../../models/attachment.model';
+import { attachmentTypeLabel, formatFileSize, isImageAttachment, isPdfAttachment } from '../../utilities/attachmentUtils';
+import moment from 'moment';
+
+/**
+ * AttachmentViewerComponent: full-size inline viewer for an image or PDF attachment.
+ */
+@Component({
+  selector: 'app-attachment-viewer',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './attachment-viewer.html',
+  styleUrl: './attachment-viewer.css'
+})
+export class AttachmentViewerComponent implements OnChanges {
+  @Input() attachment: Attachment | null = null;
+
+  @Output() close = new EventEmitter<void>();
+
+  pdfUrl: SafeResourceUrl | null = null;
+
+  constructor(private sanitizer: DomSanitizer) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['attachment']) {
+      // Storage download URLs are our own bucket's signed links
+      this.pdfUrl = this.attachment && isPdfAttachment(this.attachment)
+        ? this.sanitizer.bypassSecurityTrustResourceUrl(this.attachment.downloadUrl)
+        : null;
+    }
+  }
+
+  get isImage(): boolean {
+    return !!this.attachment && isImageAttachment(this.attachment);
+  }
+
+  get subtitle(): string {
+    if (!this.attachment) return '';
+    const a = this.attachment;
+    return `${attachmentTypeLabel(a.type)} · ${formatFileSize(a.size)} · ${moment(a.createdAt).format('DD MMM YYYY')}`;
+  }
+
+  @HostListener('document:keydown.escape')
+  onClose(): void {
+    this.close.emit();
+  }
+}
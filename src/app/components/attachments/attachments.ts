@@ -0,0 +1,137 @@
+import { Component, EventEmitter, Input, NgZone, ChangeDetectorRef, Output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AttachmentService } from '../../services/attachmentService';
+import { Attachment, AttachmentType } from '../../models/attachment.model';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_TYPES,
+  attachmentTypeLabel,
+  formatFileSize,
+  isImageAttachment,
+  isPdfAttachment,
+  validateAttachmentFile
+} from '../../utilities/attachmentUtils';
+import Swal from 'sweetalert2';
+
+/**
+ * AttachmentsComponent: thumbnail list and upload form for the files of one
+ * visit, or of the patient record when no visitId is given.
+ */
+@Component({
+  selector: 'app-attachments',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './attachments.html',
+  styleUrl: './attachments.css'
+})
+export class AttachmentsComponent {
+  @Input() patientId: string = '';
+  @Input() visitId: string | undefined;
+  @Input() attachments: Attachment[] = [];
+  @Input() canDelete: boolean = false;
+
+  @Output() view = new EventEmitter<Attachment>();
+  @Output() changed = new EventEmitter<void>();
+
+  readonly attachmentTypes = ATTACHMENT_TYPES;
+  readonly accept = ATTACHMENT_ACCEPT;
+
+  isUploadOpen: boolean = false;
+  uploadType: AttachmentType = 'lab-report';
+  uploadDescription: string = '';
+  selectedFiles: File[] = [];
+  isUploading: boolean = false;
+  errorMessage: string = '';
+
+  private attachmentService = inject(AttachmentService);
+  private ngZone = inject(NgZone);
+  private cdr = inject(ChangeDetectorRef);
+
+  typeLabel(attachment: Attachment): string {
+    return attachmentTypeLabel(attachment.type);
+  }
+
+  fileSize(attachment: Attachment): string {
+    return formatFileSize(attachment.size);
+  }
+
+  isImage(attachment: Attachment): boolean {
+    return isImageAttachment(attachment);
+  }
+
+  isPdf(attachment: Attachment): boolean {
+    return isPdfAttachment(attachment);
+  }
+
+  toggleUpload(): void {
+    this.isUploadOpen = !this.isUploadOpen;
+    this.errorMessage = '';
+    this.selectedFiles = [];
+    this.uploadDescription = '';
+  }
+
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    const problems = files.map(f => validateAttachmentFile(f)).filter((p): p is string => !!p);
+    this.errorMessage = problems.join('. ');
+    this.selectedFiles = files.filter(f => !validateAttachmentFile(f));
+  }
+
+  async upload(): Promise<void> {
+    if (!this.patientId || this.selectedFiles.length === 0) return;
+    this.isUploading = true;
+    this.errorMessage = '';
+    const failed: string[] = [];
+    for (const file of this.selectedFiles) {
+      try {
+        await this.attachmentService.uploadAttachment(this.patientId, file, {
+          type: this.uploadType,
+          visitId: this.visitId,
+          description: this.uploadDescription
+        });
+      } catch {
+        failed.push(file.name);
+      }
+    }
+    this.ngZone.run(() => {
+      this.isUploading = false;
+      if (failed.length) {
+        this.errorMessage = `Could not upload ${failed.join(', ')}. Please try again.`;
+      } else {
+        this.isUploadOpen = false;
+        this.selectedFiles = [];
+        this.uploadDescription = '';
+      }
+      this.changed.emit();
+      this.cdr.detectChanges();
+    });
+  }
+
+  async deleteAttachment(attachment: Attachment): Promise<void> {
+    if (!this.canDelete) return;
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: 'Delete attachment?',
+      text: `“${attachment.fileName}” will be permanently removed.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Delete',
+      confirmButtonColor: '#ef4444',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await this.attachmentService.deleteAttachment(attachment);
+      this.changed.emit();
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to delete the attachment. Please try again.';
+        this.cdr.detectChanges();
+      });
+    }
+  }
+}
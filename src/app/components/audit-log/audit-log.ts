@@ -0,0 +1,125 @@
+// src/app/components/audit-log/audit-log.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { AuditLogService } from '../../services/auditLogService';
+import { AuthenticationService } from '../../services/authenticationService';
+import { AuthorizationService } from '../../services/authorizationService';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry
+} from '../../models/auditLog.model';
+import { addDaysLocalISO, todayLocalISO } from '../../utilities/local-date';
+
+/**
+ * AuditLogComponent: every clinical and scheduling write in the clinic, with
+ * filters by date, patient, user, action and record type.
+ * Only users with the canDelete permission may see it.
+ * Route: /audit-log
+ */
+@Component({
+  selector: 'app-audit-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent],
+  templateUrl: './audit-log.html',
+  styleUrl: './audit-log.css'
+})
+export class AuditLogComponent implements OnInit {
+  readonly actions = AUDIT_ACTIONS;
+  readonly entityTypes = Object.entries(AUDIT_ENTITY_LABELS) as Array<[AuditEntityType, string]>;
+
+  entries: AuditLogEntry[] = [];
+  fromDate = addDaysLocalISO(-30);
+  toDate = todayLocalISO();
+  patientFilter = '';
+  actorFilter = '';
+  actionFilter: AuditAction | '' = '';
+  entityFilter: AuditEntityType | '' = '';
+  canView = false;
+  isLoading = true;
+  errorMessage = '';
+
+  private router = inject(Router);
+  private auditLogService = inject(AuditLogService);
+  private authService = inject(AuthenticationService);
+  private authorizationService = inject(AuthorizationService);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async ngOnInit(): Promise<void> {
+    const email = this.authService.currentUserValue?.email || '';
+    this.canView = email ? await this.authorizationService.canUserDelete(email) : false;
+    if (!this.canView) {
+      this.ngZone.run(() => {
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+      return;
+    }
+    await this.load();
+  }
+
+  /** Everyone who appears in the loaded range, for the user filter */
+  get actors(): Array<{ id: string; name: string }> {
+    const byId = new Map<string, string>();
+    for (const e of this.entries) byId.set(e.actorId, e.actorName);
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get filteredEntries(): AuditLogEntry[] {
+    const patient = this.patientFilter.trim().toLowerCase();
+    return this.entries.filter(e =>
+      (!patient || (e.patientName || '').toLowerCase().includes(patient) || e.patientId?.toLowerCase() === patient) &&
+      (!this.actorFilter || e.actorId === this.actorFilter) &&
+      (!this.actionFilter || e.action === this.actionFilter) &&
+      (!this.entityFilter || e.entityType === this.entityFilter)
+    );
+  }
+
+  actionLabel(action: AuditAction): string {
+    return this.actions.find(a => a.value === action)?.label ?? action;
+  }
+
+  entityLabel(type: AuditEntityType): string {
+    return AUDIT_ENTITY_LABELS[type] ?? type;
+  }
+
+  async load(): Promise<void> {
+    this.isLoading = true;
+    this.errorMessage = '';
+    try {
+      const from = new Date(`${this.fromDate}T00:00:00`);
+      const to = new Date(`${this.toDate}T23:59:59.999`);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) throw new Error('Choose a start and end date');
+      const entries = await this.auditLogService.getEntries(from, to);
+      this.ngZone.run(() => {
+        this.entries = entries;
+        if (this.actorFilter && !entries.some(e => e.actorId === this.actorFilter)) this.actorFilter = '';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Failed to load the audit log';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  clearFilters(): void {
+    this.patientFilter = '';
+    this.actorFilter = '';
+    this.actionFilter = '';
+    this.entityFilter = '';
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+}
@@ -1,6 +1,7 @@
 import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Appointment } from '../../models/appointment.model';
+import { PatientAvatarComponent } from '../patient-avatar/patient-avatar';
 
 export interface DayViewSlot {
   time: string;       // "09:00", "09:30", etc.
@@ -14,7 +15,7 @@ export interface DayViewSlot {
 @Component({
   selector: 'app-day-view-modal',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PatientAvatarComponent],
   templateUrl: './day-view-modal.html',
   styleUrl: './day-view-modal.css'
 })
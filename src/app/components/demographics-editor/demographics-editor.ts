@@ -0,0 +1,81 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { EmergencyContact, GovernmentId, PatientAddress } from '../../models/patient.model';
+import { DEFAULT_SYSTEM_SETTINGS } from '../../config/systemSettings';
+import {
+  BLOOD_GROUPS,
+  GOVERNMENT_ID_TYPES,
+  PatientDemographics,
+  emptyDemographics
+} from '../../utilities/demographicsUtils';
+
+/**
+ * DemographicsEditorComponent: address, alternate phone, emergency contact,
+ * blood group, occupation, preferred language and government IDs.
+ * Shared by the new-patient and edit-patient forms; they validate on submit.
+ * Usage: <app-demographics-editor [(demographics)]="demographics"></app-demographics-editor>
+ */
+@Component({
+  selector: 'app-demographics-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './demographics-editor.html',
+  styleUrl: './demographics-editor.css'
+})
+export class DemographicsEditorComponent {
+  @Input() demographics: PatientDemographics = emptyDemographics();
+  @Input() idPrefix: string = 'patient';
+
+  @Output() demographicsChange = new EventEmitter<PatientDemographics>();
+
+  readonly bloodGroups = BLOOD_GROUPS;
+  readonly idTypes = GOVERNMENT_ID_TYPES;
+  readonly phoneMaxDigits = DEFAULT_SYSTEM_SETTINGS.patient.phoneMaxDigits;
+  readonly postalCodeDigits = DEFAULT_SYSTEM_SETTINGS.patient.postalCodeDigits;
+  readonly languages = ['English', 'Hindi', 'Bengali', 'Gujarati', 'Kannada', 'Malayalam', 'Marathi',
+    'Punjabi', 'Tamil', 'Telugu', 'Urdu'];
+  readonly relations = ['Spouse', 'Father', 'Mother', 'Son', 'Daughter', 'Brother', 'Sister', 'Friend', 'Guardian'];
+
+  /** Rows are replaced on every edit; keep the DOM so the number box keeps focus */
+  trackByIndex(index: number): number {
+    return index;
+  }
+
+  idPlaceholder(id: GovernmentId): string {
+    return this.idTypes.find(t => t.value === id.type)?.placeholder ?? '';
+  }
+
+  setField(key: 'alternatePhone' | 'bloodGroup' | 'occupation' | 'preferredLanguage', value: string): void {
+    this.emit({ ...this.demographics, [key]: value });
+  }
+
+  setAddress(key: keyof PatientAddress, value: string): void {
+    this.emit({ ...this.demographics, address: { ...this.demographics.address, [key]: value } });
+  }
+
+  setContact(key: keyof EmergencyContact, value: string): void {
+    this.emit({ ...this.demographics, emergencyContact: { ...this.demographics.emergencyContact, [key]: value } });
+  }
+
+  addGovernmentId(): void {
+    const used = new Set((this.demographics.governmentIds || []).map(id => id.type));
+    const type = this.idTypes.find(t => !used.has(t.value))?.value ?? 'other';
+    this.emit({ ...this.demographics, governmentIds: [...(this.demographics.governmentIds || []), { type, number: '' }] });
+  }
+
+  updateGovernmentId(index: number, changes: Partial<GovernmentId>): void {
+    const ids = (this.demographics.governmentIds || []).map((id, i) => i === index ? { ...id, ...changes } : id);
+    this.emit({ ...this.demographics, governmentIds: ids });
+  }
+
+  removeGovernmentId(index: number): void {
+    const ids = (this.demographics.governmentIds || []).filter((_, i) => i !== index);
+    this.emit({ ...this.demographics, governmentIds: ids });
+  }
+
+  private emit(demographics: PatientDemographics): void {
+    this.demographics = demographics;
+    this.demographicsChange.emit(demographics);
+  }
+}
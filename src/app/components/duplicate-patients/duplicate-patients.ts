@@ -0,0 +1,174 @@
+// src/app/components/duplicate-patients/duplicate-patients.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { PatientService } from '../../services/patient';
+import { Patient } from '../../models/patient.model';
+import { DuplicateMatch, duplicatePairKey, suggestSurvivor } from '../../utilities/duplicateUtils';
+import { escapeHtml } from '../../utilities/prescriptionDocument';
+import Swal from 'sweetalert2';
+
+const LS_DISMISSED_KEY = 'intellirx.dismissedDuplicates';
+
+/**
+ * DuplicatePatientsComponent: patients that look like the same person,
+ * compared side by side. The doctor picks the record to keep and merges the
+ * other into it, or marks the pair as different people.
+ * Route: /duplicates
+ */
+@Component({
+  selector: 'app-duplicate-patients',
+  standalone: true,
+  imports: [CommonModule, NavbarComponent],
+  templateUrl: './duplicate-patients.html',
+  styleUrl: './duplicate-patients.css'
+})
+export class DuplicatePatientsComponent implements OnInit {
+  matches: DuplicateMatch[] = [];
+  isLoading = true;
+  busyKey: string | null = null;
+  errorMessage = '';
+  successMessage = '';
+
+  /** uniqueId of the record to keep, by pair key */
+  survivorIds: Record<string, string> = {};
+  /** Visit counts shown in the comparison, by uniqueId */
+  visitCounts: Record<string, number | undefined> = {};
+
+  private dismissed = new Set<string>();
+
+  private router = inject(Router);
+  private patientService = inject(PatientService);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async ngOnInit(): Promise<void> {
+    this.dismissed = this.loadDismissed();
+    await this.scan();
+  }
+
+  async scan(): Promise<void> {
+    this.isLoading = true;
+    this.errorMessage = '';
+    try {
+      const matches = (await this.patientService.findDuplicatePatients())
+        .filter(m => !this.dismissed.has(this.pairKey(m)));
+      this.ngZone.run(() => {
+        this.matches = matches;
+        for (const m of matches) {
+          this.survivorIds[this.pairKey(m)] ??= suggestSurvivor(m.first, m.second).uniqueId;
+        }
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+      void this.loadVisitCounts(matches);
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to look for duplicate patients';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  private async loadVisitCounts(matches: DuplicateMatch[]): Promise<void> {
+    const ids = [...new Set(matches.flatMap(m => [m.first.uniqueId, m.second.uniqueId]))];
+    for (const id of ids) {
+      if (this.visitCounts[id] !== undefined) continue;
+      try {
+        const count = await this.patientService.getPatientVisitCount(id);
+        this.ngZone.run(() => {
+          this.visitCounts[id] = count;
+          this.cdr.detectChanges();
+        });
+      } catch {
+        // Counts are informational only
+      }
+    }
+  }
+
+  pairKey(match: DuplicateMatch): string {
+    return duplicatePairKey(match.first.uniqueId, match.second.uniqueId);
+  }
+
+  isSurvivor(match: DuplicateMatch, patient: Patient): boolean {
+    return this.survivorIds[this.pairKey(match)] === patient.uniqueId;
+  }
+
+  chooseSurvivor(match: DuplicateMatch, patient: Patient): void {
+    this.survivorIds[this.pairKey(match)] = patient.uniqueId;
+  }
+
+  scorePercent(match: DuplicateMatch): number {
+    return Math.round(match.score * 100);
+  }
+
+  async merge(match: DuplicateMatch): Promise<void> {
+    const key = this.pairKey(match);
+    const survivor = this.isSurvivor(match, match.first) ? match.first : match.second;
+    const duplicate = survivor === match.first ? match.second : match.first;
+
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: 'Merge these records?',
+      html: `Visits, attachments, appointments and lab orders of <b>${escapeHtml(duplicate.name)}</b>
+        (${escapeHtml(duplicate.phone)}) move to <b>${escapeHtml(survivor.name)}</b> (${escapeHtml(survivor.phone)}).
+        Links to the old record will open the kept one. This cannot be undone.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Merge',
+      confirmButtonColor: '#ef4444',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+
+    this.busyKey = key;
+    this.errorMessage = '';
+    this.successMessage = '';
+    try {
+      const moved = await this.patientService.mergePatients(survivor.uniqueId, duplicate.uniqueId);
+      this.ngZone.run(() => {
+        this.matches = this.matches.filter(m =>
+          m.first.uniqueId !== duplicate.uniqueId && m.second.uniqueId !== duplicate.uniqueId);
+        this.visitCounts[survivor.uniqueId] = (this.visitCounts[survivor.uniqueId] ?? 0) + moved;
+        this.successMessage = `${duplicate.name} merged into ${survivor.name} — ${moved} visit(s) moved`;
+      });
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Merge failed. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.busyKey = null;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  /** Hide a pair that are really different people; remembered in this browser */
+  notDuplicate(match: DuplicateMatch): void {
+    const key = this.pairKey(match);
+    this.dismissed.add(key);
+    localStorage.setItem(LS_DISMISSED_KEY, JSON.stringify([...this.dismissed]));
+    this.matches = this.matches.filter(m => this.pairKey(m) !== key);
+  }
+
+  openRecord(patient: Patient): void {
+    this.router.navigate(['/patient', patient.uniqueId]);
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+
+  private loadDismissed(): Set<string> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(LS_DISMISSED_KEY) || '[]');
+      return new Set(Array.isArray(stored) ? stored : []);
+    } catch {
+      return new Set();
+    }
+  }
+}
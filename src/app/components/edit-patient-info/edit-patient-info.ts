@@ -3,11 +3,15 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { PatientService } from '../../services/patient';
 import { Patient } from '../../models/patient.model';
+import { PatientDemographics, demographicsOf, demographicsUpdate, emptyDemographics } from '../../utilities/demographicsUtils';
+import { DemographicsEditorComponent } from '../demographics-editor/demographics-editor';
+import { PhotoCaptureComponent } from '../photo-capture/photo-capture';
+import { PatientPhotoService } from '../../services/patientPhotoService';
 
 @Component({
   selector: 'app-edit-patient-info',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, DemographicsEditorComponent, PhotoCaptureComponent],
   templateUrl: './edit-patient-info.html',
   styleUrl: './edit-patient-info.css'
 })
@@ -26,11 +30,20 @@ export class EditPatientInfoComponent implements OnInit, OnChanges {
   gender: string = '';
   familyId: string = '';
 
+  // Address, emergency contact, blood group, IDs…
+  demographics: PatientDemographics = emptyDemographics();
+
+  // New cropped photo, null to remove the stored one, undefined when untouched
+  photo: Blob | null | undefined = undefined;
+
   errorMessage: string = '';
   successMessage: string = '';
   isSubmitting: boolean = false;
 
-  constructor(private patientService: PatientService) {}
+  constructor(
+    private patientService: PatientService,
+    private photoService: PatientPhotoService
+  ) {}
 
   ngOnInit(): void {
     this.initializeForm();
@@ -53,6 +66,8 @@ export class EditPatientInfoComponent implements OnInit, OnChanges {
       this.email = this.patientData.email || '';
       this.gender = this.patientData.gender || '';
       this.familyId = this.patientData.familyId || '';
+      this.demographics = demographicsOf(this.patientData);
+      this.photo = undefined;
       
       // Format date for input
       if (this.patientData.dateOfBirth) {
@@ -120,6 +135,12 @@ export class EditPatientInfoComponent implements OnInit, OnChanges {
       return false;
     }
 
+    const demographicErrors = this.patientService.validateDemographics(this.demographics, this.phone);
+    if (demographicErrors.length) {
+      this.errorMessage = demographicErrors[0];
+      return false;
+    }
+
     return true;
   }
 
@@ -153,12 +174,16 @@ export class EditPatientInfoComponent implements OnInit, OnChanges {
         gender: this.gender || '',
         familyId: this.familyId,
         dateOfBirth: this.dateOfBirth ? new Date(this.dateOfBirth) : undefined,
+        ...demographicsUpdate(this.demographics),
         updatedAt: new Date()
       };
 
       await this.patientService.updatePatient(this.patientData.uniqueId, updatedPatient);
-      
-      this.successMessage = 'Patient information updated successfully!';
+
+      const photoSaved = await this.savePhoto(this.patientData);
+      this.successMessage = photoSaved
+        ? 'Patient information updated successfully!'
+        : 'Patient information updated, but the photo could not be saved.';
       this.isSubmitting = false;
 
       // Emit the patient ID to refresh the parent component
@@ -174,6 +199,21 @@ export class EditPatientInfoComponent implements OnInit, OnChanges {
     }
   }
 
+  /** Apply a photo change after the details are saved; false when it failed */
+  private async savePhoto(patient: Patient): Promise<boolean> {
+    if (this.photo === undefined) return true;
+    try {
+      if (this.photo) {
+        await this.photoService.setPhoto(patient, this.photo);
+      } else {
+        await this.photoService.removePhoto(patient);
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   onClose(): void {
     this.close.emit();
   }
@@ -0,0 +1,245 @@
+import { Component, EventEmitter, Input, OnChanges, OnInit, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { PatientService } from '../../services/patient';
+import { AuthenticationService } from '../../services/authenticationService';
+import { Allergy, AllergyOverride, CodedDiagnosis, Medicine, Visit, VisitEdit } from '../../models/patient.model';
+import { Icd10PickerComponent } from '../icd10-picker/icd10-picker';
+import { MEDICINE_ROUTES } from '../../utilities/prescriptionUtils';
+import { VitalKey, calculateBmi, cleanVitals } from '../../utilities/vitalsUtils';
+import { AllergyConflict, describeAllergyConflict, findAllergyConflicts } from '../../utilities/allergyConflictUtils';
+import { allergySubstances } from '../../utilities/allergyUtils';
+import { escapeHtml } from '../../utilities/prescriptionDocument';
+import Swal from 'sweetalert2';
+
+@Component({
+  selector: 'app-edit-visit',
+  standalone: true,
+  imports: [CommonModule, FormsModule, Icd10PickerComponent],
+  templateUrl: './edit-visit.html',
+  styleUrl: './edit-visit.css'
+})
+export class EditVisitComponent implements OnInit, OnChanges {
+  @Input() patientId: string = '';
+  @Input() visit: Visit | null = null;
+  @Input() allergies: Allergy[] = [];
+
+  @Output() close = new EventEmitter<void>();
+  @Output() visitUpdated = new EventEmitter<string>();
+
+  presentIllness: string = '';
+  chiefComplaints: string = '';
+  diagnosis: string = '';
+  diagnosisCodes: CodedDiagnosis[] = [];
+  examination: string = '';
+  treatmentPlan: string = '';
+  advice: string = '';
+  medicines: Medicine[] = [];
+  vitals: Partial<Record<VitalKey, number | null>> = {};
+  reason: string = '';
+  allergyOverrides: AllergyOverride[] = [];
+
+  readonly medicineRoutes = MEDICINE_ROUTES;
+  readonly vitalInputs: Array<{ key: VitalKey; label: string; unit: string; step: number }> = [
+    { key: 'systolicBp', label: 'BP Sys', unit: 'mmHg', step: 1 },
+    { key: 'diastolicBp', label: 'BP Dia', unit: 'mmHg', step: 1 },
+    { key: 'pulse', label: 'Pulse', unit: 'bpm', step: 1 },
+    { key: 'temperature', label: 'Temp', unit: '°F', step: 0.1 },
+    { key: 'spo2', label: 'SpO₂', unit: '%', step: 1 },
+    { key: 'respiratoryRate', label: 'Resp. Rate', unit: '/min', step: 1 },
+    { key: 'heightCm', label: 'Height', unit: 'cm', step: 0.5 },
+    { key: 'weightKg', label: 'Weight', unit: 'kg', step: 0.1 }
+  ];
+
+  errorMessage: string = '';
+  successMessage: string = '';
+  isSubmitting: boolean = false;
+
+  constructor(private patientService: PatientService, private authService: AuthenticationService) {}
+
+  ngOnInit(): void {
+    this.initializeForm();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['visit'] && this.visit) {
+      this.initializeForm();
+    }
+  }
+
+  private initializeForm(): void {
+    if (!this.visit) return;
+    this.presentIllness = this.visit.presentIllness || '';
+    this.chiefComplaints = this.visit.chiefComplaints || '';
+    this.diagnosis = this.visit.diagnosis || '';
+    this.diagnosisCodes = (this.visit.diagnosisCodes || []).map(d => ({ ...d }));
+    this.examination = this.visit.examination || '';
+    this.treatmentPlan = this.visit.treatmentPlan || '';
+    this.advice = this.visit.advice || '';
+    this.medicines = (this.visit.medicines || []).map(m => ({ ...m }));
+    this.vitals = { ...(this.visit.vitals || {}) };
+    this.allergyOverrides = [...(this.visit.allergyOverrides || [])];
+    this.reason = '';
+  }
+
+  get computedBmi(): number | undefined {
+    return calculateBmi(this.vitals.heightCm, this.vitals.weightKg);
+  }
+
+  addMedicineRow(): void {
+    this.medicines.push({ name: '', dosage: '', frequency: '' });
+  }
+
+  removeMedicineRow(index: number): void {
+    const [removed] = this.medicines.splice(index, 1);
+    if (removed && !this.medicines.some(m => m.name === removed.name)) {
+      this.allergyOverrides = this.allergyOverrides.filter(o => o.medicine !== removed.name);
+    }
+  }
+
+  // ── Drug–allergy conflicts ────────────────────────────────
+  /** Conflicts in the edited prescription that have not been acknowledged yet */
+  private getUnacknowledgedConflicts(): AllergyConflict[] {
+    const substances = allergySubstances(this.allergies);
+    return this.medicines
+      .flatMap(m => findAllergyConflicts(m.name, substances))
+      .filter(c => !this.allergyOverrides.some(o => o.medicine === c.medicine && o.allergy === c.allergy));
+  }
+
+  /**
+   * Blocking warning; the doctor must give a reason to prescribe anyway.
+   * Resolves true (and records the override) only when acknowledged.
+   */
+  private async acknowledgeAllergyConflicts(conflicts: AllergyConflict[]): Promise<boolean> {
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const items = conflicts.map(c => `<li>${escapeHtml(describeAllergyConflict(c))}</li>`).join('');
+    const result = await Swal.fire({
+      title: 'Allergy conflict',
+      html: `<ul class="allergy-conflict-list">${items}</ul>`,
+      icon: 'error',
+      input: 'textarea',
+      inputLabel: 'Reason for prescribing anyway',
+      inputPlaceholder: 'e.g. Tolerated previously without reaction',
+      inputValidator: (value: string) => !value?.trim() ? 'A reason is required to override this warning' : null,
+      showCancelButton: true,
+      confirmButtonText: 'Prescribe anyway',
+      cancelButtonText: "Don't prescribe",
+      confirmButtonColor: '#ef4444',
+      cancelButtonColor: '#6b7280',
+      allowOutsideClick: false,
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b',
+    });
+    if (!result.isConfirmed) return false;
+
+    const user = this.authService.currentUserValue;
+    const acknowledgedBy = user?.name || user?.email || 'Unknown';
+    const reason = String(result.value).trim();
+    for (const c of conflicts) {
+      this.allergyOverrides.push({
+        medicine: c.medicine,
+        allergy: c.allergy,
+        ...(c.allergenClass ? { allergenClass: c.allergenClass } : {}),
+        reason,
+        acknowledgedBy,
+        acknowledgedAt: new Date()
+      });
+    }
+    return true;
+  }
+
+  private validateForm(): boolean {
+    this.errorMessage = '';
+
+    if (!this.chiefComplaints.trim()) {
+      this.errorMessage = 'Chief complaints is required';
+      return false;
+    }
+
+    if (this.chiefComplaints.length > 200) {
+      this.errorMessage = 'Chief complaints cannot exceed 200 characters';
+      return false;
+    }
+
+    if (this.diagnosis.length > 200) {
+      this.errorMessage = 'Diagnosis cannot exceed 200 characters';
+      return false;
+    }
+
+    if (this.treatmentPlan.length > 200) {
+      this.errorMessage = 'Treatment plan cannot exceed 200 characters';
+      return false;
+    }
+
+    if (this.medicines.some(m => !m.name.trim() && (m.dosage.trim() || m.frequency.trim()))) {
+      this.errorMessage = 'Every medicine line needs a name';
+      return false;
+    }
+
+    return true;
+  }
+
+  async onSubmit(): Promise<void> {
+    this.errorMessage = '';
+    this.successMessage = '';
+
+    if (!this.validateForm()) {
+      return;
+    }
+
+    if (!this.patientId || !this.visit?.id) {
+      this.errorMessage = 'Visit not found';
+      return;
+    }
+
+    const pendingConflicts = this.getUnacknowledgedConflicts();
+    if (pendingConflicts.length && !(await this.acknowledgeAllergyConflicts(pendingConflicts))) {
+      this.errorMessage = 'Remove the conflicting medicine or record a reason to prescribe it';
+      return;
+    }
+
+    const visitId = this.visit.id;
+    this.isSubmitting = true;
+
+    try {
+      const substances = allergySubstances(this.allergies);
+      const changes: VisitEdit = {
+        presentIllness: this.presentIllness,
+        chiefComplaints: this.chiefComplaints,
+        diagnosis: this.diagnosis,
+        diagnosisCodes: this.diagnosisCodes,
+        examination: this.examination,
+        treatmentPlan: this.treatmentPlan,
+        advice: this.advice,
+        medicines: this.medicines,
+        vitals: cleanVitals(this.vitals),
+        allergyOverrides: this.allergyOverrides.filter(o =>
+          this.medicines.some(m => m.name === o.medicine) && substances.includes(o.allergy))
+      };
+
+      const updated = await this.patientService.updateVisit(this.patientId, visitId, changes, this.reason);
+      this.isSubmitting = false;
+
+      if (!updated) {
+        this.errorMessage = 'No changes to save';
+        return;
+      }
+
+      this.successMessage = 'Visit updated. The previous version was kept in its history.';
+
+      setTimeout(() => {
+        this.visitUpdated.emit(visitId);
+        this.onClose();
+      }, 1000);
+
+    } catch (error) {
+      console.error('Error updating visit:', error);
+      this.errorMessage = 'Failed to update visit. Please try again.';
+      this.isSubmitting = false;
+    }
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
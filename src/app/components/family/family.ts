@@ -0,0 +1,235 @@
+// src/app/components/family/family.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { PatientService } from '../../services/patient';
+import { FirebaseService } from '../../services/firebase';
+import { AuthenticationService } from '../../services/authenticationService';
+import { AuthorizationService } from '../../services/authorizationService';
+import { FamilyRelationship, Patient } from '../../models/patient.model';
+import { FAMILY_RELATIONSHIPS, familyRelationshipLabel, phoneDigits, sortFamilyMembers } from '../../utilities/familyUtils';
+import Swal from 'sweetalert2';
+
+/**
+ * FamilyComponent: everyone in a patient's household, with relationships.
+ * Staff link relatives (suggested from the shared phone number or found by
+ * search), unlink them, and book an appointment for any member.
+ * Route: /family/:id  (id = any member's uniqueId)
+ */
+@Component({
+  selector: 'app-family',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent],
+  templateUrl: './family.html',
+  styleUrl: './family.css'
+})
+export class FamilyComponent implements OnInit {
+  patient: Patient | null = null;
+  members: Patient[] = [];
+  suggestions: Patient[] = [];
+  searchTerm = '';
+  searchResults: Patient[] = [];
+  hasSearched = false;
+  isLoading = true;
+  isSearching = false;
+  busyId: string | null = null;
+  errorMessage = '';
+  userRole: 'doctor' | 'receptionist' = 'receptionist';
+
+  /** Relationship picked for each candidate before linking, by uniqueId */
+  linkAs: Record<string, FamilyRelationship> = {};
+
+  readonly relationships = FAMILY_RELATIONSHIPS;
+
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private location = inject(Location);
+  private patientService = inject(PatientService);
+  private firebaseService = inject(FirebaseService);
+  private authService = inject(AuthenticationService);
+  private authorizationService = inject(AuthorizationService);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async ngOnInit(): Promise<void> {
+    const email = this.authService.currentUserValue?.email;
+    if (email) {
+      this.userRole = await this.authorizationService.getUserRole(email).catch(() => 'receptionist' as const);
+    }
+    await this.loadFamily();
+  }
+
+  get familyId(): string {
+    return this.patient?.familyId ?? '';
+  }
+
+  get sharedPhones(): string[] {
+    return [...new Set(this.members.map(m => phoneDigits(m.phone)).filter(p => p))];
+  }
+
+  relationshipLabel(member: Patient): string {
+    return familyRelationshipLabel(member.familyRelationship);
+  }
+
+  /** The member the familyId was generated for; they anchor the household */
+  isFamilyOrigin(member: Patient): boolean {
+    return this.firebaseService.generateFamilyId(member.name, member.phone) === this.familyId;
+  }
+
+  getAge(member: Patient): number | null {
+    if (!member.dateOfBirth) return null;
+    const dob = new Date(member.dateOfBirth);
+    if (isNaN(dob.getTime())) return null;
+    const today = new Date();
+    let age = today.getFullYear() - dob.getFullYear();
+    const m = today.getMonth() - dob.getMonth();
+    if (m < 0 || (m === 0 && today.getDate() < dob.getDate())) age--;
+    return age;
+  }
+
+  async loadFamily(): Promise<void> {
+    const id = this.route.snapshot.paramMap.get('id') ?? '';
+    this.isLoading = true;
+    this.errorMessage = '';
+    try {
+      const patient = await this.patientService.getPatient(id);
+      if (!patient) throw new Error('Patient not found');
+      const members = await this.patientService.getFamilyMembers(patient.familyId);
+      if (!members.some(m => m.uniqueId === patient.uniqueId)) members.push(patient);
+      const suggestions = await this.findSamePhonePatients(members);
+      this.ngZone.run(() => {
+        this.patient = patient;
+        this.members = sortFamilyMembers(members);
+        this.suggestions = suggestions;
+        this.searchResults = this.searchResults.filter(p => !this.isMember(p));
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Failed to load the family';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  /** Other patients on a member's phone number — usually relatives calling from one phone */
+  private async findSamePhonePatients(members: Patient[]): Promise<Patient[]> {
+    const phones = [...new Set(members.map(m => phoneDigits(m.phone)).filter(p => p))];
+    const found: Patient[] = [];
+    for (const phone of phones) {
+      try {
+        const results = await this.patientService.findPatients(phone);
+        found.push(...results.filter(p => phoneDigits(p.phone) === phone));
+      } catch {
+        // Suggestions are optional
+      }
+    }
+    const memberIds = new Set(members.map(m => m.uniqueId));
+    return found.filter((p, i) => !memberIds.has(p.uniqueId) && found.findIndex(f => f.uniqueId === p.uniqueId) === i);
+  }
+
+  private isMember(patient: Patient): boolean {
+    return this.members.some(m => m.uniqueId === patient.uniqueId);
+  }
+
+  async search(): Promise<void> {
+    const term = this.searchTerm.trim();
+    if (term.length < 3) {
+      this.errorMessage = 'Type at least 3 characters of a name or phone number';
+      return;
+    }
+    this.isSearching = true;
+    this.errorMessage = '';
+    try {
+      const results = await this.patientService.findPatients(term);
+      this.ngZone.run(() => {
+        this.searchResults = results.filter(p => !this.isMember(p)).slice(0, 20);
+        this.hasSearched = true;
+        this.isSearching = false;
+        this.cdr.detectChanges();
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Search failed. Please try again.';
+        this.isSearching = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async changeRelationship(member: Patient, relationship: FamilyRelationship): Promise<void> {
+    await this.runBusy(member, async () => {
+      await this.patientService.updatePatient(member.uniqueId, { familyRelationship: relationship });
+    });
+  }
+
+  async link(candidate: Patient): Promise<void> {
+    if (!this.familyId) return;
+    const relationship = this.linkAs[candidate.uniqueId] ?? 'other';
+    await this.runBusy(candidate, async () => {
+      // A lone patient becomes head of the household they start
+      const origin = this.members.find(m => this.isFamilyOrigin(m));
+      if (origin && !origin.familyRelationship && this.members.length === 1) {
+        await this.patientService.updatePatient(origin.uniqueId, { familyRelationship: 'head' });
+      }
+      await this.patientService.linkFamilyMember(this.familyId, candidate, relationship);
+    });
+  }
+
+  async unlink(member: Patient): Promise<void> {
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: 'Unlink family member?',
+      text: `${member.name} will no longer be part of this family. Their records are not changed.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Unlink',
+      confirmButtonColor: '#ef4444',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+    await this.runBusy(member, () => this.patientService.unlinkFamilyMember(member));
+  }
+
+  bookAppointment(member: Patient): void {
+    this.router.navigate(['/add-appointment'], {
+      queryParams: {
+        patientId: member.uniqueId,
+        patientName: member.name,
+        patientPhone: member.phone,
+        patientFamilyId: member.familyId
+      }
+    });
+  }
+
+  openRecord(member: Patient): void {
+    this.router.navigate(['/patient', member.uniqueId]);
+  }
+
+  goBack(): void {
+    this.location.back();
+  }
+
+  private async runBusy(patient: Patient, action: () => Promise<void>): Promise<void> {
+    this.busyId = patient.uniqueId;
+    this.errorMessage = '';
+    try {
+      await action();
+      await this.loadFamily();
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Something went wrong. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.busyId = null;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+}
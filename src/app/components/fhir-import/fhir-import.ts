@@ -0,0 +1,96 @@
+// src/app/components/fhir-import/fhir-import.ts
+import { Component, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { FhirImportResult, FhirService } from '../../services/fhirService';
+import { FhirImportData, parsePatientBundle } from '../../utilities/fhirUtils';
+
+/**
+ * FhirImportComponent: reads one patient's FHIR R4 bundle (.json), lists
+ * every validation error, previews what will be saved and imports it —
+ * creating the patient or updating the one with the same name and phone.
+ * Usage: <app-fhir-import></app-fhir-import> (on the Import Patients page)
+ */
+@Component({
+  selector: 'app-fhir-import',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './fhir-import.html',
+  styleUrl: './fhir-import.css'
+})
+export class FhirImportComponent {
+  fileName = '';
+  errors: string[] = [];
+  warnings: string[] = [];
+  data: FhirImportData | null = null;
+  result: FhirImportResult | null = null;
+  isImporting = false;
+  errorMessage = '';
+
+  private fhirService = inject(FhirService);
+  private router = inject(Router);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    const text = await file.text();
+    this.ngZone.run(() => {
+      this.reset();
+      this.fileName = file.name;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        this.errors = ['The file is not valid JSON.'];
+        this.cdr.detectChanges();
+        return;
+      }
+      const parsed = parsePatientBundle(raw);
+      this.data = parsed.data;
+      this.errors = parsed.errors;
+      this.warnings = parsed.warnings;
+      this.cdr.detectChanges();
+    });
+  }
+
+  async importBundle(): Promise<void> {
+    if (!this.data || this.isImporting) return;
+    this.isImporting = true;
+    this.errorMessage = '';
+    try {
+      const result = await this.fhirService.importBundle(this.data);
+      this.ngZone.run(() => {
+        this.result = result;
+        this.data = null;
+        this.warnings = [];
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Import failed. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.isImporting = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  openPatient(): void {
+    if (this.result) this.router.navigate(['/patient', this.result.patientId]);
+  }
+
+  reset(): void {
+    this.fileName = '';
+    this.errors = [];
+    this.warnings = [];
+    this.data = null;
+    this.result = null;
+    this.errorMessage = '';
+  }
+}
@@ -0,0 +1,207 @@
+// src/app/components/formulary/formulary.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { FormularyService } from '../../services/formularyService';
+import { FormularyDrug, FormularyDrugInput } from '../../models/formulary.model';
+import { MEDICINE_ROUTES } from '../../utilities/prescriptionUtils';
+import {
+  FormularyImportError,
+  parseFormularyCsv,
+  searchFormulary,
+  splitFormularyList
+} from '../../utilities/formularyUtils';
+import Swal from 'sweetalert2';
+
+/**
+ * FormularyComponent: clinic drug formulary used by the medicine autocomplete.
+ * Add/remove entries by hand or bulk-import a CSV
+ * (generic_name, brands, strengths, forms, default_frequency, default_route).
+ * Route: /formulary
+ */
+@Component({
+  selector: 'app-formulary',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent],
+  templateUrl: './formulary.html',
+  styleUrl: './formulary.css'
+})
+export class FormularyComponent implements OnInit {
+  drugs: FormularyDrug[] = [];
+  isLoading = true;
+  errorMessage = '';
+  successMessage = '';
+  searchTerm = '';
+
+  // ── Add drug form ──
+  newGenericName = '';
+  newBrands = '';
+  newStrengths = '';
+  newForms = '';
+  newDefaultFrequency = '';
+  newDefaultRoute = '';
+  isSaving = false;
+  readonly medicineRoutes: string[] = MEDICINE_ROUTES;
+
+  // ── CSV import ──
+  importFileName = '';
+  importPreview: FormularyDrugInput[] = [];
+  importErrors: FormularyImportError[] = [];
+  isImporting = false;
+
+  deletingId: string | null = null;
+
+  private formularyService = inject(FormularyService);
+  private router = inject(Router);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async ngOnInit(): Promise<void> {
+    await this.loadDrugs();
+  }
+
+  get filteredDrugs(): FormularyDrug[] {
+    return this.searchTerm.trim()
+      ? searchFormulary(this.drugs, this.searchTerm, this.drugs.length)
+      : this.drugs;
+  }
+
+  defaultsLabel(drug: FormularyDrug): string {
+    return [drug.defaultFrequency, drug.defaultRoute].filter(Boolean).join(' · ') || '—';
+  }
+
+  async loadDrugs(): Promise<void> {
+    try {
+      const drugs = await this.formularyService.getDrugs();
+      this.ngZone.run(() => {
+        this.drugs = drugs;
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to load the formulary.';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async addDrug(): Promise<void> {
+    const genericName = this.newGenericName.trim();
+    if (!genericName) {
+      this.errorMessage = 'Generic name is required.';
+      return;
+    }
+    this.isSaving = true;
+    this.errorMessage = '';
+    this.successMessage = '';
+    try {
+      await this.formularyService.addDrug({
+        genericName,
+        brands: splitFormularyList(this.newBrands),
+        strengths: splitFormularyList(this.newStrengths),
+        forms: splitFormularyList(this.newForms),
+        ...(this.newDefaultFrequency.trim() ? { defaultFrequency: this.newDefaultFrequency.trim() } : {}),
+        ...(this.newDefaultRoute ? { defaultRoute: this.newDefaultRoute } : {})
+      });
+      this.resetAddForm();
+      this.successMessage = `${genericName} saved to the formulary.`;
+      await this.loadDrugs();
+    } catch {
+      this.errorMessage = 'Failed to save the drug. Please try again.';
+    } finally {
+      this.ngZone.run(() => {
+        this.isSaving = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async deleteDrug(drug: FormularyDrug): Promise<void> {
+    if (!drug.id) return;
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: 'Remove from formulary?',
+      text: `${drug.genericName} will no longer be suggested when prescribing.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Remove',
+      confirmButtonColor: '#ef4444',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+
+    this.deletingId = drug.id;
+    this.errorMessage = '';
+    try {
+      await this.formularyService.deleteDrug(drug.id);
+      await this.loadDrugs();
+    } catch {
+      this.errorMessage = 'Failed to remove the drug. Please try again.';
+    } finally {
+      this.ngZone.run(() => {
+        this.deletingId = null;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  // ── CSV import ──────────────────────────────────────────────
+  async onImportFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    const { drugs, errors } = parseFormularyCsv(await file.text());
+    this.ngZone.run(() => {
+      this.importFileName = file.name;
+      this.importPreview = drugs;
+      this.importErrors = errors;
+      this.successMessage = '';
+      this.cdr.detectChanges();
+    });
+  }
+
+  cancelImport(): void {
+    this.importFileName = '';
+    this.importPreview = [];
+    this.importErrors = [];
+  }
+
+  async confirmImport(): Promise<void> {
+    if (this.importPreview.length === 0) return;
+    this.isImporting = true;
+    this.errorMessage = '';
+    try {
+      const { added, updated } = await this.formularyService.importDrugs(this.importPreview);
+      this.cancelImport();
+      this.successMessage = `Import complete: ${added} added, ${updated} updated.`;
+      await this.loadDrugs();
+    } catch {
+      this.errorMessage = 'Import failed. Rows already saved are kept — re-importing the file is safe.';
+    } finally {
+      this.ngZone.run(() => {
+        this.isImporting = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+
+  private resetAddForm(): void {
+    this.newGenericName = '';
+    this.newBrands = '';
+    this.newStrengths = '';
+    this.newForms = '';
+    this.newDefaultFrequency = '';
+    this.newDefaultRoute = '';
+  }
+}
@@ -12,15 +12,24 @@ import { AppointmentService } from '../../services/appointmentService';
 import { AuthenticationService } from '../../services/authenticationService';
 import { AuthorizationService } from '../../services/authorizationService';
 import { ClinicContextService } from '../../services/clinicContextService';
+import { LabOrderService } from '../../services/labOrderService';
+import { VisitDraftService } from '../../services/visitDraftService';
 import { Patient } from '../../models/patient.model';
 import { Appointment } from '../../models/appointment.model';
+import { LabOrder } from '../../models/labOrder.model';
+import { VisitDraft } from '../../models/visitDraft.model';
 import { AddPatientComponent } from '../add-patient/add-patient';
 import { DayViewModalComponent } from '../day-view-modal/day-view-modal';
+import { LabResultsComponent } from '../lab-results/lab-results';
 import { NavbarComponent } from '../navbar/navbar';
+import { PatientAvatarComponent } from '../patient-avatar/patient-avatar';
+import { QrScannerComponent } from '../qr-scanner/qr-scanner';
 import { MomentDatePipe } from '../../pipes/moment-date.pipe';
 import { DEFAULT_SYSTEM_SETTINGS } from '../../config/systemSettings';
 import { generateTimeSlotsFromConfig } from '../../utilities/timeSlotUtils';
 import { normalizeEmail } from '../../utilities/normalize-email';
+import { LAB_ORDER_STATUS_LABELS } from '../../utilities/labOrderUtils';
+import { describeVisitDraft } from '../../utilities/visitDraftUtils';
 import doctorsData from '../../data/doctors.json';
 
 export interface DashboardDoctor {
@@ -34,7 +43,7 @@ export interface DashboardDoctor {
 @Component({
   selector: 'app-home',
   standalone: true,
-  imports: [CommonModule, FormsModule, AddPatientComponent, NavbarComponent, MomentDatePipe, DayViewModalComponent],
+  imports: [CommonModule, FormsModule, AddPatientComponent, NavbarComponent, MomentDatePipe, DayViewModalComponent, LabResultsComponent, PatientAvatarComponent, QrScannerComponent],
   templateUrl: './home.html',
   styleUrl: './home.css'
 })
@@ -79,6 +88,18 @@ export class HomeComponent implements OnInit {
   dayViewBookedSlots: string[] = [];
   isLoadingDayView = false;
 
+  // Pending lab results (doctor only)
+  pendingLabOrders: LabOrder[] = [];
+  isLoadingLabOrders = false;
+  labOrderForResults: LabOrder | null = null;
+  readonly labStatusLabels = LAB_ORDER_STATUS_LABELS;
+
+  // Unfinished visit notes (doctor only)
+  visitDrafts: VisitDraft[] = [];
+
+  // Patient ID card scanner
+  showCardScanner = false;
+
   get hasMoreResults(): boolean { return this.patientService.hasMoreResults; }
   get isLoadingMore(): boolean { return this.patientService.isLoadingMore; }
 
@@ -96,6 +117,8 @@ export class HomeComponent implements OnInit {
     private authService: AuthenticationService,
     private authorizationService: AuthorizationService,
     private clinicContextService: ClinicContextService,
+    private labOrderService: LabOrderService,
+    private visitDraftService: VisitDraftService,
     private db: Firestore,
     private router: Router,
     private route: ActivatedRoute,
@@ -182,6 +205,9 @@ export class HomeComponent implements OnInit {
       this.selectedDashboardClinicId = this.clinicContextService.getSelectedClinicId() ?? '';
       // Load doctor's clinic list for the switcher
       await this.loadDoctorClinics();
+      void this.loadPendingLabOrders();
+      void this.loadVisitDrafts();
+      void this.patientService.migrateLegacyPatientLists();
     } else {
       // Receptionist: load clinics and doctors
       if (rawEmail) {
@@ -231,12 +257,74 @@ export class HomeComponent implements OnInit {
     this.appointmentService.invalidateCache();
     await this.loadAppointments();
     await this.loadPatientCount();
+    void this.loadPendingLabOrders();
+    void this.loadVisitDrafts();
+    void this.patientService.migrateLegacyPatientLists();
     if (this.selectedDate) {
       void this.loadSlotsForDate(this.selectedDate);
     }
     this.cdr.markForCheck();
   }
 
+  // ── Pending lab results ──
+
+  async loadPendingLabOrders(): Promise<void> {
+    this.isLoadingLabOrders = true;
+    try {
+      this.pendingLabOrders = await this.labOrderService.getPendingLabOrders();
+    } catch {
+      this.pendingLabOrders = [];
+    }
+    this.isLoadingLabOrders = false;
+    this.cdr.markForCheck();
+  }
+
+  async markLabSampleCollected(order: LabOrder): Promise<void> {
+    try {
+      await this.labOrderService.markSampleCollected(order);
+    } catch {
+      // Keep the list as is — the doctor can retry
+    }
+    await this.loadPendingLabOrders();
+  }
+
+  openLabResults(order: LabOrder): void {
+    this.labOrderForResults = order;
+    this.cdr.markForCheck();
+  }
+
+  closeLabResults(): void {
+    this.labOrderForResults = null;
+    this.cdr.markForCheck();
+  }
+
+  viewLabOrderPatient(order: LabOrder): void {
+    this.router.navigate(['/patient', order.patientId]);
+  }
+
+  // ── Unfinished visit drafts ──
+
+  async loadVisitDrafts(): Promise<void> {
+    try {
+      this.visitDrafts = await this.visitDraftService.getDrafts();
+    } catch {
+      this.visitDrafts = [];
+    }
+    this.cdr.markForCheck();
+  }
+
+  describeDraft(draft: VisitDraft): string {
+    return describeVisitDraft(draft.fields);
+  }
+
+  isDraftFromOtherDevice(draft: VisitDraft): boolean {
+    return !this.visitDraftService.isFromThisDevice(draft);
+  }
+
+  resumeVisitDraft(draft: VisitDraft): void {
+    this.router.navigate(['/patient', draft.patientId, 'add-visit'], { state: { origin: 'home' } });
+  }
+
   private async getDoctorClinicIds(doctorEmail: string): Promise<string[]> {
     const key = normalizeEmail(doctorEmail);
     if (this.doctorClinicCache.has(key)) return this.doctorClinicCache.get(key)!;
@@ -679,6 +767,56 @@ export class HomeComponent implements OnInit {
     this.router.navigate(['/add-appointment']);
   }
   closeAddAppointmentForm(): void { this.uiStateService.closeAddAppointmentForm(); }
+
+  // ═══════════════════════════════════════════
+  //  Patient ID card scanner
+  // ═══════════════════════════════════════════
+
+  openCardScanner(): void {
+    this.errorMessage = '';
+    this.showCardScanner = true;
+    this.cdr.detectChanges();
+  }
+
+  closeCardScanner(): void {
+    this.showCardScanner = false;
+    this.cdr.detectChanges();
+  }
+
+  /** Open the scanned patient's record, or book an appointment for them */
+  async onCardScanned(patientId: string): Promise<void> {
+    this.closeCardScanner();
+    const patient = await this.patientService.getPatient(patientId).catch(() => null);
+    if (!patient) {
+      this.errorMessage = 'No patient found for this card in the current clinic';
+      this.cdr.detectChanges();
+      return;
+    }
+
+    // Dynamically import Swal only when the dialog is actually needed
+    const { default: Swal } = await import('sweetalert2');
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: patient.name,
+      text: [patient.mrn, patient.phone].filter(Boolean).join(' · '),
+      icon: 'info',
+      showConfirmButton: true,
+      confirmButtonText: 'Open Record',
+      confirmButtonColor: '#6366f1',
+      showDenyButton: true,
+      denyButtonText: 'Book Appointment',
+      denyButtonColor: '#0ea5e9',
+      showCancelButton: true,
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b',
+    });
+
+    if (result.isConfirmed) {
+      this.router.navigate(['/patient', patient.uniqueId]);
+    } else if (result.isDenied) {
+      this.openAddAppointmentForm(patient);
+    }
+  }
   onAppointmentBooked(id: string): void {}
 
   // ═══════════════════════════════════════════
@@ -0,0 +1,80 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CodedDiagnosis } from '../../models/patient.model';
+import { Icd10Code, normalizeDiagnosisCodes, searchIcd10 } from '../../utilities/icd10Utils';
+
+/**
+ * Icd10PickerComponent: searchable ICD-10 code list for a visit.
+ * The first code added is primary; any other code can be promoted.
+ * Usage: <app-icd10-picker [(codes)]="diagnosisCodes"></app-icd10-picker>
+ */
+@Component({
+  selector: 'app-icd10-picker',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './icd10-picker.html',
+  styleUrl: './icd10-picker.css'
+})
+export class Icd10PickerComponent {
+  @Input() codes: CodedDiagnosis[] = [];
+  @Input() inputId: string = 'icd10Search';
+
+  @Output() codesChange = new EventEmitter<CodedDiagnosis[]>();
+
+  searchTerm: string = '';
+  results: Icd10Code[] = [];
+  activeIndex: number = -1;
+  showResults: boolean = false;
+
+  onSearchInput(): void {
+    this.results = searchIcd10(this.searchTerm).filter(r => !this.codes.some(c => c.code === r.code));
+    this.activeIndex = this.results.length ? 0 : -1;
+    this.showResults = this.searchTerm.trim().length > 0;
+  }
+
+  onSearchKeydown(event: KeyboardEvent): void {
+    const count = this.results.length;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      if (!count) return;
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      this.activeIndex = (this.activeIndex + step + count) % count;
+    } else if (event.key === 'Enter') {
+      // Never submit the surrounding visit form from the search box
+      event.preventDefault();
+      if (this.activeIndex >= 0 && this.results[this.activeIndex]) this.addCode(this.results[this.activeIndex]);
+    } else if (event.key === 'Escape') {
+      this.closeResults();
+    }
+  }
+
+  closeResults(): void {
+    this.showResults = false;
+    this.activeIndex = -1;
+  }
+
+  addCode(entry: Icd10Code): void {
+    this.emit([...this.codes, {
+      code: entry.code,
+      description: entry.description,
+      type: this.codes.length ? 'secondary' : 'primary'
+    }]);
+    this.searchTerm = '';
+    this.results = [];
+    this.closeResults();
+  }
+
+  makePrimary(index: number): void {
+    this.emit(this.codes.map((c, i): CodedDiagnosis => ({ ...c, type: i === index ? 'primary' : 'secondary' })));
+  }
+
+  removeCode(index: number): void {
+    this.emit(this.codes.filter((_, i) => i !== index));
+  }
+
+  private emit(codes: CodedDiagnosis[]): void {
+    this.codes = normalizeDiagnosisCodes(codes);
+    this.codesChange.emit(this.codes);
+  }
+}
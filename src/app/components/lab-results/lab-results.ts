@@ -0,0 +1,93 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { LabOrderService } from '../../services/labOrderService';
+import { LabOrder, LabResultValue } from '../../models/labOrder.model';
+import {
+  LabResultFlag,
+  defaultLabResults,
+  formatReferenceRange,
+  labResultFlag
+} from '../../utilities/labOrderUtils';
+
+/**
+ * LabResultsComponent: modal for entering (or correcting) the values of a lab order.
+ * Rows start from the test catalog with units and reference ranges filled in.
+ */
+@Component({
+  selector: 'app-lab-results',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './lab-results.html',
+  styleUrl: './lab-results.css'
+})
+export class LabResultsComponent implements OnChanges {
+  @Input() order: LabOrder | null = null;
+
+  @Output() close = new EventEmitter<void>();
+  @Output() resultsSaved = new EventEmitter<string>();
+
+  results: LabResultValue[] = [];
+  notes: string = '';
+
+  errorMessage: string = '';
+  isSubmitting: boolean = false;
+
+  constructor(private labOrderService: LabOrderService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['order'] && this.order) {
+      this.results = this.order.results?.length
+        ? this.order.results.map(r => ({ ...r }))
+        : defaultLabResults(this.order.testName);
+      this.notes = this.order.notes || '';
+      this.errorMessage = '';
+    }
+  }
+
+  flag(result: LabResultValue): LabResultFlag | null {
+    return labResultFlag(result);
+  }
+
+  range(result: LabResultValue): string {
+    return formatReferenceRange(result);
+  }
+
+  addResultRow(): void {
+    this.results.push({ name: '', value: '' });
+  }
+
+  removeResultRow(index: number): void {
+    this.results.splice(index, 1);
+  }
+
+  async onSubmit(): Promise<void> {
+    this.errorMessage = '';
+    if (!this.order?.id) return;
+    if (this.results.some(r => r.value.trim() && !r.name.trim())) {
+      this.errorMessage = 'Every result needs a name';
+      return;
+    }
+    if (!this.results.some(r => r.name.trim() && r.value.trim())) {
+      this.errorMessage = 'Enter at least one result value';
+      return;
+    }
+
+    const orderId = this.order.id;
+    this.isSubmitting = true;
+    try {
+      await this.labOrderService.recordResults(this.order, this.results, this.notes);
+      this.isSubmitting = false;
+      this.resultsSaved.emit(orderId);
+      this.onClose();
+    } catch (error) {
+      console.error('Error saving lab results:', error);
+      this.errorMessage = 'Failed to save results. Please try again.';
+      this.isSubmitting = false;
+    }
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
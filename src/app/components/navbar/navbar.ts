@@ -58,6 +58,36 @@ export class NavbarComponent {
     }
   }
 
+  openFormulary(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/formulary']);
+  }
+
+  openPatientImport(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/patient-import']);
+  }
+
+  openTemplates(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/templates']);
+  }
+
+  openDuplicates(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/duplicates']);
+  }
+
+  openRecycleBin(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/recycle-bin']);
+  }
+
+  openAuditLog(): void {
+    this.uiStateService.closeUserMenu();
+    this.router.navigate(['/audit-log']);
+  }
+
   async logout(): Promise<void> {
     try {
       await this.authService.logout();
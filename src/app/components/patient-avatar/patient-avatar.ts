@@ -0,0 +1,61 @@
+import { Component, Input, OnChanges, NgZone, ChangeDetectorRef, HostBinding, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PatientPhotoService } from '../../services/patientPhotoService';
+
+/**
+ * PatientAvatarComponent: the patient's photo, or the projected content
+ * (usually initials) when there is none. Give `photoUrl` when the patient
+ * record is at hand, or just `patientId` to have the photo looked up.
+ * The host keeps whatever avatar class the page styles it with.
+ * Usage: <app-patient-avatar class="kb-patient-avatar" [photoUrl]="p.photoUrl" [name]="p.name">A</app-patient-avatar>
+ */
+@Component({
+  selector: 'app-patient-avatar',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './patient-avatar.html',
+  styleUrl: './patient-avatar.css'
+})
+export class PatientAvatarComponent implements OnChanges {
+  @Input() photoUrl: string | undefined;
+  @Input() patientId: string | undefined;
+  @Input() name: string = '';
+  /** Render nothing at all when the patient has no photo */
+  @Input() photoOnly: boolean = false;
+
+  src: string = '';
+
+  private photoService = inject(PatientPhotoService);
+  private ngZone = inject(NgZone);
+  private cdr = inject(ChangeDetectorRef);
+
+  @HostBinding('class.patient-avatar') readonly hostClass = true;
+
+  @HostBinding('class.patient-avatar--empty')
+  get isEmpty(): boolean {
+    return this.photoOnly && !this.src;
+  }
+
+  ngOnChanges(): void {
+    if (this.photoUrl !== undefined) {
+      this.src = this.photoUrl || '';
+      return;
+    }
+    this.src = '';
+    const patientId = this.patientId;
+    if (!patientId) return;
+    this.photoService.getPhotoUrl(patientId).then(url => {
+      // Inputs may have moved on to another patient while this was loading
+      if (this.patientId !== patientId || this.photoUrl !== undefined) return;
+      this.ngZone.run(() => {
+        this.src = url;
+        this.cdr.detectChanges();
+      });
+    });
+  }
+
+  /** Broken or expired link — fall back to the initials */
+  onImageError(): void {
+    this.src = '';
+  }
+}
@@ -1,20 +1,49 @@
 import { Component, OnInit, ChangeDetectorRef, NgZone, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ActivatedRoute, Router } from '@angular/router';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { Observable } from 'rxjs';
-import { Patient, Visit } from '../../models/patient.model';
+import { DocumentData, QueryDocumentSnapshot } from '@angular/fire/firestore';
+import { Allergy, GovernmentId, Patient, Problem, ProblemChange, Visit } from '../../models/patient.model';
+import { LabOrder, LabResultValue } from '../../models/labOrder.model';
+import { Attachment } from '../../models/attachment.model';
 import { PatientService } from '../../services/patient';
 import { AuthenticationService } from '../../services/authenticationService';
 import { AuthorizationService } from '../../services/authorizationService';
+import { PrescriptionPrintService } from '../../services/prescriptionPrintService';
+import { PatientCardPrintService } from '../../services/patientCardPrintService';
+import { FhirService } from '../../services/fhirService';
+import { LabOrderService } from '../../services/labOrderService';
+import { AttachmentService } from '../../services/attachmentService';
 import { PatientStatsComponent } from '../patient-stats/patient-stats';
 import { EditPatientInfoComponent } from '../edit-patient-info/edit-patient-info';
+import { EditVisitComponent } from '../edit-visit/edit-visit';
+import { VisitRevisionsComponent } from '../visit-revisions/visit-revisions';
+import { LabResultsComponent } from '../lab-results/lab-results';
+import { AttachmentsComponent } from '../attachments/attachments';
+import { AttachmentViewerComponent } from '../attachment-viewer/attachment-viewer';
+import { AllergyAlertComponent } from '../allergy-alert/allergy-alert';
 import { NavbarComponent } from '../navbar/navbar';
+import { PatientAvatarComponent } from '../patient-avatar/patient-avatar';
+import { MedicineLinePipe } from '../../pipes/medicine-line.pipe';
+import { VitalsSummaryPipe } from '../../pipes/vitals-summary.pipe';
+import {
+  LAB_ORDER_STATUS_LABELS,
+  LabResultFlag,
+  formatLabResult,
+  formatReferenceRange,
+  labResultFlag
+} from '../../utilities/labOrderUtils';
+import { ALLERGY_CATEGORIES, allergySeverityLabel } from '../../utilities/allergyUtils';
+import { describeProblemChange, problemStatusLabel } from '../../utilities/problemUtils';
+import { formatAddress, formatEmergencyContact, governmentIdLabel } from '../../utilities/demographicsUtils';
+import { downloadFhirBundle } from '../../utilities/fhirUtils';
 import moment from 'moment';
+import Swal from 'sweetalert2';
 
 @Component({
   selector: 'app-patient-details',
   standalone: true,
-  imports: [CommonModule, PatientStatsComponent, EditPatientInfoComponent, NavbarComponent],
+  imports: [CommonModule, RouterLink, PatientStatsComponent, EditPatientInfoComponent, EditVisitComponent, VisitRevisionsComponent, LabResultsComponent, AttachmentsComponent, AttachmentViewerComponent, AllergyAlertComponent, NavbarComponent, MedicineLinePipe, VitalsSummaryPipe, PatientAvatarComponent],
   templateUrl: './patient-details.html',
   styleUrl: './patient-details.css'
 })
@@ -23,18 +52,39 @@ export class PatientDetailsComponent implements OnInit {
   visits: Visit[] = [];
   isLoadingPatient: boolean = true;
   isLoadingVisits: boolean = false;
+  // Visit history is shown a page at a time; statistics use the complete history
+  hasMoreVisits: boolean = false;
+  isLoadingMoreVisits: boolean = false;
+  visitCount: number = 0;
+  allVisits: Visit[] = [];
+  private visitsCursor: QueryDocumentSnapshot<DocumentData> | null = null;
   activeTab: 'info' | 'visits' = 'info';
   errorMessage: string = '';
 
   // Property for edit patient info modal
   showEditPatientInfo: boolean = false;
 
+  // Edit visit / revision history modals
+  visitToEdit: Visit | null = null;
+  visitForRevisions: Visit | null = null;
+
+  // Lab orders placed from this patient's visits
+  labOrders: LabOrder[] = [];
+  labOrderForResults: LabOrder | null = null;
+  readonly labStatusLabels = LAB_ORDER_STATUS_LABELS;
+
+  // Scanned reports and images (patient-level and per visit)
+  attachments: Attachment[] = [];
+  attachmentToView: Attachment | null = null;
+
   // Delete confirmation state
   showDeleteVisitConfirm: boolean = false;
   showDeletePatientConfirm: boolean = false;
   visitToDelete: Visit | null = null;
   isDeletingVisit: boolean = false;
   isDeletingPatient: boolean = false;
+  isAssigningMrn: boolean = false;
+  isExportingFhir: boolean = false;
 
   // ✅ Driven by Firestore canDelete field — no hardcoded emails
   canDelete: boolean = false;
@@ -44,6 +94,11 @@ export class PatientDetailsComponent implements OnInit {
   private readonly patientService = inject(PatientService);
   private readonly authService = inject(AuthenticationService);
   private readonly authorizationService = inject(AuthorizationService);
+  private readonly printService = inject(PrescriptionPrintService);
+  private readonly cardPrintService = inject(PatientCardPrintService);
+  private readonly fhirService = inject(FhirService);
+  private readonly labOrderService = inject(LabOrderService);
+  private readonly attachmentService = inject(AttachmentService);
   private readonly cdr = inject(ChangeDetectorRef);
   private readonly ngZone = inject(NgZone);
 
@@ -89,11 +144,18 @@ export class PatientDetailsComponent implements OnInit {
           return;
         }
 
+        // A merged duplicate's link resolves to the surviving record — show its address
+        if (this.patient.uniqueId !== patientId) {
+          this.router.navigate(['/patient', this.patient.uniqueId], { replaceUrl: true });
+        }
+
         this.isLoadingPatient = false;
         this.cdr.detectChanges();
 
         // Load visits after patient is loaded
         this.loadVisits();
+        this.loadLabOrders();
+        this.loadAttachments();
       });
     } catch (error) {
       console.error('❌ Error loading patient:', error);
@@ -113,12 +175,21 @@ export class PatientDetailsComponent implements OnInit {
       this.cdr.detectChanges();
     });
 
+    const patientId = this.patient.uniqueId;
+    void this.loadVisitStatistics(patientId);
     try {
       console.log('📡 Fetching visits...');
-      this.visits = await this.patientService.getPatientVisits(this.patient.uniqueId);
-      console.log('✅ Visits loaded:', this.visits.length);
+      const [page, count] = await Promise.all([
+        this.patientService.getPatientVisitsPage(patientId),
+        this.patientService.getPatientVisitCount(patientId).catch(() => null)
+      ]);
+      console.log('✅ Visits loaded:', page.visits.length, page.hasMore ? '(more available)' : '');
 
       this.ngZone.run(() => {
+        this.visits = page.visits;
+        this.visitsCursor = page.lastDoc;
+        this.hasMoreVisits = page.hasMore;
+        this.visitCount = count ?? page.visits.length;
         this.isLoadingVisits = false;
         this.cdr.detectChanges();
       });
@@ -131,6 +202,136 @@ export class PatientDetailsComponent implements OnInit {
     }
   }
 
+  async loadMoreVisits(): Promise<void> {
+    if (!this.patient || !this.hasMoreVisits || this.isLoadingMoreVisits) return;
+    this.ngZone.run(() => {
+      this.isLoadingMoreVisits = true;
+      this.cdr.detectChanges();
+    });
+    try {
+      const page = await this.patientService.getPatientVisitsPage(this.patient.uniqueId, this.visitsCursor);
+      this.ngZone.run(() => {
+        this.visits = [...this.visits, ...page.visits];
+        this.visitsCursor = page.lastDoc;
+        this.hasMoreVisits = page.hasMore;
+        this.visitCount = Math.max(this.visitCount, this.visits.length);
+        this.isLoadingMoreVisits = false;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('❌ Error loading more visits:', error);
+      this.ngZone.run(() => {
+        this.isLoadingMoreVisits = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  /** Complete visit history for the statistics panel, read in the background */
+  private async loadVisitStatistics(patientId: string): Promise<void> {
+    try {
+      const visits = await this.patientService.getPatientVisits(patientId);
+      this.ngZone.run(() => {
+        this.allVisits = visits;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('❌ Error loading visit statistics:', error);
+    }
+  }
+
+  async loadLabOrders(): Promise<void> {
+    if (!this.patient || !this.patient.uniqueId) return;
+    try {
+      const orders = await this.labOrderService.getPatientLabOrders(this.patient.uniqueId);
+      this.ngZone.run(() => {
+        this.labOrders = orders;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('❌ Error loading lab orders:', error);
+    }
+  }
+
+  labOrdersForVisit(visit: Visit): LabOrder[] {
+    return this.labOrders.filter(o => o.visitId === visit.id);
+  }
+
+  labFlag(result: LabResultValue): LabResultFlag | null {
+    return labResultFlag(result);
+  }
+
+  labResultText(result: LabResultValue): string {
+    return formatLabResult(result);
+  }
+
+  labRange(result: LabResultValue): string {
+    return formatReferenceRange(result);
+  }
+
+  async markSampleCollected(order: LabOrder): Promise<void> {
+    try {
+      await this.labOrderService.markSampleCollected(order);
+      await this.loadLabOrders();
+    } catch (error) {
+      console.error('Error updating lab order:', error);
+    }
+  }
+
+  openLabResults(order: LabOrder): void {
+    this.ngZone.run(() => {
+      this.labOrderForResults = order;
+      this.cdr.detectChanges();
+    });
+  }
+
+  closeLabResults(): void {
+    this.ngZone.run(() => {
+      this.labOrderForResults = null;
+      this.cdr.detectChanges();
+    });
+  }
+
+  async onLabResultsSaved(orderId: string): Promise<void> {
+    console.log('✅ Lab results saved:', orderId);
+    await this.loadLabOrders();
+  }
+
+  async loadAttachments(): Promise<void> {
+    if (!this.patient || !this.patient.uniqueId) return;
+    try {
+      const attachments = await this.attachmentService.getAttachments(this.patient.uniqueId);
+      this.ngZone.run(() => {
+        this.attachments = attachments;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('❌ Error loading attachments:', error);
+    }
+  }
+
+  get patientAttachments(): Attachment[] {
+    return this.attachments.filter(a => !a.visitId);
+  }
+
+  attachmentsForVisit(visit: Visit): Attachment[] {
+    return this.attachments.filter(a => a.visitId === visit.id);
+  }
+
+  openAttachment(attachment: Attachment): void {
+    this.ngZone.run(() => {
+      this.attachmentToView = attachment;
+      this.cdr.detectChanges();
+    });
+  }
+
+  closeAttachment(): void {
+    this.ngZone.run(() => {
+      this.attachmentToView = null;
+      this.cdr.detectChanges();
+    });
+  }
+
   // Navigate to the dedicated Add Visit page
   openAddVisitForm(): void {
     if (this.patient) {
@@ -165,6 +366,140 @@ export class PatientDetailsComponent implements OnInit {
     this.closeEditPatientInfo();
   }
 
+  // Edit Visit
+  openEditVisit(visit: Visit): void {
+    this.ngZone.run(() => {
+      this.visitToEdit = visit;
+      this.cdr.detectChanges();
+    });
+  }
+
+  closeEditVisit(): void {
+    this.ngZone.run(() => {
+      this.visitToEdit = null;
+      this.cdr.detectChanges();
+    });
+  }
+
+  async onVisitUpdated(visitId: string): Promise<void> {
+    console.log('✅ Visit updated:', visitId);
+    await this.loadVisits();
+  }
+
+  // Print prescription / visit summary
+  printVisit(visit: Visit): void {
+    if (!this.patient) return;
+    if (!this.printService.print(this.patient, visit)) {
+      const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+      Swal.fire({
+        title: 'Pop-up blocked',
+        text: 'Allow pop-ups for this site to print the prescription.',
+        icon: 'warning',
+        confirmButtonColor: '#6366f1',
+        background: isDark ? '#1f1f1f' : '#ffffff',
+        color: isDark ? '#e0e0e0' : '#1e293b',
+      });
+    }
+  }
+
+  // Wallet ID card with the QR code reception scans
+  async printIdCard(): Promise<void> {
+    if (!this.patient) return;
+    // Open the tab before awaiting so the popup blocker allows it
+    const win = this.cardPrintService.openWindow();
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    try {
+      if (await this.cardPrintService.print(this.patient, win)) return;
+      Swal.fire({
+        title: 'Pop-up blocked',
+        text: 'Allow pop-ups for this site to print the ID card.',
+        icon: 'warning',
+        confirmButtonColor: '#6366f1',
+        background: isDark ? '#1f1f1f' : '#ffffff',
+        color: isDark ? '#e0e0e0' : '#1e293b',
+      });
+    } catch {
+      Swal.fire({
+        title: 'ID card not printed',
+        text: 'The ID card could not be generated. Please try again.',
+        icon: 'error',
+        confirmButtonColor: '#6366f1',
+        background: isDark ? '#1f1f1f' : '#ffffff',
+        color: isDark ? '#e0e0e0' : '#1e293b',
+      });
+    }
+  }
+
+  // Whole record as a FHIR R4 bundle for another clinic or system
+  async exportFhir(): Promise<void> {
+    if (!this.patient || this.isExportingFhir) return;
+    this.isExportingFhir = true;
+    try {
+      const bundle = await this.fhirService.exportPatient(this.patient.uniqueId);
+      const baseName = (this.patient.mrn || this.patient.name).replace(/[^A-Za-z0-9-]+/g, '-');
+      downloadFhirBundle(bundle, `${baseName}-fhir.json`);
+    } catch {
+      const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+      Swal.fire({
+        title: 'Export failed',
+        text: 'The FHIR bundle could not be created. Please try again.',
+        icon: 'error',
+        confirmButtonColor: '#6366f1',
+        background: isDark ? '#1f1f1f' : '#ffffff',
+        color: isDark ? '#e0e0e0' : '#1e293b',
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.isExportingFhir = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  // MRN for a patient registered before MRNs were issued
+  async assignMrn(): Promise<void> {
+    if (!this.patient || this.isAssigningMrn) return;
+    this.isAssigningMrn = true;
+    try {
+      const mrn = await this.patientService.assignMrn(this.patient.uniqueId);
+      this.ngZone.run(() => {
+        this.patient = { ...this.patient!, mrn };
+        this.isAssigningMrn = false;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('Error assigning MRN:', error);
+      this.ngZone.run(() => {
+        this.isAssigningMrn = false;
+        this.cdr.detectChanges();
+      });
+      const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+      Swal.fire({
+        title: 'MRN not assigned',
+        text: 'The record number could not be issued. Please try again.',
+        icon: 'error',
+        confirmButtonColor: '#6366f1',
+        background: isDark ? '#1f1f1f' : '#ffffff',
+        color: isDark ? '#e0e0e0' : '#1e293b',
+      });
+    }
+  }
+
+  // Visit revision history
+  openVisitRevisions(visit: Visit): void {
+    this.ngZone.run(() => {
+      this.visitForRevisions = visit;
+      this.cdr.detectChanges();
+    });
+  }
+
+  closeVisitRevisions(): void {
+    this.ngZone.run(() => {
+      this.visitForRevisions = null;
+      this.cdr.detectChanges();
+    });
+  }
+
   // Delete Visit
   confirmDeleteVisit(visit: Visit): void {
     this.ngZone.run(() => {
@@ -233,6 +568,34 @@ export class PatientDetailsComponent implements OnInit {
     this.router.navigate(['/home']);
   }
 
+  severityLabel(allergy: Allergy): string {
+    return allergySeverityLabel(allergy.severity);
+  }
+
+  categoryLabel(allergy: Allergy): string {
+    return ALLERGY_CATEGORIES.find(c => c.value === allergy.category)?.label ?? 'Drug';
+  }
+
+  problemStatusLabel(problem: Problem): string {
+    return problemStatusLabel(problem.status);
+  }
+
+  describeProblemChange(change: ProblemChange): string {
+    return describeProblemChange(change);
+  }
+
+  formatAddress(patient: Patient): string {
+    return formatAddress(patient.address);
+  }
+
+  formatEmergencyContact(patient: Patient): string {
+    return formatEmergencyContact(patient.emergencyContact);
+  }
+
+  governmentIdLabel(id: GovernmentId): string {
+    return governmentIdLabel(id.type);
+  }
+
   formatDate(date: Date | undefined | any): string {
     if (!date) return 'N/A';
     if (date && typeof date.toDate === 'function') date = date.toDate();
@@ -0,0 +1,227 @@
+// src/app/components/patient-import/patient-import.ts
+import { Component, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { FhirImportComponent } from '../fhir-import/fhir-import';
+import { PatientImportService } from '../../services/patientImportService';
+import { downloadCsv, parseCsv } from '../../utilities/csvUtils';
+import {
+  PATIENT_IMPORT_FIELDS,
+  PatientImportMapping,
+  PatientImportRow,
+  buildPatientImportReport,
+  guessPatientImportMapping,
+  patientImportMappingErrors,
+  rejectedImportRows,
+  validatePatientImportRows
+} from '../../utilities/patientImportUtils';
+import Swal from 'sweetalert2';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+/** Rows listed in the preview tables; the counts and the report cover every row */
+const PREVIEW_LIMIT = 100;
+
+/**
+ * PatientImportComponent: wizard that bulk-creates patients from a spreadsheet.
+ * Upload a CSV → map its columns → dry-run preview (validation and duplicate
+ * phone check, nothing saved) → import in batches. Rejected rows can be
+ * downloaded as a CSV report, fixed and imported again. A single FHIR
+ * bundle is imported from the upload step through FhirImportComponent.
+ * Route: /patient-import
+ */
+@Component({
+  selector: 'app-patient-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent, FhirImportComponent],
+  templateUrl: './patient-import.html',
+  styleUrl: './patient-import.css'
+})
+export class PatientImportComponent {
+  readonly fields = PATIENT_IMPORT_FIELDS;
+  readonly previewLimit = PREVIEW_LIMIT;
+
+  step: ImportStep = 'upload';
+  errorMessage = '';
+
+  // ── Upload ──
+  fileName = '';
+  headers: string[] = [];
+  dataRows: string[][] = [];
+
+  // ── Mapping ──
+  mapping: PatientImportMapping = guessPatientImportMapping([]);
+  mappingErrors: string[] = [];
+
+  // ── Preview / result ──
+  rows: PatientImportRow[] = [];
+  isChecking = false;
+  isImporting = false;
+  progressDone = 0;
+  progressTotal = 0;
+
+  private importService = inject(PatientImportService);
+  private router = inject(Router);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  get readyRows(): PatientImportRow[] {
+    return this.rows.filter(r => r.status === 'ready');
+  }
+
+  get importedRows(): PatientImportRow[] {
+    return this.rows.filter(r => r.status === 'imported');
+  }
+
+  get rejectedRows(): PatientImportRow[] {
+    return rejectedImportRows(this.rows);
+  }
+
+  get progressPercent(): number {
+    return this.progressTotal ? Math.round((this.progressDone / this.progressTotal) * 100) : 0;
+  }
+
+  /** First non-empty value of a column, shown next to the mapping select */
+  sampleValue(col: number): string {
+    if (col < 0) return '';
+    return this.dataRows.map(r => (r[col] || '').trim()).find(v => v) || '';
+  }
+
+  statusLabel(row: PatientImportRow): string {
+    switch (row.status) {
+      case 'ready': return 'Ready';
+      case 'invalid': return 'Invalid';
+      case 'duplicate': return 'Duplicate';
+      case 'imported': return 'Imported';
+      case 'failed': return 'Failed';
+    }
+  }
+
+  // ── Step 1: upload ──────────────────────────────────────────
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    this.ngZone.run(() => {
+      this.errorMessage = '';
+      if (rows.length < 2) {
+        this.errorMessage = rows.length === 0
+          ? 'The file is empty.'
+          : 'The file has a header row but no patients.';
+      } else {
+        this.fileName = file.name;
+        this.headers = rows[0].map(h => h.trim());
+        this.dataRows = rows.slice(1);
+        this.mapping = guessPatientImportMapping(this.headers);
+        this.mappingErrors = [];
+        this.step = 'map';
+      }
+      this.cdr.detectChanges();
+    });
+  }
+
+  // ── Step 2: column mapping ──────────────────────────────────
+  onMappingChange(): void {
+    this.mappingErrors = [];
+  }
+
+  /** Dry run: validate every row and check phones against saved patients; nothing is written */
+  async runPreview(): Promise<void> {
+    this.mappingErrors = patientImportMappingErrors(this.mapping);
+    if (this.mappingErrors.length) return;
+
+    this.isChecking = true;
+    this.errorMessage = '';
+    try {
+      const validated = validatePatientImportRows(this.dataRows, this.mapping);
+      const checked = await this.importService.checkDuplicates(validated, (done, total) => this.setProgress(done, total));
+      this.ngZone.run(() => {
+        this.rows = checked;
+        this.step = 'preview';
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Could not check the rows against existing patients. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.isChecking = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  // ── Step 3: preview & import ────────────────────────────────
+  async confirmImport(): Promise<void> {
+    const count = this.readyRows.length;
+    if (count === 0) return;
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: `Import ${count} patient${count === 1 ? '' : 's'}?`,
+      text: 'Each patient gets the next medical record number. Rejected rows are not imported.',
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Import',
+      confirmButtonColor: '#6366f1',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+
+    this.isImporting = true;
+    this.errorMessage = '';
+    try {
+      const imported = await this.importService.importPatients(this.rows, (done, total) => this.setProgress(done, total));
+      this.ngZone.run(() => {
+        this.rows = imported;
+        this.step = 'done';
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Import failed. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.isImporting = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  downloadReport(): void {
+    const baseName = this.fileName.replace(/\.csv$/i, '') || 'patients';
+    downloadCsv(buildPatientImportReport(this.headers, this.rows), `${baseName}-rejected.csv`);
+  }
+
+  backToMapping(): void {
+    this.rows = [];
+    this.step = 'map';
+  }
+
+  startOver(): void {
+    this.step = 'upload';
+    this.fileName = '';
+    this.headers = [];
+    this.dataRows = [];
+    this.rows = [];
+    this.mappingErrors = [];
+    this.errorMessage = '';
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+
+  private setProgress(done: number, total: number): void {
+    this.ngZone.run(() => {
+      this.progressDone = done;
+      this.progressTotal = total;
+      this.cdr.detectChanges();
+    });
+  }
+}
@@ -1,7 +1,15 @@
 import { Component, Input, OnChanges, SimpleChanges, ViewChild, ElementRef, OnDestroy, AfterViewInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Patient, Visit } from '../../models/patient.model';
-import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import { Medicine, Patient, Visit } from '../../models/patient.model';
+import { LabOrder } from '../../models/labOrder.model';
+import { MedicineLinePipe } from '../../pipes/medicine-line.pipe';
+import { VitalsSummaryPipe } from '../../pipes/vitals-summary.pipe';
+import { VitalKey, getVitalRangeLabel } from '../../utilities/vitalsUtils';
+import { DiagnosisCodeCount, countDiagnosisCodes } from '../../utilities/icd10Utils';
+import { LabTrendSeries, buildLabTrendSeries, formatReferenceRange } from '../../utilities/labOrderUtils';
+import { allergySubstances, formatAllergy } from '../../utilities/allergyUtils';
+import { activeProblems, formatProblem, inactiveProblems, problemStatusLabel } from '../../utilities/problemUtils';
+import { Chart, ChartConfiguration, TooltipItem, registerables } from 'chart.js';
 import tippy, { Instance as TippyInstance } from 'tippy.js';
 import 'tippy.js/animations/shift-away.css';
 import moment from 'moment';
@@ -31,18 +39,39 @@ interface MonthlyVisitData {
   count: number;
 }
 
+type VitalTrendKey = 'bp' | Exclude<VitalKey, 'systolicBp' | 'diastolicBp'>;
+
+interface VitalTrendOption {
+  key: VitalTrendKey;
+  label: string;
+  unit: string;
+}
+
+const VITAL_TREND_OPTIONS: VitalTrendOption[] = [
+  { key: 'bp', label: 'BP', unit: 'mmHg' },
+  { key: 'pulse', label: 'Pulse', unit: 'bpm' },
+  { key: 'temperature', label: 'Temp', unit: '°F' },
+  { key: 'spo2', label: 'SpO₂', unit: '%' },
+  { key: 'respiratoryRate', label: 'RR', unit: '/min' },
+  { key: 'weightKg', label: 'Weight', unit: 'kg' },
+  { key: 'bmi', label: 'BMI', unit: 'kg/m²' }
+];
+
 @Component({
   selector: 'app-patient-stats',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, MedicineLinePipe, VitalsSummaryPipe],
   templateUrl: './patient-stats.html',
   styleUrl: './patient-stats.css'
 })
 export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestroy {
   @Input() patient: Patient | null = null;
   @Input() visits: Visit[] = [];
+  @Input() labOrders: LabOrder[] = [];
   
   @ViewChild('visitTrendChart') visitTrendChartRef!: ElementRef<HTMLCanvasElement>;
+  @ViewChild('vitalsTrendChart') vitalsTrendChartRef!: ElementRef<HTMLCanvasElement>;
+  @ViewChild('labTrendChart') labTrendChartRef!: ElementRef<HTMLCanvasElement>;
   @ViewChild('pastIllnessCard') pastIllnessCardRef!: ElementRef<HTMLElement>;
   @ViewChild('allergiesCard') allergiesCardRef!: ElementRef<HTMLElement>;
   @ViewChild('calendarGrid') calendarGridRef!: ElementRef<HTMLElement>;
@@ -74,14 +103,36 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
   monthlyVisitsData: MonthlyVisitData[] = [];
   allergiesList: string[] = [];
   pastIllnessList: string[] = [];
+  activeProblemList: string[] = [];
+  resolvedProblemList: string[] = [];
+  currentPrescription: Medicine[] = [];
+  diagnosisCodeCounts: DiagnosisCodeCount[] = [];
+
+  // Vitals trend chart
+  private vitalsTrendChart: Chart | null = null;
+  private vitalsTrendVisits: Visit[] = [];
+  vitalTrendOptions: VitalTrendOption[] = [];
+  selectedVitalTrend: VitalTrendKey = 'bp';
+
+  // Lab results trend chart
+  private labTrendChart: Chart | null = null;
+  labTrendSeries: LabTrendSeries[] = [];
+  selectedLabSeriesKey: string = '';
 
   ngOnChanges(changes: SimpleChanges): void {
+    if (changes['labOrders']) {
+      this.prepareLabTrendData();
+      setTimeout(() => this.createLabTrendChart(), 100);
+    }
     if (changes['patient'] || changes['visits']) {
       this.calculateStats();
       this.generateCalendar();
       this.prepareAllergiesList();
       this.preparePastIllnessList();
+      this.prepareCurrentPrescription();
+      this.diagnosisCodeCounts = countDiagnosisCodes(this.visits);
       this.prepareMonthlyVisitsData();
+      this.prepareVitalsTrendData();
       
       // Update chart after a small delay to ensure DOM is ready
       setTimeout(() => {
@@ -90,6 +141,7 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
         } else if (this.visitTrendChartRef) {
           this.createVisitTrendChart();
         }
+        this.createVitalsTrendChart();
         this.initTooltips();
         this.initCalendarTooltips();
       }, 100);
@@ -99,6 +151,8 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
   ngAfterViewInit(): void {
     setTimeout(() => {
       this.createVisitTrendChart();
+      this.createVitalsTrendChart();
+      this.createLabTrendChart();
       this.initTooltips();
       this.initCalendarTooltips();
     }, 200);
@@ -117,9 +171,7 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
     }
 
     // Allergies count
-    if (this.patient.allergies) {
-      this.stats.allergiesCount = this.patient.allergies.split(',').filter(a => a.trim()).length;
-    }
+    this.stats.allergiesCount = allergySubstances(this.patient.allergies).length;
 
     // Average visits per month
     if (this.visits.length > 0) {
@@ -131,27 +183,32 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
   }
 
   private prepareAllergiesList(): void {
-    if (!this.patient || !this.patient.allergies) {
-      this.allergiesList = [];
-      return;
-    }
-
-    this.allergiesList = this.patient.allergies.split(',').map(a => a.trim()).filter(a => a);
+    this.allergiesList = (this.patient?.allergies || []).map(formatAllergy);
   }
 
   private preparePastIllnessList(): void {
+    this.activeProblemList = activeProblems(this.patient?.ailments).map(formatProblem);
+    this.resolvedProblemList = inactiveProblems(this.patient?.ailments)
+      .map(p => `${formatProblem(p)} · ${problemStatusLabel(p.status).toLowerCase()}`);
     this.pastIllnessList = this.visits
       .map(v => v.presentIllness)
       .filter((ill): ill is string => !!ill && ill.trim().length > 0)
       .map(ill => ill.trim());
   }
 
-  private buildPill(text: string, type: 'illness' | 'allergy'): string {
-    const isIllness = type === 'illness';
-    const bg = isIllness ? '#eef2ff' : '#fff1f2';
-    const color = isIllness ? '#4f46e5' : '#e11d48';
-    const border = isIllness ? '#c7d2fe' : '#fecdd3';
-    const dot = isIllness ? '#6366f1' : '#f43f5e';
+  /** Medicines from the most recent visit that prescribed any */
+  private prepareCurrentPrescription(): void {
+    const latest = this.visits.find(v => v.medicines && v.medicines.length > 0);
+    this.currentPrescription = latest?.medicines ?? [];
+  }
+
+  private buildPill(text: string, type: 'illness' | 'allergy' | 'resolved'): string {
+    const palette = {
+      illness: { bg: '#eef2ff', color: '#4f46e5', border: '#c7d2fe', dot: '#6366f1' },
+      allergy: { bg: '#fff1f2', color: '#e11d48', border: '#fecdd3', dot: '#f43f5e' },
+      resolved: { bg: '#f1f5f9', color: '#475569', border: '#cbd5e1', dot: '#94a3b8' }
+    };
+    const { bg, color, border, dot } = palette[type];
 
     return `
       <span style="
@@ -181,8 +238,15 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
       if (this.pastIllnessTippy) {
         this.pastIllnessTippy.destroy();
       }
-      const illnessContent = this.pastIllnessList.length > 0
-        ? `<div style="display:flex;flex-wrap:wrap;gap:6px;">${this.pastIllnessList.map(i => this.buildPill(i, 'illness')).join('')}</div>`
+      const sections = [
+        { title: 'Active problems', items: this.activeProblemList, type: 'allergy' as const },
+        { title: 'Resolved / in remission', items: this.resolvedProblemList, type: 'resolved' as const },
+        { title: 'Illnesses at visits', items: this.pastIllnessList, type: 'illness' as const }
+      ].filter(section => section.items.length > 0);
+      const illnessContent = sections.length > 0
+        ? sections.map(section => `
+          <div style="color:#64748b;font-size:11px;font-weight:600;text-transform:uppercase;margin:4px 0 6px;">${section.title}</div>
+          <div style="display:flex;flex-wrap:wrap;gap:6px;margin-bottom:6px;">${section.items.map(i => this.buildPill(i, section.type)).join('')}</div>`).join('')
         : `<span style="color:#64748b;font-size:12px;font-style:italic;">No illnesses recorded</span>`;
 
       this.pastIllnessTippy = tippy(this.pastIllnessCardRef.nativeElement, {
@@ -433,6 +497,227 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
     this.visitTrendChart.update();
   }
 
+  private prepareVitalsTrendData(): void {
+    this.vitalsTrendVisits = this.visits
+      .filter(v => !!v.vitals)
+      .sort((a, b) => this.toDate(a.createdAt).getTime() - this.toDate(b.createdAt).getTime());
+
+    this.vitalTrendOptions = VITAL_TREND_OPTIONS.filter(opt =>
+      this.vitalsTrendVisits.some(v => this.getTrendValues(v, opt.key).some(val => val !== null))
+    );
+    if (!this.vitalTrendOptions.some(opt => opt.key === this.selectedVitalTrend)) {
+      this.selectedVitalTrend = this.vitalTrendOptions[0]?.key ?? 'bp';
+    }
+  }
+
+  /** Values plotted for one visit: [systolic, diastolic] for BP, [value] otherwise */
+  private getTrendValues(visit: Visit, key: VitalTrendKey): (number | null)[] {
+    const vitals = visit.vitals;
+    if (!vitals) return key === 'bp' ? [null, null] : [null];
+    if (key === 'bp') return [vitals.systolicBp ?? null, vitals.diastolicBp ?? null];
+    return [vitals[key] ?? null];
+  }
+
+  selectVitalTrend(key: VitalTrendKey): void {
+    this.selectedVitalTrend = key;
+    this.createVitalsTrendChart();
+  }
+
+  get selectedVitalTrendRange(): string {
+    if (this.selectedVitalTrend === 'bp') {
+      return `${getVitalRangeLabel('systolicBp')} / ${getVitalRangeLabel('diastolicBp')}`;
+    }
+    return getVitalRangeLabel(this.selectedVitalTrend);
+  }
+
+  private createVitalsTrendChart(): void {
+    if (!this.vitalsTrendChartRef?.nativeElement || this.vitalTrendOptions.length === 0) {
+      return;
+    }
+
+    const ctx = this.vitalsTrendChartRef.nativeElement.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+
+    if (this.vitalsTrendChart) {
+      this.vitalsTrendChart.destroy();
+    }
+
+    const key = this.selectedVitalTrend;
+    const option = VITAL_TREND_OPTIONS.find(o => o.key === key)!;
+    const points = this.vitalsTrendVisits.map(v => this.getTrendValues(v, key));
+    const seriesStyle = [
+      { label: key === 'bp' ? 'Systolic' : option.label, color: '#ef4444', fill: 'rgba(239, 68, 68, 0.08)' },
+      { label: 'Diastolic', color: '#6366f1', fill: 'rgba(99, 102, 241, 0.08)' }
+    ];
+
+    const options: ChartConfiguration<'line'>['options'] = {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          display: key === 'bp',
+          labels: { color: '#64748b', font: { size: 12 } }
+        },
+        tooltip: {
+          backgroundColor: '#1e293b',
+          padding: 10,
+          displayColors: key === 'bp',
+          callbacks: {
+            label: (context: TooltipItem<'line'>) => `${context.dataset.label}: ${context.parsed.y} ${option.unit}`
+          }
+        }
+      },
+      scales: {
+        y: {
+          ticks: { color: '#64748b', font: { size: 12 } },
+          grid: { color: '#f1f5f9' }
+        },
+        x: {
+          ticks: { color: '#64748b', font: { size: 12 } },
+          grid: { display: false }
+        }
+      }
+    };
+
+    const config: ChartConfiguration<'line'> = {
+      type: 'line',
+      data: {
+        labels: this.vitalsTrendVisits.map(v => moment(this.toDate(v.createdAt)).format('DD MMM')),
+        datasets: seriesStyle.slice(0, key === 'bp' ? 2 : 1).map((style, i) => ({
+          label: style.label,
+          data: points.map(p => p[i]),
+          borderColor: style.color,
+          backgroundColor: style.fill,
+          borderWidth: 2,
+          tension: 0.3,
+          fill: key !== 'bp',
+          spanGaps: true,
+          pointRadius: 4,
+          pointBackgroundColor: style.color,
+          pointBorderColor: '#ffffff',
+          pointBorderWidth: 2
+        }))
+      },
+      options
+    };
+
+    this.vitalsTrendChart = new Chart(ctx, config);
+  }
+
+  private prepareLabTrendData(): void {
+    this.labTrendSeries = buildLabTrendSeries(this.labOrders || []);
+    if (!this.labTrendSeries.some(s => s.key === this.selectedLabSeriesKey)) {
+      this.selectedLabSeriesKey = this.labTrendSeries[0]?.key ?? '';
+    }
+  }
+
+  get selectedLabSeries(): LabTrendSeries | undefined {
+    return this.labTrendSeries.find(s => s.key === this.selectedLabSeriesKey);
+  }
+
+  get selectedLabRange(): string {
+    const series = this.selectedLabSeries;
+    return series ? formatReferenceRange(series) : '';
+  }
+
+  selectLabSeries(key: string): void {
+    this.selectedLabSeriesKey = key;
+    this.createLabTrendChart();
+  }
+
+  private createLabTrendChart(): void {
+    const series = this.selectedLabSeries;
+    if (!this.labTrendChartRef?.nativeElement || !series) {
+      return;
+    }
+
+    const ctx = this.labTrendChartRef.nativeElement.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+
+    if (this.labTrendChart) {
+      this.labTrendChart.destroy();
+    }
+
+    const unit = series.unit ? ` ${series.unit}` : '';
+    const { referenceLow: low, referenceHigh: high } = series;
+    const pointColors = series.points.map(p =>
+      (low !== undefined && p.value < low) || (high !== undefined && p.value > high) ? '#ef4444' : '#10b981'
+    );
+    // Dashed reference lines for whichever bounds the test has
+    const bounds = [
+      { label: 'Ref. low', value: low },
+      { label: 'Ref. high', value: high }
+    ].filter((b): b is { label: string; value: number } => b.value !== undefined);
+
+    const options: ChartConfiguration<'line'>['options'] = {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          backgroundColor: '#1e293b',
+          padding: 10,
+          displayColors: false,
+          callbacks: {
+            label: (context: TooltipItem<'line'>) => `${context.dataset.label}: ${context.parsed.y}${unit}`
+          }
+        }
+      },
+      scales: {
+        y: {
+          ticks: { color: '#64748b', font: { size: 12 } },
+          grid: { color: '#f1f5f9' }
+        },
+        x: {
+          ticks: { color: '#64748b', font: { size: 12 } },
+          grid: { display: false }
+        }
+      }
+    };
+
+    const config: ChartConfiguration<'line'> = {
+      type: 'line',
+      data: {
+        labels: series.points.map(p => moment(p.date).format('DD MMM YY')),
+        datasets: [
+          {
+            label: series.name,
+            data: series.points.map(p => p.value),
+            borderColor: '#10b981',
+            backgroundColor: 'rgba(16, 185, 129, 0.08)',
+            borderWidth: 2,
+            tension: 0.3,
+            fill: false,
+            pointRadius: 4,
+            pointBackgroundColor: pointColors,
+            pointBorderColor: '#ffffff',
+            pointBorderWidth: 2
+          },
+          ...bounds.map(b => ({
+            label: b.label,
+            data: series.points.map(() => b.value),
+            borderColor: '#94a3b8',
+            borderWidth: 1,
+            borderDash: [4, 4],
+            pointRadius: 0,
+            fill: false
+          }))
+        ]
+      },
+      options
+    };
+
+    this.labTrendChart = new Chart(ctx, config);
+  }
+
+  private toDate(value: Date | any): Date {
+    return value && typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+  }
+
   private generateCalendar(): void {
     const year = this.currentMonth.getFullYear();
     const month = this.currentMonth.getMonth();
@@ -595,6 +880,12 @@ export class PatientStatsComponent implements OnChanges, AfterViewInit, OnDestro
     if (this.visitTrendChart) {
       this.visitTrendChart.destroy();
     }
+    if (this.vitalsTrendChart) {
+      this.vitalsTrendChart.destroy();
+    }
+    if (this.labTrendChart) {
+      this.labTrendChart.destroy();
+    }
     if (this.pastIllnessTippy) {
       this.pastIllnessTippy.destroy();
     }
@@ -0,0 +1,220 @@
+import {
+  Component, EventEmitter, Input, Output, OnDestroy, ViewChild, ElementRef, NgZone, ChangeDetectorRef, inject
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  DEFAULT_PHOTO_CROP,
+  MAX_PHOTO_ZOOM,
+  PHOTO_ACCEPT,
+  PhotoCrop,
+  captureVideoFrame,
+  clampCrop,
+  drawCrop,
+  loadImage,
+  panCrop,
+  renderPhoto,
+  validatePhotoFile
+} from '../../utilities/photoUtils';
+import { cameraErrorMessage, canUseCamera, openCamera, stopCamera } from '../../utilities/cameraUtils';
+
+type CaptureMode = 'idle' | 'camera' | 'crop';
+
+/**
+ * PhotoCaptureComponent: take a patient photo with the webcam or pick an
+ * image file, then drag and zoom a square crop. Emits the cropped, compressed
+ * JPEG — or null when the photo is removed; the parent form uploads it on save.
+ * Usage: <app-photo-capture [photoUrl]="patient.photoUrl" (photoChange)="photo = $event"></app-photo-capture>
+ */
+@Component({
+  selector: 'app-photo-capture',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './photo-capture.html',
+  styleUrl: './photo-capture.css'
+})
+export class PhotoCaptureComponent implements OnDestroy {
+  /** Photo already stored for the patient */
+  @Input() photoUrl: string | undefined;
+  @Input() name: string = '';
+
+  @Output() photoChange = new EventEmitter<Blob | null>();
+
+  @ViewChild('video') videoRef?: ElementRef<HTMLVideoElement>;
+  @ViewChild('cropCanvas') cropCanvasRef?: ElementRef<HTMLCanvasElement>;
+
+  readonly accept = PHOTO_ACCEPT;
+  readonly maxZoom = MAX_PHOTO_ZOOM;
+
+  mode: CaptureMode = 'idle';
+  crop: PhotoCrop = { ...DEFAULT_PHOTO_CROP };
+  errorMessage: string = '';
+  isBusy: boolean = false;
+
+  // Object URL of the photo picked in this form, until it is saved
+  previewUrl: string = '';
+  removed: boolean = false;
+
+  private stream: MediaStream | null = null;
+  private source: HTMLImageElement | null = null;
+  private dragFrom: { x: number; y: number } | null = null;
+
+  private ngZone = inject(NgZone);
+  private cdr = inject(ChangeDetectorRef);
+
+  get displayUrl(): string {
+    if (this.previewUrl) return this.previewUrl;
+    return this.removed ? '' : this.photoUrl || '';
+  }
+
+  get canUseCamera(): boolean {
+    return canUseCamera();
+  }
+
+  ngOnDestroy(): void {
+    this.stopCamera();
+    if (this.previewUrl) URL.revokeObjectURL(this.previewUrl);
+  }
+
+  async startCamera(): Promise<void> {
+    this.errorMessage = '';
+    if (!this.canUseCamera) {
+      this.errorMessage = 'This browser cannot use a camera — upload a photo instead';
+      return;
+    }
+    try {
+      this.stream = await openCamera('user');
+      this.ngZone.run(() => {
+        this.mode = 'camera';
+        this.cdr.detectChanges();
+        const video = this.videoRef?.nativeElement;
+        if (video) video.srcObject = this.stream;
+      });
+    } catch (error: any) {
+      console.error('✗ Error starting camera:', error);
+      this.ngZone.run(() => {
+        this.errorMessage = cameraErrorMessage(error, 'upload a photo');
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async captureFrame(): Promise<void> {
+    const video = this.videoRef?.nativeElement;
+    if (!video?.videoWidth) return;
+    try {
+      const frame = await captureVideoFrame(video);
+      this.stopCamera();
+      await this.openCropper(frame);
+    } catch (error: any) {
+      this.showError(error?.message || 'The photo could not be taken');
+    }
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Let the same file be picked again after cancelling
+    input.value = '';
+    if (!file) return;
+    const problem = validatePhotoFile(file);
+    if (problem) {
+      this.errorMessage = problem;
+      return;
+    }
+    this.errorMessage = '';
+    void this.openCropper(file);
+  }
+
+  private async openCropper(image: Blob): Promise<void> {
+    try {
+      const source = await loadImage(image);
+      this.ngZone.run(() => {
+        this.source = source;
+        this.crop = { ...DEFAULT_PHOTO_CROP };
+        this.mode = 'crop';
+        this.cdr.detectChanges();
+        this.redraw();
+      });
+    } catch (error: any) {
+      this.showError(error?.message || 'This image could not be read');
+    }
+  }
+
+  onZoom(value: string): void {
+    this.crop = clampCrop({ ...this.crop, zoom: Number(value) });
+    this.redraw();
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    this.dragFrom = { x: event.clientX, y: event.clientY };
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    const canvas = this.cropCanvasRef?.nativeElement;
+    if (!this.dragFrom || !this.source || !canvas) return;
+    this.crop = panCrop(this.crop, event.clientX - this.dragFrom.x, event.clientY - this.dragFrom.y,
+      this.source.naturalWidth, this.source.naturalHeight, canvas.clientWidth || canvas.width);
+    this.dragFrom = { x: event.clientX, y: event.clientY };
+    this.redraw();
+  }
+
+  onPointerUp(): void {
+    this.dragFrom = null;
+  }
+
+  async usePhoto(): Promise<void> {
+    if (!this.source) return;
+    this.isBusy = true;
+    try {
+      const photo = await renderPhoto(this.source, this.source.naturalWidth, this.source.naturalHeight, this.crop);
+      this.ngZone.run(() => {
+        if (this.previewUrl) URL.revokeObjectURL(this.previewUrl);
+        this.previewUrl = URL.createObjectURL(photo);
+        this.removed = false;
+        this.source = null;
+        this.mode = 'idle';
+        this.isBusy = false;
+        this.photoChange.emit(photo);
+        this.cdr.detectChanges();
+      });
+    } catch (error: any) {
+      this.isBusy = false;
+      this.showError(error?.message || 'The photo could not be prepared');
+    }
+  }
+
+  removePhoto(): void {
+    if (this.previewUrl) URL.revokeObjectURL(this.previewUrl);
+    this.previewUrl = '';
+    this.removed = true;
+    this.errorMessage = '';
+    this.photoChange.emit(null);
+  }
+
+  cancel(): void {
+    this.stopCamera();
+    this.source = null;
+    this.dragFrom = null;
+    this.mode = 'idle';
+  }
+
+  private redraw(): void {
+    const canvas = this.cropCanvasRef?.nativeElement;
+    if (!canvas || !this.source) return;
+    drawCrop(canvas, this.source, this.source.naturalWidth, this.source.naturalHeight, this.crop);
+  }
+
+  private stopCamera(): void {
+    stopCamera(this.stream);
+    this.stream = null;
+  }
+
+  private showError(message: string): void {
+    this.ngZone.run(() => {
+      this.errorMessage = message;
+      this.mode = 'idle';
+      this.cdr.detectChanges();
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Problem } from '../../models/patient.model';
+import { PROBLEM_STATUSES, createProblem, mergeProblems } from '../../utilities/problemUtils';
+import { todayLocalISO, toLocalISO } from '../../utilities/local-date';
+
+/**
+ * ProblemEditorComponent: the patient's problem list with status, onset date,
+ * ICD-10 code and notes per condition, plus a free-text box to add one.
+ * Usage: <app-problem-editor [(problems)]="problems"></app-problem-editor>
+ */
+@Component({
+  selector: 'app-problem-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './problem-editor.html',
+  styleUrl: './problem-editor.css'
+})
+export class ProblemEditorComponent {
+  @Input() problems: Problem[] = [];
+  @Input() inputId: string = 'problemInput';
+
+  @Output() problemsChange = new EventEmitter<Problem[]>();
+
+  readonly statuses = PROBLEM_STATUSES;
+  readonly today = todayLocalISO();
+
+  newCondition: string = '';
+
+  /** Rows are replaced on every edit; keep the DOM so text boxes keep focus */
+  trackByIndex(index: number): number {
+    return index;
+  }
+
+  onsetValue(problem: Problem): string {
+    return problem.onsetDate ? toLocalISO(problem.onsetDate) : '';
+  }
+
+  onAddKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' || event.key === ',') {
+      // Never submit the surrounding form from the add box
+      event.preventDefault();
+      this.addCondition();
+    }
+  }
+
+  addCondition(): void {
+    const added = this.newCondition.split(',').map(s => s.trim()).filter(s => s).map(s => createProblem(s));
+    this.newCondition = '';
+    if (!added.length) return;
+    const merged = mergeProblems(this.problems, added);
+    if (merged.length !== this.problems.length) this.emit(merged);
+  }
+
+  updateProblem(index: number, changes: Partial<Problem>): void {
+    this.emit(this.problems.map((p, i) => i === index ? { ...p, ...changes } : p));
+  }
+
+  updateOnset(index: number, value: string): void {
+    this.updateProblem(index, { onsetDate: value ? new Date(`${value}T00:00:00`) : undefined });
+  }
+
+  removeProblem(index: number): void {
+    this.emit(this.problems.filter((_, i) => i !== index));
+  }
+
+  private emit(problems: Problem[]): void {
+    this.problems = problems;
+    this.problemsChange.emit(problems);
+  }
+}
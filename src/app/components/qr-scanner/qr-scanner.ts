@@ -0,0 +1,119 @@
+import {
+  Component, EventEmitter, Output, OnInit, OnDestroy, ViewChild, ElementRef, NgZone, ChangeDetectorRef, inject
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { cameraErrorMessage, canUseCamera, openCamera, stopCamera } from '../../utilities/cameraUtils';
+import { QrDecoder, loadQrDecoder, parsePatientQr } from '../../utilities/patientQr';
+
+// Decoding every animation frame would keep a laptop CPU busy for no gain
+const SCAN_INTERVAL_MS = 200;
+
+/**
+ * QrScannerComponent: webcam view that reads a patient ID card's QR code and
+ * emits the patient ID. Decoding happens in the browser, so it works offline.
+ * Usage: <app-qr-scanner *ngIf="showScanner" (scanned)="onCardScanned($event)" (close)="showScanner = false"></app-qr-scanner>
+ */
+@Component({
+  selector: 'app-qr-scanner',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './qr-scanner.html',
+  styleUrl: './qr-scanner.css'
+})
+export class QrScannerComponent implements OnInit, OnDestroy {
+  @Output() scanned = new EventEmitter<string>();
+  @Output() close = new EventEmitter<void>();
+
+  @ViewChild('video', { static: true }) videoRef!: ElementRef<HTMLVideoElement>;
+
+  isStarting: boolean = true;
+  errorMessage: string = '';
+  hint: string = 'Hold the patient card up to the camera';
+
+  private stream: MediaStream | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private destroyed = false;
+
+  private ngZone = inject(NgZone);
+  private cdr = inject(ChangeDetectorRef);
+
+  async ngOnInit(): Promise<void> {
+    if (!canUseCamera()) {
+      this.showError('This browser cannot use a camera — search for the patient instead');
+      return;
+    }
+    try {
+      const [stream, decode] = await Promise.all([openCamera('environment'), loadQrDecoder()]);
+      // Closed while the camera was starting
+      if (this.destroyed) {
+        stopCamera(stream);
+        return;
+      }
+      this.stream = stream;
+      const video = this.videoRef.nativeElement;
+      video.srcObject = stream;
+      await video.play().catch(() => undefined);
+      this.ngZone.run(() => {
+        this.isStarting = false;
+        this.cdr.detectChanges();
+      });
+      // Frames are decoded outside Angular; only a result re-enters the zone
+      this.ngZone.runOutsideAngular(() => {
+        this.timer = setInterval(() => this.scanFrame(decode), SCAN_INTERVAL_MS);
+      });
+    } catch (error: any) {
+      console.error('✗ Error starting card scanner:', error);
+      this.showError(cameraErrorMessage(error, 'search for the patient'));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroyed = true;
+    this.stop();
+  }
+
+  onClose(): void {
+    this.stop();
+    this.close.emit();
+  }
+
+  private scanFrame(decode: QrDecoder): void {
+    const video = this.videoRef.nativeElement;
+    if (!video.videoWidth) return;
+    this.canvas ??= document.createElement('canvas');
+    this.canvas.width = video.videoWidth;
+    this.canvas.height = video.videoHeight;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+    const text = decode(ctx.getImageData(0, 0, this.canvas.width, this.canvas.height));
+    if (!text) return;
+
+    const patientId = parsePatientQr(text);
+    this.ngZone.run(() => {
+      if (patientId) {
+        this.stop();
+        this.scanned.emit(patientId);
+      } else {
+        this.hint = 'That QR code is not a patient card';
+      }
+      this.cdr.detectChanges();
+    });
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    stopCamera(this.stream);
+    this.stream = null;
+  }
+
+  private showError(message: string): void {
+    this.ngZone.run(() => {
+      this.isStarting = false;
+      this.errorMessage = message;
+      this.cdr.detectChanges();
+    });
+  }
+}
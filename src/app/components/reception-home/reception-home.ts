@@ -5,6 +5,8 @@ import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { NavbarComponent } from '../navbar/navbar';
 import { DayViewModalComponent } from '../day-view-modal/day-view-modal';
+import { PatientAvatarComponent } from '../patient-avatar/patient-avatar';
+import { QrScannerComponent } from '../qr-scanner/qr-scanner';
 import { AppointmentService } from '../../services/appointmentService';
 import { FirebaseService } from '../../services/firebase';
 import { AuthenticationService } from '../../services/authenticationService';
@@ -21,7 +23,7 @@ import doctorsData from '../../data/doctors.json';
 @Component({
     selector: 'app-reception-home',
     standalone: true,
-    imports: [CommonModule, FormsModule, NavbarComponent, DayViewModalComponent],
+    imports: [CommonModule, FormsModule, NavbarComponent, DayViewModalComponent, PatientAvatarComponent, QrScannerComponent],
     templateUrl: './reception-home.html',
     styleUrl: './reception-home.css'
 })
@@ -79,6 +81,9 @@ export class ReceptionHomeComponent implements OnInit, OnDestroy {
     dayViewBookedSlots: string[] = [];
     isLoadingDayView = false;
 
+    // Patient ID card scanner
+    showCardScanner = false;
+
     // Greeting
     greeting: string = '';
     userName: string = '';
@@ -174,7 +179,8 @@ export class ReceptionHomeComponent implements OnInit, OnDestroy {
         if (cache.has(cacheKey)) return cache.get(cacheKey)!;
 
         const checkVisitsForPatientId = async (patientId: string): Promise<boolean> => {
-            const visits = await this.patientService.getPatientVisits(patientId);
+            // Newest first — a visit today is always on the first page
+            const { visits } = await this.patientService.getPatientVisitsPage(patientId);
             return visits.some(v => this.isSameLocalDay(new Date((v as any).createdAt), today));
         };
 
@@ -471,10 +477,10 @@ export class ReceptionHomeComponent implements OnInit, OnDestroy {
     async openVisitFromAppointment(appt: Appointment): Promise<void> {
         const directPatientId = (appt.patientId || '').trim();
         if (directPatientId) {
-            // Keep patient ailments in sync with what was entered during appointment booking.
+            // Add ailments entered during appointment booking to the patient's problem list.
             if (appt.ailments && appt.ailments.trim()) {
                 try {
-                    await this.patientService.updatePatient(directPatientId, { ailments: appt.ailments });
+                    await this.patientService.addPatientProblems(directPatientId, appt.ailments.split(','));
                 } catch {
                     // Don't block navigation if this fails.
                 }
@@ -505,6 +511,40 @@ export class ReceptionHomeComponent implements OnInit, OnDestroy {
         this.router.navigate(['/add-appointment'], { queryParams: params });
     }
 
+    openCardScanner(): void {
+        this.errorMessage = '';
+        this.showCardScanner = true;
+        this.cdr.detectChanges();
+    }
+
+    closeCardScanner(): void {
+        this.showCardScanner = false;
+        this.cdr.detectChanges();
+    }
+
+    /** Start an appointment prefilled with the patient on the scanned ID card */
+    async onCardScanned(patientId: string): Promise<void> {
+        this.closeCardScanner();
+        const patient = await this.patientService.getPatient(patientId).catch(() => null);
+        if (!patient) {
+            this.errorMessage = 'No patient found for this card in the current clinic.';
+            this.cdr.detectChanges();
+            return;
+        }
+
+        const params: any = {
+            patientId: patient.uniqueId,
+            patientName: patient.name || '',
+            patientPhone: patient.phone || '',
+            patientFamilyId: patient.familyId || ''
+        };
+        if (this.filterDoctorId) {
+            const doc = this.allDoctors.find(d => normalizeEmail(d.email) === this.filterDoctorId);
+            if (doc) params.doctorId = doc.id;
+        }
+        this.router.navigate(['/add-appointment'], { queryParams: params });
+    }
+
     bookOnDate(): void {
         const params: any = { date: this.selectedDate };
         if (this.filterDoctorId) {
@@ -0,0 +1,140 @@
+// src/app/components/recycle-bin/recycle-bin.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { RecycleBinService } from '../../services/recycleBinService';
+import { AuthenticationService } from '../../services/authenticationService';
+import { AuthorizationService } from '../../services/authorizationService';
+import { DEFAULT_RETENTION_DAYS, RecycleBinItem, RecycleBinItemType } from '../../models/recycleBin.model';
+
+/**
+ * RecycleBinComponent: deleted patients and visits, restorable until the
+ * retention period runs out. Opening the page purges expired items.
+ * Only users with the canDelete permission may see it.
+ * Route: /recycle-bin
+ */
+@Component({
+  selector: 'app-recycle-bin',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent],
+  templateUrl: './recycle-bin.html',
+  styleUrl: './recycle-bin.css'
+})
+export class RecycleBinComponent implements OnInit {
+  items: RecycleBinItem[] = [];
+  typeFilter: RecycleBinItemType | '' = '';
+  retentionDays = DEFAULT_RETENTION_DAYS;
+  retentionInput = DEFAULT_RETENTION_DAYS;
+  canDelete = false;
+  isLoading = true;
+  isSavingRetention = false;
+  busyId: string | null = null;
+  errorMessage = '';
+  successMessage = '';
+
+  private router = inject(Router);
+  private recycleBinService = inject(RecycleBinService);
+  private authService = inject(AuthenticationService);
+  private authorizationService = inject(AuthorizationService);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+
+  async ngOnInit(): Promise<void> {
+    const email = this.authService.currentUserValue?.email || '';
+    this.canDelete = email ? await this.authorizationService.canUserDelete(email) : false;
+    if (!this.canDelete) {
+      this.ngZone.run(() => {
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+      return;
+    }
+    await this.load(true);
+  }
+
+  get filteredItems(): RecycleBinItem[] {
+    return this.typeFilter ? this.items.filter(i => i.type === this.typeFilter) : this.items;
+  }
+
+  purgeDate(item: RecycleBinItem): Date {
+    return this.recycleBinService.purgeDate(item, this.retentionDays);
+  }
+
+  async load(purgeExpired = false): Promise<void> {
+    this.isLoading = true;
+    this.errorMessage = '';
+    try {
+      const retentionDays = await this.recycleBinService.getRetentionDays();
+      let items = await this.recycleBinService.getItems();
+      if (purgeExpired && await this.recycleBinService.purgeExpired(items, retentionDays)) {
+        items = await this.recycleBinService.getItems();
+      }
+      this.ngZone.run(() => {
+        this.retentionDays = retentionDays;
+        this.retentionInput = retentionDays;
+        this.items = items;
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to load the recycle bin';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async saveRetention(): Promise<void> {
+    this.isSavingRetention = true;
+    this.errorMessage = '';
+    this.successMessage = '';
+    try {
+      const days = Number(this.retentionInput);
+      await this.recycleBinService.setRetentionDays(days);
+      this.ngZone.run(() => {
+        this.retentionDays = days;
+        this.successMessage = `Deleted records are now kept for ${days} day(s)`;
+      });
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Failed to save the retention period';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.isSavingRetention = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async restore(item: RecycleBinItem): Promise<void> {
+    this.busyId = item.id ?? null;
+    this.errorMessage = '';
+    this.successMessage = '';
+    try {
+      await this.recycleBinService.restore(item);
+      this.ngZone.run(() => {
+        this.items = this.items.filter(i => i.id !== item.id);
+        this.successMessage = item.type === 'patient'
+          ? `${item.patientName} restored`
+          : `Visit of ${item.patientName} restored`;
+      });
+    } catch (error) {
+      this.ngZone.run(() => {
+        this.errorMessage = error instanceof Error ? error.message : 'Restore failed. Please try again.';
+      });
+    } finally {
+      this.ngZone.run(() => {
+        this.busyId = null;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+}
@@ -0,0 +1,122 @@
+import { Component, EventEmitter, Input, OnInit, Output, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { PatientService } from '../../services/patient';
+import { Visit, VisitContent } from '../../models/patient.model';
+import { VisitFieldChange, diffVisitContent, extractVisitContent } from '../../utilities/visitRevisionUtils';
+import moment from 'moment';
+
+interface VisitVersion {
+  version: number;
+  content: VisitContent;
+  savedAt: Date;
+  savedBy?: string;   // editor who produced this version; unset for the original entry
+  reason?: string;
+  isCurrent: boolean;
+}
+
+@Component({
+  selector: 'app-visit-revisions',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './visit-revisions.html',
+  styleUrl: './visit-revisions.css'
+})
+export class VisitRevisionsComponent implements OnInit {
+  @Input() patientId: string = '';
+  @Input() visit: Visit | null = null;
+
+  @Output() close = new EventEmitter<void>();
+
+  versions: VisitVersion[] = [];
+  fromVersion: number = 1;
+  toVersion: number = 1;
+  changes: VisitFieldChange[] = [];
+
+  isLoading: boolean = true;
+  errorMessage: string = '';
+
+  constructor(
+    private patientService: PatientService,
+    private cdr: ChangeDetectorRef,
+    private ngZone: NgZone
+  ) {}
+
+  async ngOnInit(): Promise<void> {
+    if (!this.patientId || !this.visit?.id) {
+      this.errorMessage = 'Visit not found';
+      this.isLoading = false;
+      return;
+    }
+
+    try {
+      const revisions = await this.patientService.getVisitRevisions(this.patientId, this.visit.id);
+      const versions: VisitVersion[] = revisions.map((rev, i) => ({
+        version: rev.revision,
+        content: rev.content,
+        savedAt: i === 0 ? this.visit!.createdAt : revisions[i - 1].editedAt,
+        savedBy: i === 0 ? undefined : revisions[i - 1].editedByName,
+        reason: i === 0 ? undefined : revisions[i - 1].reason,
+        isCurrent: false
+      }));
+      const last = revisions[revisions.length - 1];
+      versions.push({
+        version: versions.length + 1,
+        content: extractVisitContent(this.visit),
+        savedAt: last ? last.editedAt : this.visit.createdAt,
+        savedBy: last?.editedByName,
+        reason: last?.reason,
+        isCurrent: true
+      });
+
+      this.ngZone.run(() => {
+        this.versions = versions;
+        this.toVersion = versions.length;
+        this.fromVersion = Math.max(1, versions.length - 1);
+        this.updateDiff();
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch (error) {
+      console.error('Error loading visit revisions:', error);
+      this.ngZone.run(() => {
+        this.errorMessage = 'Could not load the history of this visit.';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  /** Compare one version with the version it replaced */
+  showChangesFor(version: number): void {
+    if (version <= 1) return;
+    this.fromVersion = version - 1;
+    this.toVersion = version;
+    this.updateDiff();
+  }
+
+  updateDiff(): void {
+    const from = this.versions.find(v => v.version === Number(this.fromVersion));
+    const to = this.versions.find(v => v.version === Number(this.toVersion));
+    this.changes = from && to ? diffVisitContent(from.content, to.content) : [];
+  }
+
+  isLineRemoved(change: VisitFieldChange, line: string): boolean {
+    return !change.after.includes(line);
+  }
+
+  isLineAdded(change: VisitFieldChange, line: string): boolean {
+    return !change.before.includes(line);
+  }
+
+  formatDateTime(date: Date | undefined | any): string {
+    if (!date) return 'N/A';
+    if (date && typeof date.toDate === 'function') date = date.toDate();
+    const m = moment(date);
+    return m.isValid() ? m.format('DD MMM YYYY, hh:mm A') : 'N/A';
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
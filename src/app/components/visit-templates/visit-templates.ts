@@ -0,0 +1,217 @@
+// src/app/components/visit-templates/visit-templates.ts
+import { Component, OnInit, inject, ChangeDetectorRef, NgZone } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar';
+import { Icd10PickerComponent } from '../icd10-picker/icd10-picker';
+import { VisitTemplateService } from '../../services/visitTemplateService';
+import { ClinicContextService } from '../../services/clinicContextService';
+import { VisitTemplate } from '../../models/visitTemplate.model';
+import { CodedDiagnosis, Examination, Medicine } from '../../models/patient.model';
+import { MEDICINE_ROUTES } from '../../utilities/prescriptionUtils';
+import { cleanTemplateFields, describeTemplateFields } from '../../utilities/visitTemplateUtils';
+import Swal from 'sweetalert2';
+
+/**
+ * VisitTemplatesComponent: settings screen for named visit templates.
+ * Doctors create and edit their own templates and may share them clinic-wide;
+ * shared templates from colleagues are listed read-only.
+ * Route: /templates
+ */
+@Component({
+  selector: 'app-visit-templates',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NavbarComponent, Icd10PickerComponent],
+  templateUrl: './visit-templates.html',
+  styleUrl: './visit-templates.css'
+})
+export class VisitTemplatesComponent implements OnInit {
+  templates: VisitTemplate[] = [];
+  isLoading = true;
+  errorMessage = '';
+  successMessage = '';
+
+  // ── Editor ──
+  editing: VisitTemplate | null = null;   // null + isEditorOpen = new template
+  isEditorOpen = false;
+  isSaving = false;
+  name = '';
+  shared = false;
+  presentIllnessText = '';   // one illness per line
+  chiefComplaints = '';
+  diagnosis = '';
+  diagnosisCodes: CodedDiagnosis[] = [];
+  examinations: Examination[] = [];
+  medicines: Medicine[] = [];
+  treatmentPlan = '';
+  advice = '';
+  followUpDays: number | null = null;
+
+  readonly medicineRoutes = MEDICINE_ROUTES;
+
+  private templateService = inject(VisitTemplateService);
+  private router = inject(Router);
+  private cdr = inject(ChangeDetectorRef);
+  private ngZone = inject(NgZone);
+  private clinicContextService = inject(ClinicContextService);
+
+  async ngOnInit(): Promise<void> {
+    await this.loadTemplates();
+  }
+
+  /** Sharing is clinic-wide, so it needs a selected clinic */
+  get canShare(): boolean {
+    return !!this.clinicContextService.getSelectedClinicId();
+  }
+
+  get myTemplates(): VisitTemplate[] {
+    return this.templates.filter(t => this.templateService.isOwner(t));
+  }
+
+  get sharedWithMe(): VisitTemplate[] {
+    return this.templates.filter(t => !this.templateService.isOwner(t));
+  }
+
+  describe(template: VisitTemplate): string {
+    return describeTemplateFields(template.fields).join(' · ') || 'Empty template';
+  }
+
+  async loadTemplates(): Promise<void> {
+    try {
+      const templates = await this.templateService.getTemplates();
+      this.ngZone.run(() => {
+        this.templates = templates;
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to load templates.';
+        this.isLoading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  // ── Editor ────────────────────────────────────────────────
+  openEditor(template: VisitTemplate | null = null): void {
+    const f = template?.fields ?? {};
+    this.editing = template;
+    this.name = template?.name ?? '';
+    this.shared = template?.shared ?? false;
+    this.presentIllnessText = (f.presentIllness || []).join('\n');
+    this.chiefComplaints = f.chiefComplaints ?? '';
+    this.diagnosis = f.diagnosis ?? '';
+    this.diagnosisCodes = (f.diagnosisCodes || []).map(d => ({ ...d }));
+    this.examinations = (f.examinations || []).map(e => ({ ...e }));
+    this.medicines = (f.medicines || []).map(m => ({ ...m }));
+    this.treatmentPlan = f.treatmentPlan ?? '';
+    this.advice = f.advice ?? '';
+    this.followUpDays = f.followUpDays ?? null;
+    this.errorMessage = '';
+    this.successMessage = '';
+    this.isEditorOpen = true;
+  }
+
+  /** Start a new template of your own from a colleague's shared one */
+  duplicateTemplate(template: VisitTemplate): void {
+    this.openEditor({ ...template, name: `${template.name} (copy)`, shared: false });
+    this.editing = null;
+  }
+
+  closeEditor(): void {
+    this.isEditorOpen = false;
+    this.editing = null;
+  }
+
+  addExaminationRow(): void {
+    this.examinations.push({ testName: '', result: '' });
+  }
+
+  removeExaminationRow(index: number): void {
+    this.examinations.splice(index, 1);
+  }
+
+  addMedicineRow(): void {
+    this.medicines.push({ name: '', dosage: '', frequency: '' });
+  }
+
+  removeMedicineRow(index: number): void {
+    this.medicines.splice(index, 1);
+  }
+
+  async saveTemplate(): Promise<void> {
+    this.errorMessage = '';
+    if (!this.name.trim()) {
+      this.errorMessage = 'Template name is required';
+      return;
+    }
+    const fields = cleanTemplateFields({
+      presentIllness: this.presentIllnessText.split('\n'),
+      chiefComplaints: this.chiefComplaints,
+      diagnosis: this.diagnosis,
+      diagnosisCodes: this.diagnosisCodes,
+      examinations: this.examinations,
+      medicines: this.medicines,
+      treatmentPlan: this.treatmentPlan,
+      advice: this.advice,
+      followUpDays: this.followUpDays ?? undefined
+    });
+    if (describeTemplateFields(fields).length === 0) {
+      this.errorMessage = 'Fill in at least one field for the template to prefill';
+      return;
+    }
+
+    this.isSaving = true;
+    try {
+      await this.templateService.saveTemplate(
+        { name: this.name, fields, shared: this.shared },
+        this.editing ?? undefined
+      );
+      const name = this.name.trim();
+      this.closeEditor();
+      this.successMessage = `Template “${name}” saved.`;
+      await this.loadTemplates();
+    } catch {
+      this.errorMessage = 'Failed to save the template. Please try again.';
+    } finally {
+      this.ngZone.run(() => {
+        this.isSaving = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  async deleteTemplate(template: VisitTemplate): Promise<void> {
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const result = await Swal.fire({
+      title: 'Delete template?',
+      text: template.shared
+        ? `“${template.name}” is shared — it will be removed for the whole clinic.`
+        : `“${template.name}” will be deleted.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Delete',
+      confirmButtonColor: '#ef4444',
+      background: isDark ? '#1f1f1f' : '#ffffff',
+      color: isDark ? '#e0e0e0' : '#1e293b'
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await this.templateService.deleteTemplate(template);
+      if (this.editing?.id === template.id) this.closeEditor();
+      await this.loadTemplates();
+    } catch {
+      this.ngZone.run(() => {
+        this.errorMessage = 'Failed to delete the template. Please try again.';
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  goHome(): void {
+    this.router.navigate(['/home']);
+  }
+}
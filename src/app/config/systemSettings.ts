@@ -10,6 +10,7 @@ export interface TimeSlotsConfig {
   startHour: number;
   endHour: number; // exclusive
   slotMinutes: number;
+  closedWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
 }
 
 export interface AutoCancelConfig {
@@ -24,18 +25,57 @@ export interface UiDateFilterConfig {
 
 export interface PatientConfig {
   phoneMaxDigits: number;
+  postalCodeDigits: number;
+  // Medical record numbers are printed as e.g. MR-000042
+  mrnPrefix: string;
+  mrnDigits: number;
 }
 
 export interface AddAppointmentConfig {
   maxDate: string; // YYYY-MM-DD
 }
 
+export interface VitalRange {
+  min: number;
+  max: number; // inclusive
+}
+
+/**
+ * Adult reference ranges used to flag out-of-range vitals on the visit form.
+ * Temperature is recorded in °F.
+ */
+export interface VitalsConfig {
+  systolicBp: VitalRange;
+  diastolicBp: VitalRange;
+  pulse: VitalRange;
+  temperature: VitalRange;
+  spo2: VitalRange;
+  respiratoryRate: VitalRange;
+  bmi: VitalRange;
+}
+
+export type PaperSize = 'A4' | 'A5';
+
+/**
+ * Clinic letterhead printed at the top of prescriptions / visit summaries.
+ */
+export interface LetterheadConfig {
+  clinicName: string;
+  addressLines: string[];
+  phone: string;
+  email: string;
+  footerNote: string;
+  paperSize: PaperSize; // default size offered in the print preview
+}
+
 export interface SystemSettings {
   timeSlots: TimeSlotsConfig;
   autoCancelAt: AutoCancelConfig;
   ui: UiDateFilterConfig;
   patient: PatientConfig;
   addAppointment: AddAppointmentConfig;
+  vitals: VitalsConfig;
+  letterhead: LetterheadConfig;
 }
 
 // Defaults match existing hardcoded behavior.
@@ -43,7 +83,8 @@ export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
   timeSlots: {
     startHour: 9,
     endHour: 18,
-    slotMinutes: 30
+    slotMinutes: 30,
+    closedWeekdays: []
   },
   autoCancelAt: {
     hour: 23,
@@ -54,10 +95,30 @@ export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
     appointmentsDateMax: '2099-12-31'
   },
   patient: {
-    phoneMaxDigits: 10
+    phoneMaxDigits: 10,
+    postalCodeDigits: 6,
+    mrnPrefix: 'MR',
+    mrnDigits: 6
   },
   addAppointment: {
     maxDate: '9999-12-31'
+  },
+  vitals: {
+    systolicBp: { min: 90, max: 139 },
+    diastolicBp: { min: 60, max: 89 },
+    pulse: { min: 60, max: 100 },
+    temperature: { min: 97, max: 99.5 },
+    spo2: { min: 95, max: 100 },
+    respiratoryRate: { min: 12, max: 20 },
+    bmi: { min: 18.5, max: 24.9 }
+  },
+  letterhead: {
+    clinicName: 'IntelliRx Clinic',
+    addressLines: [],
+    phone: '',
+    email: '',
+    footerNote: 'This is a computer-generated prescription.',
+    paperSize: 'A5'
   }
 };
 
@@ -0,0 +1,27 @@
+// src/app/models/attachment.model.ts
+
+export type AttachmentType = 'lab-report' | 'imaging' | 'referral-letter' | 'other';
+
+/**
+ * A scanned report or image kept with a patient (`patients/{id}/attachments`).
+ * The file itself lives in Firebase Storage; attachments with a `visitId`
+ * belong to that visit, the rest to the patient record.
+ */
+export interface Attachment {
+  id?: string;
+  patientId: string;
+  visitId?: string;
+  type: AttachmentType;
+  fileName: string;          // original file name, shown to the user
+  contentType: string;       // e.g. "application/pdf", "image/jpeg"
+  size: number;              // bytes
+  storagePath: string;
+  downloadUrl: string;
+  thumbnailPath?: string;    // images only
+  thumbnailUrl?: string;
+  description?: string;
+  uploadedBy: string;        // email of the uploader
+  userId: string;            // Firebase Auth UID of the uploader
+  clinicId?: string;
+  createdAt: Date;
+}
@@ -0,0 +1,69 @@
+// src/app/models/auditLog.model.ts
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'status-change'
+  | 'reschedule'
+  | 'cancel'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'merge';
+
+export type AuditEntityType = 'patient' | 'visit' | 'appointment' | 'labOrder' | 'attachment';
+
+/** One field that changed, both values formatted as text for display */
+export interface AuditFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * One write to a clinical or scheduling record (`auditLog` collection).
+ * Entries are only ever added — never edited or deleted.
+ */
+export interface AuditLogEntry {
+  id?: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;          // appointment/order/attachment id, or the visit id for visits
+  patientId?: string;        // links to Patient.uniqueId
+  patientName?: string;
+  summary?: string;          // e.g. "Cancelled: patient unwell"
+  changes?: AuditFieldChange[];
+  actorId: string;           // Firebase Auth UID
+  actorName: string;
+  actorEmail: string;
+  clinicId?: string;
+  scopeKey: string;          // `clinic:{clinicId}` or `user:{uid}` — what the log is read by
+  month: string;             // YYYY-MM of the timestamp, so date ranges need no composite index
+  timestamp: Date;
+}
+
+/** What callers pass to AuditLogService.record — the actor and clinic are filled in */
+export type AuditEvent = Pick<AuditLogEntry,
+  'action' | 'entityType' | 'entityId' | 'patientId' | 'patientName' | 'summary' | 'changes'> & {
+    clinicId?: string;
+  };
+
+export const AUDIT_ACTIONS: Array<{ value: AuditAction; label: string }> = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Edited' },
+  { value: 'status-change', label: 'Status changed' },
+  { value: 'reschedule', label: 'Rescheduled' },
+  { value: 'cancel', label: 'Cancelled' },
+  { value: 'delete', label: 'Deleted' },
+  { value: 'restore', label: 'Restored' },
+  { value: 'purge', label: 'Purged' },
+  { value: 'merge', label: 'Merged' }
+];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  patient: 'Patient',
+  visit: 'Visit',
+  appointment: 'Appointment',
+  labOrder: 'Lab order',
+  attachment: 'Attachment'
+};
@@ -0,0 +1,163 @@
+// src/app/models/fhir.model.ts
+
+/**
+ * The parts of FHIR R4 (https://hl7.org/fhir/R4/) that IntelliRX reads and writes.
+ * Only the elements used by fhirUtils are declared; anything else in an
+ * incoming bundle is ignored.
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;       // e.g. "urn:uuid:…" or "Patient/123"
+  display?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueString?: string;
+  valueDate?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+}
+
+interface FhirResourceBase {
+  id?: string;
+  extension?: FhirExtension[];
+}
+
+export interface FhirPatient extends FhirResourceBase {
+  resourceType: 'Patient';
+  identifier?: FhirIdentifier[];
+  name?: Array<{ text?: string; family?: string; given?: string[] }>;
+  telecom?: Array<{ system?: 'phone' | 'email' | string; value?: string; use?: string; rank?: number }>;
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;       // YYYY-MM-DD
+  address?: Array<{ line?: string[]; city?: string; state?: string; postalCode?: string; country?: string; text?: string }>;
+  contact?: Array<{
+    relationship?: FhirCodeableConcept[];
+    name?: { text?: string };
+    telecom?: Array<{ system?: string; value?: string }>;
+  }>;
+  communication?: Array<{ language: FhirCodeableConcept; preferred?: boolean }>;
+}
+
+export interface FhirEncounter extends FhirResourceBase {
+  resourceType: 'Encounter';
+  status: string;
+  class: FhirCoding;
+  subject?: FhirReference;
+  period?: FhirPeriod;
+  reasonCode?: FhirCodeableConcept[];
+  diagnosis?: Array<{ condition: FhirReference; rank?: number }>;
+}
+
+export interface FhirCondition extends FhirResourceBase {
+  resourceType: 'Condition';
+  clinicalStatus?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  code?: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  note?: FhirAnnotation[];
+}
+
+export interface FhirMedicationRequest extends FhirResourceBase {
+  resourceType: 'MedicationRequest';
+  status: string;
+  intent: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  authoredOn?: string;
+  dosageInstruction?: Array<{
+    text?: string;
+    timing?: { code?: FhirCodeableConcept };
+    route?: FhirCodeableConcept;
+    patientInstruction?: string;
+  }>;
+  dispenseRequest?: { quantity?: FhirQuantity };
+}
+
+export interface FhirAllergyIntolerance extends FhirResourceBase {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: FhirCodeableConcept;
+  category?: Array<'food' | 'medication' | 'environment' | 'biologic'>;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: FhirCodeableConcept;
+  patient?: FhirReference;
+  recordedDate?: string;
+  reaction?: Array<{ manifestation: FhirCodeableConcept[]; severity?: 'mild' | 'moderate' | 'severe' }>;
+}
+
+export interface FhirObservation extends FhirResourceBase {
+  resourceType: 'Observation';
+  status: string;
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: FhirQuantity;
+  valueString?: string;
+  valueCodeableConcept?: FhirCodeableConcept;
+  component?: Array<{ code: FhirCodeableConcept; valueQuantity?: FhirQuantity }>;
+}
+
+export interface FhirAppointment extends FhirResourceBase {
+  resourceType: 'Appointment';
+  status: string;
+  cancelationReason?: FhirCodeableConcept;
+  description?: string;
+  start?: string;
+  comment?: string;
+  reasonCode?: FhirCodeableConcept[];
+  participant: Array<{ actor?: FhirReference; status: string }>;
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirEncounter
+  | FhirCondition
+  | FhirMedicationRequest
+  | FhirAllergyIntolerance
+  | FhirObservation
+  | FhirAppointment;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'collection' | string;
+  timestamp?: string;
+  entry?: Array<{ fullUrl?: string; resource?: FhirResource | { resourceType: string } }>;
+}
@@ -0,0 +1,26 @@
+// src/app/models/formulary.model.ts
+
+/**
+ * One drug in the clinic formulary (`formulary` collection).
+ * Used to autocomplete medicine entry on the visit form.
+ */
+export interface FormularyDrug {
+  id?: string;
+  genericName: string;       // e.g. "Amoxicillin"
+  brands: string[];          // e.g. ["Mox", "Novamox"]
+  strengths: string[];       // e.g. ["250mg", "500mg"]
+  forms: string[];           // e.g. ["Capsule", "Syrup"]
+  defaultFrequency?: string; // e.g. "1-0-1"
+  defaultRoute?: string;     // see MEDICINE_ROUTES
+  /**
+   * SaaS scoping: clinic that owns this entry.
+   * Entries added without a clinic context belong to the creating user only.
+   */
+  clinicId?: string;
+  userId: string;            // Firebase Auth UID of the user who added it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Fields supplied when adding or importing a drug */
+export type FormularyDrugInput = Omit<FormularyDrug, 'id' | 'clinicId' | 'userId' | 'createdAt' | 'updatedAt'>;
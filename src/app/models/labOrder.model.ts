@@ -0,0 +1,38 @@
+// src/app/models/labOrder.model.ts
+
+export type LabOrderStatus = 'ordered' | 'sample-collected' | 'resulted';
+
+/**
+ * One measured value of a lab test, e.g. Hemoglobin 13.2 g/dL (12–17).
+ * `value` is kept as entered so qualitative results ("Negative") fit too;
+ * numeric values are parsed for flags and charts.
+ */
+export interface LabResultValue {
+  name: string;            // e.g. "Hemoglobin"
+  value: string;           // e.g. "13.2" or "Negative"
+  unit?: string;           // e.g. "g/dL"
+  referenceLow?: number;
+  referenceHigh?: number;
+}
+
+/**
+ * A lab test ordered during a visit (`labOrders` collection).
+ * Moves from ordered → sample-collected → resulted.
+ */
+export interface LabOrder {
+  id?: string;
+  patientId: string;       // links to Patient.uniqueId
+  patientName: string;
+  visitId?: string;        // visit the test was ordered from
+  testName: string;        // e.g. "Complete Blood Count"
+  status: LabOrderStatus;
+  results: LabResultValue[];
+  notes?: string;
+  doctorId: string;        // normalized email of the ordering doctor
+  clinicId?: string;
+  userId: string;          // Firebase Auth UID of the user who placed the order
+  orderedAt: Date;
+  sampleCollectedAt?: Date;
+  resultedAt?: Date;
+  updatedAt: Date;
+}
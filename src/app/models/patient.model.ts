@@ -1,25 +1,100 @@
 export interface Patient {
   uniqueId: string; // Primary key: combination of userId, familyId and phone
   userId: string; // Firebase Auth UID - for user-specific data access
-  familyId: string; // lastname_firstname
+  familyId: string; // lastname_firstname_phone; members of one household share it
+  mrn?: string; // clinic-scoped sequential medical record number, e.g. MR-000042 — see mrnUtils
+  familyRelationship?: FamilyRelationship; // relative to the head of household
   name: string;
   phone: string;
   clinicId?: string;
   email?: string;
   dateOfBirth?: Date;
   gender?: string;
-  allergies?: string;
-  ailments?: string;
+  photoUrl?: string;        // download URL of the cropped photo in Storage
+  photoPath?: string;       // Storage path of that photo, for replacing / deleting it
+  address?: PatientAddress;
+  alternatePhone?: string;
+  emergencyContact?: EmergencyContact;
+  bloodGroup?: string;      // one of BLOOD_GROUPS — see demographicsUtils
+  occupation?: string;
+  preferredLanguage?: string;
+  governmentIds?: GovernmentId[];
+  allergies?: Allergy[];    // older records stored a comma-joined string — see allergyUtils
+  ailments?: Problem[];      // problem list; older records stored a comma-joined string — see problemUtils
+  mergedInto?: string;      // set on a merged duplicate: uniqueId of the record that replaced it
+  mergedAt?: Date;
+  mergedBy?: string;        // name of the user who merged the records
+  deletedAt?: Date;         // set while the record is in the recycle bin
+  deletedBy?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type FamilyRelationship = 'head' | 'spouse' | 'child' | 'parent' | 'sibling' | 'other';
+
+/** Postal address; every part is optional so a cleared address can be stored as {} */
+export interface PatientAddress {
+  line1?: string;           // house / street
+  line2?: string;           // area / landmark
+  city?: string;
+  state?: string;
+  postalCode?: string;      // PIN code
+  country?: string;
+}
+
+export interface EmergencyContact {
+  name?: string;
+  relation?: string;        // e.g. "Spouse", "Father"
+  phone?: string;
+}
+
+export type GovernmentIdType = 'aadhaar' | 'pan' | 'passport' | 'voter-id' | 'driving-licence' | 'other';
+
+export interface GovernmentId {
+  type: GovernmentIdType;
+  number: string;           // stored uppercase without spaces
+}
+
 export interface Illness {
   description: string;
 }
 
+export type AllergyCategory = 'drug' | 'food' | 'environmental';
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'unknown';
+
+/**
+ * A recorded allergy. Severity is 'unknown' for entries migrated from the
+ * old free-text list until a clinician reviews them.
+ */
 export interface Allergy {
-  name: string;
+  substance: string;        // e.g. "Penicillin", "Peanuts"
+  category: AllergyCategory;
+  reaction?: string;        // e.g. "Hives", "Anaphylaxis"
+  severity: AllergySeverity;
+  recordedAt: Date;
+}
+
+export type ProblemStatus = 'active' | 'resolved' | 'in-remission';
+
+/**
+ * A chronic or long-standing condition on the patient's problem list.
+ * Onset is unknown for entries migrated from the old free-text ailments.
+ */
+export interface Problem {
+  condition: string;        // e.g. "Type 2 diabetes mellitus"
+  status: ProblemStatus;
+  onsetDate?: Date;
+  icdCode?: string;         // e.g. "E11.9"
+  notes?: string;
+  recordedAt: Date;
+}
+
+/** How one visit changed the problem list */
+export interface ProblemChange {
+  condition: string;
+  change: 'added' | 'updated' | 'removed';
+  fromStatus?: ProblemStatus;
+  toStatus?: ProblemStatus;
 }
 
 export interface ChiefComplaint {
@@ -30,6 +105,15 @@ export interface Diagnosis {
   description: string;
 }
 
+/**
+ * An ICD-10 coded diagnosis on a visit; exactly one per visit is primary
+ */
+export interface CodedDiagnosis {
+  code: string;          // e.g. "J06.9"
+  description: string;
+  type: 'primary' | 'secondary';
+}
+
 export interface Examination {
   testName: string;
   result: string;
@@ -39,6 +123,34 @@ export interface Medicine {
   name: string;
   dosage: string;
   frequency: string;
+  duration?: string;     // e.g. "5 days"
+  route?: string;        // e.g. "Oral", see MEDICINE_ROUTES
+  quantity?: number;     // units to dispense
+  instructions?: string; // e.g. "After food"
+}
+
+/**
+ * A drug–allergy warning the prescriber saw and chose to override
+ */
+export interface AllergyOverride {
+  medicine: string;
+  allergy: string;
+  allergenClass?: string;
+  reason: string;
+  acknowledgedBy: string;   // display name of the prescriber
+  acknowledgedAt: Date;
+}
+
+export interface Vitals {
+  systolicBp?: number;      // mmHg
+  diastolicBp?: number;     // mmHg
+  pulse?: number;           // beats/min
+  temperature?: number;     // °F
+  spo2?: number;            // %
+  respiratoryRate?: number; // breaths/min
+  heightCm?: number;
+  weightKg?: number;
+  bmi?: number;             // derived from height & weight on save
 }
 
 export interface Visit {
@@ -46,11 +158,48 @@ export interface Visit {
   visitType?: 'appointment' | 'walk-in';
   presentIllness?: string;
   chiefComplaints: string;
-  diagnosis: string;
+  diagnosis: string;        // free-text note, kept alongside the coded diagnoses
+  diagnosisCodes?: CodedDiagnosis[];
   examination: string;
-  medicines?: string; 
+  /**
+   * Structured prescription lines.
+   * Older visits stored a joined "name - dosage - frequency, ..." string;
+   * those are parsed into this shape when read (see normalizeMedicines).
+   */
+  medicines?: Medicine[];
+  vitals?: Vitals;
   treatmentPlan: string;
   advice: string;
+  followUpDate?: Date;
+  allergyOverrides?: AllergyOverride[];
+  problemChanges?: ProblemChange[];   // problem list edits made while recording this visit
+  doctorId?: string;        // email of the doctor who recorded the visit (matches Appointment.doctorId)
+  revisionCount?: number;   // number of earlier versions kept in the revisions subcollection
+  lastEditedBy?: string;    // display name of whoever last edited the visit
+  deletedAt?: Date;         // set while the visit is in the recycle bin
+  deletedBy?: string;
   createdAt: Date;
   updatedAt: Date;
+}
+
+/** The clinical fields of a visit that can be corrected after it was saved */
+export type VisitContent = Pick<Visit,
+  'presentIllness' | 'chiefComplaints' | 'diagnosis' | 'diagnosisCodes' | 'examination' |
+  'medicines' | 'vitals' | 'treatmentPlan' | 'advice'>;
+
+/** An edit of a saved visit: its content plus the allergy overrides for the edited medicines */
+export type VisitEdit = VisitContent & Pick<Visit, 'allergyOverrides'>;
+
+/**
+ * One superseded version of a visit, stored at patients/{id}/visits/{visitId}/revisions.
+ * `content` is the visit as it was *before* the edit made by `editedBy` at `editedAt`.
+ */
+export interface VisitRevision {
+  id?: string;
+  revision: number;       // 1 = the originally recorded visit
+  content: VisitContent;
+  editedBy: string;       // Firebase Auth UID
+  editedByName: string;
+  editedAt: Date;
+  reason?: string;
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// src/app/models/recycleBin.model.ts
+
+export type RecycleBinItemType = 'patient' | 'visit';
+
+/**
+ * A deleted patient or visit awaiting purge (`recycleBin/{id}`). The record
+ * itself stays in place with `deletedAt` set, hidden from every list, until it
+ * is restored or the retention period runs out.
+ */
+export interface RecycleBinItem {
+  id?: string;               // `patient_{patientId}` or `visit_{patientId}_{visitId}`
+  type: RecycleBinItemType;
+  patientId: string;
+  visitId?: string;
+  patientName: string;
+  summary?: string;          // visits: date and diagnosis, to tell them apart
+  reason?: string;           // e.g. set by the automatic no-show cleanup
+  deletedBy: string;         // display name
+  deletedById: string;       // Firebase Auth UID
+  ownerId: string;           // the patient's userId, for users without a clinic
+  clinicId?: string;
+  deletedAt: Date;
+}
+
+export interface RecycleBinSettings {
+  retentionDays: number;     // deleted records are purged this many days after deletion
+}
+
+export const DEFAULT_RETENTION_DAYS = 30;
@@ -0,0 +1,35 @@
+// src/app/models/visitDraft.model.ts
+import { Allergy, AllergyOverride, CodedDiagnosis, Examination, Medicine, Problem, Vitals } from './patient.model';
+
+/**
+ * Everything typed into the Add Visit form, kept so an unfinished
+ * visit can be resumed after a reload or on another device.
+ */
+export interface VisitDraftFields {
+  chiefComplaints: string;
+  presentIllness: string[];
+  allergies: Allergy[];
+  ailments: Problem[];
+  diagnosis: string;
+  diagnosisCodes: CodedDiagnosis[];
+  examinations: Examination[];
+  labTestOrders: string[];
+  treatmentPlan: string;
+  advice: string;
+  followUpDate: string;      // YYYY-MM-DD, '' when not set
+  bookFollowUp: boolean;
+  medicines: Medicine[];
+  allergyOverrides: AllergyOverride[];
+  vitals?: Vitals;
+}
+
+export interface VisitDraft {
+  id?: string;               // `${userId}_${patientId}` — one draft per doctor and patient
+  patientId: string;
+  patientName: string;
+  fields: VisitDraftFields;
+  userId: string;            // Firebase Auth UID of the doctor writing the visit
+  clinicId?: string;
+  deviceId: string;          // browser that saved the draft last
+  updatedAt: Date;
+}
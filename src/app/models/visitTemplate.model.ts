@@ -0,0 +1,30 @@
+// src/app/models/visitTemplate.model.ts
+import { CodedDiagnosis, Examination, Medicine } from './patient.model';
+
+/**
+ * Visit form fields a template can prefill. Every field is optional —
+ * only the ones set are applied to the form.
+ */
+export interface VisitTemplateFields {
+  presentIllness?: string[];
+  chiefComplaints?: string;
+  diagnosis?: string;
+  diagnosisCodes?: CodedDiagnosis[];
+  examinations?: Examination[];
+  medicines?: Medicine[];
+  treatmentPlan?: string;
+  advice?: string;
+  followUpDays?: number;   // follow-up date = visit day + N days
+}
+
+export interface VisitTemplate {
+  id?: string;
+  name: string;            // e.g. "Viral fever adult"
+  fields: VisitTemplateFields;
+  shared: boolean;         // visible to every doctor in the clinic
+  ownerId: string;         // Firebase Auth UID of the doctor who owns it
+  ownerName: string;
+  clinicId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
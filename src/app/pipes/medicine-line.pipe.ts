@@ -0,0 +1,21 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { Medicine } from '../models/patient.model';
+import { formatMedicineLine } from '../utilities/prescriptionUtils';
+
+/**
+ * MedicineLinePipe — renders one structured prescription line
+ *
+ * Usage in templates:
+ *   {{ med | medicineLine }}  → "Amoxicillin 500mg · 1-0-1 · 5 days · Oral · Qty 15 — After food"
+ */
+@Pipe({
+  name: 'medicineLine',
+  standalone: true,
+  pure: true
+})
+export class MedicineLinePipe implements PipeTransform {
+  transform(value: Medicine | null | undefined): string {
+    if (!value) return '';
+    return formatMedicineLine(value);
+  }
+}
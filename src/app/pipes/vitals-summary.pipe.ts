@@ -0,0 +1,20 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { Vitals } from '../models/patient.model';
+import { formatVitals } from '../utilities/vitalsUtils';
+
+/**
+ * VitalsSummaryPipe — renders a visit's vitals on one line
+ *
+ * Usage in templates:
+ *   {{ visit.vitals | vitalsSummary }}  → "BP 120/80 · Pulse 72 · Temp 98.6°F · SpO₂ 98%"
+ */
+@Pipe({
+  name: 'vitalsSummary',
+  standalone: true,
+  pure: true
+})
+export class VitalsSummaryPipe implements PipeTransform {
+  transform(value: Vitals | null | undefined): string {
+    return formatVitals(value);
+  }
+}
@@ -9,7 +9,7 @@ import { Appointment } from '../models/appointment.model';
  * but never received a visit on their appointment date.
  *
  * This service should be called once on relevant page loads (e.g. appointments list,
- * home page) to check and purge stale no-show records.
+ * home page) to check for stale no-show records and move them to the recycle bin.
  */
 @Injectable({ providedIn: 'root' })
 export class AppointmentCleanupService {
@@ -22,7 +22,7 @@ export class AppointmentCleanupService {
   /**
    * Run cleanup once per session.
    * Finds past appointments marked isNewPatient=true, checks if the patient
-   * has any visits. If not, deletes the patient record.
+   * has any visits. If not, moves the patient record to the recycle bin.
    */
   async runCleanupIfNeeded(): Promise<void> {
     if (this.hasRunThisSession) return;
@@ -53,10 +53,10 @@ export class AppointmentCleanupService {
 
       for (const appt of uniqueAppts) {
         try {
-          const visits = await this.patientService.getPatientVisits(appt.patientId);
+          const { visits } = await this.patientService.getPatientVisitsPage(appt.patientId);
           if (visits.length === 0) {
-            console.log(`🧹 Cleanup: deleting no-visit patient ${appt.patientId} (${appt.patientName})`);
-            await this.patientService.deletePatient(appt.patientId);
+            console.log(`🧹 Cleanup: recycling no-visit patient ${appt.patientId} (${appt.patientName})`);
+            await this.patientService.deletePatient(appt.patientId, 'Automatic cleanup: no visit after first appointment');
           }
         } catch {
           // Patient may have already been deleted or is inaccessible — skip silently.
@@ -5,6 +5,7 @@ import {
   collection,
   doc,
   setDoc,
+  getDoc,
   getDocs,
   updateDoc,
   query,
@@ -16,6 +17,8 @@ import { AuthorizationService } from './authorizationService';
 import { Appointment } from '../models/appointment.model';
 import { normalizeEmail } from '../utilities/normalize-email';
 import { ClinicContextService } from './clinicContextService';
+import { AuditLogService } from './auditLogService';
+import { diffFields } from '../utilities/auditUtils';
 
 @Injectable({ providedIn: 'root' })
 export class AppointmentService {
@@ -29,7 +32,8 @@ export class AppointmentService {
     private db: Firestore,
     private authService: AuthenticationService,
     private authorizationService: AuthorizationService,
-    private clinicContextService: ClinicContextService
+    private clinicContextService: ClinicContextService,
+    private auditLogService: AuditLogService
   ) {}
 
   private getCurrentUserId(): string {
@@ -53,6 +57,12 @@ export class AppointmentService {
     return cleaned;
   }
 
+  /** The stored appointment before a change, for the audit log */
+  private async getStoredAppointment(id: string): Promise<Record<string, any>> {
+    const snap = await getDoc(doc(collection(this.db, 'appointments'), id));
+    return snap.exists() ? snap.data() : {};
+  }
+
   /** Invalidate cache — call after any write operation */
   invalidateCache(): void {
     this.cache = null;
@@ -98,6 +108,15 @@ export class AppointmentService {
       await setDoc(newDocRef, payload);
       this.invalidateCache(); // clear cache so next load is fresh
       console.log('✓ Appointment booked with ID:', id);
+      await this.auditLogService.record({
+        action: 'create',
+        entityType: 'appointment',
+        entityId: id,
+        patientId: payload.patientId || undefined,
+        patientName: data.patientName,
+        summary: `Booked for ${new Date(data.appointmentDate).toLocaleDateString()} at ${data.appointmentTime}`,
+        clinicId: data.clinicId
+      });
       return id;
 
     } catch (error) {
@@ -194,12 +213,22 @@ export class AppointmentService {
 
   async updateAppointmentStatus(id: string, status: Appointment['status']): Promise<void> {
     try {
+      const before = await this.getStoredAppointment(id);
       const appointmentsCol = collection(this.db, 'appointments');
       await updateDoc(doc(appointmentsCol, id), {
         status,
         updatedAt: Timestamp.fromDate(new Date())
       });
       this.invalidateCache(); // clear cache so next load reflects updated status
+      await this.auditLogService.record({
+        action: 'status-change',
+        entityType: 'appointment',
+        entityId: id,
+        patientId: before['patientId'] || undefined,
+        patientName: before['patientName'],
+        changes: diffFields(before, { status }),
+        clinicId: before['clinicId']
+      });
     } catch (error) {
       console.error('✗ Error updating appointment status:', error);
       throw error;
@@ -209,6 +238,7 @@ export class AppointmentService {
   /** Cancel an appointment with a reason */
   async cancelAppointment(id: string, reason: string): Promise<void> {
     try {
+      const before = await this.getStoredAppointment(id);
       const appointmentsCol = collection(this.db, 'appointments');
       await updateDoc(doc(appointmentsCol, id), {
         status: 'cancelled',
@@ -217,6 +247,16 @@ export class AppointmentService {
       });
       this.invalidateCache();
       console.log(`✓ Appointment ${id} cancelled with reason: ${reason}`);
+      await this.auditLogService.record({
+        action: 'cancel',
+        entityType: 'appointment',
+        entityId: id,
+        patientId: before['patientId'] || undefined,
+        patientName: before['patientName'],
+        summary: reason,
+        changes: diffFields(before, { status: 'cancelled', cancellationReason: reason }),
+        clinicId: before['clinicId']
+      });
     } catch (error) {
       console.error('✗ Error cancelling appointment:', error);
       throw error;
@@ -271,6 +311,7 @@ export class AppointmentService {
   /** Postpone (reschedule) an appointment to a new date and time slot. */
   async postponeAppointment(id: string, newDate: Date, newTime: string): Promise<void> {
     try {
+      const before = await this.getStoredAppointment(id);
       const appointmentsCol = collection(this.db, 'appointments');
       await updateDoc(doc(appointmentsCol, id), {
         appointmentDate: Timestamp.fromDate(newDate),
@@ -279,6 +320,15 @@ export class AppointmentService {
       });
       this.invalidateCache();
       console.log(`✓ Appointment ${id} postponed to ${newDate.toLocaleDateString()} at ${newTime}`);
+      await this.auditLogService.record({
+        action: 'reschedule',
+        entityType: 'appointment',
+        entityId: id,
+        patientId: before['patientId'] || undefined,
+        patientName: before['patientName'],
+        changes: diffFields(before, { appointmentDate: newDate, appointmentTime: newTime }),
+        clinicId: before['clinicId']
+      });
     } catch (error) {
       console.error('✗ Error postponing appointment:', error);
       throw error;
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDocs,
+  mockSetDoc,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockRef,
+  mockUploadBytes,
+  mockGetDownloadURL,
+  mockDeleteObject,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDocs: vi.fn(),
+    mockSetDoc: vi.fn().mockResolvedValue(undefined),
+    mockDeleteDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockRef: vi.fn(),
+    mockUploadBytes: vi.fn().mockResolvedValue(undefined),
+    mockGetDownloadURL: vi.fn(),
+    mockDeleteObject: vi.fn(),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  setDoc: (...args: any[]) => mockSetDoc(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Mock @angular/fire/storage ───────────────────────────────────────────────
+vi.mock('@angular/fire/storage', () => ({
+  Storage: class { },
+  ref: (...args: any[]) => mockRef(...args),
+  uploadBytes: (...args: any[]) => mockUploadBytes(...args),
+  getDownloadURL: (...args: any[]) => mockGetDownloadURL(...args),
+  deleteObject: (...args: any[]) => mockDeleteObject(...args),
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { AttachmentService } = await import('./attachmentService');
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const auditLogService = { record: vi.fn().mockResolvedValue(undefined) };
+const firebaseService = { getPatientById: vi.fn() };
+// Canvas is not available under Node — thumbnails are stubbed
+const createThumbnail = vi.fn();
+
+function makeService() {
+  return new AttachmentService(
+    {} as any,
+    {} as any,
+    firebaseService as any,
+    { getCurrentUserId: () => 'user-1', currentUserValue: { email: 'dr.house@example.com' } } as any,
+    { getSelectedClinicId: () => 'clinic-1' } as any,
+    auditLogService as any,
+    createThumbnail
+  );
+}
+
+function fileOf(name: string, type: string, size = 1024): File {
+  return { name, type, size } as File;
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('AttachmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    mockCollection.mockReturnValue({ id: 'attachments' });
+    mockDoc.mockImplementation((_col: any, id?: string) => ({ id: id ?? 'att-1' }));
+    mockRef.mockImplementation((_storage: any, path: string) => ({ path }));
+    mockGetDownloadURL.mockImplementation(async (r: { path: string }) => `https://files/${r.path}`);
+    firebaseService.getPatientById.mockResolvedValue({ uniqueId: 'patient-1' });
+  });
+
+  it('lists the attachments of a patient the user can open, newest first', async () => {
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        { id: 'att-1', data: () => ({ fileName: 'old.pdf', createdAt: MockTimestamp.fromDate(new Date('2024-01-01')) }) },
+        { id: 'att-2', data: () => ({ fileName: 'new.pdf', createdAt: MockTimestamp.fromDate(new Date('2024-02-01')) }) },
+      ],
+    });
+
+    const attachments = await makeService().getAttachments('patient-1');
+
+    expect(firebaseService.getPatientById).toHaveBeenCalledWith('patient-1', 'user-1', 'clinic-1');
+    expect(attachments.map(a => a.id)).toEqual(['att-2', 'att-1']);
+  });
+
+  it("refuses to list another clinic's patient attachments", async () => {
+    firebaseService.getPatientById.mockResolvedValue(null);
+
+    await expect(makeService().getAttachments('patient-9')).rejects.toThrow('Patient not found or unauthorized');
+    expect(mockGetDocs).not.toHaveBeenCalled();
+  });
+
+  it('lists the attachments of a deleted visit for purging, without the live patient check', async () => {
+    firebaseService.getPatientById.mockResolvedValue(null);
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        { id: 'att-1', data: () => ({ visitId: 'visit-1', createdAt: MockTimestamp.fromDate(new Date('2024-01-01')) }) },
+        { id: 'att-2', data: () => ({ visitId: 'visit-2', createdAt: MockTimestamp.fromDate(new Date('2024-02-01')) }) },
+      ],
+    });
+
+    const attachments = await makeService().listAttachmentsForPurge(
+      { type: 'visit', patientId: 'patient-1', visitId: 'visit-1', ownerId: 'user-9', clinicId: 'clinic-1' } as any
+    );
+
+    expect(firebaseService.getPatientById).not.toHaveBeenCalled();
+    expect(attachments.map(a => a.id)).toEqual(['att-1']);
+  });
+
+  it("refuses to list attachments for purging another clinic's recycle bin item", async () => {
+    await expect(makeService().listAttachmentsForPurge(
+      { type: 'patient', patientId: 'patient-9', ownerId: 'user-9', clinicId: 'clinic-9' } as any
+    )).rejects.toThrow('Item not found or unauthorized');
+    expect(mockGetDocs).not.toHaveBeenCalled();
+  });
+
+  it("refuses to upload to another clinic's patient", async () => {
+    firebaseService.getPatientById.mockResolvedValue(null);
+
+    await expect(
+      makeService().uploadAttachment('patient-9', fileOf('scan.pdf', 'application/pdf'), { type: 'other' })
+    ).rejects.toThrow('Patient not found or unauthorized');
+    expect(mockUploadBytes).not.toHaveBeenCalled();
+  });
+
+  it('uploads a PDF to the attachment folder and records it on the visit', async () => {
+    const attachment = await makeService().uploadAttachment('patient-1', fileOf('Blood report (March).pdf', 'application/pdf'), {
+      type: 'lab-report',
+      visitId: 'visit-7',
+      description: '  CBC  ',
+    });
+
+    expect(mockUploadBytes).toHaveBeenCalledOnce();
+    const storagePath = mockUploadBytes.mock.calls[0][0].path;
+    expect(storagePath.startsWith('patients/patient-1/attachments/att-1/')).toBe(true);
+    expect(createThumbnail).not.toHaveBeenCalled();
+
+    const [docRef, payload] = mockSetDoc.mock.calls[0];
+    expect(docRef).toEqual({ id: 'att-1' });
+    expect(payload).toMatchObject({
+      patientId: 'patient-1',
+      visitId: 'visit-7',
+      type: 'lab-report',
+      description: 'CBC',
+      clinicId: 'clinic-1',
+      downloadUrl: `https://files/${storagePath}`,
+      uploadedBy: 'dr.house@example.com',
+    });
+    expect(payload.id).toBeUndefined();
+    expect(payload.createdAt).toBeInstanceOf(MockTimestamp);
+    expect(attachment.id).toBe('att-1');
+  });
+
+  it('stores a thumbnail next to uploaded images', async () => {
+    createThumbnail.mockResolvedValue(new Blob(['thumb']));
+
+    const attachment = await makeService().uploadAttachment('patient-1', fileOf('xray.png', 'image/png'), { type: 'imaging' });
+
+    expect(mockUploadBytes).toHaveBeenCalledTimes(2);
+    expect(attachment.thumbnailPath).toBe('patients/patient-1/attachments/att-1/thumb.jpg');
+    expect(attachment.thumbnailUrl).toBe('https://files/patients/patient-1/attachments/att-1/thumb.jpg');
+    expect(attachment.visitId).toBeUndefined();
+  });
+
+  it('rejects unsupported files before touching Storage', async () => {
+    await expect(
+      makeService().uploadAttachment('patient-1', fileOf('notes.exe', 'application/x-msdownload'), { type: 'other' })
+    ).rejects.toThrow();
+    expect(mockUploadBytes).not.toHaveBeenCalled();
+    expect(mockSetDoc).not.toHaveBeenCalled();
+  });
+
+  it('deletes the record even when the stored file is already gone', async () => {
+    mockDeleteObject
+      .mockRejectedValueOnce({ code: 'storage/object-not-found' })
+      .mockResolvedValueOnce(undefined);
+
+    await makeService().deleteAttachment({
+      id: 'att-9',
+      patientId: 'patient-1',
+      storagePath: 'patients/patient-1/attachments/att-9/scan.jpg',
+      thumbnailPath: 'patients/patient-1/attachments/att-9/thumb.jpg',
+    } as any);
+
+    expect(mockDeleteObject).toHaveBeenCalledTimes(2);
+    expect(mockDeleteDoc).toHaveBeenCalledWith({ id: 'att-9' });
+  });
+});
@@ -0,0 +1,215 @@
+// src/app/services/attachmentService.ts
+import { Inject, Injectable, InjectionToken } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  Timestamp
+} from '@angular/fire/firestore';
+import { Storage, ref, uploadBytes, getDownloadURL, deleteObject } from '@angular/fire/storage';
+import { AuthenticationService } from './authenticationService';
+import { FirebaseService } from './firebase';
+import { ClinicContextService } from './clinicContextService';
+import { AuditLogService } from './auditLogService';
+import { Attachment, AttachmentType } from '../models/attachment.model';
+import { RecycleBinItem } from '../models/recycleBin.model';
+import { createImageThumbnail, storageSafeFileName, validateAttachmentFile } from '../utilities/attachmentUtils';
+
+export interface AttachmentUploadOptions {
+  type: AttachmentType;
+  visitId?: string;
+  description?: string;
+}
+
+/** Makes the list thumbnail of an uploaded image; needs a canvas, so tests provide their own */
+export const IMAGE_THUMBNAILER = new InjectionToken<(image: Blob) => Promise<Blob | null>>('IMAGE_THUMBNAILER', {
+  providedIn: 'root',
+  factory: () => createImageThumbnail
+});
+
+@Injectable({ providedIn: 'root' })
+export class AttachmentService {
+
+  // Per-patient cache — cleared on any write
+  private patientCache = new Map<string, Attachment[]>();
+
+  constructor(
+    private db: Firestore,
+    private storage: Storage,
+    private firebaseService: FirebaseService,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService,
+    private auditLogService: AuditLogService,
+    @Inject(IMAGE_THUMBNAILER) private createThumbnail: (image: Blob) => Promise<Blob | null>
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Same owner-or-clinic check as the patient record itself */
+  private async assertPatientAccess(patientId: string, userId: string): Promise<void> {
+    const clinicId = this.clinicContextService.getSelectedClinicId() || undefined;
+    const patient = await this.firebaseService.getPatientById(patientId, userId, clinicId);
+    if (!patient) throw new Error('Patient not found or unauthorized');
+  }
+
+  /** Invalidate cache — call after any write operation */
+  invalidateCache(): void {
+    this.patientCache.clear();
+  }
+
+  private attachmentsCollection(patientId: string) {
+    return collection(doc(collection(this.db, 'patients'), patientId), 'attachments');
+  }
+
+  /** All attachments of a patient (visit and patient-level), newest first */
+  async getAttachments(patientId: string): Promise<Attachment[]> {
+    try {
+      await this.assertPatientAccess(patientId, this.getCurrentUserId());
+      const cached = this.patientCache.get(patientId);
+      if (cached) return cached;
+      const attachments = await this.readAttachments(patientId);
+      this.patientCache.set(patientId, attachments);
+      return attachments;
+    } catch (error) {
+      console.error('✗ Error fetching attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attachments that go with a recycle bin item: all of a deleted patient's, or
+   * those of a deleted visit. The patient may be in the bin itself, so access
+   * is checked against the item, the same way a restore is.
+   */
+  async listAttachmentsForPurge(item: RecycleBinItem): Promise<Attachment[]> {
+    try {
+      const userId = this.getCurrentUserId();
+      const clinicId = this.clinicContextService.getSelectedClinicId();
+      const hasAccess = item.ownerId === userId || (clinicId && item.clinicId === clinicId);
+      if (!hasAccess) throw new Error('Item not found or unauthorized');
+      const attachments = await this.readAttachments(item.patientId);
+      return item.type === 'visit' ? attachments.filter(a => a.visitId === item.visitId) : attachments;
+    } catch (error) {
+      console.error('✗ Error fetching attachments to purge:', error);
+      throw error;
+    }
+  }
+
+  private async readAttachments(patientId: string): Promise<Attachment[]> {
+    const snap = await getDocs(this.attachmentsCollection(patientId));
+    return snap.docs
+      .map(d => {
+        const data = d.data() as any;
+        return {
+          ...data,
+          id: d.id,
+          createdAt: data.createdAt?.toDate?.() ?? new Date(data.createdAt),
+        } as Attachment;
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Upload a file to Storage (plus a thumbnail for images) and record it on the patient.
+   * Throws with a readable message when the file type or size is not accepted.
+   */
+  async uploadAttachment(patientId: string, file: File, options: AttachmentUploadOptions): Promise<Attachment> {
+    const invalid = validateAttachmentFile(file);
+    if (invalid) throw new Error(invalid);
+
+    const userId = this.getCurrentUserId();
+    await this.assertPatientAccess(patientId, userId);
+    const attachmentRef = doc(this.attachmentsCollection(patientId));
+    const basePath = `patients/${patientId}/attachments/${attachmentRef.id}`;
+    const storagePath = `${basePath}/${storageSafeFileName(file.name)}`;
+    try {
+      await uploadBytes(ref(this.storage, storagePath), file, { contentType: file.type });
+      const downloadUrl = await getDownloadURL(ref(this.storage, storagePath));
+
+      const attachment: Attachment = {
+        id: attachmentRef.id,
+        patientId,
+        type: options.type,
+        fileName: file.name,
+        contentType: file.type,
+        size: file.size,
+        storagePath,
+        downloadUrl,
+        uploadedBy: this.authService.currentUserValue?.email || '',
+        userId,
+        createdAt: new Date()
+      };
+      if (options.visitId) attachment.visitId = options.visitId;
+      const description = (options.description || '').trim();
+      if (description) attachment.description = description;
+      const clinicId = this.clinicContextService.getSelectedClinicId();
+      if (clinicId) attachment.clinicId = clinicId;
+
+      if (file.type.startsWith('image/')) {
+        // A missing thumbnail only costs a larger download in the list
+        const thumbnail = await this.createThumbnail(file);
+        if (thumbnail) {
+          const thumbnailPath = `${basePath}/thumb.jpg`;
+          await uploadBytes(ref(this.storage, thumbnailPath), thumbnail, { contentType: 'image/jpeg' });
+          attachment.thumbnailPath = thumbnailPath;
+          attachment.thumbnailUrl = await getDownloadURL(ref(this.storage, thumbnailPath));
+        }
+      }
+
+      const { id, ...data } = attachment;
+      await setDoc(attachmentRef, { ...data, createdAt: Timestamp.fromDate(attachment.createdAt) });
+
+      this.invalidateCache();
+      console.log('✓ Attachment uploaded:', attachmentRef.id);
+      await this.auditLogService.record({
+        action: 'create',
+        entityType: 'attachment',
+        entityId: attachmentRef.id,
+        patientId,
+        summary: `Uploaded ${file.name}`,
+        clinicId: attachment.clinicId
+      });
+      return attachment;
+    } catch (error) {
+      console.error('✗ Error uploading attachment:', error);
+      throw error;
+    }
+  }
+
+  /** Remove the record and its Storage files. Callers gate this on canUserDelete. */
+  async deleteAttachment(attachment: Attachment): Promise<void> {
+    if (!attachment.id) return;
+    try {
+      const paths = [attachment.storagePath, attachment.thumbnailPath].filter((p): p is string => !!p);
+      for (const path of paths) {
+        try {
+          await deleteObject(ref(this.storage, path));
+        } catch (error: any) {
+          // Already gone — still remove the record
+          if (error?.code !== 'storage/object-not-found') throw error;
+        }
+      }
+      await deleteDoc(doc(this.attachmentsCollection(attachment.patientId), attachment.id));
+      this.invalidateCache();
+      console.log('✓ Attachment deleted:', attachment.id);
+      await this.auditLogService.record({
+        action: 'delete',
+        entityType: 'attachment',
+        entityId: attachment.id,
+        patientId: attachment.patientId,
+        summary: `Deleted ${attachment.fileName}`,
+        clinicId: attachment.clinicId
+      });
+    } catch (error) {
+      console.error('✗ Error deleting attachment:', error);
+      throw error;
+    }
+  }
+}
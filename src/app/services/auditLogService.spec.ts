@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDocs,
+  mockSetDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDocs: vi.fn(),
+    mockSetDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  setDoc: (...args: any[]) => mockSetDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { AuditLogService } = await import('./auditLogService');
+import { auditMonthsBetween, diffFields } from '../utilities/auditUtils';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function makeService(clinicId: string | null = 'clinic-1') {
+  return new AuditLogService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1', currentUserValue: { name: 'Dr House', email: 'house@example.com' } } as any,
+    { getSelectedClinicId: () => clinicId } as any
+  );
+}
+
+function snapshotOf(entries: Array<Record<string, any>>) {
+  return { docs: entries.map(({ id, ...data }) => ({ id, data: () => data })) };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('AuditLogService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 15, 10, 30));
+    mockCollection.mockReturnValue({ id: 'auditLog' });
+    mockDoc.mockReturnValue({ id: 'entry-1' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the actor, clinic and month with each entry', async () => {
+    await makeService().record({
+      action: 'cancel',
+      entityType: 'appointment',
+      entityId: 'appt-1',
+      patientId: 'pat-1',
+      patientName: 'John Doe',
+      summary: 'Patient unwell',
+      changes: [{ field: 'status', before: 'scheduled', after: 'cancelled' }]
+    });
+
+    const [, data] = mockSetDoc.mock.calls[0];
+    expect(data).toMatchObject({
+      action: 'cancel',
+      entityId: 'appt-1',
+      actorId: 'user-1',
+      actorName: 'Dr House',
+      actorEmail: 'house@example.com',
+      clinicId: 'clinic-1',
+      scopeKey: 'clinic:clinic-1',
+      month: '2025-03',
+    });
+    expect(data.timestamp.toDate()).toEqual(new Date(2025, 2, 15, 10, 30));
+  });
+
+  it('leaves out empty optional fields', async () => {
+    await makeService(null).record({ action: 'delete', entityType: 'attachment', entityId: 'att-1', changes: [] });
+
+    const [, data] = mockSetDoc.mock.calls[0];
+    expect(data.scopeKey).toBe('user:user-1');
+    expect(data).not.toHaveProperty('changes');
+    expect(data).not.toHaveProperty('clinicId');
+    expect(data).not.toHaveProperty('patientId');
+  });
+
+  it('never fails the caller when the entry cannot be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    mockSetDoc.mockRejectedValueOnce(new Error('permission-denied'));
+
+    await expect(makeService().record({ action: 'create', entityType: 'visit', entityId: 'v1' })).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('queries whole months of the clinic log and trims to the exact range, newest first', async () => {
+    mockGetDocs.mockResolvedValueOnce(snapshotOf([
+      { id: 'a', action: 'create', timestamp: MockTimestamp.fromDate(new Date(2025, 0, 31, 9)) },
+      { id: 'b', action: 'update', timestamp: MockTimestamp.fromDate(new Date(2025, 1, 10, 9)) },
+      { id: 'c', action: 'delete', timestamp: MockTimestamp.fromDate(new Date(2025, 1, 20, 9)) },
+    ]));
+
+    const entries = await makeService().getEntries(new Date(2025, 1, 1), new Date(2025, 1, 28, 23, 59));
+
+    expect(mockWhere).toHaveBeenCalledWith('scopeKey', '==', 'clinic:clinic-1');
+    expect(mockWhere).toHaveBeenCalledWith('month', 'in', ['2025-02']);
+    expect(entries.map(e => e.id)).toEqual(['c', 'b']);
+    expect(entries[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('rejects reversed or overly long date ranges', () => {
+    expect(() => auditMonthsBetween(new Date(2025, 5, 1), new Date(2025, 4, 1))).toThrow('before the end date');
+    expect(() => auditMonthsBetween(new Date(2020, 0, 1), new Date(2025, 0, 1))).toThrow('at most 30 months');
+    expect(auditMonthsBetween(new Date(2024, 11, 20), new Date(2025, 1, 3))).toEqual(['2024-12', '2025-01', '2025-02']);
+  });
+
+  it('diffs only the fields that changed, formatting dates and lists', () => {
+    const changes = diffFields(
+      { phone: '5551234567', dateOfBirth: new Date(1980, 4, 2), tags: ['a'], name: 'John' },
+      { phone: '5559999999', dateOfBirth: new Date(1980, 4, 2), tags: ['a', 'b'] }
+    );
+    expect(changes).toEqual([
+      { field: 'phone', before: '5551234567', after: '5559999999' },
+      { field: 'tags', before: '["a"]', after: '["a","b"]' },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+// src/app/services/auditLogService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { AuditEvent, AuditLogEntry } from '../models/auditLog.model';
+import { auditMonthKey, auditMonthsBetween } from '../utilities/auditUtils';
+
+/**
+ * Append-only trail of who created, edited, cancelled, rescheduled or deleted
+ * which clinical and scheduling records. There is deliberately no update or
+ * delete here; Firestore rules should only allow `create` on `auditLog`.
+ */
+@Injectable({ providedIn: 'root' })
+export class AuditLogService {
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Clinic log when a clinic is selected, otherwise the user's own entries */
+  private getScope(): { clinicId: string | null; userId: string; key: string } {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    return { clinicId, userId, key: clinicId ? `clinic:${clinicId}` : `user:${userId}` };
+  }
+
+  /**
+   * Append an entry for a write that already succeeded. Never throws — a
+   * failed audit write is logged rather than reported as a failed save.
+   */
+  async record(event: AuditEvent): Promise<void> {
+    try {
+      const scope = this.getScope();
+      const user = this.authService.currentUserValue;
+      const clinicId = scope.clinicId || event.clinicId;
+      const now = new Date();
+      const entry: Omit<AuditLogEntry, 'id' | 'timestamp'> = {
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        ...(event.patientId ? { patientId: event.patientId } : {}),
+        ...(event.patientName ? { patientName: event.patientName } : {}),
+        ...(event.summary ? { summary: event.summary } : {}),
+        ...(event.changes?.length ? { changes: event.changes } : {}),
+        actorId: scope.userId,
+        actorName: user?.name || user?.email || 'Unknown',
+        actorEmail: user?.email || '',
+        ...(clinicId ? { clinicId } : {}),
+        scopeKey: clinicId ? `clinic:${clinicId}` : scope.key,
+        month: auditMonthKey(now)
+      };
+      await setDoc(doc(collection(this.db, 'auditLog')), { ...entry, timestamp: Timestamp.fromDate(now) });
+    } catch (error) {
+      console.error('✗ Error writing audit log entry:', event.action, event.entityType, event.entityId, error);
+    }
+  }
+
+  /**
+   * Entries of the clinic (or the user's own) between two dates, newest first.
+   * Queries whole months by equality so no composite index is needed; the
+   * exact range and any other filters are applied by the caller.
+   */
+  async getEntries(from: Date, to: Date): Promise<AuditLogEntry[]> {
+    const scope = this.getScope();
+    const months = auditMonthsBetween(from, to);
+    try {
+      const q = query(collection(this.db, 'auditLog'),
+        where('scopeKey', '==', scope.key),
+        where('month', 'in', months));
+      const snap = await getDocs(q);
+      return snap.docs
+        .map(d => {
+          const data = d.data() as any;
+          return {
+            ...data,
+            id: d.id,
+            timestamp: data.timestamp?.toDate?.() ?? new Date(data.timestamp),
+          } as AuditLogEntry;
+        })
+        .filter(e => e.timestamp.getTime() >= from.getTime() && e.timestamp.getTime() <= to.getTime())
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      console.error('✗ Error fetching audit log:', error);
+      throw error;
+    }
+  }
+}
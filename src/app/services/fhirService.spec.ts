@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FhirService } from './fhirService';
+import { buildPatientBundle, parsePatientBundle } from '../utilities/fhirUtils';
+import { Patient, Visit } from '../models/patient.model';
+import { Appointment } from '../models/appointment.model';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const PATIENT: Patient = {
+  uniqueId: 'roy_asha_9876543210_user-1',
+  userId: 'user-1',
+  familyId: 'roy_asha_9876543210',
+  mrn: 'MR-000042',
+  name: 'Asha Roy',
+  phone: '9876543210',
+  email: 'asha@example.com',
+  dateOfBirth: new Date(1990, 7, 15),
+  gender: 'Female',
+  address: { line1: '12 MG Road', city: 'Pune', postalCode: '411001' },
+  alternatePhone: '9123456789',
+  emergencyContact: { name: 'Ravi Roy', relation: 'Spouse', phone: '9988776655' },
+  bloodGroup: 'O+',
+  occupation: 'Teacher',
+  governmentIds: [{ type: 'pan', number: 'ABCDE1234F' }],
+  allergies: [{ substance: 'Penicillin', category: 'drug', reaction: 'Hives', severity: 'severe', recordedAt: new Date('2024-01-10T09:00:00Z') }],
+  ailments: [{ condition: 'Type 2 diabetes mellitus', status: 'active', icdCode: 'E11.9', onsetDate: new Date(2020, 2, 1), recordedAt: new Date('2024-01-10T09:00:00Z') }],
+  createdAt: new Date('2024-01-10T09:00:00Z'),
+  updatedAt: new Date('2024-01-10T09:00:00Z'),
+};
+
+const VISIT: Visit = {
+  id: 'visit-1',
+  visitType: 'walk-in',
+  chiefComplaints: 'Fever, cough',
+  diagnosis: 'Viral URTI',
+  diagnosisCodes: [
+    { code: 'J06.9', description: 'Acute upper respiratory infection, unspecified', type: 'primary' },
+    { code: 'R50.9', description: 'Fever, unspecified', type: 'secondary' },
+  ],
+  examination: 'Throat congested',
+  medicines: [{ name: 'Paracetamol 500mg', dosage: '1 tablet', frequency: 'TDS', duration: '5 days', route: 'Oral', quantity: 15, instructions: 'After food' }],
+  vitals: { systolicBp: 120, diastolicBp: 80, pulse: 88, temperature: 100.4, weightKg: 60 },
+  treatmentPlan: 'Symptomatic',
+  advice: 'Rest and fluids',
+  followUpDate: new Date(2024, 2, 8),
+  createdAt: new Date('2024-03-01T10:30:00Z'),
+  updatedAt: new Date('2024-03-01T10:30:00Z'),
+};
+
+const APPOINTMENT = {
+  id: 'appt-1',
+  userId: 'user-1',
+  patientId: PATIENT.uniqueId,
+  patientName: PATIENT.name,
+  patientPhone: PATIENT.phone,
+  appointmentDate: new Date(2024, 2, 8),
+  appointmentTime: '11:15',
+  ailments: 'Follow-up',
+  status: 'scheduled',
+  isNewPatient: false,
+  doctorId: 'dr@clinic.com',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as Appointment;
+
+/** Bundle as it arrives in a file */
+function exported(): any {
+  return JSON.parse(JSON.stringify(buildPatientBundle({ patient: PATIENT, visits: [VISIT], appointments: [APPOINTMENT] })));
+}
+
+function resources(bundle: any, type: string): any[] {
+  return bundle.entry.map((e: any) => e.resource).filter((r: any) => r.resourceType === type);
+}
+
+const patientService = {
+  getPatient: vi.fn(),
+  getPatientVisits: vi.fn(),
+  checkUniqueIdExists: vi.fn(),
+  createPatient: vi.fn(),
+  addVisit: vi.fn(),
+};
+const appointmentService = {
+  getAppointments: vi.fn(),
+  createAppointment: vi.fn(),
+};
+
+function makeService(): FhirService {
+  return new FhirService(
+    patientService as any,
+    appointmentService as any,
+    { currentUserValue: { email: 'doctor@here.com' } } as any,
+    { getSelectedClinicId: () => 'clinic-1' } as any
+  );
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('FhirService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    patientService.getPatient.mockResolvedValue(PATIENT);
+    patientService.getPatientVisits.mockResolvedValue([VISIT]);
+    patientService.checkUniqueIdExists.mockResolvedValue(false);
+    patientService.createPatient.mockResolvedValue(PATIENT.uniqueId);
+    patientService.addVisit.mockResolvedValue('visit-new');
+    appointmentService.getAppointments.mockResolvedValue([APPOINTMENT, { ...APPOINTMENT, id: 'appt-2', patientId: 'someone-else' }]);
+    appointmentService.createAppointment.mockResolvedValue('appt-new');
+  });
+
+  describe('bundle mapping', () => {
+    it('maps the record to linked FHIR R4 resources', () => {
+      const bundle = exported();
+
+      expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection' });
+      const [patient] = resources(bundle, 'Patient');
+      const patientUrl = bundle.entry.find((e: any) => e.resource.resourceType === 'Patient').fullUrl;
+      expect(patient.identifier).toContainEqual({ system: 'urn:intellirx:mrn', value: 'MR-000042' });
+      expect(patient).toMatchObject({ gender: 'female', birthDate: '1990-08-15' });
+
+      const [encounter] = resources(bundle, 'Encounter');
+      expect(encounter.subject.reference).toBe(patientUrl);
+      expect(encounter.period.start).toBe('2024-03-01T10:30:00.000Z');
+      const diagnoses = resources(bundle, 'Condition').filter(c => c.encounter);
+      expect(diagnoses.map(c => c.code.coding[0].code)).toEqual(['J06.9', 'R50.9']);
+      expect(resources(bundle, 'MedicationRequest')[0].encounter.reference).toBe(`urn:uuid:${encounter.id}`);
+
+      const bp = resources(bundle, 'Observation').find(o => o.code.coding[0].code === '85354-9');
+      expect(bp.component.map((c: any) => c.valueQuantity.value)).toEqual([120, 80]);
+      expect(resources(bundle, 'AllergyIntolerance')[0]).toMatchObject({ category: ['medication'], criticality: 'high' });
+      expect(resources(bundle, 'Appointment')[0].status).toBe('booked');
+    });
+
+    it('reads an exported bundle back into the same record', () => {
+      const { data, errors } = parsePatientBundle(exported());
+
+      expect(errors).toEqual([]);
+      expect(data!.patient).toMatchObject({
+        name: 'Asha Roy',
+        phone: '9876543210',
+        email: 'asha@example.com',
+        gender: 'Female',
+        dateOfBirth: new Date(1990, 7, 15),
+        alternatePhone: '9123456789',
+        bloodGroup: 'O+',
+        occupation: 'Teacher',
+        governmentIds: [{ type: 'pan', number: 'ABCDE1234F' }],
+        emergencyContact: { name: 'Ravi Roy', relation: 'Spouse', phone: '9988776655' },
+      });
+      expect(data!.patient.allergies![0]).toMatchObject({ substance: 'Penicillin', category: 'drug', reaction: 'Hives', severity: 'severe' });
+      expect(data!.patient.ailments![0]).toMatchObject({ condition: 'Type 2 diabetes mellitus', icdCode: 'E11.9', status: 'active' });
+
+      const [{ visit, recordedAt }] = data!.visits;
+      expect(recordedAt).toEqual(VISIT.createdAt);
+      expect(visit).toMatchObject({
+        chiefComplaints: 'Fever, cough',
+        diagnosis: 'Viral URTI',
+        diagnosisCodes: VISIT.diagnosisCodes,
+        medicines: VISIT.medicines,
+        vitals: VISIT.vitals,
+        advice: 'Rest and fluids',
+        visitType: 'walk-in',
+        followUpDate: VISIT.followUpDate,
+      });
+      expect(data!.appointments).toEqual([{
+        appointmentDate: new Date(2024, 2, 8),
+        appointmentTime: '11:15',
+        ailments: 'Follow-up',
+        status: 'scheduled',
+      }]);
+    });
+
+    it('rejects a file that is not a single-patient bundle', () => {
+      expect(parsePatientBundle({ resourceType: 'Patient' }).errors)
+        .toEqual(['The file is not a FHIR Bundle (resourceType must be "Bundle")']);
+
+      const bundle = exported();
+      bundle.entry.push({ resource: { resourceType: 'Patient', name: [{ text: 'Other' }] } });
+      expect(parsePatientBundle(bundle)).toEqual({
+        data: null,
+        errors: ['The bundle must contain exactly one Patient (found 2)'],
+        warnings: [],
+      });
+    });
+
+    it('lists every validation error with the resource it came from', () => {
+      const bundle = exported();
+      const [patient] = resources(bundle, 'Patient');
+      patient.telecom = [];
+      patient.birthDate = 'not-a-date';
+      const [encounter] = resources(bundle, 'Encounter');
+      encounter.id = 'enc-1';
+      delete encounter.period;
+      resources(bundle, 'AllergyIntolerance')[0].patient = { reference: 'Patient/someone-else' };
+
+      const { data, errors } = parsePatientBundle(bundle);
+
+      expect(data).toBeNull();
+      expect(errors).toEqual(expect.arrayContaining([
+        'Patient: no phone number in telecom',
+        'Patient: birthDate "not-a-date" is not a date',
+        expect.stringMatching(/^AllergyIntolerance\/.+: refers to a different patient$/),
+        'Encounter/enc-1: period.start (visit date) is missing or invalid',
+      ]));
+    });
+
+    it('warns about resources it cannot import', () => {
+      const bundle = exported();
+      bundle.entry.push({ resource: { resourceType: 'Immunization' } }, { resource: { resourceType: 'Immunization' } });
+
+      expect(parsePatientBundle(bundle).warnings).toEqual(['2 Immunization resources are not supported and will be skipped']);
+    });
+  });
+
+  describe('exportPatient', () => {
+    it("bundles the patient's visits and only their appointments", async () => {
+      const bundle = await makeService().exportPatient(PATIENT.uniqueId);
+
+      expect(patientService.getPatientVisits).toHaveBeenCalledWith(PATIENT.uniqueId);
+      expect(resources(bundle, 'Encounter')).toHaveLength(1);
+      expect(resources(bundle, 'Appointment')).toHaveLength(1);
+    });
+
+    it('throws when the patient does not exist', async () => {
+      patientService.getPatient.mockResolvedValue(null);
+
+      await expect(makeService().exportPatient('missing')).rejects.toThrow('Patient not found');
+    });
+  });
+
+  describe('importBundle', () => {
+    it('creates a new patient with its visits and appointments', async () => {
+      const { data } = parsePatientBundle(exported());
+
+      const result = await makeService().importBundle(data!);
+
+      expect(patientService.createPatient).toHaveBeenCalledWith(expect.objectContaining({ name: 'Asha Roy', clinicId: 'clinic-1' }));
+      expect(patientService.addVisit).toHaveBeenCalledWith(PATIENT.uniqueId, expect.objectContaining({ diagnosis: 'Viral URTI' }), VISIT.createdAt);
+      expect(appointmentService.createAppointment).toHaveBeenCalledWith(expect.objectContaining({
+        patientId: PATIENT.uniqueId,
+        patientFamilyId: PATIENT.familyId,
+        appointmentTime: '11:15',
+        doctorId: 'doctor@here.com',
+        clinicId: 'clinic-1',
+      }));
+      expect(result).toEqual({
+        patientId: PATIENT.uniqueId,
+        patientName: 'Asha Roy',
+        created: true,
+        visitsAdded: 1,
+        visitsSkipped: 0,
+        appointmentsAdded: 1,
+        appointmentsSkipped: 0,
+      });
+    });
+
+    it('updates a matching patient and skips visits and appointments already on record', async () => {
+      patientService.checkUniqueIdExists.mockResolvedValue(true);
+      const { data } = parsePatientBundle(exported());
+
+      const result = await makeService().importBundle(data!);
+
+      expect(patientService.addVisit).not.toHaveBeenCalled();
+      expect(appointmentService.createAppointment).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ created: false, visitsSkipped: 1, appointmentsSkipped: 1 });
+    });
+
+    it('rethrows save failures', async () => {
+      patientService.createPatient.mockRejectedValue(new Error('User not authenticated'));
+      const { data } = parsePatientBundle(exported());
+
+      await expect(makeService().importBundle(data!)).rejects.toThrow('User not authenticated');
+      expect(patientService.addVisit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Injectable } from '@angular/core';
+import { PatientService } from './patient';
+import { AppointmentService } from './appointmentService';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { FhirBundle } from '../models/fhir.model';
+import { FhirImportData, buildPatientBundle } from '../utilities/fhirUtils';
+
+export interface FhirImportResult {
+  patientId: string;
+  patientName: string;
+  /** False when the bundle matched a saved patient, whose record was updated */
+  created: boolean;
+  visitsAdded: number;
+  visitsSkipped: number;
+  appointmentsAdded: number;
+  appointmentsSkipped: number;
+}
+
+/**
+ * FHIR R4 exchange of a single patient's record. The resource mapping and
+ * bundle validation live in fhirUtils; this service loads and saves the records.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FhirService {
+
+  constructor(
+    private patientService: PatientService,
+    private appointmentService: AppointmentService,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService
+  ) {}
+
+  /**
+   * Build the bundle for one patient: demographics, allergies, problem list,
+   * every visit and the appointments visible to the current user
+   */
+  async exportPatient(patientId: string): Promise<FhirBundle> {
+    try {
+      const patient = await this.patientService.getPatient(patientId);
+      if (!patient) throw new Error('Patient not found');
+
+      const [visits, appointments] = await Promise.all([
+        this.patientService.getPatientVisits(patient.uniqueId),
+        this.appointmentService.getAppointments()
+      ]);
+      const bundle = buildPatientBundle({
+        patient,
+        visits,
+        appointments: appointments.filter(a => a.patientId === patient.uniqueId)
+      });
+      console.log('✓ FHIR bundle built for patient:', patient.uniqueId);
+      return bundle;
+    } catch (error) {
+      console.error('❌ Error exporting FHIR bundle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a parsed bundle. The patient is matched by name and phone like Add
+   * Patient does: a match is updated (allergies and problems merged), otherwise
+   * a new patient is created with a new MRN. Visits and appointments already
+   * on the record — same visit time, same appointment slot — are skipped, so
+   * importing the same file twice adds nothing.
+   */
+  async importBundle(data: FhirImportData): Promise<FhirImportResult> {
+    try {
+      const clinicId = this.clinicContextService.getSelectedClinicId() || undefined;
+      const existed = await this.patientService.checkUniqueIdExists(data.patient.name, data.patient.phone);
+      const patientId = await this.patientService.createPatient({ ...data.patient, clinicId });
+      const patient = await this.patientService.getPatient(patientId);
+      if (!patient) throw new Error('Patient not found');
+
+      const result: FhirImportResult = {
+        patientId,
+        patientName: patient.name,
+        created: !existed,
+        visitsAdded: 0,
+        visitsSkipped: 0,
+        appointmentsAdded: 0,
+        appointmentsSkipped: 0
+      };
+
+      const savedVisitTimes = new Set(
+        (existed ? await this.patientService.getPatientVisits(patientId) : [])
+          .map(v => new Date(v.createdAt).getTime())
+      );
+      for (const { visit, recordedAt } of data.visits) {
+        if (savedVisitTimes.has(recordedAt.getTime())) {
+          result.visitsSkipped++;
+          continue;
+        }
+        await this.patientService.addVisit(patientId, visit, recordedAt);
+        result.visitsAdded++;
+      }
+
+      const slotKey = (date: Date, time: string) => `${new Date(date).toDateString()} ${time}`;
+      const savedSlots = new Set(
+        (existed ? await this.appointmentService.getAppointments() : [])
+          .filter(a => a.patientId === patientId)
+          .map(a => slotKey(a.appointmentDate, a.appointmentTime))
+      );
+      // Doctors only see appointments assigned to them, so imports go to the importing doctor
+      const doctorId = this.authService.currentUserValue?.email || undefined;
+      for (const appointment of data.appointments) {
+        if (savedSlots.has(slotKey(appointment.appointmentDate, appointment.appointmentTime))) {
+          result.appointmentsSkipped++;
+          continue;
+        }
+        await this.appointmentService.createAppointment({
+          ...appointment,
+          patientId,
+          patientName: patient.name,
+          patientPhone: patient.phone,
+          patientFamilyId: patient.familyId,
+          isNewPatient: false,
+          doctorId,
+          clinicId
+        });
+        result.appointmentsAdded++;
+      }
+
+      console.log('✓ FHIR bundle imported for patient:', patientId);
+      return result;
+    } catch (error) {
+      console.error('❌ Error importing FHIR bundle:', error);
+      throw error;
+    }
+  }
+}
@@ -16,6 +16,9 @@ const {
   mockWhere,
   mockOrderBy,
   mockLimit,
+  mockStartAfter,
+  mockRunTransaction,
+  mockWriteBatch,
   MockTimestamp,
 } = vi.hoisted(() => {
   class MockTimestamp {
@@ -35,6 +38,9 @@ const {
     mockWhere: vi.fn(),
     mockOrderBy: vi.fn(),
     mockLimit: vi.fn(),
+    mockStartAfter: vi.fn(),
+    mockRunTransaction: vi.fn(),
+    mockWriteBatch: vi.fn(),
     MockTimestamp,
   };
 });
@@ -52,6 +58,10 @@ vi.mock('@angular/fire/firestore', () => ({
   where: (...args: any[]) => mockWhere(...args),
   orderBy: (...args: any[]) => mockOrderBy(...args),
   limit: (...args: any[]) => mockLimit(...args),
+  startAfter: (...args: any[]) => mockStartAfter(...args),
+  runTransaction: (...args: any[]) => mockRunTransaction(...args),
+  writeBatch: (...args: any[]) => mockWriteBatch(...args),
+  deleteField: () => 'DELETE_FIELD',
   Timestamp: MockTimestamp,
 }));
 
@@ -88,6 +98,29 @@ function makeMockPatient(overrides: Partial<Patient> = {}): Patient {
   };
 }
 
+/**
+ * addPatient runs in a transaction: the counter document resolves to `counter`
+ * and the patient document to `existing` (absent when not given)
+ */
+function mockAddPatientTransaction(counter?: { lastSequence: number }, existing?: any) {
+  mockDoc.mockImplementation((_parent: any, ...path: string[]) => ({ id: path[0] }));
+  const txSet = vi.fn();
+  const tx = {
+    get: vi.fn(async (ref: any) => {
+      const data = ref.id === 'mrnCounters' ? counter : existing;
+      return { exists: () => !!data, data: () => data };
+    }),
+    set: txSet,
+  };
+  mockRunTransaction.mockImplementation((_db: any, fn: any) => fn(tx));
+  return { tx, txSet };
+}
+
+/** The patient document written by addPatient */
+function savedPatient(txSet: ReturnType<typeof vi.fn>): any {
+  return txSet.mock.calls.find(([ref]) => ref.id !== 'mrnCounters')?.[1];
+}
+
 // ─── Tests ────────────────────────────────────────────────────────────────────
 describe('FirebaseService', () => {
 
@@ -146,20 +179,21 @@ describe('FirebaseService', () => {
 
   // ── addPatient ───────────────────────────────────────────────────────────────
   describe('addPatient', () => {
-    it('calls setDoc and returns the generated uniqueId', async () => {
-      mockDoc.mockReturnValue({ id: 'test-doc' } as any);
+    it('writes the patient in a transaction and returns the generated uniqueId', async () => {
+      const { txSet } = mockAddPatientTransaction();
 
       const result = await service.addPatient({
         userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890',
       } as any, 'user1');
 
-      expect(mockSetDoc).toHaveBeenCalledOnce();
+      expect(mockRunTransaction).toHaveBeenCalledOnce();
+      expect(savedPatient(txSet)).toMatchObject({ uniqueId: 'doe_john_1234567890_user1', nameLower: 'john doe' });
       expect(result).toBe('doe_john_1234567890_user1');
     });
 
-    it('throws when setDoc rejects', async () => {
+    it('throws when the transaction fails', async () => {
       mockDoc.mockReturnValue({} as any);
-      mockSetDoc.mockRejectedValueOnce(new Error('Firestore write failed'));
+      mockRunTransaction.mockRejectedValueOnce(new Error('Firestore write failed'));
 
       await expect(
         service.addPatient({
@@ -167,6 +201,149 @@ describe('FirebaseService', () => {
         } as any, 'user1')
       ).rejects.toThrow('Firestore write failed');
     });
+
+    it('issues the next MRN from the clinic counter', async () => {
+      const { txSet } = mockAddPatientTransaction({ lastSequence: 41 });
+
+      await service.addPatient({
+        userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890', clinicId: 'clinic1',
+      } as any, 'user1');
+
+      expect(mockDoc).toHaveBeenCalledWith({}, 'mrnCounters', 'clinic:clinic1');
+      expect(txSet).toHaveBeenCalledWith({ id: 'mrnCounters' }, expect.objectContaining({ lastSequence: 42 }));
+      expect(savedPatient(txSet).mrn).toBe('MR-000042');
+    });
+
+    it('starts a new counter at 1 and keys it by user without a clinic', async () => {
+      const { txSet } = mockAddPatientTransaction();
+
+      await service.addPatient({
+        userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890',
+      } as any, 'user1');
+
+      expect(mockDoc).toHaveBeenCalledWith({}, 'mrnCounters', 'user:user1');
+      expect(savedPatient(txSet).mrn).toBe('MR-000001');
+    });
+
+    it('keeps the MRN of a record that is written over', async () => {
+      const { txSet } = mockAddPatientTransaction({ lastSequence: 41 }, { mrn: 'MR-000007' });
+
+      await service.addPatient({
+        userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890',
+      } as any, 'user1');
+
+      expect(savedPatient(txSet).mrn).toBe('MR-000007');
+      expect(txSet).toHaveBeenCalledOnce();
+    });
+
+    it('refuses to write over a patient in the recycle bin', async () => {
+      const { txSet } = mockAddPatientTransaction({ lastSequence: 41 }, { mrn: 'MR-000007', deletedAt: new Date() });
+
+      await expect(service.addPatient({
+        userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890',
+      } as any, 'user1')).rejects.toThrow('John Doe is in the recycle bin');
+      expect(txSet).not.toHaveBeenCalled();
+    });
+
+    it('refuses to write over a merged duplicate and names the surviving record', async () => {
+      const { tx, txSet } = mockAddPatientTransaction({ lastSequence: 41 });
+      const patients: Record<string, any> = {
+        doe_john_1234567890_user1: { name: 'John Doe', mrn: 'MR-000007', mergedInto: 'doe_jon_1234567890_user1' },
+        doe_jon_1234567890_user1: { name: 'Jon Doe', mrn: 'MR-000012' },
+      };
+      tx.get.mockImplementation(async (ref: any) => ({ exists: () => !!patients[ref.id], data: () => patients[ref.id] }));
+
+      await expect(service.addPatient({
+        userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890',
+      } as any, 'user1')).rejects.toThrow('John Doe was merged into Jon Doe (MR-000012)');
+      expect(txSet).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── assignMrn ────────────────────────────────────────────────────────────────
+  describe('assignMrn', () => {
+    function mockAssignTransaction(stored: any) {
+      const patient = makeMockPatient({ clinicId: 'clinic1' });
+      mockDoc.mockImplementation((_parent: any, ...path: string[]) => ({ id: path[0] }));
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+      const tx = {
+        get: vi.fn(async (ref: any) => ref.id === 'mrnCounters'
+          ? { exists: () => true, data: () => ({ lastSequence: 9 }) }
+          : { exists: () => true, data: () => stored }),
+        set: vi.fn(),
+        update: vi.fn(),
+      };
+      mockRunTransaction.mockImplementation((_db: any, fn: any) => fn(tx));
+      return tx;
+    }
+
+    it('gives a patient without an MRN the next number of its clinic', async () => {
+      const tx = mockAssignTransaction({});
+
+      const mrn = await service.assignMrn('doe_john_1234567890_user1', 'user1', 'clinic1');
+
+      expect(mrn).toBe('MR-000010');
+      expect(tx.update).toHaveBeenCalledWith({ id: 'doe_john_1234567890_user1' }, expect.objectContaining({ mrn: 'MR-000010' }));
+      expect(mockDoc).toHaveBeenCalledWith({}, 'mrnCounters', 'clinic:clinic1');
+    });
+
+    it('leaves an existing MRN alone', async () => {
+      const tx = mockAssignTransaction({ mrn: 'MR-000003' });
+
+      expect(await service.assignMrn('doe_john_1234567890_user1', 'user1', 'clinic1')).toBe('MR-000003');
+      expect(tx.set).not.toHaveBeenCalled();
+      expect(tx.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── addPatients ─────────────────────────────────────────────────────────────
+  describe('addPatients', () => {
+    const rows = [
+      { userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe', phone: '1234567890', clinicId: 'clinic1' },
+      { userId: 'user1', familyId: 'roy_asha_9876543210', name: 'Asha Roy', phone: '9876543210', clinicId: 'clinic1' },
+    ] as any[];
+
+    it('reserves a block of MRNs and writes every patient in one transaction', async () => {
+      const { tx, txSet } = mockAddPatientTransaction({ lastSequence: 41 });
+
+      const ids = await service.addPatients(rows, 'user1', 'clinic1');
+
+      expect(ids).toEqual(['doe_john_1234567890_user1', 'roy_asha_9876543210_user1']);
+      expect(mockRunTransaction).toHaveBeenCalledOnce();
+      expect(tx.get).toHaveBeenCalledTimes(3);
+      expect(txSet).toHaveBeenCalledWith({ id: 'mrnCounters' }, expect.objectContaining({ lastSequence: 43 }));
+      const written = txSet.mock.calls.filter(([ref]) => ref.id !== 'mrnCounters').map(([, data]) => data);
+      expect(written.map(p => p.mrn)).toEqual(['MR-000042', 'MR-000043']);
+      expect(written[1]).toMatchObject({ uniqueId: 'roy_asha_9876543210_user1', nameLower: 'asha roy' });
+    });
+
+    it('never writes over an existing or deleted patient and spends no MRN on it', async () => {
+      const { tx, txSet } = mockAddPatientTransaction({ lastSequence: 41 });
+      tx.get.mockImplementation(async (ref: any) => {
+        const data = ref.id === 'mrnCounters' ? { lastSequence: 41 }
+          : ref.id === 'doe_john_1234567890_user1' ? { deletedAt: new Date() } : undefined;
+        return { exists: () => !!data, data: () => data };
+      });
+
+      const ids = await service.addPatients([...rows, rows[1]], 'user1', 'clinic1');
+
+      expect(ids).toEqual([null, 'roy_asha_9876543210_user1', null]);
+      const written = txSet.mock.calls.filter(([ref]) => ref.id !== 'mrnCounters');
+      expect(written.map(([ref, data]) => [ref.id, data.mrn])).toEqual([['roy_asha_9876543210_user1', 'MR-000042']]);
+      expect(txSet).toHaveBeenCalledWith({ id: 'mrnCounters' }, expect.objectContaining({ lastSequence: 42 }));
+    });
+
+    it('does nothing for an empty list', async () => {
+      expect(await service.addPatients([], 'user1')).toEqual([]);
+      expect(mockRunTransaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses more patients than one batch can hold', async () => {
+      const many = Array.from({ length: service.IMPORT_BATCH_LIMIT + 1 }, () => rows[0]);
+
+      await expect(service.addPatients(many, 'user1')).rejects.toThrow('per batch');
+      expect(mockRunTransaction).not.toHaveBeenCalled();
+    });
   });
 
   // ── getPatientById ───────────────────────────────────────────────────────────
@@ -205,6 +382,39 @@ describe('FirebaseService', () => {
 
       expect(mockGetDoc).toHaveBeenCalledOnce(); // only 1 Firestore call
     });
+
+    it('converts a legacy allergy string into structured records', async () => {
+      const patient = makeMockPatient({ allergies: 'Penicillin, Peanuts' as any });
+      mockDoc.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+
+      const result = await service.getPatientById(patient.uniqueId, 'user1');
+      expect(result?.allergies).toEqual([
+        { substance: 'Penicillin', category: 'drug', severity: 'unknown', recordedAt: patient.updatedAt },
+        { substance: 'Peanuts', category: 'food', severity: 'unknown', recordedAt: patient.updatedAt },
+      ]);
+    });
+
+    it('returns null for a patient in the recycle bin', async () => {
+      const patient = makeMockPatient({ deletedAt: new Date() });
+      mockDoc.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+
+      expect(await service.getPatientById(patient.uniqueId, 'user1')).toBeNull();
+    });
+
+    it('follows the redirect left by a merged duplicate', async () => {
+      const tombstone = makeMockPatient({ uniqueId: 'old_id', mergedInto: 'doe_john_1234567890_user1' });
+      const survivor = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockGetDoc
+        .mockResolvedValueOnce({ exists: () => true, data: () => tombstone })
+        .mockResolvedValueOnce({ exists: () => true, data: () => survivor });
+
+      const result = await service.getPatientById('old_id', 'user1');
+      expect(result?.uniqueId).toBe('doe_john_1234567890_user1');
+      expect(mockDoc).toHaveBeenLastCalledWith(expect.anything(), 'doe_john_1234567890_user1');
+    });
   });
 
   // ── searchPatientByPhone ─────────────────────────────────────────────────────
@@ -291,6 +501,22 @@ describe('FirebaseService', () => {
       expect(mockSetDoc).toHaveBeenCalledOnce();
     });
 
+    it('keeps the original visit date when one is given', async () => {
+      const recordedAt = new Date('2023-11-05T10:30:00');
+      mockDoc.mockReturnValue({ id: 'visit456' } as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => makeMockPatient() });
+      mockCollection.mockReturnValue({} as any);
+
+      await service.addVisit('pat_1', {
+        chiefComplaints: 'Fever', diagnosis: 'Viral fever',
+        examination: '', treatmentPlan: '', advice: '',
+      }, 'user1', undefined, recordedAt);
+
+      const saved = mockSetDoc.mock.calls[0][1] as any;
+      expect(saved.createdAt.toDate()).toEqual(recordedAt);
+      expect(saved.updatedAt.toDate()).not.toEqual(recordedAt);
+    });
+
     it('throws when patient not found', async () => {
       mockDoc.mockReturnValue({} as any);
       mockGetDoc.mockResolvedValueOnce({ exists: () => false });
@@ -304,6 +530,254 @@ describe('FirebaseService', () => {
     });
   });
 
+  // ── getPatientVisits ─────────────────────────────────────────────────────────
+  describe('getPatientVisits', () => {
+    function mockVisitDocs(visits: any[]) {
+      const patient = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockCollection.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+      mockGetDocs.mockResolvedValueOnce({ docs: visits.map(v => ({ data: () => v })) });
+      return patient;
+    }
+
+    it('parses legacy joined medicines strings into structured lines', async () => {
+      const patient = mockVisitDocs([{
+        id: 'v1', chiefComplaints: 'Fever',
+        medicines: 'Paracetamol - 500mg - TDS, Cetirizine - 10mg',
+      }]);
+
+      const [visit] = await service.getPatientVisits(patient.uniqueId, 'user1');
+      expect(visit.medicines).toEqual([
+        { name: 'Paracetamol', dosage: '500mg', frequency: 'TDS' },
+        { name: 'Cetirizine', dosage: '10mg', frequency: '' },
+      ]);
+    });
+
+    it('keeps structured medicines as-is', async () => {
+      const medicines = [{
+        name: 'Amoxicillin', dosage: '500mg', frequency: '1-0-1',
+        duration: '5 days', route: 'Oral', quantity: 15, instructions: 'After food',
+      }];
+      const patient = mockVisitDocs([{ id: 'v1', chiefComplaints: 'Cough', medicines }]);
+
+      const [visit] = await service.getPatientVisits(patient.uniqueId, 'user1');
+      expect(visit.medicines).toEqual(medicines);
+    });
+
+    it('converts allergy override timestamps to dates', async () => {
+      const acknowledgedAt = new Date('2024-05-01T10:00:00');
+      const patient = mockVisitDocs([{
+        id: 'v1', chiefComplaints: 'Sore throat',
+        medicines: [{ name: 'Amoxicillin', dosage: '500mg', frequency: 'TDS' }],
+        allergyOverrides: [{
+          medicine: 'Amoxicillin', allergy: 'Penicillin', allergenClass: 'Penicillins',
+          reason: 'Tolerated before', acknowledgedBy: 'Dr. Smith',
+          acknowledgedAt: new MockTimestamp(acknowledgedAt),
+        }],
+      }]);
+
+      const [visit] = await service.getPatientVisits(patient.uniqueId, 'user1');
+      expect(visit.allergyOverrides?.[0].acknowledgedAt).toEqual(acknowledgedAt);
+      expect(visit.allergyOverrides?.[0].reason).toBe('Tolerated before');
+    });
+
+    it('returns an empty medicines list when none were prescribed', async () => {
+      const patient = mockVisitDocs([{ id: 'v1', chiefComplaints: 'Checkup' }]);
+
+      const [visit] = await service.getPatientVisits(patient.uniqueId, 'user1');
+      expect(visit.medicines).toEqual([]);
+    });
+
+    it('reads every page so long histories are not cut off', async () => {
+      const patient = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockCollection.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValue({ exists: () => true, data: () => patient });
+      const visitDocs = (from: number, count: number) =>
+        Array.from({ length: count }, (_, i) => ({ id: `v${from + i}`, data: () => ({ id: `v${from + i}` }) }));
+      mockGetDocs
+        .mockResolvedValueOnce({ docs: visitDocs(0, 101) })
+        .mockResolvedValueOnce({ docs: visitDocs(100, 30) });
+
+      const visits = await service.getPatientVisits(patient.uniqueId, 'user1');
+
+      expect(visits).toHaveLength(130);
+      expect(mockLimit).toHaveBeenCalledWith(101);
+      expect(mockStartAfter).toHaveBeenCalledOnce();
+      expect(mockStartAfter.mock.calls[0][0].id).toBe('v99');
+    });
+  });
+
+  // ── getPatientVisitsPage ─────────────────────────────────────────────────────
+  describe('getPatientVisitsPage', () => {
+    it('returns one page and a cursor when more visits exist', async () => {
+      const patient = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockCollection.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+      const docs = Array.from({ length: 21 }, (_, i) => ({ id: `v${i}`, data: () => ({ id: `v${i}` }) }));
+      mockGetDocs.mockResolvedValueOnce({ docs });
+
+      const page = await service.getPatientVisitsPage(patient.uniqueId, 'user1');
+
+      expect(mockLimit).toHaveBeenCalledWith(service.VISIT_PAGE_SIZE + 1);
+      expect(mockStartAfter).not.toHaveBeenCalled();
+      expect(page.visits).toHaveLength(20);
+      expect(page.hasMore).toBe(true);
+      expect(page.lastDoc).toBe(docs[19]);
+    });
+  });
+
+  // ── updateVisit ──────────────────────────────────────────────────────────────
+  describe('updateVisit', () => {
+    const editor = { uid: 'user1', name: 'Dr. Smith' };
+    const storedVisit = {
+      id: 'v1', visitType: 'walk-in', chiefComplaints: 'Fever', diagnosis: 'Viral fever',
+      examination: '', treatmentPlan: 'Rest', advice: '', presentIllness: 'Since 2 days',
+      medicines: [{ name: 'Paracetamol', dosage: '500mg', frequency: 'TDS' }],
+      createdAt: new MockTimestamp(new Date('2024-02-01')),
+    };
+    let txSet: ReturnType<typeof vi.fn>;
+
+    function mockTransaction(visit: any | null) {
+      const patient = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockCollection.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+      txSet = vi.fn();
+      const tx = {
+        get: vi.fn().mockResolvedValue({ exists: () => !!visit, data: () => visit }),
+        set: txSet,
+      };
+      mockRunTransaction.mockImplementation((_db: any, fn: any) => fn(tx));
+      return patient;
+    }
+
+    it('stores the previous version as a revision and rewrites the visit', async () => {
+      const patient = mockTransaction(storedVisit);
+
+      const updated = await service.updateVisit(patient.uniqueId, 'v1', {
+        chiefComplaints: 'Fever', diagnosis: 'Dengue fever', examination: '',
+        treatmentPlan: 'Rest', advice: '', presentIllness: '',
+        medicines: [{ name: 'Paracetamol', dosage: '650mg', frequency: 'TDS' }],
+      }, editor, ' Corrected diagnosis ');
+
+      expect(updated).toBe(true);
+      expect(txSet).toHaveBeenCalledTimes(2);
+
+      const revision = txSet.mock.calls[0][1];
+      expect(revision.revision).toBe(1);
+      expect(revision.editedBy).toBe('user1');
+      expect(revision.editedByName).toBe('Dr. Smith');
+      expect(revision.reason).toBe('Corrected diagnosis');
+      expect(revision.content.diagnosis).toBe('Viral fever');
+      expect(revision.content.presentIllness).toBe('Since 2 days');
+
+      const visit = txSet.mock.calls[1][1];
+      expect(visit.diagnosis).toBe('Dengue fever');
+      expect(visit.medicines[0].dosage).toBe('650mg');
+      expect(visit.revisionCount).toBe(1);
+      expect(visit.lastEditedBy).toBe('Dr. Smith');
+      expect(visit.visitType).toBe('walk-in');
+      expect('presentIllness' in visit).toBe(false);
+    });
+
+    it('returns false and writes nothing when the content is unchanged', async () => {
+      const patient = mockTransaction(storedVisit);
+
+      const updated = await service.updateVisit(patient.uniqueId, 'v1', {
+        chiefComplaints: ' Fever ', diagnosis: 'Viral fever', examination: '',
+        treatmentPlan: 'Rest', advice: '', presentIllness: 'Since 2 days',
+        medicines: [{ name: 'Paracetamol', dosage: '500mg', frequency: 'TDS' }],
+      }, editor);
+
+      expect(updated).toBe(false);
+      expect(txSet).not.toHaveBeenCalled();
+    });
+
+    it('treats a change in coded diagnoses as an edit and keeps one primary code', async () => {
+      const patient = mockTransaction(storedVisit);
+
+      const updated = await service.updateVisit(patient.uniqueId, 'v1', {
+        chiefComplaints: 'Fever', diagnosis: 'Viral fever', examination: '',
+        treatmentPlan: 'Rest', advice: '', presentIllness: 'Since 2 days',
+        medicines: [{ name: 'Paracetamol', dosage: '500mg', frequency: 'TDS' }],
+        diagnosisCodes: [
+          { code: 'R50.9', description: 'Fever, unspecified', type: 'secondary' },
+          { code: 'A90', description: 'Dengue fever [classical dengue]', type: 'secondary' },
+        ],
+      }, editor);
+
+      expect(updated).toBe(true);
+      expect(txSet.mock.calls[0][1].content.diagnosisCodes).toBeUndefined();
+      const visit = txSet.mock.calls[1][1];
+      expect(visit.diagnosisCodes.map((d: any) => [d.code, d.type])).toEqual([
+        ['R50.9', 'primary'], ['A90', 'secondary'],
+      ]);
+      expect(visit.diagnosis).toBe('Viral fever');
+    });
+
+    it('replaces the allergy overrides and drops them when none are left', async () => {
+      const override = { medicine: 'Amoxicillin', allergy: 'Penicillin', reason: 'Tolerated before', acknowledgedBy: 'Dr. Smith', acknowledgedAt: new Date('2024-02-02') };
+      let patient = mockTransaction({ ...storedVisit, allergyOverrides: [override] });
+
+      await service.updateVisit(patient.uniqueId, 'v1', {
+        chiefComplaints: 'Fever', diagnosis: 'Viral fever', examination: '',
+        treatmentPlan: 'Rest', advice: '', presentIllness: 'Since 2 days',
+        medicines: [{ name: 'Amoxicillin', dosage: '500mg', frequency: 'TDS' }],
+        allergyOverrides: [{ ...override, reason: 'Skin test negative' }],
+      }, editor);
+      expect(txSet.mock.calls[1][1].allergyOverrides.map((o: any) => o.reason)).toEqual(['Skin test negative']);
+
+      patient = mockTransaction({ ...storedVisit, allergyOverrides: [override] });
+      await service.updateVisit(patient.uniqueId, 'v1', {
+        chiefComplaints: 'Fever', diagnosis: 'Viral fever', examination: '',
+        treatmentPlan: 'Rest', advice: '', presentIllness: 'Since 2 days',
+        medicines: [{ name: 'Paracetamol', dosage: '650mg', frequency: 'TDS' }],
+        allergyOverrides: [],
+      }, editor);
+      expect('allergyOverrides' in txSet.mock.calls[1][1]).toBe(false);
+    });
+
+    it('throws when the visit does not exist', async () => {
+      const patient = mockTransaction(null);
+
+      await expect(
+        service.updateVisit(patient.uniqueId, 'missing', {
+          chiefComplaints: 'x', diagnosis: 'x', examination: 'x', treatmentPlan: 'x', advice: 'x',
+        }, editor)
+      ).rejects.toThrow('Visit not found');
+    });
+  });
+
+  // ── getVisitRevisions ────────────────────────────────────────────────────────
+  describe('getVisitRevisions', () => {
+    it('returns revisions with dates converted and medicines normalized', async () => {
+      const patient = makeMockPatient();
+      mockDoc.mockReturnValue({} as any);
+      mockCollection.mockReturnValue({} as any);
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => patient });
+      mockGetDocs.mockResolvedValueOnce({
+        docs: [{
+          id: 'r1',
+          data: () => ({
+            revision: 1, editedBy: 'user1', editedByName: 'Dr. Smith',
+            editedAt: new MockTimestamp(new Date('2024-03-01')),
+            content: { chiefComplaints: 'Fever', medicines: 'Paracetamol - 500mg - TDS' },
+          }),
+        }],
+      });
+
+      const [revision] = await service.getVisitRevisions(patient.uniqueId, 'v1', 'user1');
+      expect(revision.id).toBe('r1');
+      expect(revision.editedAt).toEqual(new Date('2024-03-01'));
+      expect(revision.content.medicines).toEqual([
+        { name: 'Paracetamol', dosage: '500mg', frequency: 'TDS' },
+      ]);
+    });
+  });
+
   // ── Cache expiry ─────────────────────────────────────────────────────────────
   describe('Cache expiry', () => {
     it('fetches fresh data after cache expires (5 minutes)', async () => {
@@ -339,10 +813,177 @@ describe('FirebaseService', () => {
     });
   });
 
+  // ── getFamilyMembers ─────────────────────────────────────────────────────────
+  describe('getFamilyMembers', () => {
+    it('matches the familyId exactly within the clinic', async () => {
+      const head = makeMockPatient({ familyRelationship: 'head' });
+      const child = makeMockPatient({ uniqueId: 'doe_amy_1234567890_user1', name: 'Amy Doe', familyRelationship: 'child' });
+      mockGetDocs.mockResolvedValueOnce({ docs: [{ data: () => head }, { data: () => child }] });
+
+      const members = await service.getFamilyMembers('doe_john_1234567890', 'user1', 'clinic1');
+
+      expect(mockWhere).toHaveBeenCalledWith('clinicId', '==', 'clinic1');
+      expect(mockWhere).toHaveBeenCalledWith('familyId', '==', 'doe_john_1234567890');
+      expect(members.map(m => m.name)).toEqual(['John Doe', 'Amy Doe']);
+    });
+  });
+
+  // ── migrateLegacyPatientLists ────────────────────────────────────────────────
+  describe('migrateLegacyPatientLists', () => {
+    it('rewrites only patients whose allergies or ailments are still a string', async () => {
+      const batch = { update: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+      mockWriteBatch.mockReturnValue(batch);
+      const legacy = makeMockPatient({ allergies: 'Sulfa' as any, ailments: 'Hypertension' as any });
+      const migrated = makeMockPatient({
+        uniqueId: 'doe_jane_1234567890_user1',
+        allergies: [{ substance: 'Latex', category: 'environmental', severity: 'mild', recordedAt: new Date() }],
+      });
+      mockGetDocs.mockResolvedValueOnce({
+        docs: [
+          { id: legacy.uniqueId, ref: 'legacy-ref', data: () => legacy },
+          { id: migrated.uniqueId, ref: 'migrated-ref', data: () => migrated },
+        ],
+      });
+
+      const count = await service.migrateLegacyPatientLists('user1', 'clinic1');
+
+      expect(count).toBe(1);
+      expect(mockWhere).toHaveBeenCalledWith('clinicId', '==', 'clinic1');
+      expect(batch.update).toHaveBeenCalledOnce();
+      expect(batch.update).toHaveBeenCalledWith('legacy-ref', {
+        allergies: [{ substance: 'Sulfa', category: 'drug', severity: 'unknown', recordedAt: legacy.updatedAt }],
+        ailments: [{ condition: 'Hypertension', status: 'active', recordedAt: legacy.updatedAt }],
+      });
+      expect(batch.commit).toHaveBeenCalledOnce();
+    });
+  });
+
+  // ── mergePatients ──────────────────────────────────────────────────────────
+  describe('mergePatients', () => {
+    it('moves visits, re-points appointments and leaves a tombstone', async () => {
+      const batch = { set: vi.fn(), update: vi.fn(), delete: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+      mockWriteBatch.mockReturnValue(batch);
+      mockDoc.mockReturnValue({} as any);
+      const survivor = makeMockPatient({
+        email: undefined,
+        allergies: [{ substance: 'Sulfa', category: 'drug', severity: 'severe', recordedAt: new Date() }],
+      });
+      const duplicate = makeMockPatient({
+        uniqueId: 'doe_jon_1234567890_user2',
+        name: 'Jon Doe',
+        email: 'jon@example.com',
+        allergies: [{ substance: 'Peanuts', category: 'food', severity: 'mild', recordedAt: new Date() }],
+      });
+      mockGetDoc
+        .mockResolvedValueOnce({ exists: () => true, data: () => survivor })
+        .mockResolvedValueOnce({ exists: () => true, data: () => duplicate });
+      const visitData = { presentIllnesses: 'Fever' };
+      mockGetDocs
+        .mockResolvedValueOnce({ docs: [{ id: 'v1', ref: 'visit-ref', data: () => visitData }] })  // visits
+        .mockResolvedValueOnce({ docs: [] })                                                       // revisions
+        .mockResolvedValueOnce({ docs: [] })                                                       // attachments
+        .mockResolvedValueOnce({ docs: [{ id: 'a1', ref: 'appt-ref', data: () => ({}) }] })         // appointments
+        .mockResolvedValueOnce({ docs: [] })                                                       // lab orders
+        .mockResolvedValueOnce({ docs: [] });                                                      // recycle bin
+
+      const moved = await service.mergePatients(survivor.uniqueId, duplicate.uniqueId, 'Dr Smith', 'user1');
+
+      expect(moved).toBe(1);
+      expect(mockWhere).toHaveBeenCalledWith('patientId', '==', duplicate.uniqueId);
+      expect(batch.set).toHaveBeenCalledWith(expect.anything(), visitData);
+      expect(batch.update).toHaveBeenCalledWith('appt-ref', {
+        patientId: survivor.uniqueId, patientName: survivor.name, patientFamilyId: survivor.familyId,
+      });
+      const survivorUpdate = batch.update.mock.calls.find(c => c[1].allergies)![1];
+      expect(survivorUpdate.email).toBe('jon@example.com');
+      expect(survivorUpdate.allergies.map((a: any) => a.substance)).toEqual(['Sulfa', 'Peanuts']);
+      const tombstone = batch.update.mock.calls.find(c => c[1].mergedInto)![1];
+      expect(tombstone).toMatchObject({ mergedInto: survivor.uniqueId, mergedBy: 'Dr Smith' });
+      expect(batch.delete).toHaveBeenCalledWith('visit-ref');
+      // Deletes come after every copy
+      expect(batch.delete.mock.invocationCallOrder[0])
+        .toBeGreaterThan(Math.max(...batch.update.mock.invocationCallOrder));
+    });
+
+    it('refuses a record that has already been merged', async () => {
+      mockDoc.mockReturnValue({} as any);
+      const survivor = makeMockPatient();
+      const tombstone = makeMockPatient({ uniqueId: 'old_id', mergedInto: 'someone_else' });
+      const other = makeMockPatient({ uniqueId: 'someone_else' });
+      mockGetDoc
+        .mockResolvedValueOnce({ exists: () => true, data: () => survivor })
+        .mockResolvedValueOnce({ exists: () => true, data: () => tombstone })
+        .mockResolvedValueOnce({ exists: () => true, data: () => other });
+
+      await expect(service.mergePatients(survivor.uniqueId, 'old_id', 'Dr Smith', 'user1'))
+        .rejects.toThrow('already been merged');
+      expect(mockWriteBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Recycle bin ────────────────────────────────────────────────────────────
+  describe('recycle bin', () => {
+    const editor = { uid: 'user1', name: 'Dr Smith' };
+
+    it('deletePatient flags the record and files it in the recycle bin', async () => {
+      const batch = { set: vi.fn(), update: vi.fn(), delete: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+      mockWriteBatch.mockReturnValue(batch);
+      mockDoc.mockImplementation((_col: any, id?: string) => ({ id }));
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => makeMockPatient({ clinicId: 'clinic1' }) });
+
+      await service.deletePatient('doe_john_1234567890_user1', editor, 'clinic1', 'Registered twice');
+
+      expect(batch.update).toHaveBeenCalledWith(
+        { id: 'doe_john_1234567890_user1' },
+        expect.objectContaining({ deletedBy: 'Dr Smith' }));
+      const [binRef, entry] = batch.set.mock.calls[0];
+      expect(binRef).toEqual({ id: 'patient_doe_john_1234567890_user1' });
+      expect(entry).toMatchObject({
+        type: 'patient', patientName: 'John Doe', reason: 'Registered twice',
+        deletedById: 'user1', ownerId: 'user1', clinicId: 'clinic1',
+      });
+      expect(batch.commit).toHaveBeenCalledOnce();
+    });
+
+    it('restoreDeleted clears the flags and removes the bin entry', async () => {
+      const batch = { update: vi.fn(), delete: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+      mockWriteBatch.mockReturnValue(batch);
+      mockDoc.mockImplementation((_col: any, id?: string) => ({ id }));
+
+      await service.restoreDeleted({
+        id: 'visit_p1_v1', type: 'visit', patientId: 'p1', visitId: 'v1', patientName: 'John Doe',
+        deletedBy: 'Dr Smith', deletedById: 'user1', ownerId: 'user1', deletedAt: new Date(),
+      }, 'user1');
+
+      expect(batch.update).toHaveBeenCalledWith({ id: 'v1' }, { deletedAt: 'DELETE_FIELD', deletedBy: 'DELETE_FIELD' });
+      expect(batch.delete).toHaveBeenCalledWith({ id: 'visit_p1_v1' });
+    });
+
+    it('purgeDeleted refuses a record that is no longer deleted', async () => {
+      mockDoc.mockImplementation((_col: any, id?: string) => ({ id }));
+      mockGetDoc.mockResolvedValueOnce({ exists: () => true, data: () => makeMockPatient() });
+
+      await expect(service.purgeDeleted({
+        id: 'patient_doe_john_1234567890_user1', type: 'patient', patientId: 'doe_john_1234567890_user1',
+        patientName: 'John Doe', deletedBy: 'Dr Smith', deletedById: 'user1', ownerId: 'user1', deletedAt: new Date(),
+      })).rejects.toThrow('no longer in the recycle bin');
+      expect(mockGetDocs).not.toHaveBeenCalled();
+      expect(mockWriteBatch).not.toHaveBeenCalled();
+    });
+
+    it('restoreDeleted refuses items from another clinic', async () => {
+      await expect(service.restoreDeleted({
+        id: 'patient_p1', type: 'patient', patientId: 'p1', patientName: 'John Doe',
+        deletedBy: 'Dr Smith', deletedById: 'user2', ownerId: 'user2', clinicId: 'clinic2', deletedAt: new Date(),
+      }, 'user1', 'clinic1')).rejects.toThrow('unauthorized');
+      expect(mockWriteBatch).not.toHaveBeenCalled();
+    });
+  });
+
   // ── Firestore data conversion ─────────────────────────────────────────────────
   describe('Data conversion (Firestore <-> App)', () => {
     it('convertToFirestore converts Date fields to Timestamp', async () => {
-      mockDoc.mockReturnValue({} as any);
+      const { txSet } = mockAddPatientTransaction();
       const inputDate = new Date('2024-06-15');
 
       await service.addPatient({
@@ -350,7 +991,7 @@ describe('FirebaseService', () => {
         phone: '1234567890', dateOfBirth: inputDate,
       } as any, 'user1');
 
-      const savedData = mockSetDoc.mock.calls[0][1];
+      const savedData = savedPatient(txSet);
       expect(typeof savedData.dateOfBirth?.toDate).toBe('function');
       expect(savedData.dateOfBirth.toDate()).toEqual(inputDate);
     });
@@ -371,14 +1012,14 @@ describe('FirebaseService', () => {
     });
 
     it('strips undefined fields before writing to Firestore', async () => {
-      mockDoc.mockReturnValue({} as any);
+      const { txSet } = mockAddPatientTransaction();
 
       await service.addPatient({
         userId: 'user1', familyId: 'doe_john_1234567890', name: 'John Doe',
         phone: '1234567890', email: undefined,
       } as any, 'user1');
 
-      const savedData = mockSetDoc.mock.calls[0][1];
+      const savedData = savedPatient(txSet);
       expect('email' in savedData).toBe(false);
     });
   });
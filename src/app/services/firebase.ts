@@ -9,16 +9,29 @@ import {
   query,
   where,
   updateDoc,
-  deleteDoc,
   CollectionReference,
   DocumentData,
   QueryDocumentSnapshot,
   Timestamp,
   limit,
   orderBy,
-  startAfter
+  startAfter,
+  runTransaction,
+  getCountFromServer,
+  writeBatch,
+  WriteBatch,
+  DocumentReference,
+  Transaction,
+  deleteField
 } from '@angular/fire/firestore';
-import { Patient, Visit } from '../models/patient.model';
+import { Patient, Visit, VisitEdit, VisitRevision } from '../models/patient.model';
+import { RecycleBinItem } from '../models/recycleBin.model';
+import { cleanMedicine, normalizeMedicines } from '../utilities/prescriptionUtils';
+import { mergeAllergies, normalizeAllergies } from '../utilities/allergyUtils';
+import { mergeProblems, normalizeProblems } from '../utilities/problemUtils';
+import { fillMissingDemographics } from '../utilities/duplicateUtils';
+import { VISIT_CONTENT_FIELDS, diffVisitContent, extractVisitContent } from '../utilities/visitRevisionUtils';
+import { MRN_COUNTERS_COLLECTION, formatMrn, mrnCounterId } from '../utilities/mrnUtils';
 
 export interface PagedResult {
   results: Patient[];
@@ -26,6 +39,12 @@ export interface PagedResult {
   hasMore: boolean;
 }
 
+export interface VisitPage {
+  visits: Visit[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -35,6 +54,12 @@ export class FirebaseService {
   private patientCache: Map<string, { patient: Patient; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000;
   public readonly PAGE_SIZE = 25;
+  public readonly VISIT_PAGE_SIZE = 20;
+  // Larger pages when the whole history is read for statistics
+  private readonly VISIT_BATCH_SIZE = 100;
+  private readonly MAX_MERGE_REDIRECTS = 5;
+  // Firestore batches are limited to 500 writes
+  public readonly IMPORT_BATCH_LIMIT = 400;
 
   constructor(private db: Firestore) {
     this.patientsCollection = collection(this.db, 'patients');
@@ -67,6 +92,12 @@ export class FirebaseService {
     return `${lastName}_${firstName}_${cleanPhone}`;
   }
 
+  /**
+   * Create the patient and issue the next MRN of its clinic in one transaction,
+   * so two receptionists saving at the same moment never get the same number.
+   * A patient in the recycle bin or merged into another record is refused
+   * rather than written over.
+   */
   async addPatient(
     patientData: Omit<Patient, 'uniqueId' | 'createdAt' | 'updatedAt'>,
     userId: string
@@ -74,17 +105,35 @@ export class FirebaseService {
     try {
       const uniqueId = this.generateUniqueId(patientData.familyId, userId, patientData.name, patientData.phone);
       const patientDoc = doc(this.patientsCollection, uniqueId);
+      const counterDoc = this.mrnCounterDoc(userId, patientData.clinicId);
 
-      const patient: Patient = {
-        ...patientData,
-        uniqueId,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      const patient = await runTransaction(this.db, async transaction => {
+        // A record being written over keeps the number it was issued
+        const existing = await transaction.get(patientDoc);
+        if (existing.exists() && existing.data()['mergedInto']) {
+          // Writing over the tombstone would quietly undo the merge
+          const survivorSnap = await transaction.get(doc(this.patientsCollection, existing.data()['mergedInto']));
+          const survivor = survivorSnap.exists() ? survivorSnap.data() : null;
+          const label = survivor ? `${survivor['name']}${survivor['mrn'] ? ` (${survivor['mrn']})` : ''}` : 'another record';
+          throw new Error(`${patientData.name} was merged into ${label}; open that record instead`);
+        }
+        if (existing.exists() && existing.data()['deletedAt']) {
+          throw new Error(`${patientData.name} is in the recycle bin; restore the record instead of adding it again`);
+        }
+        const mrn = (existing.exists() && existing.data()['mrn']) || await this.nextMrn(transaction, counterDoc);
+
+        const created: Patient = {
+          ...patientData,
+          uniqueId,
+          mrn,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        const patientWithSearch = { ...created, nameLower: created.name.toLowerCase() };
+        transaction.set(patientDoc, this.convertToFirestore(this.removeUndefinedFields(patientWithSearch)));
+        return created;
+      });
 
-      const patientWithSearch = { ...patient, nameLower: patient.name.toLowerCase() };
-      const cleanedPatient = this.removeUndefinedFields(patientWithSearch);
-      await setDoc(patientDoc, this.convertToFirestore(cleanedPatient));
       this.addToCache(uniqueId, patient);
       return uniqueId;
     } catch (error) {
@@ -93,6 +142,111 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Create many patients at once (CSV import) in one transaction that also
+   * reserves their block of MRNs, so callers keep each call under the batch
+   * limit. A patient whose document already exists — live or in the recycle
+   * bin — is never written over: its entry in the returned ids (input order)
+   * is null and no MRN is spent on it.
+   */
+  async addPatients(
+    patientsData: Array<Omit<Patient, 'uniqueId' | 'createdAt' | 'updatedAt'>>,
+    userId: string,
+    clinicId?: string
+  ): Promise<Array<string | null>> {
+    if (patientsData.length === 0) return [];
+    if (patientsData.length > this.IMPORT_BATCH_LIMIT) {
+      throw new Error(`At most ${this.IMPORT_BATCH_LIMIT} patients can be added per batch`);
+    }
+    try {
+      const counterDoc = this.mrnCounterDoc(userId, clinicId);
+      const uniqueIds = patientsData.map(p => this.generateUniqueId(p.familyId, userId, p.name, p.phone));
+      const patientDocs = uniqueIds.map(id => doc(this.patientsCollection, id));
+
+      return await runTransaction(this.db, async transaction => {
+        // Every read happens before the first write
+        const snapshots = await Promise.all(patientDocs.map(ref => transaction.get(ref)));
+        const taken = new Set<string>();
+        const ids = uniqueIds.map((uniqueId, i) => {
+          if (snapshots[i].exists() || taken.has(uniqueId)) return null;
+          taken.add(uniqueId);
+          return uniqueId;
+        });
+        const fresh = ids.flatMap((id, i) => id ? [i] : []);
+        if (fresh.length === 0) return ids;
+
+        const firstSequence = await this.reserveMrns(transaction, counterDoc, fresh.length);
+        const now = new Date();
+        fresh.forEach((i, n) => {
+          const created: Patient = {
+            ...patientsData[i],
+            uniqueId: uniqueIds[i],
+            mrn: formatMrn(firstSequence + n),
+            createdAt: now,
+            updatedAt: now
+          };
+          const patientWithSearch = { ...created, nameLower: created.name.toLowerCase() };
+          transaction.set(patientDocs[i], this.convertToFirestore(this.removeUndefinedFields(patientWithSearch)));
+        });
+        return ids;
+      });
+    } catch (error) {
+      console.error('Error adding patients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue an MRN to a patient registered before MRNs existed.
+   * Returns the patient's MRN, which is left alone when it already has one.
+   */
+  async assignMrn(uniqueId: string, userId: string, clinicId?: string): Promise<string> {
+    try {
+      const patient = await this.getPatientById(uniqueId, userId, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const patientDoc = doc(this.patientsCollection, patient.uniqueId);
+      const counterDoc = this.mrnCounterDoc(patient.userId, patient.clinicId);
+      const mrn = await runTransaction(this.db, async transaction => {
+        const snap = await transaction.get(patientDoc);
+        if (!snap.exists()) throw new Error('Patient not found');
+        const current = snap.data()['mrn'];
+        if (current) return current as string;
+
+        const next = await this.nextMrn(transaction, counterDoc);
+        transaction.update(patientDoc, { mrn: next, updatedAt: Timestamp.fromDate(new Date()) });
+        return next;
+      });
+
+      this.removeFromCache(patient.uniqueId);
+      return mrn;
+    } catch (error) {
+      console.error('Error assigning MRN:', error);
+      throw error;
+    }
+  }
+
+  private mrnCounterDoc(userId: string, clinicId?: string): DocumentReference<DocumentData> {
+    return doc(this.db, MRN_COUNTERS_COLLECTION, mrnCounterId(userId, clinicId));
+  }
+
+  /** Bump the counter inside the caller's transaction; reads must come before its writes */
+  private async nextMrn(transaction: Transaction, counterDoc: DocumentReference<DocumentData>): Promise<string> {
+    return formatMrn(await this.reserveMrns(transaction, counterDoc, 1));
+  }
+
+  /** Advance the counter by `count` and return the first sequence number reserved */
+  private async reserveMrns(
+    transaction: Transaction,
+    counterDoc: DocumentReference<DocumentData>,
+    count: number
+  ): Promise<number> {
+    const counter = await transaction.get(counterDoc);
+    const last = counter.exists() ? Number(counter.data()['lastSequence']) || 0 : 0;
+    transaction.set(counterDoc, { lastSequence: last + count, updatedAt: Timestamp.fromDate(new Date()) });
+    return last + 1;
+  }
+
   private removeUndefinedFields(obj: any): any {
     const cleaned: any = {};
     for (const key in obj) {
@@ -132,7 +286,7 @@ export class FirebaseService {
       const snapshot = await getDocs(query(this.patientsCollection, ...constraints));
       const hasMore = snapshot.docs.length > this.PAGE_SIZE;
       const docs = hasMore ? snapshot.docs.slice(0, this.PAGE_SIZE) : snapshot.docs;
-      const results = docs.map(d => this.convertFromFirestore(d.data()));
+      const results = this.visiblePatients(docs.map(d => this.convertPatientFromFirestore(d.data())));
       results.forEach(p => this.addToCache(p.uniqueId, p));
 
       console.log(`Phone search: ${results.length} result(s), hasMore=${hasMore}`);
@@ -171,7 +325,7 @@ export class FirebaseService {
       const snapshot = await getDocs(query(this.patientsCollection, ...constraints));
       const hasMore = snapshot.docs.length > this.PAGE_SIZE;
       const docs = hasMore ? snapshot.docs.slice(0, this.PAGE_SIZE) : snapshot.docs;
-      const results = docs.map(d => this.convertFromFirestore(d.data()));
+      const results = this.visiblePatients(docs.map(d => this.convertPatientFromFirestore(d.data())));
       results.forEach(p => this.addToCache(p.uniqueId, p));
 
       console.log(`Name search: ${results.length} result(s), hasMore=${hasMore}`);
@@ -210,7 +364,7 @@ export class FirebaseService {
       const snapshot = await getDocs(query(this.patientsCollection, ...constraints));
       const hasMore = snapshot.docs.length > this.PAGE_SIZE;
       const docs = hasMore ? snapshot.docs.slice(0, this.PAGE_SIZE) : snapshot.docs;
-      const results = docs.map(d => this.convertFromFirestore(d.data()));
+      const results = this.visiblePatients(docs.map(d => this.convertPatientFromFirestore(d.data())));
       results.forEach(p => this.addToCache(p.uniqueId, p));
 
       console.log(`FamilyId search: ${results.length} result(s), hasMore=${hasMore}`);
@@ -221,6 +375,40 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Search by medical record number — exact match on the stored form (see parseMrn)
+   */
+  async searchPatientByMrn(mrn: string, userId: string, clinicId?: string): Promise<PagedResult> {
+    try {
+      const scope = clinicId ? where('clinicId', '==', clinicId) : where('userId', '==', userId);
+      const snapshot = await getDocs(query(this.patientsCollection, scope, where('mrn', '==', mrn)));
+      const results = this.visiblePatients(snapshot.docs.map(d => this.convertPatientFromFirestore(d.data())));
+      results.forEach(p => this.addToCache(p.uniqueId, p));
+
+      console.log(`MRN search: ${results.length} result(s)`);
+      return { results, lastDoc: null, hasMore: false };
+    } catch (error) {
+      console.error('Error searching patient by MRN:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every member of a household — exact familyId match, unlike the prefix search above
+   */
+  async getFamilyMembers(familyId: string, userId: string, clinicId?: string): Promise<Patient[]> {
+    try {
+      const scope = clinicId ? where('clinicId', '==', clinicId) : where('userId', '==', userId);
+      const snapshot = await getDocs(query(this.patientsCollection, scope, where('familyId', '==', familyId)));
+      const members = this.visiblePatients(snapshot.docs.map(d => this.convertPatientFromFirestore(d.data())));
+      members.forEach(p => this.addToCache(p.uniqueId, p));
+      return members;
+    } catch (error) {
+      console.error('Error fetching family members:', error);
+      throw error;
+    }
+  }
+
   /**
    * Fetch all patients for user and filter client-side for "contains" matching
    * Used as a fallback to support mid-string search on phone and name
@@ -241,13 +429,14 @@ export class FirebaseService {
       const snapshot = await getDocs(
         query(this.patientsCollection, ...queryConstraints)
       );
-      const allPatients = snapshot.docs.map(d => this.convertFromFirestore(d.data()));
+      const allPatients = this.visiblePatients(snapshot.docs.map(d => this.convertPatientFromFirestore(d.data())));
 
       const results = allPatients.filter(p => {
         const nameMatch = p.name && p.name.toLowerCase().includes(lowerTerm);
         const phoneMatch = p.phone && p.phone.toString().includes(lowerTerm);
         const familyIdMatch = p.familyId && p.familyId.toLowerCase().includes(lowerTerm);
-        return nameMatch || phoneMatch || familyIdMatch;
+        const mrnMatch = p.mrn && p.mrn.toLowerCase().includes(lowerTerm);
+        return nameMatch || phoneMatch || familyIdMatch || mrnMatch;
       });
 
       results.forEach(p => this.addToCache(p.uniqueId, p));
@@ -259,23 +448,52 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Every patient in scope for the duplicate finder: the clinic's patients plus
+   * the user's own records from before they joined a clinic. Merged records are left out.
+   */
+  async getPatientsInScope(userId: string, clinicId?: string): Promise<Patient[]> {
+    try {
+      const scopes = clinicId
+        ? [where('clinicId', '==', clinicId), where('userId', '==', userId)]
+        : [where('userId', '==', userId)];
+      const snapshots = await Promise.all(scopes.map(scope => getDocs(query(this.patientsCollection, scope))));
+      const byId = new Map<string, Patient>();
+      for (const snapshot of snapshots) {
+        for (const d of snapshot.docs) byId.set(d.id, this.convertPatientFromFirestore(d.data()));
+      }
+      return this.visiblePatients([...byId.values()]);
+    } catch (error) {
+      console.error('Error loading patients in scope:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A merged duplicate resolves to the record that replaced it, so old links and
+   * bookmarks keep working. Check `uniqueId` on the result to spot a redirect.
+   */
   async getPatientById(uniqueId: string, userId: string, clinicId?: string): Promise<Patient | null> {
     try {
       const cached = this.getFromCache(uniqueId);
       if (cached && (cached.userId === userId || (clinicId && cached.clinicId === clinicId))) return cached;
 
-      const patientDoc = doc(this.patientsCollection, uniqueId);
-      const docSnap = await getDoc(patientDoc);
-
-      if (docSnap.exists()) {
-        const patient = this.convertFromFirestore(docSnap.data());
+      let patient: Patient | null = null;
+      let nextId: string | undefined = uniqueId;
+      // Follow at most a few redirects (A merged into B, later merged into C)
+      for (let hops = 0; nextId && hops <= this.MAX_MERGE_REDIRECTS; hops++) {
+        const docSnap = await getDoc(doc(this.patientsCollection, nextId));
+        if (!docSnap.exists()) return null;
+        patient = this.convertPatientFromFirestore(docSnap.data());
         // Allow access if userId matches OR if clinicId matches (same clinic staff)
         const hasAccess = patient.userId === userId || (clinicId && patient.clinicId === clinicId);
-        if (!hasAccess) return null;
-        this.addToCache(uniqueId, patient);
-        return patient;
+        if (!hasAccess || patient.deletedAt) return null;
+        nextId = patient.mergedInto;
       }
-      return null;
+      if (!patient || patient.mergedInto) return null;
+
+      this.addToCache(patient.uniqueId, patient);
+      return patient;
     } catch (error) {
       console.error('Error getting patient:', error);
       throw error;
@@ -287,7 +505,7 @@ export class FirebaseService {
       const existingPatient = await this.getPatientById(uniqueId, userId, clinicId);
       if (!existingPatient) throw new Error('Patient not found or unauthorized');
 
-      const patientDoc = doc(this.patientsCollection, uniqueId);
+      const patientDoc = doc(this.patientsCollection, existingPatient.uniqueId);
       const { createdAt, uniqueId: _, userId: __, ...dataWithoutProtectedFields } = patientData as any;
 
       const updateData: any = { ...dataWithoutProtectedFields, updatedAt: new Date() };
@@ -297,7 +515,7 @@ export class FirebaseService {
 
       const cleanedUpdate = this.removeUndefinedFields(updateData);
       await updateDoc(patientDoc, this.convertToFirestore(cleanedUpdate));
-      this.removeFromCache(uniqueId);
+      this.removeFromCache(existingPatient.uniqueId);
     } catch (error) {
       console.error('Error updating patient:', error);
       throw error;
@@ -308,20 +526,22 @@ export class FirebaseService {
     patientId: string,
     visitData: Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>,
     userId: string,
-    clinicId?: string
+    clinicId?: string,
+    recordedAt: Date = new Date()
   ): Promise<string> {
     try {
       const patient = await this.getPatientById(patientId, userId, clinicId);
       if (!patient) throw new Error('Patient not found or unauthorized');
 
-      const patientDoc = doc(this.patientsCollection, patientId);
+      const patientDoc = doc(this.patientsCollection, patient.uniqueId);
       const visitsCollection = collection(patientDoc, 'visits');
       const visitDoc = doc(visitsCollection);
 
       const visit: Visit = {
         ...visitData,
+        medicines: visitData.medicines?.map(cleanMedicine),
         id: visitDoc.id,
-        createdAt: new Date(),
+        createdAt: recordedAt,
         updatedAt: new Date()
       };
 
@@ -333,18 +553,157 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * One page of a patient's visits, newest first — paginated with startAfter
+   */
+  async getPatientVisitsPage(
+    patientId: string,
+    userId: string,
+    clinicId?: string,
+    lastDoc: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = this.VISIT_PAGE_SIZE
+  ): Promise<VisitPage> {
+    try {
+      const patient = await this.getPatientById(patientId, userId, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const visitsCollection = collection(doc(this.patientsCollection, patient.uniqueId), 'visits');
+      const constraints: any[] = [orderBy('createdAt', 'desc'), limit(pageSize + 1)];
+      if (lastDoc) constraints.push(startAfter(lastDoc));
+
+      const snapshot = await getDocs(query(visitsCollection, ...constraints));
+      const hasMore = snapshot.docs.length > pageSize;
+      const docs = hasMore ? snapshot.docs.slice(0, pageSize) : snapshot.docs;
+      // Visits in the recycle bin are skipped; a page may come back a little short
+      const visits = docs.map(d => this.convertVisitFromFirestore(d.data())).filter(v => !v.deletedAt);
+      return { visits, lastDoc: docs[docs.length - 1] ?? null, hasMore };
+    } catch (error) {
+      console.error('Error getting visits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The complete visit history, newest first — read page by page so long-term
+   * patients are never cut off
+   */
   async getPatientVisits(patientId: string, userId: string, clinicId?: string): Promise<Visit[]> {
+    const visits: Visit[] = [];
+    let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+    let hasMore = true;
+    while (hasMore) {
+      const page: VisitPage = await this.getPatientVisitsPage(patientId, userId, clinicId, lastDoc, this.VISIT_BATCH_SIZE);
+      visits.push(...page.visits);
+      lastDoc = page.lastDoc;
+      hasMore = page.hasMore;
+    }
+    return visits;
+  }
+
+  /**
+   * Number of visits without reading them
+   */
+  async getPatientVisitCount(patientId: string, userId: string, clinicId?: string): Promise<number> {
     try {
       const patient = await this.getPatientById(patientId, userId, clinicId);
       if (!patient) throw new Error('Patient not found or unauthorized');
 
-      const patientDoc = doc(this.patientsCollection, patientId);
-      const visitsCollection = collection(patientDoc, 'visits');
-      const q = query(visitsCollection, orderBy('createdAt', 'desc'), limit(50));
+      const visitsCollection = collection(doc(this.patientsCollection, patient.uniqueId), 'visits');
+      const [all, deleted] = await Promise.all([
+        getCountFromServer(visitsCollection),
+        getCountFromServer(query(visitsCollection, where('deletedAt', '!=', null)))
+      ]);
+      return all.data().count - deleted.data().count;
+    } catch (error) {
+      console.error('Error counting visits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the clinical content of a visit, keeping the previous version in
+   * patients/{id}/visits/{visitId}/revisions. Returns false when nothing changed.
+   * Allergy overrides, when given, replace the ones stored on the visit.
+   */
+  async updateVisit(
+    patientId: string,
+    visitId: string,
+    changes: VisitEdit,
+    editor: { uid: string; name: string },
+    reason?: string,
+    clinicId?: string
+  ): Promise<boolean> {
+    try {
+      const patient = await this.getPatientById(patientId, editor.uid, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const patientDoc = doc(this.patientsCollection, patient.uniqueId);
+      const visitDoc = doc(collection(patientDoc, 'visits'), visitId);
+      const revisionDoc = doc(collection(visitDoc, 'revisions'));
+
+      return await runTransaction(this.db, async transaction => {
+        const snap = await transaction.get(visitDoc);
+        if (!snap.exists()) throw new Error('Visit not found');
+
+        const current = this.convertVisitFromFirestore(snap.data());
+        const previousContent = extractVisitContent(current);
+        const nextContent = extractVisitContent(changes);
+        if (diffVisitContent(previousContent, nextContent).length === 0) return false;
+
+        const revisionNumber = (current.revisionCount ?? 0) + 1;
+        const revision: VisitRevision = {
+          revision: revisionNumber,
+          content: previousContent,
+          editedBy: editor.uid,
+          editedByName: editor.name,
+          editedAt: new Date(),
+          ...(reason?.trim() ? { reason: reason.trim() } : {})
+        };
+
+        // Rewrite the whole document so fields cleared in the edit are removed
+        const unchanged: any = { ...current };
+        for (const { key } of VISIT_CONTENT_FIELDS) delete unchanged[key];
+        const updated: Visit = {
+          ...unchanged,
+          ...nextContent,
+          revisionCount: revisionNumber,
+          lastEditedBy: editor.name,
+          updatedAt: new Date()
+        };
+        // Overrides follow the edited medicines; they are not part of the revisioned content
+        if (changes.allergyOverrides?.length) updated.allergyOverrides = changes.allergyOverrides;
+        else if (changes.allergyOverrides) delete updated.allergyOverrides;
+
+        transaction.set(revisionDoc, this.convertToFirestore(revision));
+        transaction.set(visitDoc, this.convertToFirestore(updated));
+        return true;
+      });
+    } catch (error) {
+      console.error('Error updating visit:', error);
+      throw error;
+    }
+  }
+
+  async getVisitRevisions(patientId: string, visitId: string, userId: string, clinicId?: string): Promise<VisitRevision[]> {
+    try {
+      const patient = await this.getPatientById(patientId, userId, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const patientDoc = doc(this.patientsCollection, patient.uniqueId);
+      const visitDoc = doc(collection(patientDoc, 'visits'), visitId);
+      const q = query(collection(visitDoc, 'revisions'), orderBy('revision', 'asc'));
       const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(d => this.convertFromFirestore(d.data()) as Visit);
+      return querySnapshot.docs.map(d => {
+        const revision = this.convertFromFirestore(d.data()) as VisitRevision;
+        revision.id = d.id;
+        revision.content = {
+          ...revision.content,
+          medicines: normalizeMedicines(revision.content?.medicines)
+        };
+        return revision;
+      });
     } catch (error) {
-      console.error('Error getting visits:', error);
+      console.error('Error getting visit revisions:', error);
       throw error;
     }
   }
@@ -379,6 +738,133 @@ export class FirebaseService {
     return converted;
   }
 
+  /**
+   * Rewrite legacy comma-joined allergy and ailment strings as structured records
+   * for every patient in scope. Safe to run repeatedly. Returns the number of patients migrated.
+   */
+  async migrateLegacyPatientLists(userId: string, clinicId?: string): Promise<number> {
+    try {
+      const scope = clinicId ? where('clinicId', '==', clinicId) : where('userId', '==', userId);
+      const snapshot = await getDocs(query(this.patientsCollection, scope));
+      const legacy = snapshot.docs.filter(d =>
+        typeof d.data()['allergies'] === 'string' || typeof d.data()['ailments'] === 'string');
+
+      // Firestore batches are limited to 500 writes
+      for (let i = 0; i < legacy.length; i += 400) {
+        const batch = writeBatch(this.db);
+        for (const d of legacy.slice(i, i + 400)) {
+          const patient = this.convertPatientFromFirestore(d.data());
+          batch.update(d.ref, { allergies: patient.allergies ?? [], ailments: patient.ailments ?? [] });
+          this.removeFromCache(d.id);
+        }
+        await batch.commit();
+      }
+      console.log(`Patient list migration: ${legacy.length} patient(s) updated`);
+      return legacy.length;
+    } catch (error) {
+      console.error('Error migrating allergies and ailments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fold a duplicate record into the survivor. Visits (with their revisions) and
+   * attachment records move under the survivor, appointments and lab orders are
+   * re-pointed, and allergies, problems and missing demographics are combined.
+   * The duplicate document stays as a tombstone with `mergedInto` so old links
+   * resolve to the survivor. Returns the number of visits moved.
+   */
+  async mergePatients(
+    survivorId: string,
+    duplicateId: string,
+    mergedBy: string,
+    userId: string,
+    clinicId?: string
+  ): Promise<number> {
+    try {
+      const survivor = await this.getPatientById(survivorId, userId, clinicId);
+      const duplicate = await this.getPatientById(duplicateId, userId, clinicId);
+      if (!survivor || !duplicate) throw new Error('Patient not found or unauthorized');
+      if (duplicate.uniqueId !== duplicateId) throw new Error(`${duplicate.name} has already been merged`);
+      if (survivor.uniqueId === duplicate.uniqueId) throw new Error('A patient cannot be merged into itself');
+
+      const survivorDoc = doc(this.patientsCollection, survivor.uniqueId);
+      const duplicateDoc = doc(this.patientsCollection, duplicate.uniqueId);
+      const copies: Array<(batch: WriteBatch) => void> = [];
+      const deletions: Array<(batch: WriteBatch) => void> = [];
+
+      const visitsSnap = await getDocs(collection(duplicateDoc, 'visits'));
+      for (const visit of visitsSnap.docs) {
+        const target = doc(collection(survivorDoc, 'visits'), visit.id);
+        copies.push(batch => batch.set(target, visit.data()));
+        deletions.push(batch => batch.delete(visit.ref));
+        const revisionsSnap = await getDocs(collection(visit.ref, 'revisions'));
+        for (const revision of revisionsSnap.docs) {
+          copies.push(batch => batch.set(doc(collection(target, 'revisions'), revision.id), revision.data()));
+          deletions.push(batch => batch.delete(revision.ref));
+        }
+      }
+
+      // Files stay where they are in Storage; only the records move
+      const attachmentsSnap = await getDocs(collection(duplicateDoc, 'attachments'));
+      for (const attachment of attachmentsSnap.docs) {
+        const target = doc(collection(survivorDoc, 'attachments'), attachment.id);
+        copies.push(batch => batch.set(target, { ...attachment.data(), patientId: survivor.uniqueId }));
+        deletions.push(batch => batch.delete(attachment.ref));
+      }
+
+      const [appointmentsSnap, labOrdersSnap, recycleBinSnap] = await Promise.all([
+        getDocs(query(collection(this.db, 'appointments'), where('patientId', '==', duplicate.uniqueId))),
+        getDocs(query(collection(this.db, 'labOrders'), where('patientId', '==', duplicate.uniqueId))),
+        getDocs(query(collection(this.db, 'recycleBin'), where('patientId', '==', duplicate.uniqueId)))
+      ]);
+      for (const appointment of appointmentsSnap.docs) {
+        copies.push(batch => batch.update(appointment.ref, {
+          patientId: survivor.uniqueId,
+          patientName: survivor.name,
+          patientFamilyId: survivor.familyId
+        }));
+      }
+      for (const order of labOrdersSnap.docs) {
+        copies.push(batch => batch.update(order.ref, { patientId: survivor.uniqueId, patientName: survivor.name }));
+      }
+      // Deleted visits moved with the rest; their recycle bin entries follow them
+      for (const entry of recycleBinSnap.docs) {
+        const visitId = entry.data()['visitId'];
+        const target = doc(collection(this.db, 'recycleBin'), `visit_${survivor.uniqueId}_${visitId}`);
+        copies.push(batch => batch.set(target, { ...entry.data(), patientId: survivor.uniqueId, patientName: survivor.name }));
+        deletions.push(batch => batch.delete(entry.ref));
+      }
+
+      const survivorUpdate = {
+        ...fillMissingDemographics(survivor, duplicate),
+        allergies: mergeAllergies(survivor.allergies || [], duplicate.allergies || []),
+        ailments: mergeProblems(survivor.ailments || [], duplicate.ailments || []),
+        updatedAt: new Date()
+      };
+      const tombstone = { mergedInto: survivor.uniqueId, mergedAt: new Date(), mergedBy, updatedAt: new Date() };
+      copies.push(batch => batch.update(survivorDoc, this.convertToFirestore(survivorUpdate)));
+      copies.push(batch => batch.update(duplicateDoc, this.convertToFirestore(tombstone)));
+
+      // Originals are deleted only after everything has been copied, so an
+      // interrupted merge never loses a visit
+      const writes = [...copies, ...deletions];
+      for (let i = 0; i < writes.length; i += 400) {
+        const batch = writeBatch(this.db);
+        writes.slice(i, i + 400).forEach(write => write(batch));
+        await batch.commit();
+      }
+
+      this.removeFromCache(survivor.uniqueId);
+      this.removeFromCache(duplicate.uniqueId);
+      console.log(`Merged ${duplicate.uniqueId} into ${survivor.uniqueId}: ${visitsSnap.docs.length} visit(s) moved`);
+      return visitsSnap.docs.length;
+    } catch (error) {
+      console.error('Error merging patients:', error);
+      throw error;
+    }
+  }
+
   async getUserPreferences(uid: string): Promise<{ theme: 'light' | 'dark' } | null> {
     try {
       const userDoc = doc(this.db, 'users', uid);
@@ -403,22 +889,181 @@ export class FirebaseService {
     }
   }
 
-  async deleteVisit(patientId: string, visitId: string, userId: string): Promise<void> {
-    const patientDoc = doc(this.patientsCollection, patientId);
-    const visitDoc = doc(collection(patientDoc, 'visits'), visitId);
-    await deleteDoc(visitDoc);
+  /**
+   * Move a visit to the recycle bin. It stays in place with `deletedAt` set and
+   * disappears from the history until restored or purged.
+   */
+  async deleteVisit(
+    patientId: string,
+    visitId: string,
+    deletedBy: { uid: string; name: string },
+    clinicId?: string
+  ): Promise<void> {
+    try {
+      const patient = await this.getPatientById(patientId, deletedBy.uid, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const visitDoc = doc(collection(doc(this.patientsCollection, patient.uniqueId), 'visits'), visitId);
+      const snap = await getDoc(visitDoc);
+      if (!snap.exists()) throw new Error('Visit not found');
+      const visit = this.convertVisitFromFirestore(snap.data());
+
+      const visitDate = visit.createdAt.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+      const item: RecycleBinItem = {
+        type: 'visit',
+        patientId: patient.uniqueId,
+        visitId,
+        patientName: patient.name,
+        summary: visit.diagnosis?.trim() ? `${visitDate} — ${visit.diagnosis.trim()}` : visitDate,
+        deletedBy: deletedBy.name,
+        deletedById: deletedBy.uid,
+        ownerId: patient.userId,
+        clinicId: patient.clinicId,
+        deletedAt: new Date()
+      };
+      await this.moveToRecycleBin(visitDoc, `visit_${patient.uniqueId}_${visitId}`, item);
+    } catch (error) {
+      console.error('Error deleting visit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a patient to the recycle bin. Visits and attachments are kept with the
+   * record so a restore brings everything back.
+   */
+  async deletePatient(
+    uniqueId: string,
+    deletedBy: { uid: string; name: string },
+    clinicId?: string,
+    reason?: string
+  ): Promise<void> {
+    try {
+      const patient = await this.getPatientById(uniqueId, deletedBy.uid, clinicId);
+      if (!patient) throw new Error('Patient not found or unauthorized');
+
+      const item: RecycleBinItem = {
+        type: 'patient',
+        patientId: patient.uniqueId,
+        patientName: patient.name,
+        reason: reason?.trim() || undefined,
+        deletedBy: deletedBy.name,
+        deletedById: deletedBy.uid,
+        ownerId: patient.userId,
+        clinicId: patient.clinicId,
+        deletedAt: new Date()
+      };
+      await this.moveToRecycleBin(doc(this.patientsCollection, patient.uniqueId), `patient_${patient.uniqueId}`, item);
+      this.removeFromCache(patient.uniqueId);
+    } catch (error) {
+      console.error('Error deleting patient:', error);
+      throw error;
+    }
   }
 
-  async deletePatient(uniqueId: string, userId: string): Promise<void> {
-    // Delete all visits first
-    const patientDoc = doc(this.patientsCollection, uniqueId);
-    const visitsCollection = collection(patientDoc, 'visits');
-    const visitsSnapshot = await getDocs(query(visitsCollection, where('userId', '==', userId)));
-    const deletePromises = visitsSnapshot.docs.map(d => deleteDoc(d.ref));
-    await Promise.all(deletePromises);
-    // Delete patient document
-    await deleteDoc(patientDoc);
-    this.patientCache.delete(uniqueId);
+  private async moveToRecycleBin(target: DocumentReference<DocumentData>, itemId: string, item: RecycleBinItem): Promise<void> {
+    const batch = writeBatch(this.db);
+    batch.update(target, this.convertToFirestore({ deletedAt: item.deletedAt, deletedBy: item.deletedBy }));
+    batch.set(doc(collection(this.db, 'recycleBin'), itemId), this.convertToFirestore(this.removeUndefinedFields(item)));
+    await batch.commit();
+  }
+
+  /** Bring a patient or visit back from the recycle bin */
+  async restoreDeleted(item: RecycleBinItem, userId: string, clinicId?: string): Promise<void> {
+    try {
+      const hasAccess = item.ownerId === userId || (clinicId && item.clinicId === clinicId);
+      if (!hasAccess || !item.id) throw new Error('Item not found or unauthorized');
+
+      const batch = writeBatch(this.db);
+      batch.update(this.recycleBinTarget(item), { deletedAt: deleteField(), deletedBy: deleteField() });
+      batch.delete(doc(collection(this.db, 'recycleBin'), item.id));
+      await batch.commit();
+      this.removeFromCache(item.patientId);
+    } catch (error) {
+      console.error('Error restoring from recycle bin:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a recycle bin item: the visit with its revisions, or the
+   * patient with every visit and attachment record. Storage files are removed
+   * by the caller first. Refuses a record that is no longer deleted.
+   */
+  async purgeDeleted(item: RecycleBinItem): Promise<void> {
+    try {
+      if (!item.id) return;
+      if (!(await this.isStillDeleted(item))) throw new Error('The record is no longer in the recycle bin');
+      const refs: DocumentReference<DocumentData>[] = [];
+      const target = this.recycleBinTarget(item);
+      const visitDocs = item.type === 'visit'
+        ? [target]
+        : (await getDocs(collection(target, 'visits'))).docs.map(d => d.ref);
+      for (const visitDoc of visitDocs) {
+        const revisions = await getDocs(collection(visitDoc, 'revisions'));
+        refs.push(...revisions.docs.map(d => d.ref), visitDoc);
+      }
+      if (item.type === 'patient') {
+        const attachments = await getDocs(collection(target, 'attachments'));
+        refs.push(...attachments.docs.map(d => d.ref), target);
+      }
+      refs.push(doc(collection(this.db, 'recycleBin'), item.id));
+
+      for (let i = 0; i < refs.length; i += 400) {
+        const batch = writeBatch(this.db);
+        refs.slice(i, i + 400).forEach(ref => batch.delete(ref));
+        await batch.commit();
+      }
+      this.removeFromCache(item.patientId);
+    } catch (error) {
+      console.error('Error purging from recycle bin:', error);
+      throw error;
+    }
+  }
+
+  /** Whether the patient or visit behind a recycle bin item is still deleted */
+  async isStillDeleted(item: RecycleBinItem): Promise<boolean> {
+    const snap = await getDoc(this.recycleBinTarget(item));
+    return snap.exists() && !!snap.data()['deletedAt'];
+  }
+
+  private recycleBinTarget(item: RecycleBinItem): DocumentReference<DocumentData> {
+    const patientDoc = doc(this.patientsCollection, item.patientId);
+    return item.type === 'visit' ? doc(collection(patientDoc, 'visits'), item.visitId!) : patientDoc;
+  }
+
+  /** Drop tombstones left behind by merged duplicates and records in the recycle bin */
+  private visiblePatients(patients: Patient[]): Patient[] {
+    return patients.filter(p => !p.mergedInto && !p.deletedAt);
+  }
+
+  /**
+   * Patients written before structured allergies and problem lists stored `allergies`
+   * and `ailments` as joined strings. Normalize on read so callers always get arrays.
+   */
+  private convertPatientFromFirestore(data: any): Patient {
+    const patient = this.convertFromFirestore(data) as Patient;
+    if (data?.['allergies'] !== undefined) {
+      patient.allergies = normalizeAllergies(data['allergies'], patient.updatedAt ?? patient.createdAt);
+    }
+    if (data?.['ailments'] !== undefined) {
+      patient.ailments = normalizeProblems(data['ailments'], patient.updatedAt ?? patient.createdAt);
+    }
+    return patient;
+  }
+
+  /**
+   * Visits written before structured prescriptions stored `medicines` as a joined string.
+   * Normalize on read so callers always get Medicine[].
+   * Nested allergy override timestamps are converted too (convertFromFirestore is shallow).
+   */
+  private convertVisitFromFirestore(data: any): Visit {
+    const visit = this.convertFromFirestore(data) as Visit;
+    visit.medicines = normalizeMedicines(data?.['medicines']);
+    if (Array.isArray(data?.['allergyOverrides'])) {
+      visit.allergyOverrides = data['allergyOverrides'].map((o: any) => this.convertFromFirestore(o));
+    }
+    return visit;
   }
 
   private convertFromFirestore(data: any): any {
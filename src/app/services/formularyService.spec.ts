@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDocs,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  mockBatchSet,
+  mockBatchCommit,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDocs: vi.fn(),
+    mockDeleteDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    mockBatchSet: vi.fn(),
+    mockBatchCommit: vi.fn().mockResolvedValue(undefined),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  writeBatch: () => ({ set: mockBatchSet, commit: mockBatchCommit }),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { FormularyService } = await import('./formularyService');
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function makeService(clinicId: string | null = 'clinic-1') {
+  return new FormularyService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1' } as any,
+    { getSelectedClinicId: () => clinicId } as any
+  );
+}
+
+function snapshotOf(drugs: Array<Record<string, any>>) {
+  return { docs: drugs.map(({ id, ...data }) => ({ id, data: () => data })) };
+}
+
+const amoxicillin = {
+  id: 'drug-1',
+  genericName: 'Amoxicillin',
+  brands: ['Mox'],
+  strengths: ['250mg'],
+  forms: ['Capsule'],
+  defaultFrequency: 'TDS',
+  clinicId: 'clinic-1',
+  userId: 'user-1',
+  createdAt: MockTimestamp.fromDate(new Date('2025-01-01')),
+  updatedAt: MockTimestamp.fromDate(new Date('2025-01-01')),
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('FormularyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    mockCollection.mockReturnValue({ id: 'formulary' });
+    mockDoc.mockImplementation((_col: any, id?: string) => ({ id: id ?? 'new-id' }));
+    mockGetDocs.mockResolvedValue(snapshotOf([amoxicillin]));
+  });
+
+  it('loads the selected clinic\'s formulary and caches it', async () => {
+    const service = makeService();
+    const drugs = await service.getDrugs();
+    await service.getDrugs();
+
+    expect(mockWhere).toHaveBeenCalledWith('clinicId', '==', 'clinic-1');
+    expect(mockGetDocs).toHaveBeenCalledOnce();
+    expect(drugs[0].genericName).toBe('Amoxicillin');
+    expect(drugs[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('falls back to the user\'s own entries without a clinic', async () => {
+    await makeService(null).getDrugs();
+    expect(mockWhere).toHaveBeenCalledWith('userId', '==', 'user-1');
+  });
+
+  it('searches generic and brand names', async () => {
+    const service = makeService();
+    expect((await service.search('mo')).map(d => d.id)).toEqual(['drug-1']);
+    expect(await service.search('para')).toEqual([]);
+  });
+
+  it('merges into an existing entry with the same generic name', async () => {
+    const service = makeService();
+    const result = await service.importDrugs([
+      { genericName: ' amoxicillin ', brands: ['Novamox'], strengths: ['500mg', '250MG'], forms: [] },
+    ]);
+
+    expect(result).toEqual({ added: 0, updated: 1, ids: ['drug-1'] });
+    const [ref, payload, options] = mockBatchSet.mock.calls[0];
+    expect(ref).toEqual({ id: 'drug-1' });
+    expect(payload.brands).toEqual(['Mox', 'Novamox']);
+    expect(payload.strengths).toEqual(['250mg', '500mg']);
+    expect(payload.defaultFrequency).toBe('TDS');
+    expect(options).toEqual({ merge: true });
+    expect(mockBatchCommit).toHaveBeenCalledOnce();
+  });
+
+  it('adds new drugs scoped to the clinic and invalidates the cache', async () => {
+    const service = makeService();
+    const id = await service.addDrug({ genericName: 'Paracetamol', brands: [], strengths: ['500mg'], forms: [] });
+
+    expect(id).toBe('new-id');
+    const [, payload] = mockBatchSet.mock.calls[0];
+    expect(payload).toMatchObject({ genericName: 'Paracetamol', clinicId: 'clinic-1', userId: 'user-1' });
+    expect(payload.createdAt).toBeInstanceOf(MockTimestamp);
+    expect(payload).not.toHaveProperty('defaultRoute');
+
+    await service.getDrugs();
+    expect(mockGetDocs).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows when the batch write fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    mockBatchCommit.mockRejectedValueOnce(new Error('denied'));
+    await expect(
+      makeService().importDrugs([{ genericName: 'Ibuprofen', brands: [], strengths: [], forms: [] }])
+    ).rejects.toThrow('denied');
+  });
+});
@@ -0,0 +1,185 @@
+// src/app/services/formularyService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  writeBatch,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { FormularyDrug, FormularyDrugInput } from '../models/formulary.model';
+import { formularyKey, mergeFormularyDrug, searchFormulary } from '../utilities/formularyUtils';
+
+/** Firestore allows at most 500 writes per batch */
+const BATCH_LIMIT = 450;
+
+@Injectable({ providedIn: 'root' })
+export class FormularyService {
+
+  // In-memory cache for the active clinic — cleared on any write
+  private cache: FormularyDrug[] | null = null;
+  private cacheScope: string | null = null;
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Clinic formulary when a clinic is selected, otherwise the user's own entries */
+  private getScope(): { clinicId: string | null; userId: string; key: string } {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    return { clinicId, userId, key: clinicId ? `clinic:${clinicId}` : `user:${userId}` };
+  }
+
+  /** Invalidate cache — call after any write operation */
+  invalidateCache(): void {
+    this.cache = null;
+    this.cacheScope = null;
+  }
+
+  async getDrugs(): Promise<FormularyDrug[]> {
+    const scope = this.getScope();
+    if (this.cache !== null && this.cacheScope === scope.key) {
+      return this.cache;
+    }
+    try {
+      const formularyCol = collection(this.db, 'formulary');
+      const q = scope.clinicId
+        ? query(formularyCol, where('clinicId', '==', scope.clinicId))
+        : query(formularyCol, where('userId', '==', scope.userId));
+      const snap = await getDocs(q);
+      const drugs = snap.docs
+        .map(d => {
+          const data = d.data() as any;
+          return {
+            ...data,
+            id: d.id,
+            brands: data.brands ?? [],
+            strengths: data.strengths ?? [],
+            forms: data.forms ?? [],
+            createdAt: data.createdAt?.toDate?.() ?? new Date(data.createdAt),
+            updatedAt: data.updatedAt?.toDate?.() ?? new Date(data.updatedAt),
+          } as FormularyDrug;
+        })
+        // Entries without a clinic only belong to the user's personal list
+        .filter(d => scope.clinicId || !d.clinicId);
+
+      this.cacheScope = scope.key;
+      this.cache = drugs.sort((a, b) => a.genericName.localeCompare(b.genericName));
+      return this.cache;
+    } catch (error) {
+      console.error('✗ Error fetching formulary:', error);
+      throw error;
+    }
+  }
+
+  /** Autocomplete suggestions for the medicine name input */
+  async search(term: string, max = 8): Promise<FormularyDrug[]> {
+    return searchFormulary(await this.getDrugs(), term, max);
+  }
+
+  /**
+   * Add a drug, or merge brands/strengths/forms into the existing entry
+   * with the same generic name. Returns the document id.
+   */
+  async addDrug(input: FormularyDrugInput): Promise<string> {
+    const result = await this.importDrugs([input]);
+    return result.ids[0];
+  }
+
+  /**
+   * Bulk add/merge (CSV import). Writes are batched; existing entries are
+   * matched by generic name so re-importing a file is safe.
+   */
+  async importDrugs(inputs: FormularyDrugInput[]): Promise<{ added: number; updated: number; ids: string[] }> {
+    try {
+      const scope = this.getScope();
+      const existing = new Map((await this.getDrugs()).map(d => [formularyKey(d.genericName), d]));
+      const formularyCol = collection(this.db, 'formulary');
+      const now = Timestamp.fromDate(new Date());
+      const ids: string[] = [];
+      let added = 0;
+      let updated = 0;
+
+      for (let start = 0; start < inputs.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(this.db);
+        for (const input of inputs.slice(start, start + BATCH_LIMIT)) {
+          const genericName = input.genericName.trim();
+          if (!genericName) continue;
+          const key = formularyKey(genericName);
+          const current = existing.get(key);
+
+          if (current?.id) {
+            const merged = mergeFormularyDrug(current, input);
+            batch.set(doc(formularyCol, current.id), this.toFirestore(merged, now), { merge: true });
+            existing.set(key, merged);
+            ids.push(current.id);
+            updated++;
+          } else {
+            const ref = doc(formularyCol);
+            const drug: FormularyDrug = {
+              ...mergeFormularyDrug({ genericName, brands: [], strengths: [], forms: [] }, input),
+              id: ref.id,
+              userId: scope.userId,
+              ...(scope.clinicId ? { clinicId: scope.clinicId } : {}),
+              createdAt: new Date(),
+              updatedAt: new Date()
+            };
+            batch.set(ref, { ...this.toFirestore(drug, now), createdAt: now });
+            existing.set(key, drug);
+            ids.push(ref.id);
+            added++;
+          }
+        }
+        await batch.commit();
+      }
+
+      this.invalidateCache();
+      console.log(`✓ Formulary updated: ${added} added, ${updated} merged`);
+      return { added, updated, ids };
+    } catch (error) {
+      console.error('✗ Error importing formulary:', error);
+      throw error;
+    }
+  }
+
+  async deleteDrug(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(collection(this.db, 'formulary'), id));
+      this.invalidateCache();
+      console.log('✓ Formulary entry deleted:', id);
+    } catch (error) {
+      console.error('✗ Error deleting formulary entry:', error);
+      throw error;
+    }
+  }
+
+  /** Firestore payload without id/createdAt and without empty optionals */
+  private toFirestore(drug: FormularyDrugInput & Partial<FormularyDrug>, now: Timestamp): any {
+    return {
+      genericName: drug.genericName.trim(),
+      brands: drug.brands,
+      strengths: drug.strengths,
+      forms: drug.forms,
+      ...(drug.defaultFrequency ? { defaultFrequency: drug.defaultFrequency } : {}),
+      ...(drug.defaultRoute ? { defaultRoute: drug.defaultRoute } : {}),
+      ...(drug.clinicId ? { clinicId: drug.clinicId } : {}),
+      ...(drug.userId ? { userId: drug.userId } : {}),
+      updatedAt: now
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDocs,
+  mockUpdateDoc,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  mockBatchSet,
+  mockBatchCommit,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDocs: vi.fn(),
+    mockUpdateDoc: vi.fn().mockResolvedValue(undefined),
+    mockDeleteDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    mockBatchSet: vi.fn(),
+    mockBatchCommit: vi.fn().mockResolvedValue(undefined),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  updateDoc: (...args: any[]) => mockUpdateDoc(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  writeBatch: () => ({ set: mockBatchSet, commit: mockBatchCommit }),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { LabOrderService } = await import('./labOrderService');
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const auditLogService = { record: vi.fn().mockResolvedValue(undefined) };
+
+function makeService(clinicId: string | null = 'clinic-1') {
+  return new LabOrderService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1', currentUserValue: { email: 'Dr.House@Example.com' } } as any,
+    { getSelectedClinicId: () => clinicId } as any,
+    auditLogService as any
+  );
+}
+
+function snapshotOf(orders: Array<Record<string, any>>) {
+  return { docs: orders.map(({ id, ...data }) => ({ id, data: () => data })) };
+}
+
+function order(id: string, orderedAt: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    patientId: 'patient-1',
+    patientName: 'Jane Doe',
+    testName: 'HbA1c',
+    status: 'ordered',
+    results: [],
+    doctorId: 'dr.house@example.com',
+    userId: 'user-1',
+    orderedAt: MockTimestamp.fromDate(new Date(orderedAt)),
+    updatedAt: MockTimestamp.fromDate(new Date(orderedAt)),
+    ...extra,
+  };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('LabOrderService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    mockCollection.mockReturnValue({ id: 'labOrders' });
+    let nextId = 0;
+    mockDoc.mockImplementation((_col: any, id?: string) => ({ id: id ?? `new-${++nextId}` }));
+  });
+
+  it('creates one order per distinct test, linked to the visit and clinic', async () => {
+    const ids = await makeService().createLabOrders(
+      { uniqueId: 'patient-1', name: 'Jane Doe' },
+      ['HbA1c', ' Lipid Profile ', 'HbA1c', ''],
+      'visit-9'
+    );
+
+    expect(ids).toEqual(['new-1', 'new-2']);
+    expect(mockBatchSet).toHaveBeenCalledTimes(2);
+    const [, payload] = mockBatchSet.mock.calls[1];
+    expect(payload).toMatchObject({
+      patientId: 'patient-1',
+      visitId: 'visit-9',
+      testName: 'Lipid Profile',
+      status: 'ordered',
+      results: [],
+      doctorId: 'dr.house@example.com',
+      clinicId: 'clinic-1',
+      userId: 'user-1',
+    });
+    expect(payload.orderedAt).toBeInstanceOf(MockTimestamp);
+    expect(mockBatchCommit).toHaveBeenCalledOnce();
+  });
+
+  it('lists the doctor\'s pending orders for the selected clinic, oldest first', async () => {
+    mockGetDocs.mockResolvedValue(snapshotOf([
+      order('late', '2025-03-05'),
+      order('other-clinic', '2025-03-01', { clinicId: 'clinic-2' }),
+      order('early', '2025-03-02', { clinicId: 'clinic-1', status: 'sample-collected' }),
+    ]));
+
+    const pending = await makeService().getPendingLabOrders();
+
+    expect(mockWhere).toHaveBeenCalledWith('doctorId', '==', 'dr.house@example.com');
+    expect(mockWhere).toHaveBeenCalledWith('status', 'in', ['ordered', 'sample-collected']);
+    expect(pending.map(o => o.id)).toEqual(['early', 'late']);
+    expect(pending[0].orderedAt).toBeInstanceOf(Date);
+  });
+
+  it('records cleaned results and marks the order resulted', async () => {
+    const service = makeService();
+    await service.recordResults(
+      { ...order('o-1', '2025-03-01'), orderedAt: new Date('2025-03-01'), updatedAt: new Date() } as any,
+      [
+        { name: 'HbA1c', value: ' 7.2 ', unit: '%', referenceLow: 4, referenceHigh: 5.6 },
+        { name: 'Unused row', value: '' },
+      ],
+      ' fasting sample '
+    );
+
+    const [ref, payload] = mockUpdateDoc.mock.calls[0];
+    expect(ref).toEqual({ id: 'o-1' });
+    expect(payload.status).toBe('resulted');
+    expect(payload.results).toEqual([{ name: 'HbA1c', value: '7.2', unit: '%', referenceLow: 4, referenceHigh: 5.6 }]);
+    expect(payload.notes).toBe('fasting sample');
+    expect(payload.resultedAt).toBeInstanceOf(MockTimestamp);
+    expect(payload.sampleCollectedAt).toBeInstanceOf(MockTimestamp);
+  });
+
+  it('refuses to save without values or cancel a resulted order', async () => {
+    const service = makeService();
+    const resulted = { ...order('o-2', '2025-03-01'), status: 'resulted' } as any;
+
+    await expect(service.recordResults(resulted, [{ name: 'HbA1c', value: ' ' }])).rejects.toThrow('Enter at least one result value');
+    await expect(service.cancelLabOrder(resulted)).rejects.toThrow('Resulted orders cannot be cancelled');
+    expect(mockUpdateDoc).not.toHaveBeenCalled();
+    expect(mockDeleteDoc).not.toHaveBeenCalled();
+  });
+});
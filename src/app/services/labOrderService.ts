@@ -0,0 +1,252 @@
+// src/app/services/labOrderService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  writeBatch,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { AuditLogService } from './auditLogService';
+import { LabOrder, LabResultValue } from '../models/labOrder.model';
+import { Patient } from '../models/patient.model';
+import { cleanLabResults } from '../utilities/labOrderUtils';
+import { normalizeEmail } from '../utilities/normalize-email';
+import { diffFields } from '../utilities/auditUtils';
+
+@Injectable({ providedIn: 'root' })
+export class LabOrderService {
+
+  // Per-patient cache — cleared on any write
+  private patientCache = new Map<string, LabOrder[]>();
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  private getCurrentUserEmail(): string {
+    const raw = this.authService.currentUserValue?.email || '';
+    return raw ? normalizeEmail(raw) : '';
+  }
+
+  /** Invalidate cache — call after any write operation */
+  invalidateCache(): void {
+    this.patientCache.clear();
+  }
+
+  private fromFirestore(id: string, data: any): LabOrder {
+    const toDate = (value: any) => value ? (value.toDate?.() ?? new Date(value)) : undefined;
+    return {
+      ...data,
+      id,
+      results: data.results ?? [],
+      orderedAt: toDate(data.orderedAt),
+      sampleCollectedAt: toDate(data.sampleCollectedAt),
+      resultedAt: toDate(data.resultedAt),
+      updatedAt: toDate(data.updatedAt),
+    } as LabOrder;
+  }
+
+  /** All lab orders for a patient, newest first */
+  async getPatientLabOrders(patientId: string): Promise<LabOrder[]> {
+    const cached = this.patientCache.get(patientId);
+    if (cached) return cached;
+    try {
+      this.getCurrentUserId();
+      const q = query(collection(this.db, 'labOrders'), where('patientId', '==', patientId));
+      const snap = await getDocs(q);
+      const orders = snap.docs
+        .map(d => this.fromFirestore(d.id, d.data()))
+        .sort((a, b) => b.orderedAt.getTime() - a.orderedAt.getTime());
+      this.patientCache.set(patientId, orders);
+      return orders;
+    } catch (error) {
+      console.error('✗ Error fetching lab orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders placed by the signed-in doctor that are still waiting for results,
+   * oldest first. Limited to the selected clinic when there is one.
+   * Always hits Firestore so the dashboard reflects the latest status.
+   */
+  async getPendingLabOrders(): Promise<LabOrder[]> {
+    this.getCurrentUserId();
+    const doctorId = this.getCurrentUserEmail();
+    if (!doctorId) return [];
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    try {
+      const q = query(
+        collection(this.db, 'labOrders'),
+        where('doctorId', '==', doctorId),
+        where('status', 'in', ['ordered', 'sample-collected'])
+      );
+      const snap = await getDocs(q);
+      return snap.docs
+        .map(d => this.fromFirestore(d.id, d.data()))
+        .filter(o => !clinicId || !o.clinicId || o.clinicId === clinicId)
+        .sort((a, b) => a.orderedAt.getTime() - b.orderedAt.getTime());
+    } catch (error) {
+      console.error('✗ Error fetching pending lab orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Order one or more tests for a patient, optionally linked to the visit
+   * they were ordered from. Returns the new order ids.
+   */
+  async createLabOrders(
+    patient: Pick<Patient, 'uniqueId' | 'name' | 'clinicId'>,
+    testNames: string[],
+    visitId?: string
+  ): Promise<string[]> {
+    const names = Array.from(new Set(testNames.map(n => n.trim()).filter(n => n)));
+    if (names.length === 0) return [];
+    try {
+      const userId = this.getCurrentUserId();
+      const clinicId = this.clinicContextService.getSelectedClinicId() || patient.clinicId;
+      const ordersCol = collection(this.db, 'labOrders');
+      const batch = writeBatch(this.db);
+      const now = Timestamp.fromDate(new Date());
+      const ids: string[] = [];
+
+      for (const testName of names) {
+        const orderRef = doc(ordersCol);
+        batch.set(orderRef, {
+          patientId: patient.uniqueId,
+          patientName: patient.name,
+          ...(visitId ? { visitId } : {}),
+          testName,
+          status: 'ordered',
+          results: [],
+          doctorId: this.getCurrentUserEmail(),
+          ...(clinicId ? { clinicId } : {}),
+          userId,
+          orderedAt: now,
+          updatedAt: now
+        });
+        ids.push(orderRef.id);
+      }
+      await batch.commit();
+
+      this.invalidateCache();
+      console.log(`✓ ${ids.length} lab order(s) created for patient ${patient.uniqueId}`);
+      for (const [i, id] of ids.entries()) {
+        await this.auditLogService.record({
+          action: 'create',
+          entityType: 'labOrder',
+          entityId: id,
+          patientId: patient.uniqueId,
+          patientName: patient.name,
+          summary: `Ordered ${names[i]}`,
+          clinicId: clinicId || undefined
+        });
+      }
+      return ids;
+    } catch (error) {
+      console.error('✗ Error creating lab orders:', error);
+      throw error;
+    }
+  }
+
+  async markSampleCollected(order: LabOrder): Promise<void> {
+    if (!order.id) return;
+    try {
+      const now = Timestamp.fromDate(new Date());
+      await updateDoc(doc(collection(this.db, 'labOrders'), order.id), {
+        status: 'sample-collected',
+        sampleCollectedAt: now,
+        updatedAt: now
+      });
+      this.invalidateCache();
+      console.log(`✓ Lab order ${order.id} sample collected`);
+      await this.auditLogService.record({
+        action: 'status-change',
+        entityType: 'labOrder',
+        entityId: order.id,
+        patientId: order.patientId,
+        patientName: order.patientName,
+        summary: order.testName,
+        changes: diffFields(order, { status: 'sample-collected' }),
+        clinicId: order.clinicId
+      });
+    } catch (error) {
+      console.error('✗ Error updating lab order:', error);
+      throw error;
+    }
+  }
+
+  /** Save result values and mark the order resulted. Editing results later is allowed. */
+  async recordResults(order: LabOrder, results: LabResultValue[], notes?: string): Promise<void> {
+    if (!order.id) return;
+    const cleaned = cleanLabResults(results);
+    if (cleaned.length === 0) throw new Error('Enter at least one result value');
+    try {
+      const now = Timestamp.fromDate(new Date());
+      await updateDoc(doc(collection(this.db, 'labOrders'), order.id), {
+        status: 'resulted',
+        results: cleaned,
+        notes: (notes || '').trim(),
+        ...(order.sampleCollectedAt ? {} : { sampleCollectedAt: now }),
+        resultedAt: order.resultedAt ? Timestamp.fromDate(order.resultedAt) : now,
+        updatedAt: now
+      });
+      this.invalidateCache();
+      console.log(`✓ Lab order ${order.id} resulted`);
+      await this.auditLogService.record({
+        action: 'update',
+        entityType: 'labOrder',
+        entityId: order.id,
+        patientId: order.patientId,
+        patientName: order.patientName,
+        summary: order.status === 'resulted' ? `${order.testName} results edited` : `${order.testName} resulted`,
+        changes: diffFields(order, { status: 'resulted', results: cleaned, notes: (notes || '').trim() }),
+        clinicId: order.clinicId
+      });
+    } catch (error) {
+      console.error('✗ Error recording lab results:', error);
+      throw error;
+    }
+  }
+
+  /** Withdraw an order that has no results yet */
+  async cancelLabOrder(order: LabOrder): Promise<void> {
+    if (!order.id) return;
+    if (order.status === 'resulted') throw new Error('Resulted orders cannot be cancelled');
+    try {
+      await deleteDoc(doc(collection(this.db, 'labOrders'), order.id));
+      this.invalidateCache();
+      console.log(`✓ Lab order ${order.id} cancelled`);
+      await this.auditLogService.record({
+        action: 'cancel',
+        entityType: 'labOrder',
+        entityId: order.id,
+        patientId: order.patientId,
+        patientName: order.patientName,
+        summary: `${order.testName} withdrawn`,
+        clinicId: order.clinicId
+      });
+    } catch (error) {
+      console.error('✗ Error cancelling lab order:', error);
+      throw error;
+    }
+  }
+}
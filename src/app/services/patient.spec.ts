@@ -5,7 +5,9 @@ import { PatientSearchService } from './patientSearchService';
 import { AuthenticationService } from './authenticationService';
 import { FirebaseService } from './firebase';
 import { ClinicContextService } from './clinicContextService';
+import { AuditLogService } from './auditLogService';
 import { Patient } from '../models/patient.model';
+import { createProblem } from '../utilities/problemUtils';
 
 describe('PatientService (Merged & Orchestrator)', () => {
   let service: PatientService;
@@ -21,7 +23,7 @@ describe('PatientService (Merged & Orchestrator)', () => {
     familyId: 'doe_john',
     phone: '5551234567',
     email: 'john@example.com',
-    ailments: 'old ailments',
+    ailments: [{ condition: 'Asthma', status: 'active', recordedAt: new Date('2024-01-01') }],
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01')
   };
@@ -65,7 +67,8 @@ describe('PatientService (Merged & Orchestrator)', () => {
         { provide: PatientSearchService, useValue: searchService },
         { provide: FirebaseService, useValue: firebaseService },
         { provide: AuthenticationService, useValue: authService },
-        { provide: ClinicContextService, useValue: clinicContextService }
+        { provide: ClinicContextService, useValue: clinicContextService },
+        { provide: AuditLogService, useValue: { record: vi.fn().mockResolvedValue(undefined) } }
       ]
     });
 
@@ -136,20 +139,22 @@ describe('PatientService (Merged & Orchestrator)', () => {
         name: 'John Doe',
         phone: '5551234567',
         email: 'john@example.com',
-        ailments: 'cough, fever'
-      } as any);
+        ailments: [createProblem('Cough'), createProblem('asthma'), createProblem('Fever')]
+      });
 
       expect(id).toBe('pat-123');
-      expect(firebaseService.updatePatient).toHaveBeenCalledWith(
-        'pat-123',
-        expect.objectContaining({ ailments: 'cough, fever' }),
-        'user-001'
-      );
+      const [, saved] = firebaseService.updatePatient.mock.calls[0];
+      expect(saved.ailments).toEqual([
+        { condition: 'Asthma', status: 'active', recordedAt: new Date('2024-01-01') },
+        expect.objectContaining({ condition: 'Cough', status: 'active', recordedAt: expect.any(Date) }),
+        expect.objectContaining({ condition: 'Fever', status: 'active', recordedAt: expect.any(Date) })
+      ]);
     });
 
     it('should delete patient', async () => {
       await service.deletePatient('pat-123');
-      expect(firebaseService.deletePatient).toHaveBeenCalledWith('pat-123', 'user-001');
+      expect(firebaseService.deletePatient).toHaveBeenCalledWith(
+        'pat-123', expect.objectContaining({ uid: 'user-001' }), undefined, undefined);
     });
 
     it('should select and expose patient via selectedPatient$', () => {
@@ -181,7 +186,8 @@ describe('PatientService (Merged & Orchestrator)', () => {
 
     it('should delete visit from patient', async () => {
       await service.deleteVisit('pat-123', 'visit-456');
-      expect(firebaseService.deleteVisit).toHaveBeenCalledWith('pat-123', 'visit-456', 'user-001');
+      expect(firebaseService.deleteVisit).toHaveBeenCalledWith(
+        'pat-123', 'visit-456', expect.objectContaining({ uid: 'user-001' }), undefined);
     });
   });
 
@@ -218,6 +224,40 @@ describe('PatientService (Merged & Orchestrator)', () => {
       expect(result.valid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
+
+    it('should accept complete demographics', () => {
+      const errors = service.validateDemographics({
+        address: { line1: '12 MG Road', city: 'Bengaluru', postalCode: '560038' },
+        alternatePhone: '5559876543',
+        emergencyContact: { name: 'Jane Doe', relation: 'Spouse', phone: '5550001111' },
+        bloodGroup: 'O+',
+        occupation: 'Teacher',
+        preferredLanguage: 'Kannada',
+        governmentIds: [{ type: 'aadhaar', number: '2345 6789 0123' }, { type: 'pan', number: 'abcde1234f' }]
+      }, '5551234567');
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should report invalid demographics', () => {
+      const errors = service.validateDemographics({
+        address: { postalCode: '5600' },
+        alternatePhone: '5551234567',
+        emergencyContact: { relation: 'Spouse', phone: '123' },
+        bloodGroup: 'C+',
+        governmentIds: [{ type: 'pan', number: '12345' }]
+      }, '5551234567');
+
+      expect(errors).toEqual([
+        'Address needs at least a street or a city',
+        'PIN code must be 6 digits',
+        'Alternate phone must differ from the primary phone',
+        'Emergency contact name is required',
+        'Emergency contact phone must be 10 digits',
+        'Invalid blood group',
+        'PAN number is not in a valid format'
+      ]);
+    });
   });
 
   // ──── EXISTENCE CHECKS (merged from PatientCRUDService) ────
@@ -1,15 +1,27 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { FirebaseService } from './firebase';
+import { DocumentData, QueryDocumentSnapshot } from '@angular/fire/firestore';
+import { FirebaseService, VisitPage } from './firebase';
 import { AuthenticationService } from './authenticationService';
 import { PatientSearchService } from './patientSearchService';
 import { ClinicContextService } from './clinicContextService';
-import { Patient, Visit } from '../models/patient.model';
+import { AuditLogService } from './auditLogService';
+import { AuditFieldChange } from '../models/auditLog.model';
+import { FamilyRelationship, Patient, Visit, VisitContent, VisitEdit, VisitRevision } from '../models/patient.model';
 import {
   isValidPhone,
   isValidEmail,
+  validateDemographics,
   validatePatientData
 } from '../utilities/patientValidation';
+import { mergeAllergies } from '../utilities/allergyUtils';
+import { createProblem, mergeProblems } from '../utilities/problemUtils';
+import { DuplicateMatch, findDuplicateCandidates } from '../utilities/duplicateUtils';
+import { diffFields } from '../utilities/auditUtils';
+import { PatientDemographics, cleanDemographics } from '../utilities/demographicsUtils';
+import { diffVisitContent, extractVisitContent } from '../utilities/visitRevisionUtils';
+
+const LS_LIST_MIGRATION_PREFIX = 'intellirx.patientListsMigrated.';
 
 /**
  * Orchestrates patient operations
@@ -46,7 +58,8 @@ export class PatientService {
     private firebaseService: FirebaseService,
     private authService: AuthenticationService,
     private searchService: PatientSearchService,
-    private clinicContextService: ClinicContextService
+    private clinicContextService: ClinicContextService,
+    private auditLogService: AuditLogService
   ) { }
 
   /**
@@ -58,11 +71,26 @@ export class PatientService {
     return userId;
   }
 
+  /** The signed-in user as recorded on edits and deletions */
+  private getEditor(): { uid: string; name: string } {
+    const user = this.authService.currentUserValue;
+    return { uid: this.getCurrentUserId(), name: user?.name || user?.email || 'Unknown' };
+  }
+
   /** Get the active clinic context for cross-user patient sharing */
   private getClinicId(): string | undefined {
     return this.clinicContextService.getSelectedClinicId() || undefined;
   }
 
+  /** The patient as currently stored, for audit entries; null when it can't be read */
+  private async getAuditedPatient(uniqueId: string): Promise<Patient | null> {
+    try {
+      return await this.firebaseService.getPatientById(uniqueId, this.getCurrentUserId(), this.getClinicId());
+    } catch {
+      return null;
+    }
+  }
+
   // ──── SEARCH & PAGINATION ────
 
   /**
@@ -130,10 +158,17 @@ export class PatientService {
           email: patientData.email || existingPatient.email,
           dateOfBirth: patientData.dateOfBirth || existingPatient.dateOfBirth,
           gender: patientData.gender || existingPatient.gender,
-          allergies: patientData.allergies || existingPatient.allergies,
+          // Newly entered demographics replace the stored ones; blanks keep them
+          ...cleanDemographics(patientData),
+          // Keep the reaction and severity already recorded for known allergies
+          allergies: patientData.allergies?.length
+            ? mergeAllergies(existingPatient.allergies || [], patientData.allergies)
+            : existingPatient.allergies,
           // Ensure ailments entered/prefilled via Appointment flow are persisted
-          // even when the patient already exists.
-          ailments: patientData.ailments || existingPatient.ailments
+          // even when the patient already exists, without resetting known problems.
+          ailments: patientData.ailments?.length
+            ? mergeProblems(existingPatient.ailments || [], patientData.ailments)
+            : existingPatient.ailments
         };
         await this.updatePatient(existingPatient.uniqueId, updateData);
         return existingPatient.uniqueId;
@@ -145,6 +180,14 @@ export class PatientService {
       const uniqueId = await this.firebaseService.addPatient(patientWithUserId, userId);
 
       console.log('✓ Patient created:', uniqueId);
+      await this.auditLogService.record({
+        action: 'create',
+        entityType: 'patient',
+        entityId: uniqueId,
+        patientId: uniqueId,
+        patientName: patientData.name,
+        clinicId
+      });
       return uniqueId;
     } catch (error) {
       console.error('❌ Error creating patient:', error);
@@ -159,8 +202,21 @@ export class PatientService {
     const userId = this.getCurrentUserId();
     const clinicId = this.getClinicId();
     try {
+      const before = await this.getAuditedPatient(uniqueId);
       await this.firebaseService.updatePatient(uniqueId, patientData, userId, clinicId);
       console.log('✓ Patient updated successfully');
+      const changes = diffFields(before, patientData).filter(c => c.field !== 'updatedAt');
+      if (changes.length) {
+        await this.auditLogService.record({
+          action: 'update',
+          entityType: 'patient',
+          entityId: before?.uniqueId || uniqueId,
+          patientId: before?.uniqueId || uniqueId,
+          patientName: patientData.name || before?.name,
+          changes,
+          clinicId: before?.clinicId
+        });
+      }
     } catch (error) {
       console.error('❌ Error updating patient:', error);
       throw error;
@@ -168,14 +224,161 @@ export class PatientService {
   }
 
   /**
-   * Delete a patient
+   * Give a patient registered before MRNs existed the next number of the clinic
+   */
+  async assignMrn(uniqueId: string): Promise<string> {
+    const userId = this.getCurrentUserId();
+    try {
+      const before = await this.getAuditedPatient(uniqueId);
+      const mrn = await this.firebaseService.assignMrn(uniqueId, userId, this.getClinicId());
+      console.log('✓ MRN assigned:', mrn);
+      if (!before?.mrn) {
+        await this.auditLogService.record({
+          action: 'update',
+          entityType: 'patient',
+          entityId: before?.uniqueId || uniqueId,
+          patientId: before?.uniqueId || uniqueId,
+          patientName: before?.name,
+          changes: [{ field: 'mrn', before: '', after: mrn }],
+          clinicId: before?.clinicId
+        });
+      }
+      return mrn;
+    } catch (error) {
+      console.error('❌ Error assigning MRN:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add conditions (e.g. ailments typed at booking) to the patient's problem list.
+   * Conditions already on the list keep their status and details.
    */
-  async deletePatient(uniqueId: string): Promise<void> {
+  async addPatientProblems(uniqueId: string, conditions: string[]): Promise<void> {
+    const patient = await this.getPatient(uniqueId);
+    if (!patient) throw new Error('Patient not found');
+    const current = patient.ailments || [];
+    const merged = mergeProblems(current, conditions.filter(c => c.trim()).map(c => createProblem(c)));
+    if (merged.length !== current.length) {
+      await this.updatePatient(uniqueId, { ailments: merged });
+    }
+  }
+
+  /**
+   * All patients in the household with this familyId
+   */
+  async getFamilyMembers(familyId: string): Promise<Patient[]> {
     const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
     try {
-      await this.firebaseService.deletePatient(uniqueId, userId);
+      return await this.firebaseService.getFamilyMembers(familyId, userId, clinicId);
+    } catch (error) {
+      console.error('❌ Error fetching family members:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a patient into a household. Someone whose current family still has
+   * other members must be unlinked there first.
+   */
+  async linkFamilyMember(familyId: string, patient: Patient, relationship: FamilyRelationship): Promise<void> {
+    if (patient.familyId === familyId) {
+      await this.updatePatient(patient.uniqueId, { familyRelationship: relationship });
+      return;
+    }
+    const currentFamily = await this.getFamilyMembers(patient.familyId);
+    if (currentFamily.some(m => m.uniqueId !== patient.uniqueId)) {
+      throw new Error(`${patient.name} already belongs to another family. Unlink them there first.`);
+    }
+    await this.updatePatient(patient.uniqueId, { familyId, familyRelationship: relationship });
+  }
+
+  /**
+   * Take a patient out of their household; they get back the familyId generated
+   * from their own name and phone
+   */
+  async unlinkFamilyMember(patient: Patient): Promise<void> {
+    const ownFamilyId = this.firebaseService.generateFamilyId(patient.name, patient.phone);
+    if (ownFamilyId === patient.familyId) {
+      throw new Error('The head of household cannot be unlinked from their own family');
+    }
+    await this.updatePatient(patient.uniqueId, { familyId: ownFamilyId, familyRelationship: 'head' });
+  }
+
+  /**
+   * Patients whose name or phone contains the term, e.g. to find relatives to link
+   */
+  async findPatients(term: string): Promise<Patient[]> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
+    const { results } = await this.firebaseService.searchPatientsContaining(term, userId, clinicId);
+    return results;
+  }
+
+  /**
+   * Likely duplicate records among the patients in scope, best match first
+   */
+  async findDuplicatePatients(): Promise<DuplicateMatch[]> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
+    try {
+      const patients = await this.firebaseService.getPatientsInScope(userId, clinicId);
+      return findDuplicateCandidates(patients);
+    } catch (error) {
+      console.error('❌ Error finding duplicate patients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge a duplicate into the surviving record; the duplicate's ID keeps
+   * working as a redirect. Returns the number of visits moved.
+   */
+  async mergePatients(survivorId: string, duplicateId: string): Promise<number> {
+    const editor = this.getEditor();
+    const clinicId = this.getClinicId();
+    try {
+      const moved = await this.firebaseService.mergePatients(survivorId, duplicateId, editor.name, editor.uid, clinicId);
+      this.searchService.clear();
+      console.log(`✓ Patient ${duplicateId} merged into ${survivorId}`);
+      const survivor = await this.getAuditedPatient(survivorId);
+      await this.auditLogService.record({
+        action: 'merge',
+        entityType: 'patient',
+        entityId: survivorId,
+        patientId: survivorId,
+        patientName: survivor?.name,
+        summary: `Merged ${duplicateId} into ${survivorId}, ${moved} visit(s) moved`,
+        clinicId: survivor?.clinicId
+      });
+      return moved;
+    } catch (error) {
+      console.error('❌ Error merging patients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a patient to the recycle bin; purged after the retention period
+   */
+  async deletePatient(uniqueId: string, reason?: string): Promise<void> {
+    const clinicId = this.getClinicId();
+    try {
+      const patient = await this.getAuditedPatient(uniqueId);
+      await this.firebaseService.deletePatient(uniqueId, this.getEditor(), clinicId, reason);
       this.selectedPatientSubject.next(null);
-      console.log('✓ Patient deleted successfully');
+      this.searchService.clear();
+      console.log('✓ Patient moved to the recycle bin');
+      await this.auditLogService.record({
+        action: 'delete',
+        entityType: 'patient',
+        entityId: uniqueId,
+        patientId: uniqueId,
+        patientName: patient?.name,
+        summary: reason,
+        clinicId: patient?.clinicId
+      });
     } catch (error) {
       console.error('❌ Error deleting patient:', error);
       throw error;
@@ -192,17 +395,29 @@ export class PatientService {
   // ──── VISIT MANAGEMENT ────
 
   /**
-   * Add a visit to a patient
+   * Add a visit to a patient. `recordedAt` keeps the original visit date of
+   * an imported record; it defaults to now.
    */
   async addVisit(
     patientId: string,
-    visitData: Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>
+    visitData: Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>,
+    recordedAt?: Date
   ): Promise<string> {
     const userId = this.getCurrentUserId();
     const clinicId = this.getClinicId();
     try {
-      const visitId = await this.firebaseService.addVisit(patientId, visitData, userId, clinicId);
+      const visitId = await this.firebaseService.addVisit(patientId, visitData, userId, clinicId, recordedAt);
       console.log('✓ Visit added successfully:', visitId);
+      const patient = await this.getAuditedPatient(patientId);
+      await this.auditLogService.record({
+        action: 'create',
+        entityType: 'visit',
+        entityId: visitId,
+        patientId: patient?.uniqueId || patientId,
+        patientName: patient?.name,
+        summary: visitData.diagnosis?.trim() || undefined,
+        clinicId: patient?.clinicId
+      });
       return visitId;
     } catch (error) {
       console.error('❌ Error adding visit:', error);
@@ -211,7 +426,26 @@ export class PatientService {
   }
 
   /**
-   * Get all visits for a patient
+   * One-time migration of legacy allergy and ailment strings in the current clinic
+   * (or the user's own patients). Remembered per browser so it only runs once per scope.
+   */
+  async migrateLegacyPatientLists(): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const clinicId = this.getClinicId();
+      const flagKey = `${LS_LIST_MIGRATION_PREFIX}${clinicId || userId}`;
+      if (localStorage.getItem(flagKey)) return;
+      const migrated = await this.firebaseService.migrateLegacyPatientLists(userId, clinicId);
+      localStorage.setItem(flagKey, new Date().toISOString());
+      if (migrated) console.log(`✓ Allergies and ailments migrated for ${migrated} patient(s)`);
+    } catch (error) {
+      // Left for the next sign-in; reads already convert legacy strings
+      console.error('❌ Error migrating allergies and ailments:', error);
+    }
+  }
+
+  /**
+   * Get all visits for a patient — the complete history, for statistics
    */
   async getPatientVisits(patientId: string): Promise<Visit[]> {
     const userId = this.getCurrentUserId();
@@ -226,13 +460,123 @@ export class PatientService {
   }
 
   /**
-   * Delete a visit
+   * Get one page of visits, newest first. Pass the previous page's lastDoc to continue.
    */
-  async deleteVisit(patientId: string, visitId: string): Promise<void> {
+  async getPatientVisitsPage(
+    patientId: string,
+    lastDoc: QueryDocumentSnapshot<DocumentData> | null = null
+  ): Promise<VisitPage> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
+    try {
+      return await this.firebaseService.getPatientVisitsPage(patientId, userId, clinicId, lastDoc);
+    } catch (error) {
+      console.error('❌ Error fetching visits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Total number of visits for a patient
+   */
+  async getPatientVisitCount(patientId: string): Promise<number> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
+    try {
+      return await this.firebaseService.getPatientVisitCount(patientId, userId, clinicId);
+    } catch (error) {
+      console.error('❌ Error counting visits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Correct an existing visit; the previous version is kept as a revision
+   * attributed to the signed-in user. Returns false when nothing changed.
+   */
+  async updateVisit(
+    patientId: string,
+    visitId: string,
+    changes: VisitEdit,
+    reason?: string
+  ): Promise<boolean> {
+    const clinicId = this.getClinicId();
+    const editor = this.getEditor();
+    try {
+      const updated = await this.firebaseService.updateVisit(patientId, visitId, changes, editor, reason, clinicId);
+      if (updated) {
+        console.log('✓ Visit updated successfully:', visitId);
+        await this.recordVisitEdit(patientId, visitId, changes, reason);
+      }
+      return updated;
+    } catch (error) {
+      console.error('❌ Error updating visit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Audit an edited visit against the revision it just superseded
+   */
+  private async recordVisitEdit(patientId: string, visitId: string, changes: VisitContent, reason?: string): Promise<void> {
+    const patient = await this.getAuditedPatient(patientId);
+    let fieldChanges: AuditFieldChange[] = [];
+    try {
+      const revisions = await this.getVisitRevisions(patientId, visitId);
+      const previous = revisions[revisions.length - 1]?.content;
+      if (previous) {
+        fieldChanges = diffVisitContent(previous, extractVisitContent(changes)).map(c => ({
+          field: c.label,
+          before: c.before.join('\n'),
+          after: c.after.join('\n')
+        }));
+      }
+    } catch {
+      // The entry still records who edited the visit and when
+    }
+    await this.auditLogService.record({
+      action: 'update',
+      entityType: 'visit',
+      entityId: visitId,
+      patientId: patient?.uniqueId || patientId,
+      patientName: patient?.name,
+      summary: reason?.trim() || undefined,
+      changes: fieldChanges,
+      clinicId: patient?.clinicId
+    });
+  }
+
+  /**
+   * Get earlier versions of a visit, oldest first
+   */
+  async getVisitRevisions(patientId: string, visitId: string): Promise<VisitRevision[]> {
     const userId = this.getCurrentUserId();
+    const clinicId = this.getClinicId();
     try {
-      await this.firebaseService.deleteVisit(patientId, visitId, userId);
-      console.log('✓ Visit deleted successfully');
+      return await this.firebaseService.getVisitRevisions(patientId, visitId, userId, clinicId);
+    } catch (error) {
+      console.error('❌ Error fetching visit revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a visit to the recycle bin; purged after the retention period
+   */
+  async deleteVisit(patientId: string, visitId: string): Promise<void> {
+    const clinicId = this.getClinicId();
+    try {
+      await this.firebaseService.deleteVisit(patientId, visitId, this.getEditor(), clinicId);
+      console.log('✓ Visit moved to the recycle bin');
+      const patient = await this.getAuditedPatient(patientId);
+      await this.auditLogService.record({
+        action: 'delete',
+        entityType: 'visit',
+        entityId: visitId,
+        patientId: patient?.uniqueId || patientId,
+        patientName: patient?.name,
+        clinicId: patient?.clinicId
+      });
     } catch (error) {
       console.error('❌ Error deleting visit:', error);
       throw error;
@@ -257,6 +601,15 @@ export class PatientService {
     return isValidEmail(email);
   }
 
+  /**
+   * Validate address, emergency contact, blood group and the other demographics;
+   * returns readable errors, empty when valid
+   * Uses utility function from patientValidation module
+   */
+  validateDemographics(data: PatientDemographics, primaryPhone?: string): string[] {
+    return validateDemographics(data, primaryPhone);
+  }
+
   /**
    * Comprehensive patient data validation
    * Uses utility function from patientValidation module
@@ -267,7 +620,7 @@ export class PatientService {
     email?: string;
     dateOfBirth?: Date | string;
     gender?: string;
-  }): { valid: boolean; errors: string[] } {
+  } & PatientDemographics): { valid: boolean; errors: string[] } {
     return validatePatientData(data);
   }
 
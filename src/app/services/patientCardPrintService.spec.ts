@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import qrcode from 'qrcode-generator';
+
+// ─── Mock @angular/core (Injectable decorator) ────────────────────────────────
+vi.mock('@angular/core', () => ({
+  Injectable: () => (target: any) => target,
+  ɵɵdefineInjectable: (...args: any[]) => { },
+  ɵɵinject: (...args: any[]) => { },
+  ɵsetClassMetadata: (...args: any[]) => { },
+}));
+
+import { PatientCardPrintService } from './patientCardPrintService';
+import { loadQrDecoder, parsePatientQr, patientQrPayload } from '../utilities/patientQr';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function makeWindow(): Window {
+  const doc = document.implementation.createHTMLDocument('');
+  return { document: doc, focus: vi.fn(), print: vi.fn(), close: vi.fn() } as any;
+}
+
+/** Rasterise a QR code the way a webcam frame would arrive */
+function qrFrame(text: string, scale = 4): ImageData {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+  const quiet = 4;
+  const size = (qr.getModuleCount() + quiet * 2) * scale;
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const row = Math.floor(y / scale) - quiet;
+      const col = Math.floor(x / scale) - quiet;
+      const inside = row >= 0 && col >= 0 && row < qr.getModuleCount() && col < qr.getModuleCount();
+      if (inside && qr.isDark(row, col)) data.fill(0, (y * size + x) * 4, (y * size + x) * 4 + 3);
+    }
+  }
+  return { data, width: size, height: size } as ImageData;
+}
+
+const patient = {
+  uniqueId: 'doe_john_1234567890_user1',
+  name: 'John <Doe>',
+  mrn: 'MR-000042',
+  phone: '1234567890',
+  gender: 'Male',
+  dateOfBirth: new Date('1990-06-15'),
+  bloodGroup: 'O+',
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('PatientCardPrintService', () => {
+  it('writes the card with the patient details and a QR code', async () => {
+    const win = makeWindow();
+    expect(await new PatientCardPrintService().print(patient, win)).toBe(true);
+
+    const doc = win.document;
+    expect(doc.querySelector('.card-name')?.textContent).toBe('John <Doe>');
+    expect(doc.querySelector('.card-mrn')?.textContent).toBe('MR-000042');
+    expect(doc.querySelector('.card-qr svg')).not.toBeNull();
+    expect(doc.querySelector('.card-photo--initials')).not.toBeNull();
+    expect(doc.body.textContent).toContain('15 Jun 1990');
+  });
+
+  it('wires the print button', async () => {
+    const win = makeWindow();
+    await new PatientCardPrintService().print(patient, win);
+    (win.document.querySelector('.card-print') as HTMLButtonElement).click();
+    expect(win.print).toHaveBeenCalled();
+  });
+
+  it('reports a blocked pop-up', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    const service = new PatientCardPrintService();
+    vi.spyOn(service, 'openWindow').mockReturnValue(null);
+    expect(await service.print(patient)).toBe(false);
+  });
+});
+
+describe('patient QR codes', () => {
+  it('decode back to the patient ID without any network', async () => {
+    const decode = await loadQrDecoder();
+    expect(parsePatientQr(decode(qrFrame(patientQrPayload(patient.uniqueId))))).toBe(patient.uniqueId);
+  });
+
+  it('ignore QR codes that are not patient cards', () => {
+    expect(parsePatientQr('https://example.com/patient/abc')).toBeNull();
+    expect(parsePatientQr('intellirx:patient:')).toBeNull();
+    expect(parsePatientQr(null)).toBeNull();
+    expect(parsePatientQr(' INTELLIRX:patient:abc_1 ')).toBe('abc_1');
+  });
+});
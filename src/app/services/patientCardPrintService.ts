@@ -0,0 +1,50 @@
+import { Injectable } from '@angular/core';
+import { DEFAULT_SYSTEM_SETTINGS } from '../config/systemSettings';
+import { PatientCardData, buildPatientCardHtml } from '../utilities/patientCardDocument';
+import { createQrSvg, patientQrPayload } from '../utilities/patientQr';
+
+/**
+ * Renders a patient's wallet ID card, with the QR code reception scans,
+ * in a new browser tab for printing. The QR code is generated in the browser.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PatientCardPrintService {
+
+  /**
+   * Open an empty tab for the card.
+   * Call this synchronously inside the click handler (before any await),
+   * otherwise popup blockers reject it.
+   */
+  openWindow(): Window | null {
+    return window.open('', '_blank');
+  }
+
+  /**
+   * Write the card into `target` (or a new tab) and wire up its print button.
+   * Returns false when the browser blocked the tab.
+   */
+  async print(patient: PatientCardData['patient'], target?: Window | null): Promise<boolean> {
+    const win = target ?? this.openWindow();
+    if (!win) {
+      console.error('❌ Patient card blocked by the browser');
+      return false;
+    }
+
+    try {
+      const qrSvg = await createQrSvg(patientQrPayload(patient.uniqueId));
+      const html = buildPatientCardHtml({ letterhead: DEFAULT_SYSTEM_SETTINGS.letterhead, patient, qrSvg });
+      win.document.open();
+      win.document.write(html);
+      win.document.close();
+      win.document.querySelector('.card-print')?.addEventListener('click', () => win.print());
+      win.focus();
+      return true;
+    } catch (error) {
+      win.close();
+      console.error('❌ Error rendering patient card:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PatientImportService } from './patientImportService';
+import {
+  buildPatientImportReport,
+  guessPatientImportMapping,
+  validatePatientImportRows
+} from '../utilities/patientImportUtils';
+import { parseCsv } from '../utilities/csvUtils';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const firebaseService = {
+  addPatients: vi.fn(),
+  generateFamilyId: (name: string, phone: string) => `${name.split(' ').pop()!.toLowerCase()}_${phone}`,
+};
+const patientService = { findPatientByPhone: vi.fn() };
+const auditLogService = { record: vi.fn().mockResolvedValue(undefined) };
+
+function makeService(userId: string | null = 'user-1'): PatientImportService {
+  return new PatientImportService(
+    firebaseService as any,
+    patientService as any,
+    { getCurrentUserId: () => userId } as any,
+    { getSelectedClinicId: () => 'clinic-1' } as any,
+    auditLogService as any
+  );
+}
+
+const CSV = [
+  'Patient Name,Mobile,DOB,Sex,Blood Group,Allergies',
+  'Asha Roy,+91 98765 43210,15/08/1990,F,o +ve,Penicillin; Peanuts',
+  'Ravi Kumar,12345,1985-02-30,M,,',
+  'Meera Roy,9876543210,,female,,',
+  ',9123456789,,,,',
+  'Vikram Shah,9988776655,,male,AB-,',
+].join('\n');
+
+function validatedRows() {
+  const [headers, ...data] = parseCsv(CSV);
+  return { headers, rows: validatePatientImportRows(data, guessPatientImportMapping(headers)) };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('PatientImportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    patientService.findPatientByPhone.mockResolvedValue(null);
+    firebaseService.addPatients.mockImplementation(async (patients: any[]) =>
+      patients.map(p => `${p.familyId}_user-1`));
+  });
+
+  describe('row validation', () => {
+    it('maps recognised headers and cleans phone, date, gender, blood group and lists', () => {
+      const { rows } = validatedRows();
+
+      expect(rows[0].status).toBe('ready');
+      expect(rows[0].patient).toMatchObject({
+        name: 'Asha Roy',
+        phone: '9876543210',
+        gender: 'Female',
+        bloodGroup: 'O+',
+        dateOfBirth: new Date(1990, 7, 15),
+      });
+      expect(rows[0].patient!.allergies!.map(a => a.substance)).toEqual(['Penicillin', 'Peanuts']);
+    });
+
+    it('reports every problem of an invalid row with its CSV line', () => {
+      const { rows } = validatedRows();
+
+      expect(rows[1]).toMatchObject({ line: 3, status: 'invalid' });
+      expect(rows[1].errors).toEqual([
+        'Date of birth "1985-02-30" is not a date (use YYYY-MM-DD or DD/MM/YYYY)',
+        'Phone must be 10 digits',
+      ]);
+      expect(rows[3].errors).toContain('Patient name is required');
+    });
+
+    it('marks a repeated phone number in the file as a duplicate of the first row', () => {
+      const { rows } = validatedRows();
+
+      expect(rows[2]).toMatchObject({ status: 'duplicate', errors: ['Same phone number as line 2'] });
+    });
+
+    it('writes rejected rows with their original cells and reasons to the report', () => {
+      const { headers, rows } = validatedRows();
+
+      const report = parseCsv(buildPatientImportReport(headers, rows));
+
+      expect(report[0]).toEqual([...headers, 'import_line', 'import_status', 'import_errors']);
+      expect(report).toHaveLength(4);
+      expect(report[2]).toEqual(['Meera Roy', '9876543210', '', 'female', '', '', '4', 'duplicate', 'Same phone number as line 2']);
+    });
+  });
+
+  describe('checkDuplicates', () => {
+    it('marks ready rows whose phone is already registered and reports progress', async () => {
+      const { rows } = validatedRows();
+      patientService.findPatientByPhone.mockImplementation(async (phone: string) =>
+        phone === '9988776655' ? { name: 'Vikram Shah', mrn: 'MR-000012' } : null);
+      const progress = vi.fn();
+
+      const checked = await makeService().checkDuplicates(rows, progress);
+
+      expect(patientService.findPatientByPhone).toHaveBeenCalledTimes(2);
+      expect(checked[4]).toMatchObject({
+        status: 'duplicate',
+        errors: ['Phone number already registered to Vikram Shah (MR-000012)'],
+      });
+      expect(checked[0].status).toBe('ready');
+      expect(progress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('rethrows lookup failures', async () => {
+      patientService.findPatientByPhone.mockRejectedValue(new Error('User not authenticated'));
+
+      await expect(makeService().checkDuplicates(validatedRows().rows)).rejects.toThrow('User not authenticated');
+    });
+  });
+
+  describe('importPatients', () => {
+    it('creates the ready rows in the selected clinic and audits each one', async () => {
+      const { rows } = validatedRows();
+
+      const result = await makeService().importPatients(rows);
+
+      const [patients, userId, clinicId] = firebaseService.addPatients.mock.calls[0];
+      expect(userId).toBe('user-1');
+      expect(clinicId).toBe('clinic-1');
+      expect(patients.map((p: any) => p.familyId)).toEqual(['roy_9876543210', 'shah_9988776655']);
+      expect(patients[0]).toMatchObject({ userId: 'user-1', clinicId: 'clinic-1' });
+      expect(result.map(r => r.status)).toEqual(['imported', 'invalid', 'duplicate', 'invalid', 'imported']);
+      expect(auditLogService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create', entityId: 'roy_9876543210_user-1', summary: 'Imported from CSV', clinicId: 'clinic-1',
+      }));
+    });
+
+    it('reports rows whose patient was registered after the duplicate check', async () => {
+      const { rows } = validatedRows();
+      firebaseService.addPatients.mockImplementation(async (patients: any[]) =>
+        patients.map((p, i) => i === 0 ? null : `${p.familyId}_user-1`));
+
+      const result = await makeService().importPatients(rows);
+
+      expect(result[0]).toMatchObject({
+        status: 'duplicate',
+        errors: ['A patient with this name and phone number already exists'],
+      });
+      expect(result[4].status).toBe('imported');
+      expect(auditLogService.record).toHaveBeenCalledOnce();
+      expect(buildPatientImportReport(validatedRows().headers, result)).toContain('A patient with this name and phone number already exists');
+    });
+
+    it('marks the rows of a failed batch and carries on with the next', async () => {
+      const data = Array.from({ length: 250 }, (_, i) => [`Patient ${i}`, String(9000000000 + i)]);
+      const rows = validatePatientImportRows(data, guessPatientImportMapping(['name', 'phone']));
+      firebaseService.addPatients.mockRejectedValueOnce(new Error('batch failed'));
+      const progress = vi.fn();
+
+      const result = await makeService().importPatients(rows, progress);
+
+      expect(firebaseService.addPatients).toHaveBeenCalledTimes(2);
+      expect(result.filter(r => r.status === 'failed')).toHaveLength(200);
+      expect(result.filter(r => r.status === 'imported')).toHaveLength(50);
+      expect(progress).toHaveBeenLastCalledWith(250, 250);
+    });
+
+    it('throws when the user is not signed in', async () => {
+      await expect(makeService(null).importPatients(validatedRows().rows)).rejects.toThrow('User not authenticated');
+      expect(firebaseService.addPatients).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Injectable } from '@angular/core';
+import { FirebaseService } from './firebase';
+import { PatientService } from './patient';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { AuditLogService } from './auditLogService';
+import { PatientImportRow } from '../utilities/patientImportUtils';
+
+/** Phone lookups run a few at a time so a large file does not flood Firestore */
+const DUPLICATE_CHECK_CONCURRENCY = 5;
+
+/** Rows per write batch — small enough for steady progress, under the Firestore limit */
+const IMPORT_BATCH_SIZE = 200;
+
+export type ImportProgress = (done: number, total: number) => void;
+
+/**
+ * Bulk CSV patient import: checks validated rows against saved patients and
+ * writes the accepted ones in batches. Parsing and validation live in patientImportUtils.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PatientImportService {
+
+  constructor(
+    private firebaseService: FirebaseService,
+    private patientService: PatientService,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /**
+   * Mark ready rows whose phone number already belongs to a patient as duplicates
+   * (the same findPatientByPhone check Add Patient makes). Other rows are returned unchanged.
+   */
+  async checkDuplicates(rows: PatientImportRow[], onProgress?: ImportProgress): Promise<PatientImportRow[]> {
+    const result = [...rows];
+    const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => row.status === 'ready');
+    let done = 0;
+    onProgress?.(0, pending.length);
+
+    try {
+      for (let start = 0; start < pending.length; start += DUPLICATE_CHECK_CONCURRENCY) {
+        await Promise.all(pending.slice(start, start + DUPLICATE_CHECK_CONCURRENCY).map(async ({ row, index }) => {
+          const existing = await this.patientService.findPatientByPhone(row.patient!.phone);
+          if (existing) {
+            const label = existing.mrn ? `${existing.name} (${existing.mrn})` : existing.name;
+            result[index] = { ...row, status: 'duplicate', errors: [`Phone number already registered to ${label}`] };
+          }
+          onProgress?.(++done, pending.length);
+        }));
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Error checking import rows for duplicates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a patient for every ready row, in batches. A batch that fails marks
+   * its rows 'failed' and the import carries on; the others become 'imported',
+   * or 'duplicate' when that patient's record already exists.
+   */
+  async importPatients(rows: PatientImportRow[], onProgress?: ImportProgress): Promise<PatientImportRow[]> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId() || undefined;
+    const result = [...rows];
+    const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => row.status === 'ready');
+    let done = 0;
+    onProgress?.(0, pending.length);
+
+    for (let start = 0; start < pending.length; start += IMPORT_BATCH_SIZE) {
+      const chunk = pending.slice(start, start + IMPORT_BATCH_SIZE);
+      const patients = chunk.map(({ row }) => ({
+        ...row.patient!,
+        familyId: this.firebaseService.generateFamilyId(row.patient!.name, row.patient!.phone),
+        userId,
+        clinicId
+      }));
+
+      try {
+        const ids = await this.firebaseService.addPatients(patients, userId, clinicId);
+        chunk.forEach(({ row, index }, i) => {
+          // Registered since the duplicate check ran, or a patient in the recycle bin
+          result[index] = ids[i]
+            ? { ...row, status: 'imported', errors: [] }
+            : { ...row, status: 'duplicate', errors: ['A patient with this name and phone number already exists'] };
+        });
+        await Promise.all(ids.map((id, i) => id && this.auditLogService.record({
+          action: 'create',
+          entityType: 'patient',
+          entityId: id,
+          patientId: id,
+          patientName: patients[i].name,
+          summary: 'Imported from CSV',
+          clinicId
+        })));
+      } catch (error) {
+        console.error(`❌ Error importing rows ${chunk[0].row.line}–${chunk[chunk.length - 1].row.line}:`, error);
+        chunk.forEach(({ row, index }) => {
+          result[index] = { ...row, status: 'failed', errors: ['Could not be saved — import this row again'] };
+        });
+      }
+      done += chunk.length;
+      onProgress?.(done, pending.length);
+    }
+
+    const imported = result.filter(r => r.status === 'imported').length;
+    console.log(`✓ Patient import: ${imported} imported, ${pending.length - imported} not imported`);
+    return result;
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockRef,
+  mockUploadBytes,
+  mockGetDownloadURL,
+  mockDeleteObject,
+  mockListAll,
+} = vi.hoisted(() => ({
+  mockRef: vi.fn(),
+  mockUploadBytes: vi.fn().mockResolvedValue(undefined),
+  mockGetDownloadURL: vi.fn(),
+  mockDeleteObject: vi.fn(),
+  mockListAll: vi.fn(),
+}));
+
+// ─── Mock @angular/fire/storage ───────────────────────────────────────────────
+vi.mock('@angular/fire/storage', () => ({
+  Storage: class { },
+  ref: (...args: any[]) => mockRef(...args),
+  uploadBytes: (...args: any[]) => mockUploadBytes(...args),
+  getDownloadURL: (...args: any[]) => mockGetDownloadURL(...args),
+  deleteObject: (...args: any[]) => mockDeleteObject(...args),
+  listAll: (...args: any[]) => mockListAll(...args),
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { PatientPhotoService } = await import('./patientPhotoService');
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const firebaseService = { getPatientById: vi.fn() };
+const patientService = { updatePatient: vi.fn().mockResolvedValue(undefined) };
+
+function makeService() {
+  return new PatientPhotoService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1' } as any,
+    { getSelectedClinicId: () => 'clinic-1' } as any,
+    firebaseService as any,
+    patientService as any
+  );
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('PatientPhotoService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    mockRef.mockImplementation((_storage: any, path: string) => ({ path }));
+    mockGetDownloadURL.mockImplementation(async (r: { path: string }) => `https://files/${r.path}`);
+    mockDeleteObject.mockResolvedValue(undefined);
+  });
+
+  it('uploads the photo as a JPEG and points the patient at it', async () => {
+    const url = await makeService().setPhoto({ uniqueId: 'pat-1' }, new Blob(['jpeg']));
+
+    const [fileRef, , metadata] = mockUploadBytes.mock.calls[0];
+    expect(fileRef.path).toMatch(/^patients\/pat-1\/photo\/\d+\.jpg$/);
+    expect(metadata).toEqual({ contentType: 'image/jpeg' });
+    expect(url).toBe(`https://files/${fileRef.path}`);
+    expect(patientService.updatePatient).toHaveBeenCalledWith('pat-1', { photoUrl: url, photoPath: fileRef.path });
+    expect(mockDeleteObject).not.toHaveBeenCalled();
+  });
+
+  it('replaces the previous photo even when its file cannot be removed', async () => {
+    mockDeleteObject.mockRejectedValueOnce(Object.assign(new Error('denied'), { code: 'storage/unauthorized' }));
+
+    await expect(makeService().setPhoto({ uniqueId: 'pat-1', photoPath: 'patients/pat-1/photo/1.jpg' }, new Blob(['jpeg'])))
+      .resolves.toContain('https://files/');
+    expect(mockDeleteObject).toHaveBeenCalledWith({ path: 'patients/pat-1/photo/1.jpg' });
+    expect(patientService.updatePatient).toHaveBeenCalledOnce();
+  });
+
+  it('does not touch the patient when the upload fails', async () => {
+    mockUploadBytes.mockRejectedValueOnce(new Error('offline'));
+    await expect(makeService().setPhoto({ uniqueId: 'pat-1' }, new Blob(['jpeg']))).rejects.toThrow('offline');
+    expect(patientService.updatePatient).not.toHaveBeenCalled();
+  });
+
+  it('clears the photo fields and removes the file', async () => {
+    await makeService().removePhoto({ uniqueId: 'pat-1', photoPath: 'patients/pat-1/photo/1.jpg' });
+    expect(patientService.updatePatient).toHaveBeenCalledWith('pat-1', { photoUrl: '', photoPath: '' });
+    expect(mockDeleteObject).toHaveBeenCalledWith({ path: 'patients/pat-1/photo/1.jpg' });
+  });
+
+  it('looks a patient\'s photo up once and reuses it', async () => {
+    firebaseService.getPatientById.mockResolvedValue({ uniqueId: 'pat-1', photoUrl: 'https://files/a.jpg' });
+    const service = makeService();
+
+    expect(await service.getPhotoUrl('pat-1')).toBe('https://files/a.jpg');
+    expect(await service.getPhotoUrl('pat-1')).toBe('https://files/a.jpg');
+    expect(firebaseService.getPatientById).toHaveBeenCalledOnce();
+    expect(firebaseService.getPatientById).toHaveBeenCalledWith('pat-1', 'user-1', 'clinic-1');
+  });
+
+  it('resolves to no photo when the patient cannot be read', async () => {
+    firebaseService.getPatientById.mockRejectedValue(new Error('offline'));
+    expect(await makeService().getPhotoUrl('pat-2')).toBe('');
+  });
+
+  it('deletes every stored photo of a purged patient, ignoring missing files', async () => {
+    mockListAll.mockResolvedValue({ items: [{ fullPath: 'patients/pat-1/photo/1.jpg' }, { fullPath: 'patients/pat-1/photo/2.jpg' }] });
+    mockDeleteObject.mockRejectedValueOnce({ code: 'storage/object-not-found' });
+
+    await makeService().deleteAllPhotos('pat-1');
+
+    expect(mockRef).toHaveBeenCalledWith({}, 'patients/pat-1/photo');
+    expect(mockDeleteObject).toHaveBeenCalledTimes(2);
+  });
+});
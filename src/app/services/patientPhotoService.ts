@@ -0,0 +1,108 @@
+// src/app/services/patientPhotoService.ts
+import { Injectable } from '@angular/core';
+import { Storage, ref, uploadBytes, getDownloadURL, deleteObject, listAll } from '@angular/fire/storage';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { FirebaseService } from './firebase';
+import { PatientService } from './patient';
+import { Patient } from '../models/patient.model';
+
+/**
+ * Patient photos in Storage (`patients/{id}/photo/…`), referenced from the
+ * patient record by `photoUrl` / `photoPath`. Photos arrive already cropped
+ * and compressed — see photoUtils.
+ */
+@Injectable({ providedIn: 'root' })
+export class PatientPhotoService {
+
+  // patientId → download URL ('' when the patient has no photo)
+  private urlCache = new Map<string, Promise<string>>();
+
+  constructor(
+    private storage: Storage,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService,
+    private firebaseService: FirebaseService,
+    private patientService: PatientService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /**
+   * Photo URL of a patient known only by ID, e.g. on an appointment card.
+   * Resolves to '' when there is no photo or the patient can't be read.
+   */
+  getPhotoUrl(patientId: string): Promise<string> {
+    if (!patientId) return Promise.resolve('');
+    let url = this.urlCache.get(patientId);
+    if (!url) {
+      url = this.firebaseService
+        .getPatientById(patientId, this.getCurrentUserId(), this.clinicContextService.getSelectedClinicId() || undefined)
+        .then(patient => patient?.photoUrl || '')
+        .catch(() => '');
+      this.urlCache.set(patientId, url);
+    }
+    return url;
+  }
+
+  /** Upload a new photo and point the patient at it; the previous file is removed. */
+  async setPhoto(patient: Pick<Patient, 'uniqueId' | 'photoPath'>, photo: Blob): Promise<string> {
+    this.getCurrentUserId();
+    const photoPath = `patients/${patient.uniqueId}/photo/${Date.now()}.jpg`;
+    try {
+      await uploadBytes(ref(this.storage, photoPath), photo, { contentType: 'image/jpeg' });
+      const photoUrl = await getDownloadURL(ref(this.storage, photoPath));
+      await this.patientService.updatePatient(patient.uniqueId, { photoUrl, photoPath });
+      this.urlCache.set(patient.uniqueId, Promise.resolve(photoUrl));
+      if (patient.photoPath) await this.deleteFileQuietly(patient.photoPath);
+      console.log('✓ Patient photo saved:', patient.uniqueId);
+      return photoUrl;
+    } catch (error) {
+      console.error('✗ Error saving patient photo:', error);
+      throw error;
+    }
+  }
+
+  async removePhoto(patient: Pick<Patient, 'uniqueId' | 'photoPath'>): Promise<void> {
+    try {
+      await this.patientService.updatePatient(patient.uniqueId, { photoUrl: '', photoPath: '' });
+      this.urlCache.set(patient.uniqueId, Promise.resolve(''));
+      if (patient.photoPath) await this.deleteFileQuietly(patient.photoPath);
+      console.log('✓ Patient photo removed:', patient.uniqueId);
+    } catch (error) {
+      console.error('✗ Error removing patient photo:', error);
+      throw error;
+    }
+  }
+
+  /** Remove every stored photo of a patient, e.g. when the record is purged */
+  async deleteAllPhotos(patientId: string): Promise<void> {
+    const folder = await listAll(ref(this.storage, `patients/${patientId}/photo`));
+    for (const item of folder.items) {
+      await this.deleteFile(item.fullPath);
+    }
+    this.urlCache.delete(patientId);
+  }
+
+  /** The record no longer points at the file, so a failed delete only leaves an orphan */
+  private async deleteFileQuietly(path: string): Promise<void> {
+    try {
+      await this.deleteFile(path);
+    } catch (error) {
+      console.warn('Old patient photo not removed:', path, error);
+    }
+  }
+
+  private async deleteFile(path: string): Promise<void> {
+    try {
+      await deleteObject(ref(this.storage, path));
+    } catch (error: any) {
+      // Already gone — nothing to clean up
+      if (error?.code !== 'storage/object-not-found') throw error;
+    }
+  }
+}
@@ -34,7 +34,8 @@ describe('PatientSearchService', () => {
             searchPatientByPhone: vi.fn(),
             searchPatientByFamilyId: vi.fn(),
             searchPatientByName: vi.fn(),
-            searchPatientsContaining: vi.fn().mockResolvedValue({ results: [], lastDoc: null, hasMore: false })
+            searchPatientsContaining: vi.fn().mockResolvedValue({ results: [], lastDoc: null, hasMore: false }),
+            searchPatientByMrn: vi.fn().mockResolvedValue({ results: [], lastDoc: null, hasMore: false })
         };
 
         const clinicContextService = {
@@ -173,6 +174,42 @@ describe('PatientSearchService', () => {
         });
     });
 
+    describe('MRN Search', () => {
+        const mrnPatient: Patient = { ...mockPatient, uniqueId: 'pat-789', mrn: 'MR-000042', createdAt: new Date('2023-01-01') };
+
+        it('should look up the MRN however it is typed', async () => {
+            firebaseService.searchPatientByFamilyId.mockResolvedValue({ results: [], lastDoc: null, hasMore: false });
+            firebaseService.searchPatientByName.mockResolvedValue({ results: [], lastDoc: null, hasMore: false });
+
+            await service.search('mr 42', 'user-001');
+
+            expect(firebaseService.searchPatientByMrn).toHaveBeenCalledWith('MR-000042', 'user-001', undefined);
+        });
+
+        it('should put the exact MRN match above other results', async () => {
+            firebaseService.searchPatientByPhone.mockResolvedValue({ results: [mockPatient2], lastDoc: null, hasMore: false });
+            firebaseService.searchPatientByMrn.mockResolvedValue({ results: [mrnPatient], lastDoc: null, hasMore: false });
+
+            let emittedResults: Patient[] = [];
+            service.searchResults$.subscribe(results => {
+                emittedResults = results;
+            });
+
+            await service.search('42', 'user-001');
+
+            expect(emittedResults.map(p => p.uniqueId)).toEqual(['pat-789', 'pat-456']);
+        });
+
+        it('should not look up an MRN for a plain name', async () => {
+            firebaseService.searchPatientByFamilyId.mockResolvedValue({ results: [], lastDoc: null, hasMore: false });
+            firebaseService.searchPatientByName.mockResolvedValue({ results: [], lastDoc: null, hasMore: false });
+
+            await service.search('john', 'user-001');
+
+            expect(firebaseService.searchPatientByMrn).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Clear Search', () => {
         it('should clear search results', async () => {
             firebaseService.searchPatientByPhone.mockResolvedValue({
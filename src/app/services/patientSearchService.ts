@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { FirebaseService } from './firebase';
+import { FirebaseService, PagedResult } from './firebase';
 import { ClinicContextService } from './clinicContextService';
 import { Patient } from '../models/patient.model';
+import { parseMrn } from '../utilities/mrnUtils';
 import { QueryDocumentSnapshot, DocumentData } from '@angular/fire/firestore';
 
 /**
@@ -59,11 +60,18 @@ export class PatientSearchService {
             let allResults: Patient[] = [];
             const clinicId = this.clinicContextService.getSelectedClinicId() || undefined;
 
+            // "MR-000042", "mr42" or just "42" may be a medical record number
+            const mrn = parseMrn(trimmedTerm);
+            const mrnSearch = mrn
+                ? this.firebaseService.searchPatientByMrn(mrn, userId, clinicId)
+                : Promise.resolve({ results: [], lastDoc: null, hasMore: false });
+
             if (this.currentIsNumeric) {
                 // Run phone prefix search AND contains search in parallel
-                const [phoneSettled, containsSettled] = await Promise.allSettled([
+                const [phoneSettled, containsSettled, mrnSettled] = await Promise.allSettled([
                     this.firebaseService.searchPatientByPhone(trimmedTerm, userId, null, clinicId),
-                    this.firebaseService.searchPatientsContaining(trimmedTerm, userId, clinicId)
+                    this.firebaseService.searchPatientsContaining(trimmedTerm, userId, clinicId),
+                    mrnSearch
                 ]);
 
                 const phoneResult = phoneSettled.status === 'fulfilled' ? phoneSettled.value : { results: [], lastDoc: null, hasMore: false };
@@ -73,12 +81,14 @@ export class PatientSearchService {
                 this.paginationState.hasMore = phoneResult.hasMore;
 
                 allResults = this.mergeAndDeduplicateResults(phoneResult.results, containsResult.results);
+                allResults = this.withMrnMatchesFirst(mrnSettled, allResults);
             } else {
                 // Run family, name prefix searches AND contains search in parallel
-                const [familySettled, nameSettled, containsSettled] = await Promise.allSettled([
+                const [familySettled, nameSettled, containsSettled, mrnSettled] = await Promise.allSettled([
                     this.firebaseService.searchPatientByFamilyId(trimmedTerm.toLowerCase(), userId, null, clinicId),
                     this.firebaseService.searchPatientByName(trimmedTerm, userId, null, clinicId),
-                    this.firebaseService.searchPatientsContaining(trimmedTerm, userId, clinicId)
+                    this.firebaseService.searchPatientsContaining(trimmedTerm, userId, clinicId),
+                    mrnSearch
                 ]);
 
                 const familyResult = familySettled.status === 'fulfilled' ? familySettled.value : { results: [], lastDoc: null, hasMore: false };
@@ -92,6 +102,7 @@ export class PatientSearchService {
                 // Merge and deduplicate results from all sources
                 const prefixResults = this.mergeAndDeduplicateResults(familyResult.results, nameResult.results);
                 allResults = this.mergeAndDeduplicateResults(prefixResults, containsResult.results);
+                allResults = this.withMrnMatchesFirst(mrnSettled, allResults);
             }
 
             this.updateResults(allResults);
@@ -216,6 +227,16 @@ export class PatientSearchService {
         return this.sortByDate(merged);
     }
 
+    /**
+     * Private: An exact MRN match is the patient being looked for — put it on top
+     */
+    private withMrnMatchesFirst(mrnSettled: PromiseSettledResult<PagedResult>, results: Patient[]): Patient[] {
+        const matches = mrnSettled.status === 'fulfilled' ? mrnSettled.value.results : [];
+        if (!matches.length) return results;
+        const matchIds = new Set(matches.map(p => p.uniqueId));
+        return [...matches, ...results.filter(p => !matchIds.has(p.uniqueId))];
+    }
+
     /**
      * Private: Update cached results and emit
      */
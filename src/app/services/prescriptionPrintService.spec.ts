@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PrescriptionPrintService } from './prescriptionPrintService';
+import doctorsData from '../data/doctors.json';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function makeService(email = ''): PrescriptionPrintService {
+  return new PrescriptionPrintService({ currentUserValue: email ? { email } : null } as any);
+}
+
+function makeWindow(): Window {
+  const doc = document.implementation.createHTMLDocument('');
+  return { document: doc, focus: vi.fn(), print: vi.fn() } as any;
+}
+
+const patient = {
+  uniqueId: 'doe_john_1234567890_user1',
+  name: 'John <Doe>',
+  phone: '1234567890',
+  gender: 'Male',
+  dateOfBirth: new Date('1990-06-15'),
+};
+
+const visit = {
+  chiefComplaints: 'Fever',
+  diagnosis: 'Viral fever',
+  examination: '',
+  treatmentPlan: 'Rest',
+  advice: 'Plenty of fluids',
+  medicines: [{ name: 'Paracetamol', dosage: '500mg', frequency: 'TDS', duration: '3 days' }],
+  followUpDate: new Date('2025-01-20T00:00:00'),
+  createdAt: new Date('2025-01-15T10:00:00'),
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('PrescriptionPrintService', () => {
+  const doctor = doctorsData[0];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resolveDoctor', () => {
+    it('uses the doctor who recorded the visit', () => {
+      const service = makeService('someone@else.com');
+      expect(service.resolveDoctor(doctor.email.toUpperCase())).toEqual({
+        name: doctor.name, specialty: doctor.specialty,
+      });
+    });
+
+    it('falls back to the signed-in user', () => {
+      const service = makeService(doctor.email);
+      expect(service.resolveDoctor()).toEqual({ name: doctor.name, specialty: doctor.specialty });
+    });
+
+    it('returns null for an unknown doctor', () => {
+      expect(makeService('nobody@example.com').resolveDoctor()).toBeNull();
+    });
+  });
+
+  describe('print', () => {
+    it('writes the prescription into the target window', () => {
+      const win = makeWindow();
+      const ok = makeService(doctor.email).print(patient, visit, win);
+      const text = win.document.body.textContent || '';
+
+      expect(ok).toBe(true);
+      expect(text).toContain('John <Doe>');
+      expect(text).toContain('34 yrs');
+      expect(text).toContain(doctor.name);
+      expect(text).toContain('Paracetamol');
+      expect(text).toContain('Plenty of fluids');
+      expect(text).toContain('20 Jan 2025');
+      expect(win.document.querySelector('script')).toBeNull();
+    });
+
+    it('switches the sheet size from the preview toolbar', () => {
+      const win = makeWindow();
+      makeService().print(patient, visit, win);
+
+      (win.document.querySelector('button[data-size="A4"]') as HTMLButtonElement).click();
+      expect(win.document.documentElement.getAttribute('data-size')).toBe('A4');
+      expect(win.document.getElementById('rx-page-size')?.textContent).toContain('size: A4');
+
+      (win.document.querySelector('.rx-print') as HTMLButtonElement).click();
+      expect(win.print).toHaveBeenCalledOnce();
+    });
+
+    it('returns false when the browser blocks the tab', () => {
+      const service = makeService();
+      vi.spyOn(service, 'openWindow').mockReturnValue(null);
+      vi.spyOn(console, 'error').mockImplementation(() => { });
+      expect(service.print(patient, visit)).toBe(false);
+    });
+  });
+});
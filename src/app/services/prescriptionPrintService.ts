@@ -0,0 +1,93 @@
+import { Injectable } from '@angular/core';
+import { AuthenticationService } from './authenticationService';
+import { Visit } from '../models/patient.model';
+import { DEFAULT_SYSTEM_SETTINGS, PaperSize } from '../config/systemSettings';
+import { normalizeEmail } from '../utilities/normalize-email';
+import {
+  PrescriptionDoctor,
+  PrescriptionDocumentData,
+  buildPrescriptionHtml,
+  pageSizeCss
+} from '../utilities/prescriptionDocument';
+import doctorsData from '../data/doctors.json';
+
+/**
+ * Renders a visit as a printable prescription in a new browser tab.
+ * The preview offers A4/A5 sheets; "Save as PDF" comes from the browser's print dialog,
+ * so no backend is involved.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PrescriptionPrintService {
+
+  constructor(private authService: AuthenticationService) { }
+
+  /**
+   * Open an empty tab for the preview.
+   * Call this synchronously inside the click handler (before any await),
+   * otherwise popup blockers reject it.
+   */
+  openWindow(): Window | null {
+    return window.open('', '_blank');
+  }
+
+  /**
+   * Doctor shown on the letterhead: the one who recorded the visit,
+   * falling back to the signed-in user
+   */
+  resolveDoctor(doctorEmail?: string): PrescriptionDoctor | null {
+    const email = normalizeEmail(doctorEmail || this.authService.currentUserValue?.email || '');
+    if (!email) return null;
+    const match = (doctorsData as Array<{ name: string; specialty: string; email: string }>)
+      .find(d => normalizeEmail(d.email) === email);
+    return match ? { name: match.name, specialty: match.specialty } : null;
+  }
+
+  /**
+   * Write the prescription into `target` (or a new tab) and wire up the preview toolbar.
+   * Returns false when the browser blocked the tab.
+   */
+  print(
+    patient: PrescriptionDocumentData['patient'],
+    visit: PrescriptionDocumentData['visit'] & Pick<Visit, 'doctorId'>,
+    target?: Window | null
+  ): boolean {
+    const win = target ?? this.openWindow();
+    if (!win) {
+      console.error('❌ Print preview blocked by the browser');
+      return false;
+    }
+
+    const letterhead = DEFAULT_SYSTEM_SETTINGS.letterhead;
+    const html = buildPrescriptionHtml({
+      letterhead,
+      doctor: this.resolveDoctor(visit.doctorId),
+      patient,
+      visit,
+      paperSize: letterhead.paperSize
+    });
+
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    this.wireToolbar(win);
+    win.focus();
+    return true;
+  }
+
+  private wireToolbar(win: Window): void {
+    const doc = win.document;
+    const sizeButtons = Array.from(doc.querySelectorAll<HTMLButtonElement>('button[data-size]'));
+
+    sizeButtons.forEach(btn => btn.addEventListener('click', () => {
+      const size = btn.dataset['size'] as PaperSize;
+      doc.documentElement.setAttribute('data-size', size);
+      const pageStyle = doc.getElementById('rx-page-size');
+      if (pageStyle) pageStyle.textContent = pageSizeCss(size);
+      sizeButtons.forEach(b => b.classList.toggle('active', b === btn));
+    }));
+
+    doc.querySelector('.rx-print')?.addEventListener('click', () => win.print());
+  }
+}
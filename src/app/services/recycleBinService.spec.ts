@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDoc,
+  mockGetDocs,
+  mockSetDoc,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  mockWriteBatch,
+  mockRef,
+  mockDeleteObject,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDoc: vi.fn(),
+    mockGetDocs: vi.fn(),
+    mockSetDoc: vi.fn().mockResolvedValue(undefined),
+    mockDeleteDoc: vi.fn(),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    mockWriteBatch: vi.fn(),
+    mockRef: vi.fn(),
+    mockDeleteObject: vi.fn(),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDoc: (...args: any[]) => mockGetDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  setDoc: (...args: any[]) => mockSetDoc(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  writeBatch: (...args: any[]) => mockWriteBatch(...args),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Mock @angular/fire/storage ───────────────────────────────────────────────
+vi.mock('@angular/fire/storage', () => ({
+  Storage: class { },
+  ref: (...args: any[]) => mockRef(...args),
+  deleteObject: (...args: any[]) => mockDeleteObject(...args),
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// services against the real SDK, so load them afresh for the mocks above to apply
+vi.resetModules();
+const { RecycleBinService } = await import('./recycleBinService');
+const { FirebaseService } = await import('./firebase');
+const { AttachmentService } = await import('./attachmentService');
+import { RecycleBinItem } from '../models/recycleBin.model';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const firebaseService = {
+  isStillDeleted: vi.fn().mockResolvedValue(true),
+  restoreDeleted: vi.fn().mockResolvedValue(undefined),
+  purgeDeleted: vi.fn().mockResolvedValue(undefined),
+};
+const auditLogService = { record: vi.fn().mockResolvedValue(undefined) };
+const attachmentService = {
+  listAttachmentsForPurge: vi.fn(),
+  deleteAttachment: vi.fn().mockResolvedValue(undefined),
+};
+const patientPhotoService = { deleteAllPhotos: vi.fn().mockResolvedValue(undefined) };
+
+function makeService(
+  clinicId: string | null = 'clinic-1',
+  services: { firebase: object; attachments: object } = { firebase: firebaseService, attachments: attachmentService }
+) {
+  return new RecycleBinService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1' } as any,
+    { getSelectedClinicId: () => clinicId } as any,
+    services.firebase as any,
+    services.attachments as any,
+    auditLogService as any,
+    patientPhotoService as any
+  );
+}
+
+function makeItem(overrides: Partial<RecycleBinItem> = {}): RecycleBinItem {
+  return {
+    id: 'visit_pat-1_v1',
+    type: 'visit',
+    patientId: 'pat-1',
+    visitId: 'v1',
+    patientName: 'John Doe',
+    deletedBy: 'Dr Smith',
+    deletedById: 'user-1',
+    ownerId: 'user-1',
+    clinicId: 'clinic-1',
+    deletedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+/**
+ * The real FirebaseService and AttachmentService over an in-memory Firestore
+ * holding soft-deleted patient pat-1 with one attachment
+ */
+function productionServices() {
+  const store: Record<string, any> = {
+    'patients/pat-1': { uniqueId: 'pat-1', userId: 'user-1', clinicId: 'clinic-1', name: 'John Doe', deletedAt: MockTimestamp.fromDate(daysAgo(40)) },
+    'patients/pat-1/attachments/att-1': { patientId: 'pat-1', storagePath: 'patients/pat-1/attachments/att-1/scan.pdf', createdAt: MockTimestamp.fromDate(daysAgo(60)) },
+  };
+  const snapOf = (path: string) => ({ id: path.split('/').pop(), ref: { path }, exists: () => path in store, data: () => store[path] });
+  mockCollection.mockImplementation((parent: any, name: string) => ({ path: parent?.path ? `${parent.path}/${name}` : name }));
+  mockDoc.mockImplementation((parent: any, ...ids: string[]) => {
+    const path = (parent?.path ? [parent.path, ...ids] : ids).join('/');
+    return { id: ids[ids.length - 1], path };
+  });
+  mockGetDoc.mockImplementation(async (ref: any) => snapOf(ref.path));
+  mockGetDocs.mockImplementation(async (col: any) => ({
+    docs: Object.keys(store).filter(path => path.startsWith(`${col.path}/`) && !path.slice(col.path.length + 1).includes('/')).map(snapOf),
+  }));
+  mockDeleteDoc.mockImplementation(async (ref: any) => { delete store[ref.path]; });
+  const batch = { delete: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+  mockWriteBatch.mockReturnValue(batch);
+  mockRef.mockImplementation((_storage: any, path: string) => ({ path }));
+  mockDeleteObject.mockResolvedValue(undefined);
+
+  const firebase = new FirebaseService({} as any);
+  const attachments = new AttachmentService(
+    {} as any, {} as any, firebase,
+    { getCurrentUserId: () => 'user-1', currentUserValue: null } as any,
+    { getSelectedClinicId: () => 'clinic-1' } as any,
+    auditLogService as any,
+    vi.fn()
+  );
+  return { store, firebase, attachments, batch };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('RecycleBinService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    mockCollection.mockReturnValue({ id: 'recycleBin' });
+    mockDoc.mockImplementation((_db: any, _col: string, id?: string) => ({ id }));
+    attachmentService.listAttachmentsForPurge.mockResolvedValue([]);
+  });
+
+  it('lists the clinic\'s deleted records, newest first, with real dates', async () => {
+    const older = makeItem({ id: 'a', deletedAt: MockTimestamp.fromDate(daysAgo(3)) as any });
+    const newer = makeItem({ id: 'b', deletedAt: MockTimestamp.fromDate(daysAgo(1)) as any });
+    mockGetDocs.mockResolvedValueOnce({
+      docs: [older, newer].map(({ id, ...data }) => ({ id, data: () => data })),
+    });
+
+    const items = await makeService().getItems();
+
+    expect(mockWhere).toHaveBeenCalledWith('clinicId', '==', 'clinic-1');
+    expect(items.map(i => i.id)).toEqual(['b', 'a']);
+    expect(items[0].deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('falls back to the user\'s own deletions without a clinic', async () => {
+    mockGetDocs.mockResolvedValueOnce({ docs: [] });
+    await makeService(null).getItems();
+    expect(mockWhere).toHaveBeenCalledWith('ownerId', '==', 'user-1');
+  });
+
+  it('uses the default retention when none is saved', async () => {
+    mockGetDoc.mockResolvedValueOnce({ exists: () => false });
+    expect(await makeService().getRetentionDays()).toBe(30);
+  });
+
+  it('saves the retention period per clinic and rejects nonsense values', async () => {
+    const service = makeService();
+    await service.setRetentionDays(90);
+    expect(mockSetDoc).toHaveBeenCalledWith({ id: 'clinic:clinic-1' }, { retentionDays: 90 }, { merge: true });
+
+    await expect(service.setRetentionDays(0)).rejects.toThrow('between 1 and 3650');
+    await expect(service.setRetentionDays(2.5)).rejects.toThrow();
+  });
+
+  it('purges only items past the retention period', async () => {
+    const expired = makeItem({ id: 'old', deletedAt: daysAgo(31) });
+    const recent = makeItem({ id: 'new', deletedAt: daysAgo(5) });
+
+    const purged = await makeService().purgeExpired([expired, recent], 30);
+
+    expect(purged).toBe(1);
+    expect(firebaseService.purgeDeleted).toHaveBeenCalledOnce();
+    expect(firebaseService.purgeDeleted).toHaveBeenCalledWith(expired);
+  });
+
+  it('removes the Storage files of the attachments that go with a purged item', async () => {
+    const item = makeItem({ deletedAt: daysAgo(40) });
+    const attachment = { id: 'att-1', patientId: 'pat-1', visitId: 'v1' };
+    attachmentService.listAttachmentsForPurge.mockResolvedValueOnce([attachment]);
+
+    await makeService().purgeExpired([item], 30);
+
+    expect(attachmentService.listAttachmentsForPurge).toHaveBeenCalledWith(item);
+    expect(attachmentService.deleteAttachment).toHaveBeenCalledWith(attachment);
+    expect(patientPhotoService.deleteAllPhotos).not.toHaveBeenCalled();
+  });
+
+  it('purges a deleted patient with its attachments, which the live record lookup no longer finds', async () => {
+    const { store, firebase, attachments, batch } = productionServices();
+    const item = makeItem({ id: 'patient_pat-1', type: 'patient', visitId: undefined, deletedAt: daysAgo(40) });
+
+    expect(await firebase.getPatientById('pat-1', 'user-1', 'clinic-1')).toBeNull();
+    const purged = await makeService('clinic-1', { firebase, attachments }).purgeExpired([item], 30);
+
+    expect(purged).toBe(1);
+    expect(mockDeleteObject).toHaveBeenCalledWith({ path: 'patients/pat-1/attachments/att-1/scan.pdf' });
+    expect(store).not.toHaveProperty('patients/pat-1/attachments/att-1');
+    expect(batch.delete.mock.calls.map(([ref]) => ref.path)).toEqual(['patients/pat-1', 'recycleBin/patient_pat-1']);
+  });
+
+  it('keeps a patient who is live again, files and all, when the stale bin entry expires', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    const { store, firebase, attachments, batch } = productionServices();
+    delete store['patients/pat-1'].deletedAt;
+    const item = makeItem({ id: 'patient_pat-1', type: 'patient', visitId: undefined, deletedAt: daysAgo(40) });
+
+    const purged = await makeService('clinic-1', { firebase, attachments }).purgeExpired([item], 30);
+
+    expect(purged).toBe(0);
+    expect(mockDeleteObject).not.toHaveBeenCalled();
+    expect(store).toHaveProperty('patients/pat-1/attachments/att-1');
+    expect(batch.delete).not.toHaveBeenCalled();
+  });
+
+  it('removes the photos of a purged patient', async () => {
+    await makeService().purgeExpired([makeItem({ type: 'patient', visitId: undefined, deletedAt: daysAgo(40) })], 30);
+    expect(patientPhotoService.deleteAllPhotos).toHaveBeenCalledWith('pat-1');
+  });
+
+  it('leaves an item for the next run when its purge fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    firebaseService.purgeDeleted.mockRejectedValueOnce(new Error('offline'));
+
+    const purged = await makeService().purgeExpired([makeItem({ deletedAt: daysAgo(40) })], 30);
+    expect(purged).toBe(0);
+  });
+
+  it('restores through FirebaseService within the current scope', async () => {
+    const item = makeItem();
+    await makeService().restore(item);
+    expect(firebaseService.restoreDeleted).toHaveBeenCalledWith(item, 'user-1', 'clinic-1');
+    expect(auditLogService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'restore', entityType: 'visit', entityId: 'v1', patientId: 'pat-1'
+    }));
+  });
+});
@@ -0,0 +1,166 @@
+// src/app/services/recycleBinService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { FirebaseService } from './firebase';
+import { AttachmentService } from './attachmentService';
+import { PatientPhotoService } from './patientPhotoService';
+import { AuditLogService } from './auditLogService';
+import { DEFAULT_RETENTION_DAYS, RecycleBinItem } from '../models/recycleBin.model';
+import { AuditEvent } from '../models/auditLog.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted patients and visits of the clinic (or the user's own, without a
+ * clinic). Items can be restored until the retention period runs out; after
+ * that purgeExpired removes them for good.
+ */
+@Injectable({ providedIn: 'root' })
+export class RecycleBinService {
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService,
+    private firebaseService: FirebaseService,
+    private attachmentService: AttachmentService,
+    private auditLogService: AuditLogService,
+    private patientPhotoService: PatientPhotoService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Clinic bin when a clinic is selected, otherwise the user's own deletions */
+  private getScope(): { clinicId: string | null; userId: string; key: string } {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    return { clinicId, userId, key: clinicId ? `clinic:${clinicId}` : `user:${userId}` };
+  }
+
+  /** Everything in the bin, most recently deleted first */
+  async getItems(): Promise<RecycleBinItem[]> {
+    const scope = this.getScope();
+    try {
+      const q = query(collection(this.db, 'recycleBin'),
+        scope.clinicId ? where('clinicId', '==', scope.clinicId) : where('ownerId', '==', scope.userId));
+      const snap = await getDocs(q);
+      return snap.docs
+        .map(d => {
+          const data = d.data() as any;
+          return {
+            ...data,
+            id: d.id,
+            deletedAt: data.deletedAt?.toDate?.() ?? new Date(data.deletedAt),
+          } as RecycleBinItem;
+        })
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+    } catch (error) {
+      console.error('✗ Error fetching recycle bin:', error);
+      throw error;
+    }
+  }
+
+  async getRetentionDays(): Promise<number> {
+    const scope = this.getScope();
+    try {
+      const snap = await getDoc(doc(this.db, 'recycleBinSettings', scope.key));
+      const days = snap.exists() ? Number(snap.data()['retentionDays']) : NaN;
+      return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+    } catch (error) {
+      // Settings might be blocked by Firestore rules; keep the default
+      console.warn('Recycle bin settings unavailable:', error);
+      return DEFAULT_RETENTION_DAYS;
+    }
+  }
+
+  async setRetentionDays(days: number): Promise<void> {
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      throw new Error('Retention must be a whole number of days between 1 and 3650');
+    }
+    const scope = this.getScope();
+    try {
+      await setDoc(doc(this.db, 'recycleBinSettings', scope.key), { retentionDays: days }, { merge: true });
+      console.log('✓ Recycle bin retention set to', days, 'days');
+    } catch (error) {
+      console.error('✗ Error saving recycle bin settings:', error);
+      throw error;
+    }
+  }
+
+  /** When the item will be purged */
+  purgeDate(item: RecycleBinItem, retentionDays: number): Date {
+    return new Date(item.deletedAt.getTime() + retentionDays * DAY_MS);
+  }
+
+  async restore(item: RecycleBinItem): Promise<void> {
+    const scope = this.getScope();
+    try {
+      await this.firebaseService.restoreDeleted(item, scope.userId, scope.clinicId || undefined);
+      console.log('✓ Restored from recycle bin:', item.id);
+      await this.auditLogService.record(this.auditEvent('restore', item));
+    } catch (error) {
+      console.error('✗ Error restoring from recycle bin:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete every item past the retention period. Returns how many were purged;
+   * items that fail are left for the next run.
+   */
+  async purgeExpired(items: RecycleBinItem[], retentionDays: number): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const item of items) {
+      if (this.purgeDate(item, retentionDays).getTime() > now) continue;
+      try {
+        await this.purge(item);
+        purged++;
+      } catch (error) {
+        console.error('✗ Error purging recycle bin item:', item.id, error);
+      }
+    }
+    if (purged) console.log(`✓ Recycle bin: ${purged} expired item(s) purged`);
+    return purged;
+  }
+
+  private async purge(item: RecycleBinItem): Promise<void> {
+    // A record restored since it was deleted keeps its files
+    if (!(await this.firebaseService.isStillDeleted(item))) throw new Error('The record is no longer in the recycle bin');
+    // Storage files first — the attachment records are what point at them
+    const attachments = await this.attachmentService.listAttachmentsForPurge(item);
+    for (const attachment of attachments) {
+      await this.attachmentService.deleteAttachment(attachment);
+    }
+    if (item.type === 'patient') await this.patientPhotoService.deleteAllPhotos(item.patientId);
+    await this.firebaseService.purgeDeleted(item);
+    await this.auditLogService.record(this.auditEvent('purge', item));
+  }
+
+  private auditEvent(action: 'restore' | 'purge', item: RecycleBinItem): AuditEvent {
+    return {
+      action,
+      entityType: item.type,
+      entityId: item.type === 'visit' && item.visitId ? item.visitId : item.patientId,
+      patientId: item.patientId,
+      patientName: item.patientName,
+      summary: item.summary,
+      clinicId: item.clinicId
+    };
+  }
+}
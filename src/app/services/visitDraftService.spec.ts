@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockGetDoc,
+  mockGetDocs,
+  mockSetDoc,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockGetDoc: vi.fn(),
+    mockGetDocs: vi.fn(),
+    mockSetDoc: vi.fn().mockResolvedValue(undefined),
+    mockDeleteDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  getDoc: (...args: any[]) => mockGetDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  setDoc: (...args: any[]) => mockSetDoc(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { VisitDraftService } = await import('./visitDraftService');
+import { VisitDraftFields } from '../models/visitDraft.model';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const PATIENT = { uniqueId: 'patient-1', name: 'Jane Doe' };
+
+function makeService(clinicId: string | null = 'clinic-1') {
+  return new VisitDraftService(
+    {} as any,
+    { getCurrentUserId: () => 'user-1' } as any,
+    { getSelectedClinicId: () => clinicId } as any
+  );
+}
+
+function fields(extra: Partial<VisitDraftFields> = {}): VisitDraftFields {
+  return {
+    chiefComplaints: 'Fever for 3 days',
+    presentIllness: [],
+    allergies: [],
+    ailments: [],
+    diagnosis: '',
+    diagnosisCodes: [],
+    examinations: [],
+    labTestOrders: [],
+    treatmentPlan: '',
+    advice: '',
+    followUpDate: '',
+    bookFollowUp: true,
+    medicines: [],
+    allergyOverrides: [],
+    ...extra,
+  };
+}
+
+function remoteSnapshot(data: Record<string, any> | null) {
+  return { id: 'user-1_patient-1', exists: () => !!data, data: () => data };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('VisitDraftService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    localStorage.clear();
+    mockDoc.mockImplementation((_db: any, _col: string, id: string) => ({ id }));
+  });
+
+  it('saves one draft per doctor and patient, locally and to Firestore', async () => {
+    await makeService().saveDraft(PATIENT, fields({ vitals: { pulse: 88 } }));
+
+    const [ref, payload] = mockSetDoc.mock.calls[0];
+    expect(ref).toEqual({ id: 'user-1_patient-1' });
+    expect(payload).toMatchObject({
+      patientId: 'patient-1',
+      patientName: 'Jane Doe',
+      userId: 'user-1',
+      clinicId: 'clinic-1',
+      fields: { chiefComplaints: 'Fever for 3 days', vitals: { pulse: 88 } },
+    });
+    expect(payload.id).toBeUndefined();
+    expect(payload.deviceId).toBeTruthy();
+    expect(payload.updatedAt).toBeInstanceOf(MockTimestamp);
+    expect(localStorage.getItem('intellirx.visitDraft.user-1_patient-1')).toContain('Fever for 3 days');
+  });
+
+  it('resumes the newer of the local and synced copies', async () => {
+    const service = makeService();
+    service.saveLocalDraft(PATIENT, fields({ chiefComplaints: 'typed before reload' }));
+
+    mockGetDoc.mockResolvedValue(remoteSnapshot({
+      patientId: 'patient-1', userId: 'user-1', deviceId: 'tablet',
+      fields: fields({ chiefComplaints: 'older synced copy' }),
+      updatedAt: MockTimestamp.fromDate(new Date('2020-01-01')),
+    }));
+    expect((await service.getDraft('patient-1'))?.fields.chiefComplaints).toBe('typed before reload');
+
+    mockGetDoc.mockResolvedValue(remoteSnapshot({
+      patientId: 'patient-1', userId: 'user-1', deviceId: 'tablet',
+      fields: fields({ chiefComplaints: 'continued on the tablet' }),
+      updatedAt: MockTimestamp.fromDate(new Date(Date.now() + 60_000)),
+    }));
+    const draft = await service.getDraft('patient-1');
+    expect(draft?.fields.chiefComplaints).toBe('continued on the tablet');
+    expect(service.isFromThisDevice(draft!)).toBe(false);
+  });
+
+  it('still offers the local copy when Firestore is unreachable', async () => {
+    const service = makeService();
+    service.saveLocalDraft(PATIENT, fields());
+    mockGetDoc.mockRejectedValue(new Error('offline'));
+
+    const draft = await service.getDraft('patient-1');
+
+    expect(draft?.fields.chiefComplaints).toBe('Fever for 3 days');
+    expect(draft?.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('lists the doctor\'s drafts for the selected clinic, newest first, and deletes both copies', async () => {
+    const service = makeService();
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        { id: 'a', data: () => ({ patientName: 'A', clinicId: 'clinic-1', fields: fields(), updatedAt: MockTimestamp.fromDate(new Date('2025-03-01')) }) },
+        { id: 'b', data: () => ({ patientName: 'B', clinicId: 'clinic-2', fields: fields(), updatedAt: MockTimestamp.fromDate(new Date('2025-03-03')) }) },
+        { id: 'c', data: () => ({ patientName: 'C', fields: fields(), updatedAt: MockTimestamp.fromDate(new Date('2025-03-02')) }) },
+      ],
+    });
+
+    const drafts = await service.getDrafts();
+    expect(mockWhere).toHaveBeenCalledWith('userId', '==', 'user-1');
+    expect(drafts.map(d => d.id)).toEqual(['c', 'a']);
+
+    service.saveLocalDraft(PATIENT, fields());
+    await service.deleteDraft('patient-1');
+    expect(localStorage.getItem('intellirx.visitDraft.user-1_patient-1')).toBeNull();
+    expect(mockDeleteDoc).toHaveBeenCalledWith({ id: 'user-1_patient-1' });
+  });
+});
@@ -0,0 +1,180 @@
+// src/app/services/visitDraftService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { VisitDraft, VisitDraftFields } from '../models/visitDraft.model';
+import { cleanVisitDraftFields, visitDraftId } from '../utilities/visitDraftUtils';
+
+const LS_DEVICE_ID = 'intellirx.deviceId';
+const LS_DRAFT_PREFIX = 'intellirx.visitDraft.';
+
+/**
+ * Autosaved Add Visit drafts. Each save goes to localStorage first — so a reload
+ * never loses what was typed — and then to Firestore, where other devices see it.
+ * Not cached: a draft changes on every pause in typing.
+ */
+@Injectable({ providedIn: 'root' })
+export class VisitDraftService {
+
+  private deviceId: string | null = null;
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Random id kept in localStorage that tells this browser's drafts apart */
+  getDeviceId(): string {
+    if (this.deviceId) return this.deviceId;
+    let id: string | null = null;
+    try {
+      id = localStorage.getItem(LS_DEVICE_ID);
+      if (!id) {
+        id = Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+        localStorage.setItem(LS_DEVICE_ID, id);
+      }
+    } catch {
+      id = id || 'unknown-device';
+    }
+    this.deviceId = id;
+    return id;
+  }
+
+  isFromThisDevice(draft: VisitDraft): boolean {
+    return draft.deviceId === this.getDeviceId();
+  }
+
+  /** The doctor's draft for a patient — whichever of the local and synced copies is newer */
+  async getDraft(patientId: string): Promise<VisitDraft | null> {
+    const userId = this.getCurrentUserId();
+    const local = this.readLocalDraft(userId, patientId);
+    let remote: VisitDraft | null = null;
+    try {
+      const snap = await getDoc(doc(this.db, 'visitDrafts', visitDraftId(userId, patientId)));
+      if (snap.exists()) remote = this.toDraft(snap.id, snap.data());
+    } catch (error) {
+      // Offline — the local copy is still worth offering
+      console.error('✗ Error fetching visit draft:', error);
+    }
+    if (local && remote) return local.updatedAt.getTime() >= remote.updatedAt.getTime() ? local : remote;
+    return local ?? remote;
+  }
+
+  /** The doctor's unfinished visits in the selected clinic, most recent first */
+  async getDrafts(): Promise<VisitDraft[]> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    try {
+      const snap = await getDocs(query(collection(this.db, 'visitDrafts'), where('userId', '==', userId)));
+      return snap.docs
+        .map(d => this.toDraft(d.id, d.data()))
+        .filter(d => !clinicId || !d.clinicId || d.clinicId === clinicId)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('✗ Error fetching visit drafts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the draft to this browser only. Synchronous, so it is safe to call
+   * while the page is unloading.
+   */
+  saveLocalDraft(patient: { uniqueId: string; name: string }, fields: VisitDraftFields): VisitDraft {
+    const draft = this.buildDraft(patient, fields);
+    try {
+      localStorage.setItem(this.localKey(draft.userId, patient.uniqueId), JSON.stringify(draft));
+    } catch {
+      // Storage full or disabled — the Firestore copy still applies
+    }
+    return draft;
+  }
+
+  /** Save locally, then sync to Firestore */
+  async saveDraft(patient: { uniqueId: string; name: string }, fields: VisitDraftFields): Promise<void> {
+    const draft = this.saveLocalDraft(patient, fields);
+    try {
+      const { id, ...data } = draft;
+      await setDoc(doc(this.db, 'visitDrafts', id!), { ...data, updatedAt: Timestamp.fromDate(draft.updatedAt) });
+    } catch (error) {
+      console.error('✗ Error saving visit draft:', error);
+      throw error;
+    }
+  }
+
+  /** Drop both copies — after the visit is saved or the form is discarded */
+  async deleteDraft(patientId: string): Promise<void> {
+    const userId = this.getCurrentUserId();
+    try {
+      localStorage.removeItem(this.localKey(userId, patientId));
+    } catch {
+      // Nothing stored locally
+    }
+    try {
+      await deleteDoc(doc(this.db, 'visitDrafts', visitDraftId(userId, patientId)));
+      console.log('✓ Visit draft deleted:', patientId);
+    } catch (error) {
+      console.error('✗ Error deleting visit draft:', error);
+      throw error;
+    }
+  }
+
+  private buildDraft(patient: { uniqueId: string; name: string }, fields: VisitDraftFields): VisitDraft {
+    const userId = this.getCurrentUserId();
+    const draft: VisitDraft = {
+      id: visitDraftId(userId, patient.uniqueId),
+      patientId: patient.uniqueId,
+      patientName: patient.name,
+      fields: cleanVisitDraftFields(fields),
+      userId,
+      deviceId: this.getDeviceId(),
+      updatedAt: new Date()
+    };
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    if (clinicId) draft.clinicId = clinicId;
+    return draft;
+  }
+
+  private readLocalDraft(userId: string, patientId: string): VisitDraft | null {
+    try {
+      const raw = localStorage.getItem(this.localKey(userId, patientId));
+      if (!raw) return null;
+      const data = JSON.parse(raw);
+      return this.toDraft(data.id, data);
+    } catch {
+      return null;
+    }
+  }
+
+  private toDraft(id: string, data: any): VisitDraft {
+    return {
+      ...data,
+      id,
+      fields: cleanVisitDraftFields(data.fields ?? {}),
+      updatedAt: data.updatedAt?.toDate?.() ?? new Date(data.updatedAt),
+    } as VisitDraft;
+  }
+
+  private localKey(userId: string, patientId: string): string {
+    return `${LS_DRAFT_PREFIX}${visitDraftId(userId, patientId)}`;
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ─── vi.hoisted() — see firebase.spec.ts ──────────────────────────────────────
+const {
+  mockSetDoc,
+  mockGetDocs,
+  mockDeleteDoc,
+  mockDoc,
+  mockCollection,
+  mockQuery,
+  mockWhere,
+  MockTimestamp,
+} = vi.hoisted(() => {
+  class MockTimestamp {
+    _date: Date;
+    constructor(date: Date) { this._date = date; }
+    toDate() { return this._date; }
+    static fromDate(date: Date) { return new MockTimestamp(date); }
+  }
+  return {
+    mockSetDoc: vi.fn().mockResolvedValue(undefined),
+    mockGetDocs: vi.fn(),
+    mockDeleteDoc: vi.fn().mockResolvedValue(undefined),
+    mockDoc: vi.fn(),
+    mockCollection: vi.fn(),
+    mockQuery: vi.fn(),
+    mockWhere: vi.fn(),
+    MockTimestamp,
+  };
+});
+
+// ─── Mock @angular/fire/firestore ─────────────────────────────────────────────
+vi.mock('@angular/fire/firestore', () => ({
+  Firestore: class { },
+  collection: (...args: any[]) => mockCollection(...args),
+  doc: (...args: any[]) => mockDoc(...args),
+  setDoc: (...args: any[]) => mockSetDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  deleteDoc: (...args: any[]) => mockDeleteDoc(...args),
+  query: (...args: any[]) => mockQuery(...args),
+  where: (...args: any[]) => mockWhere(...args),
+  Timestamp: MockTimestamp,
+}));
+
+// ─── Import service AFTER mocks are registered ───────────────────────────────
+// Spec files share one module registry: another spec may already have loaded the
+// service against the real SDK, so load it afresh for the mocks above to apply
+vi.resetModules();
+const { VisitTemplateService } = await import('./visitTemplateService');
+import { VisitTemplate } from '../models/visitTemplate.model';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function makeService(clinicId: string | null = 'clinic-1') {
+  return new VisitTemplateService(
+    {} as any,
+    { getCurrentUserId: () => 'doc-1', currentUserValue: { name: 'Dr. One' } } as any,
+    { getSelectedClinicId: () => clinicId } as any
+  );
+}
+
+function snapshotOf(templates: Array<Record<string, any>>) {
+  return { docs: templates.map(({ id, ...data }) => ({ id, data: () => data })) };
+}
+
+const stamp = MockTimestamp.fromDate(new Date('2025-01-01'));
+const own = { id: 't1', name: 'Viral fever adult', shared: false, ownerId: 'doc-1', ownerName: 'Dr. One',
+  clinicId: 'clinic-1', fields: { chiefComplaints: 'Fever' }, createdAt: stamp, updatedAt: stamp };
+const colleagues = { id: 't2', name: 'Hypertension follow-up', shared: true, ownerId: 'doc-2', ownerName: 'Dr. Two',
+  clinicId: 'clinic-1', fields: { followUpDays: 30 }, createdAt: stamp, updatedAt: stamp };
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('VisitTemplateService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    mockCollection.mockReturnValue({ id: 'visitTemplates' });
+    mockDoc.mockImplementation((_col: any, id?: string) => ({ id: id ?? 'new-id' }));
+  });
+
+  it('combines own templates with ones shared in the clinic', async () => {
+    mockGetDocs
+      .mockResolvedValueOnce(snapshotOf([own]))
+      .mockResolvedValueOnce(snapshotOf([own, colleagues]));
+    const service = makeService();
+
+    const templates = await service.getTemplates();
+
+    expect(mockWhere).toHaveBeenCalledWith('ownerId', '==', 'doc-1');
+    expect(mockWhere).toHaveBeenCalledWith('shared', '==', true);
+    expect(templates.map(t => t.id)).toEqual(['t2', 't1']);
+    expect(templates[0].createdAt).toBeInstanceOf(Date);
+    expect(service.isOwner(templates[0])).toBe(false);
+  });
+
+  it('only queries own templates without a clinic', async () => {
+    mockGetDocs.mockResolvedValueOnce(snapshotOf([]));
+    await makeService(null).getTemplates();
+    expect(mockGetDocs).toHaveBeenCalledOnce();
+  });
+
+  it('saves cleaned fields and never shares outside a clinic', async () => {
+    const id = await makeService(null).saveTemplate({
+      name: ' Cold ',
+      fields: { chiefComplaints: ' Runny nose ', advice: '  ', medicines: [{ name: '', dosage: '', frequency: '' }] },
+      shared: true,
+    });
+
+    expect(id).toBe('new-id');
+    const payload = mockSetDoc.mock.calls[0][1];
+    expect(payload.name).toBe('Cold');
+    expect(payload.fields).toEqual({ chiefComplaints: 'Runny nose' });
+    expect(payload.shared).toBe(false);
+    expect(payload.ownerId).toBe('doc-1');
+    expect(payload).not.toHaveProperty('clinicId');
+  });
+
+  it('refuses to change or delete a colleague\'s template', async () => {
+    const service = makeService();
+    const template = { ...colleagues, createdAt: new Date(), updatedAt: new Date() } as VisitTemplate;
+
+    await expect(service.saveTemplate({ name: 'x', fields: {}, shared: true }, template))
+      .rejects.toThrow('Only the owner');
+    await expect(service.deleteTemplate(template)).rejects.toThrow('Only the owner');
+    expect(mockSetDoc).not.toHaveBeenCalled();
+    expect(mockDeleteDoc).not.toHaveBeenCalled();
+  });
+});
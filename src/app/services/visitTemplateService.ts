@@ -0,0 +1,145 @@
+// src/app/services/visitTemplateService.ts
+import { Injectable } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  setDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthenticationService } from './authenticationService';
+import { ClinicContextService } from './clinicContextService';
+import { VisitTemplate, VisitTemplateFields } from '../models/visitTemplate.model';
+import { cleanTemplateFields } from '../utilities/visitTemplateUtils';
+
+export interface VisitTemplateInput {
+  name: string;
+  fields: VisitTemplateFields;
+  shared: boolean;
+}
+
+@Injectable({ providedIn: 'root' })
+export class VisitTemplateService {
+
+  // In-memory cache for the signed-in doctor — cleared on any write
+  private cache: VisitTemplate[] | null = null;
+  private cacheScope: string | null = null;
+
+  constructor(
+    private db: Firestore,
+    private authService: AuthenticationService,
+    private clinicContextService: ClinicContextService
+  ) {}
+
+  private getCurrentUserId(): string {
+    const userId = this.authService.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+
+  /** Invalidate cache — call after any write operation */
+  invalidateCache(): void {
+    this.cache = null;
+    this.cacheScope = null;
+  }
+
+  /** True when the signed-in doctor may edit or delete the template */
+  isOwner(template: VisitTemplate): boolean {
+    return template.ownerId === this.authService.getCurrentUserId();
+  }
+
+  /**
+   * The doctor's own templates plus templates shared in the selected clinic, sorted by name
+   */
+  async getTemplates(): Promise<VisitTemplate[]> {
+    const userId = this.getCurrentUserId();
+    const clinicId = this.clinicContextService.getSelectedClinicId();
+    const scope = `${userId}|${clinicId ?? ''}`;
+    if (this.cache !== null && this.cacheScope === scope) {
+      return this.cache;
+    }
+    try {
+      const templatesCol = collection(this.db, 'visitTemplates');
+      const queries = [query(templatesCol, where('ownerId', '==', userId))];
+      if (clinicId) {
+        queries.push(query(templatesCol, where('clinicId', '==', clinicId), where('shared', '==', true)));
+      }
+      const snaps = await Promise.all(queries.map(q => getDocs(q)));
+
+      const byId = new Map<string, VisitTemplate>();
+      for (const snap of snaps) {
+        for (const d of snap.docs) {
+          const data = d.data() as any;
+          byId.set(d.id, {
+            ...data,
+            id: d.id,
+            fields: data.fields ?? {},
+            shared: !!data.shared,
+            createdAt: data.createdAt?.toDate?.() ?? new Date(data.createdAt),
+            updatedAt: data.updatedAt?.toDate?.() ?? new Date(data.updatedAt),
+          } as VisitTemplate);
+        }
+      }
+
+      this.cacheScope = scope;
+      this.cache = Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+      return this.cache;
+    } catch (error) {
+      console.error('✗ Error fetching visit templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a template, or update one the signed-in doctor owns. Returns the document id.
+   */
+  async saveTemplate(input: VisitTemplateInput, existing?: VisitTemplate): Promise<string> {
+    const name = input.name.trim();
+    if (!name) throw new Error('Template name is required');
+    if (existing && !this.isOwner(existing)) throw new Error('Only the owner can change this template');
+
+    try {
+      const userId = this.getCurrentUserId();
+      const clinicId = existing ? existing.clinicId : this.clinicContextService.getSelectedClinicId();
+      const templatesCol = collection(this.db, 'visitTemplates');
+      const templateRef = existing?.id ? doc(templatesCol, existing.id) : doc(templatesCol);
+      const now = Timestamp.fromDate(new Date());
+
+      await setDoc(templateRef, {
+        name,
+        fields: cleanTemplateFields(input.fields),
+        // A template can only be shared within a clinic
+        shared: !!(input.shared && clinicId),
+        ownerId: userId,
+        ownerName: existing?.ownerName || this.authService.currentUserValue?.name || '',
+        ...(clinicId ? { clinicId } : {}),
+        createdAt: existing ? Timestamp.fromDate(existing.createdAt) : now,
+        updatedAt: now
+      });
+
+      this.invalidateCache();
+      console.log('✓ Visit template saved:', templateRef.id);
+      return templateRef.id;
+    } catch (error) {
+      console.error('✗ Error saving visit template:', error);
+      throw error;
+    }
+  }
+
+  async deleteTemplate(template: VisitTemplate): Promise<void> {
+    if (!template.id) return;
+    if (!this.isOwner(template)) throw new Error('Only the owner can delete this template');
+    try {
+      await deleteDoc(doc(collection(this.db, 'visitTemplates'), template.id));
+      this.invalidateCache();
+      console.log('✓ Visit template deleted:', template.id);
+    } catch (error) {
+      console.error('✗ Error deleting visit template:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Drug–Allergy Conflict Utilities
+ * Matches a prescribed medicine against the patient's recorded allergies using
+ * the local allergen class map in data/allergenClasses.json
+ * (e.g. "Penicillin" allergy → amoxicillin, ampicillin, …).
+ * Add new classes or ingredients to that file to extend the checks.
+ */
+
+import allergenClassesData from '../data/allergenClasses.json';
+
+export interface AllergenClass {
+    id: string;
+    name: string;
+    aliases: string[];     // how the allergy is usually written, e.g. "sulfa"
+    ingredients: string[]; // generic / common names that belong to the class
+}
+
+export interface AllergyConflict {
+    medicine: string;
+    allergy: string;          // the patient's allergy entry as recorded
+    allergenClass?: string;   // class name when matched through the map
+    matchedIngredient: string;
+}
+
+export const ALLERGEN_CLASSES: AllergenClass[] = allergenClassesData as AllergenClass[];
+
+function normalize(text: string): string {
+    return ` ${(text || '').toLowerCase().replace(/[^a-z0-9-]+/g, ' ').trim()} `;
+}
+
+/** Whole-word / whole-phrase containment, ignoring case and punctuation */
+function containsTerm(text: string, term: string): boolean {
+    const t = normalize(term);
+    return t.trim().length > 0 && normalize(text).includes(t);
+}
+
+/**
+ * Classes an allergy entry refers to, either by class name/alias or by naming one of its ingredients
+ */
+export function getAllergenClassesFor(allergy: string, classes: AllergenClass[] = ALLERGEN_CLASSES): AllergenClass[] {
+    return classes.filter(c =>
+        [c.name, ...c.aliases, ...c.ingredients].some(term => containsTerm(allergy, term))
+    );
+}
+
+/**
+ * Every recorded allergy the medicine conflicts with
+ */
+export function findAllergyConflicts(
+    medicineName: string,
+    allergies: string[],
+    classes: AllergenClass[] = ALLERGEN_CLASSES
+): AllergyConflict[] {
+    const medicine = (medicineName || '').trim();
+    if (!medicine) return [];
+
+    const conflicts: AllergyConflict[] = [];
+    for (const rawAllergy of allergies) {
+        const allergy = (rawAllergy || '').trim();
+        if (!allergy) continue;
+
+        // Direct hit: the allergy names this drug
+        if (containsTerm(medicine, allergy)) {
+            conflicts.push({ medicine, allergy, matchedIngredient: allergy });
+            continue;
+        }
+
+        // Class hit: the allergy names a class (or a member of it) that this drug belongs to
+        for (const cls of getAllergenClassesFor(allergy, classes)) {
+            const ingredient = cls.ingredients.find(i => containsTerm(medicine, i));
+            if (ingredient) {
+                conflicts.push({ medicine, allergy, allergenClass: cls.name, matchedIngredient: ingredient });
+                break;
+            }
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * One-line description for warnings and the visit record
+ */
+export function describeAllergyConflict(conflict: AllergyConflict): string {
+    return conflict.allergenClass
+        ? `${conflict.medicine} contains ${conflict.matchedIngredient} (${conflict.allergenClass}) — patient allergic to ${conflict.allergy}`
+        : `${conflict.medicine} — patient allergic to ${conflict.allergy}`;
+}
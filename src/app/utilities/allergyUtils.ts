@@ -0,0 +1,135 @@
+/**
+ * Allergy Utilities
+ * Structured allergy records on the patient, and conversion from the
+ * legacy comma-joined `allergies` string written by older builds.
+ */
+
+import { Allergy, AllergyCategory, AllergySeverity } from '../models/patient.model';
+import { getAllergenClassesFor } from './allergyConflictUtils';
+
+export const ALLERGY_CATEGORIES: Array<{ value: AllergyCategory; label: string }> = [
+    { value: 'drug', label: 'Drug' },
+    { value: 'food', label: 'Food' },
+    { value: 'environmental', label: 'Environmental' }
+];
+
+export const ALLERGY_SEVERITIES: Array<{ value: AllergySeverity; label: string }> = [
+    { value: 'mild', label: 'Mild' },
+    { value: 'moderate', label: 'Moderate' },
+    { value: 'severe', label: 'Severe' },
+    { value: 'unknown', label: 'Not recorded' }
+];
+
+const FOOD_TERMS = [
+    'peanut', 'nut', 'almond', 'cashew', 'walnut', 'egg', 'milk', 'dairy', 'lactose', 'wheat', 'gluten',
+    'soy', 'fish', 'shellfish', 'shrimp', 'prawn', 'crab', 'sesame', 'strawberry', 'banana', 'mustard'
+];
+const ENVIRONMENTAL_TERMS = [
+    'dust', 'mite', 'pollen', 'grass', 'mold', 'mould', 'latex', 'dander', 'cat', 'dog', 'bee', 'wasp',
+    'insect', 'cockroach', 'smoke', 'perfume', 'nickel', 'sun'
+];
+
+function hasTerm(text: string, terms: string[]): boolean {
+    const words = text.toLowerCase().split(/[^a-z]+/).filter(w => w);
+    return words.some(w => terms.some(t => w === t || w === `${t}s`));
+}
+
+/**
+ * Best guess for an allergy typed as free text: drugs known to the allergen
+ * class map, then common food and environmental triggers. Anything else is
+ * assumed to be a drug, the usual case in a prescribing workflow.
+ */
+export function guessAllergyCategory(substance: string): AllergyCategory {
+    if (getAllergenClassesFor(substance).length) return 'drug';
+    if (hasTerm(substance, FOOD_TERMS)) return 'food';
+    if (hasTerm(substance, ENVIRONMENTAL_TERMS)) return 'environmental';
+    return 'drug';
+}
+
+/** New record for a substance, before reaction and severity are filled in */
+export function createAllergy(substance: string, recordedAt: Date = new Date()): Allergy {
+    const name = substance.trim();
+    return { substance: name, category: guessAllergyCategory(name), severity: 'unknown', recordedAt };
+}
+
+/**
+ * Parse the legacy "Penicillin, Peanuts" string into records. The date is the
+ * best available one — usually the patient's last update.
+ */
+export function parseLegacyAllergies(text: string, recordedAt: Date = new Date()): Allergy[] {
+    if (!text || !text.trim()) return [];
+    return mergeAllergies([], text.split(',').map(s => s.trim()).filter(s => s).map(s => createAllergy(s, recordedAt)));
+}
+
+/**
+ * Accept any stored shape (legacy string, string[] or Allergy[]) and return records
+ * with real dates — nested Firestore Timestamps and JSON strings included.
+ */
+export function normalizeAllergies(raw: unknown, fallbackDate: Date = new Date()): Allergy[] {
+    if (typeof raw === 'string') return parseLegacyAllergies(raw, fallbackDate);
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .map(a => typeof a === 'string' ? createAllergy(a, fallbackDate) : a)
+        .filter(a => a && typeof a.substance === 'string' && a.substance.trim())
+        .map(a => {
+            const recordedAt = a.recordedAt?.toDate?.() ?? (a.recordedAt ? new Date(a.recordedAt) : fallbackDate);
+            return cleanAllergy({ ...a, recordedAt });
+        });
+}
+
+/**
+ * Trim text and drop empty optional fields so the record can be written to
+ * Firestore (nested undefined values are rejected by setDoc)
+ */
+export function cleanAllergy(allergy: Allergy): Allergy {
+    const cleaned: Allergy = {
+        substance: (allergy.substance || '').trim(),
+        category: ALLERGY_CATEGORIES.some(c => c.value === allergy.category) ? allergy.category : 'drug',
+        severity: ALLERGY_SEVERITIES.some(s => s.value === allergy.severity) ? allergy.severity : 'unknown',
+        recordedAt: allergy.recordedAt
+    };
+    const reaction = (allergy.reaction || '').trim();
+    if (reaction) cleaned.reaction = reaction;
+    return cleaned;
+}
+
+/**
+ * Add records for substances not already on the list (case-insensitive);
+ * existing records keep their reaction and severity
+ */
+export function mergeAllergies(existing: Allergy[], added: Allergy[]): Allergy[] {
+    const merged = [...existing];
+    for (const allergy of added) {
+        const key = allergy.substance.trim().toLowerCase();
+        if (key && !merged.some(a => a.substance.trim().toLowerCase() === key)) merged.push(allergy);
+    }
+    return merged;
+}
+
+/** Substance names, e.g. for drug–allergy conflict checks */
+export function allergySubstances(allergies: Allergy[] | undefined): string[] {
+    return (allergies || []).map(a => a.substance.trim()).filter(s => s);
+}
+
+export function severeAllergies(allergies: Allergy[] | undefined): Allergy[] {
+    return (allergies || []).filter(a => a.severity === 'severe');
+}
+
+export function allergySeverityLabel(severity: AllergySeverity): string {
+    return ALLERGY_SEVERITIES.find(s => s.value === severity)?.label ?? 'Not recorded';
+}
+
+/** "Penicillin (anaphylaxis, severe)" */
+export function formatAllergy(allergy: Allergy): string {
+    const details = [allergy.reaction, allergy.severity !== 'unknown' ? allergy.severity : '']
+        .filter(d => d)
+        .map(d => d!.toLowerCase());
+    return details.length ? `${allergy.substance} (${details.join(', ')})` : allergy.substance;
+}
+
+/** True when the two lists differ in anything that is stored */
+export function allergiesChanged(a: Allergy[] | undefined, b: Allergy[] | undefined): boolean {
+    const key = (list: Allergy[] | undefined) => JSON.stringify((list || []).map(cleanAllergy)
+        .map(({ recordedAt, ...rest }) => rest));
+    return key(a) !== key(b);
+}
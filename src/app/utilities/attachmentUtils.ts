@@ -0,0 +1,95 @@
+/**
+ * Attachment Utilities
+ * File checks, labels and image thumbnails for visit / patient attachments.
+ */
+
+import { Attachment, AttachmentType } from '../models/attachment.model';
+
+export const ATTACHMENT_TYPES: Array<{ value: AttachmentType; label: string }> = [
+    { value: 'lab-report', label: 'Lab report' },
+    { value: 'imaging', label: 'Imaging' },
+    { value: 'referral-letter', label: 'Referral letter' },
+    { value: 'other', label: 'Other' }
+];
+
+/** Largest file accepted for upload */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Longest side of a generated image thumbnail, in pixels */
+export const THUMBNAIL_SIZE = 240;
+
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/gif,application/pdf';
+
+export function attachmentTypeLabel(type: AttachmentType): string {
+    return ATTACHMENT_TYPES.find(t => t.value === type)?.label ?? 'Other';
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, 'contentType'>): boolean {
+    return (attachment.contentType || '').startsWith('image/');
+}
+
+export function isPdfAttachment(attachment: Pick<Attachment, 'contentType'>): boolean {
+    return attachment.contentType === 'application/pdf';
+}
+
+/** Reason the file cannot be attached, or null when it is acceptable */
+export function validateAttachmentFile(file: Pick<File, 'name' | 'type' | 'size'>): string | null {
+    if (!ATTACHMENT_ACCEPT.split(',').includes(file.type)) {
+        return `${file.name}: only images (JPEG, PNG, WebP, GIF) and PDF files can be attached`;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+        return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+    }
+    if (file.size === 0) {
+        return `${file.name} is empty`;
+    }
+    return null;
+}
+
+/** "2.4 MB", "312 KB", "900 B" */
+export function formatFileSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} B`;
+}
+
+/** File name safe for a Storage path: "X-ray (chest).JPG" → "x-ray-chest.jpg" */
+export function storageSafeFileName(name: string): string {
+    const cleaned = (name || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, '-')
+        .replace(/-+\./g, '.')
+        .replace(/^-+|-+$/g, '');
+    return cleaned || 'file';
+}
+
+/**
+ * Downscale an image to a JPEG thumbnail no larger than `maxSize` on its
+ * longest side. Resolves to null when the browser cannot decode the image.
+ */
+export function createImageThumbnail(file: Blob, maxSize = THUMBNAIL_SIZE): Promise<Blob | null> {
+    return new Promise(resolve => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                URL.revokeObjectURL(url);
+                resolve(null);
+                return;
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => resolve(blob), 'image/jpeg', 0.8);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            resolve(null);
+        };
+        img.src = url;
+    });
+}
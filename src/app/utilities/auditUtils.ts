@@ -0,0 +1,72 @@
+/**
+ * Audit Log Utilities
+ * Before/after field diffs for audit entries and the month keys the log is
+ * partitioned by.
+ */
+
+import { AuditFieldChange } from '../models/auditLog.model';
+import { toLocalISO } from './local-date';
+
+/** Most months a single audit log query may span (Firestore `in` limit) */
+export const MAX_AUDIT_MONTHS = 30;
+
+/**
+ * A stored value as readable text: dates as YYYY-MM-DD (with time when it has one),
+ * lists and objects as JSON, nothing (including empty lists and objects) as an empty string.
+ */
+export function formatAuditValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const date = (value as any)?.toDate?.() ?? value;
+    if (date instanceof Date) {
+        if (isNaN(date.getTime())) return '';
+        const day = toLocalISO(date);
+        if (date.getHours() === 0 && date.getMinutes() === 0) return day;
+        return `${day} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    }
+    if (typeof value === 'object') {
+        if (Object.keys(value as object).length === 0) return '';
+        return JSON.stringify(value, (_key, v) => v?.toDate ? v.toDate() : v);
+    }
+    return String(value).trim();
+}
+
+/**
+ * Fields whose formatted value differs between two versions of a record.
+ * Only `fields` are compared when given, otherwise every key of `after`.
+ */
+export function diffFields(
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any>,
+    fields: string[] = Object.keys(after)
+): AuditFieldChange[] {
+    const changes: AuditFieldChange[] = [];
+    for (const field of fields) {
+        const previous = formatAuditValue(before?.[field]);
+        const next = formatAuditValue(after[field]);
+        if (previous !== next) changes.push({ field, before: previous, after: next });
+    }
+    return changes;
+}
+
+/** Local YYYY-MM of a date */
+export function auditMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Every month key from `from` to `to` inclusive. Throws when the range is
+ * reversed or longer than MAX_AUDIT_MONTHS.
+ */
+export function auditMonthsBetween(from: Date, to: Date): string[] {
+    if (from.getTime() > to.getTime()) throw new Error('The start date must be before the end date');
+    const months: string[] = [];
+    const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+    while (cursor.getTime() <= to.getTime()) {
+        months.push(auditMonthKey(cursor));
+        if (months.length > MAX_AUDIT_MONTHS) {
+            throw new Error(`Choose a date range of at most ${MAX_AUDIT_MONTHS} months`);
+        }
+        cursor.setMonth(cursor.getMonth() + 1);
+    }
+    return months;
+}
@@ -0,0 +1,27 @@
+/**
+ * Camera Utilities
+ * Webcam access shared by the patient photo capture and the ID card scanner.
+ */
+
+export function canUseCamera(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/** Start the webcam; `facingMode` is a preference, laptops fall back to their only camera */
+export function openCamera(facingMode: 'user' | 'environment'): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+        video: { facingMode, width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false
+    });
+}
+
+export function stopCamera(stream: MediaStream | null): void {
+    stream?.getTracks().forEach(track => track.stop());
+}
+
+/** What to tell the user when the webcam could not be started */
+export function cameraErrorMessage(error: any, alternative: string): string {
+    return error?.name === 'NotAllowedError'
+        ? `Camera access was blocked — allow it in the browser or ${alternative} instead`
+        : `No camera could be started — ${alternative} instead`;
+}
@@ -0,0 +1,73 @@
+/**
+ * CSV Utilities
+ * Minimal RFC 4180 reader/writer for client-side imports and downloadable reports
+ */
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells, escaped quotes ("") and CRLF/LF line endings; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const source = (text || '').replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(cell); cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell); cell = '';
+            if (row.some(c => c.trim() !== '')) rows.push(row);
+            row = [];
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    if (row.some(c => c.trim() !== '')) rows.push(row);
+    return rows;
+}
+
+/**
+ * Header cell → lookup key, e.g. "Generic Name" → "generic_name"
+ */
+export function normalizeCsvHeader(header: string): string {
+    return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Serialize rows to CSV, quoting cells that need it
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+    return rows
+        .map(row => row
+            .map(value => {
+                const cell = value === null || value === undefined ? '' : String(value);
+                return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+            })
+            .join(','))
+        .join('\r\n');
+}
+
+/**
+ * Save CSV text as a file through a temporary link.
+ * The BOM lets Excel detect UTF-8.
+ */
+export function downloadCsv(csv: string, fileName: string): void {
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,132 @@
+/**
+ * Patient Demographics Utilities
+ * Address, alternate phone, emergency contact, blood group, occupation,
+ * preferred language and government IDs: form defaults, cleaning for
+ * Firestore and display helpers. Validation lives in patientValidation.
+ */
+
+import { EmergencyContact, GovernmentId, GovernmentIdType, Patient, PatientAddress } from '../models/patient.model';
+
+export type PatientDemographics = Pick<Patient,
+    'address' | 'alternatePhone' | 'emergencyContact' | 'bloodGroup' | 'occupation' | 'preferredLanguage' | 'governmentIds'>;
+
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+export const GOVERNMENT_ID_TYPES: Array<{ value: GovernmentIdType; label: string; placeholder: string }> = [
+    { value: 'aadhaar', label: 'Aadhaar', placeholder: '12 digits' },
+    { value: 'pan', label: 'PAN', placeholder: 'ABCDE1234F' },
+    { value: 'passport', label: 'Passport', placeholder: 'A1234567' },
+    { value: 'voter-id', label: 'Voter ID', placeholder: 'ABC1234567' },
+    { value: 'driving-licence', label: 'Driving licence', placeholder: 'MH1420110012345' },
+    { value: 'other', label: 'Other', placeholder: 'ID number' }
+];
+
+const ADDRESS_KEYS: Array<keyof PatientAddress> = ['line1', 'line2', 'city', 'state', 'postalCode', 'country'];
+const CONTACT_KEYS: Array<keyof EmergencyContact> = ['name', 'relation', 'phone'];
+
+export function governmentIdLabel(type: GovernmentIdType): string {
+    return GOVERNMENT_ID_TYPES.find(t => t.value === type)?.label ?? type;
+}
+
+/** ID numbers are compared and stored uppercase, without spaces or dashes */
+export function normalizeGovernmentIdNumber(value: string): string {
+    return (value || '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+/** Blank form values, with every nested field present so inputs can bind to them */
+export function emptyDemographics(): PatientDemographics {
+    return {
+        address: { line1: '', line2: '', city: '', state: '', postalCode: '', country: '' },
+        alternatePhone: '',
+        emergencyContact: { name: '', relation: '', phone: '' },
+        bloodGroup: '',
+        occupation: '',
+        preferredLanguage: '',
+        governmentIds: []
+    };
+}
+
+/** Form values for an existing patient */
+export function demographicsOf(patient: Partial<Patient> | null | undefined): PatientDemographics {
+    const empty = emptyDemographics();
+    return {
+        address: { ...empty.address, ...(patient?.address || {}) },
+        alternatePhone: patient?.alternatePhone || '',
+        emergencyContact: { ...empty.emergencyContact, ...(patient?.emergencyContact || {}) },
+        bloodGroup: patient?.bloodGroup || '',
+        occupation: patient?.occupation || '',
+        preferredLanguage: patient?.preferredLanguage || '',
+        governmentIds: (patient?.governmentIds || []).map(id => ({ ...id }))
+    };
+}
+
+function trimmedParts<K extends string>(
+    value: Partial<Record<K, string>> | undefined,
+    keys: readonly K[]
+): Partial<Record<K, string>> | undefined {
+    const cleaned: Partial<Record<K, string>> = {};
+    let any = false;
+    for (const key of keys) {
+        const text = (value?.[key] ?? '').trim();
+        if (text) {
+            cleaned[key] = text;
+            any = true;
+        }
+    }
+    return any ? cleaned : undefined;
+}
+
+/**
+ * Trimmed demographics with empty values dropped — nested undefined values
+ * are rejected by Firestore, so blank parts are left out rather than set to undefined.
+ */
+export function cleanDemographics(data: PatientDemographics): PatientDemographics {
+    const cleaned: PatientDemographics = {};
+    const address = trimmedParts(data.address, ADDRESS_KEYS);
+    if (address) cleaned.address = address;
+    const contact = trimmedParts(data.emergencyContact, CONTACT_KEYS);
+    if (contact) cleaned.emergencyContact = contact;
+    for (const key of ['alternatePhone', 'bloodGroup', 'occupation', 'preferredLanguage'] as const) {
+        const text = (data[key] || '').trim();
+        if (text) cleaned[key] = text;
+    }
+    const ids: GovernmentId[] = (data.governmentIds || [])
+        .map(id => ({ type: id.type, number: normalizeGovernmentIdNumber(id.number) }))
+        .filter(id => id.number);
+    if (ids.length) cleaned.governmentIds = ids;
+    return cleaned;
+}
+
+/**
+ * Like cleanDemographics, but cleared fields are written as empty values so
+ * an edit removes what was stored before.
+ */
+export function demographicsUpdate(data: PatientDemographics): PatientDemographics {
+    return {
+        address: {},
+        alternatePhone: '',
+        emergencyContact: {},
+        bloodGroup: '',
+        occupation: '',
+        preferredLanguage: '',
+        governmentIds: [],
+        ...cleanDemographics(data)
+    };
+}
+
+/** One-line address, e.g. "12 MG Road, Indiranagar, Bengaluru, Karnataka 560038" */
+export function formatAddress(address: PatientAddress | undefined): string {
+    if (!address) return '';
+    const cityLine = [address.city, [address.state, address.postalCode].filter(p => p?.trim()).join(' ')]
+        .filter(p => p?.trim()).join(', ');
+    return [address.line1, address.line2, cityLine, address.country]
+        .map(p => (p || '').trim()).filter(p => p).join(', ');
+}
+
+/** "Asha Rao (Mother) · 9876543210" */
+export function formatEmergencyContact(contact: EmergencyContact | undefined): string {
+    if (!contact?.name?.trim() && !contact?.phone?.trim()) return '';
+    const name = (contact.name || '').trim();
+    const relation = (contact.relation || '').trim();
+    return [relation ? `${name} (${relation})` : name, (contact.phone || '').trim()].filter(p => p).join(' · ');
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateCandidates, nameSimilarity, nameTokens } from './duplicateUtils';
+import { Patient } from '../models/patient.model';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+function patient(uniqueId: string, name: string, phone: string): Patient {
+  return {
+    uniqueId,
+    userId: 'user-1',
+    familyId: uniqueId,
+    name,
+    phone,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('duplicateUtils', () => {
+  it('keeps letters of any script, with their vowel signs', () => {
+    expect(nameTokens('Ravi Sharma-Rao')).toEqual(['ravi', 'sharma', 'rao']);
+    expect(nameTokens('रवि  शर्मा')).toEqual(['रवि', 'शर्मा']);
+    expect(nameTokens('José Núñez')).toEqual(['josé', 'núñez']);
+  });
+
+  it('matches the same non-Latin name and tells different ones apart', () => {
+    expect(nameSimilarity('रवि शर्मा', 'शर्मा रवि')).toBe(1);
+    expect(nameSimilarity('रवि शर्मा', 'सीता वर्मा')).toBeLessThan(0.8);
+  });
+
+  it('finds a Devanagari duplicate without pairing unrelated Devanagari names', () => {
+    const matches = findDuplicateCandidates([
+      patient('a', 'रवि शर्मा', '9876543210'),
+      patient('b', 'रवि शर्मा', '9876543210'),
+      patient('c', 'सीता वर्मा', '9876543210'),
+    ]);
+
+    expect(matches.map(m => [m.first.uniqueId, m.second.uniqueId])).toEqual([['a', 'b']]);
+    expect(matches[0].reasons).toEqual(['Same name', 'Same phone']);
+  });
+});
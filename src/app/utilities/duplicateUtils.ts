@@ -0,0 +1,210 @@
+/**
+ * Duplicate Utilities
+ * Finds patients that are probably the same person: registered twice by
+ * different staff, with a misspelt name, swapped name order or a mistyped phone.
+ */
+
+import { Patient } from '../models/patient.model';
+import { phoneDigits } from './familyUtils';
+import { PatientDemographics, cleanDemographics } from './demographicsUtils';
+
+export interface DuplicateMatch {
+    first: Patient;
+    second: Patient;
+    score: number;          // 0–1, higher is more likely the same person
+    reasons: string[];
+}
+
+/** Pairs scoring below this are not shown */
+export const DUPLICATE_THRESHOLD = 0.75;
+
+/**
+ * Lowercase name words, punctuation removed. Letters of any script are kept,
+ * with their combining marks (Devanagari vowel signs, for example).
+ */
+export function nameTokens(name: string | undefined): string[] {
+    return String(name ?? '')
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(t => t);
+}
+
+function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    return longest ? 1 - levenshtein(a, b) / longest : 1;
+}
+
+/**
+ * 0–1 similarity of two names. Word order is ignored ("Sharma Ravi" = "Ravi Sharma")
+ * and a missing middle name only costs a little.
+ */
+export function nameSimilarity(a: string | undefined, b: string | undefined): number {
+    const ta = nameTokens(a);
+    const tb = nameTokens(b);
+    if (!ta.length || !tb.length) return 0;
+    const sorted = stringSimilarity([...ta].sort().join(' '), [...tb].sort().join(' '));
+    const outer = (t: string[]) => [t[0], t[t.length - 1]].sort().join(' ');
+    const firstLast = stringSimilarity(outer(ta), outer(tb)) * 0.95;
+    return Math.max(sorted, firstLast);
+}
+
+/** 1 for the same number, 0.8 for one mistyped or two swapped digits, else 0 */
+export function phoneSimilarity(a: string | undefined, b: string | undefined): number {
+    const da = phoneDigits(a).slice(-10);
+    const db = phoneDigits(b).slice(-10);
+    if (!da || !db || da.length !== db.length) return 0;
+    if (da === db) return 1;
+    const diffs: number[] = [];
+    for (let i = 0; i < da.length; i++) if (da[i] !== db[i]) diffs.push(i);
+    if (diffs.length === 1) return 0.8;
+    const swapped = diffs.length === 2 && diffs[1] === diffs[0] + 1
+        && da[diffs[0]] === db[diffs[1]] && da[diffs[1]] === db[diffs[0]];
+    return swapped ? 0.8 : 0;
+}
+
+function sameDay(a: Date | undefined, b: Date | undefined): boolean | null {
+    if (!a || !b) return null;
+    const da = new Date(a);
+    const db = new Date(b);
+    if (isNaN(da.getTime()) || isNaN(db.getTime())) return null;
+    return da.toDateString() === db.toDateString();
+}
+
+/** Likelihood that two records are the same person, or null when they clearly are not */
+export function scoreDuplicate(a: Patient, b: Patient): DuplicateMatch | null {
+    const name = nameSimilarity(a.name, b.name);
+    const phone = phoneSimilarity(a.phone, b.phone);
+    const birth = sameDay(a.dateOfBirth, b.dateOfBirth);
+
+    // Different birthdays or genders: relatives sharing a phone, not one person
+    if (birth === false) return null;
+    if (a.gender && b.gender && a.gender !== b.gender) return null;
+    if (name < 0.8) return null;
+
+    let score = name * 0.6 + phone * 0.4;
+    if (birth) score = Math.min(1, score + 0.15);
+
+    const reasons: string[] = [];
+    reasons.push(name === 1 ? 'Same name' : `Similar name (${Math.round(name * 100)}%)`);
+    if (phone === 1) reasons.push('Same phone');
+    else if (phone > 0) reasons.push('Phone differs by one digit');
+    if (birth) reasons.push('Same date of birth');
+
+    if (score < DUPLICATE_THRESHOLD) return null;
+    return { first: a, second: b, score, reasons };
+}
+
+/** Letter code that sounds-alike spellings share, e.g. "Smith" and "Smyth" */
+function soundex(word: string): string {
+    const codes: Record<string, string> = {
+        b: '1', f: '1', p: '1', v: '1',
+        c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+        d: '3', t: '3', l: '4', m: '5', n: '5', r: '6'
+    };
+    let result = word.charAt(0);
+    let last = codes[word.charAt(0)] ?? '';
+    for (const ch of word.slice(1)) {
+        const code = codes[ch] ?? '';
+        if (code && code !== last) result += code;
+        if (ch !== 'h' && ch !== 'w') last = code;
+    }
+    return (result + '000').slice(0, 4);
+}
+
+/** Keys under which two records must meet to be compared at all */
+function blockingKeys(patient: Patient): string[] {
+    const keys: string[] = [];
+    const phone = phoneDigits(patient.phone).slice(-10);
+    if (phone) keys.push(`p:${phone}`);
+    const tokens = nameTokens(patient.name);
+    if (tokens.length) {
+        keys.push(`n:${[soundex(tokens[0]), soundex(tokens[tokens.length - 1])].sort().join('-')}`);
+    }
+    return keys;
+}
+
+/**
+ * Likely duplicate pairs, best match first. Only records sharing a phone number
+ * or a sounds-alike first and last name are compared, so large lists stay fast.
+ * Records already merged into another are skipped.
+ */
+export function findDuplicateCandidates(patients: Patient[]): DuplicateMatch[] {
+    const live = patients.filter(p => !p.mergedInto);
+    const blocks = new Map<string, number[]>();
+    live.forEach((p, i) => {
+        for (const key of blockingKeys(p)) {
+            const block = blocks.get(key) ?? [];
+            block.push(i);
+            blocks.set(key, block);
+        }
+    });
+
+    const seen = new Set<string>();
+    const matches: DuplicateMatch[] = [];
+    for (const block of blocks.values()) {
+        for (let x = 0; x < block.length; x++) {
+            for (let y = x + 1; y < block.length; y++) {
+                const pairKey = `${block[x]}:${block[y]}`;
+                if (seen.has(pairKey)) continue;
+                seen.add(pairKey);
+                const match = scoreDuplicate(live[block[x]], live[block[y]]);
+                if (match) matches.push(match);
+            }
+        }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+}
+
+/** Stable key for a pair, whichever way round it is given */
+export function duplicatePairKey(a: string, b: string): string {
+    return [a, b].sort().join('|');
+}
+
+/**
+ * The record to keep by default: the older registration, preferring one that
+ * already belongs to a clinic
+ */
+export function suggestSurvivor(a: Patient, b: Patient): Patient {
+    if (!!a.clinicId !== !!b.clinicId) return a.clinicId ? a : b;
+    return new Date(a.createdAt).getTime() <= new Date(b.createdAt).getTime() ? a : b;
+}
+
+function copyField<K extends keyof Patient>(target: Partial<Patient>, source: Partial<Patient>, key: K): void {
+    target[key] = source[key];
+}
+
+/**
+ * The survivor's demographics with gaps filled from the duplicate. Allergies and
+ * problem lists are combined by the caller.
+ */
+export function fillMissingDemographics(survivor: Patient, duplicate: Patient): Partial<Patient> {
+    const filled: Partial<Patient> = {};
+    if (!survivor.email && duplicate.email) filled.email = duplicate.email;
+    if (!survivor.dateOfBirth && duplicate.dateOfBirth) filled.dateOfBirth = duplicate.dateOfBirth;
+    if (!survivor.gender && duplicate.gender) filled.gender = duplicate.gender;
+    if (!survivor.clinicId && duplicate.clinicId) filled.clinicId = duplicate.clinicId;
+    const survivorDetails = cleanDemographics(survivor);
+    const duplicateDetails = cleanDemographics(duplicate);
+    for (const key of Object.keys(duplicateDetails) as Array<keyof PatientDemographics>) {
+        if (survivorDetails[key] === undefined) copyField(filled, duplicateDetails, key);
+    }
+    return filled;
+}
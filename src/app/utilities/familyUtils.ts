@@ -0,0 +1,34 @@
+/**
+ * Family Utilities
+ * Households are patients sharing a familyId. The head of household keeps the
+ * familyId generated for them; linked members take it over.
+ */
+
+import { FamilyRelationship, Patient } from '../models/patient.model';
+
+export const FAMILY_RELATIONSHIPS: Array<{ value: FamilyRelationship; label: string }> = [
+    { value: 'head', label: 'Head of household' },
+    { value: 'spouse', label: 'Spouse' },
+    { value: 'child', label: 'Child' },
+    { value: 'parent', label: 'Parent' },
+    { value: 'sibling', label: 'Sibling' },
+    { value: 'other', label: 'Other' }
+];
+
+export function familyRelationshipLabel(relationship: FamilyRelationship | undefined): string {
+    return FAMILY_RELATIONSHIPS.find(r => r.value === relationship)?.label ?? 'Not set';
+}
+
+/** Head first, then in the order of FAMILY_RELATIONSHIPS, then by name */
+export function sortFamilyMembers(members: Patient[]): Patient[] {
+    const rank = (p: Patient) => {
+        const index = FAMILY_RELATIONSHIPS.findIndex(r => r.value === p.familyRelationship);
+        return index === -1 ? FAMILY_RELATIONSHIPS.length : index;
+    };
+    return [...members].sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+}
+
+/** Digits only, so "98765 43210" and "9876543210" compare equal */
+export function phoneDigits(phone: string | undefined): string {
+    return String(phone ?? '').replace(/\D/g, '');
+}
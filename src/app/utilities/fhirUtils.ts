@@ -0,0 +1,811 @@
+/**
+ * FHIR R4 Utilities
+ * Maps a patient's record (demographics, allergies, problem list, visits with
+ * their diagnoses, prescriptions and vitals, and appointments) to a FHIR R4
+ * collection Bundle, and reads such a bundle back with validation.
+ */
+
+import {
+    Allergy,
+    AllergyCategory,
+    AllergySeverity,
+    CodedDiagnosis,
+    GovernmentIdType,
+    Medicine,
+    Patient,
+    Problem,
+    ProblemStatus,
+    Visit,
+    Vitals
+} from '../models/patient.model';
+import { Appointment, AppointmentStatus } from '../models/appointment.model';
+import {
+    FhirAllergyIntolerance,
+    FhirAppointment,
+    FhirBundle,
+    FhirCodeableConcept,
+    FhirCondition,
+    FhirEncounter,
+    FhirExtension,
+    FhirMedicationRequest,
+    FhirObservation,
+    FhirPatient,
+    FhirReference,
+    FhirResource
+} from '../models/fhir.model';
+import { GOVERNMENT_ID_TYPES, cleanDemographics } from './demographicsUtils';
+import { cleanAllergy, guessAllergyCategory } from './allergyUtils';
+import { cleanProblem } from './problemUtils';
+import { cleanMedicine, formatMedicineLine } from './prescriptionUtils';
+import { VitalKey, cleanVitals } from './vitalsUtils';
+import { toLocalISO } from './local-date';
+import { normalizeImportPhone } from './patientImportUtils';
+import { validatePatientData } from './patientValidation';
+
+export const FHIR_SYSTEMS = {
+    mrn: 'urn:intellirx:mrn',
+    patientId: 'urn:intellirx:patient-id',
+    governmentId: 'urn:intellirx:government-id',   // followed by ":<type>", e.g. ":aadhaar"
+    icd10: 'http://hl7.org/fhir/sid/icd-10',
+    loinc: 'http://loinc.org',
+    ucum: 'http://unitsofmeasure.org',
+    actCode: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+    conditionCategory: 'http://terminology.hl7.org/CodeSystem/condition-category',
+    conditionClinical: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+    allergyClinical: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+    observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category'
+};
+
+/** Extensions carrying IntelliRX fields that FHIR has no element for */
+const EXTENSION_PREFIX = 'urn:intellirx:fhir:';
+
+/** Visit notes kept as Encounter extensions, so a re-import restores them exactly */
+const VISIT_NOTE_FIELDS = ['presentIllness', 'diagnosis', 'examination', 'treatmentPlan', 'advice', 'visitType'] as const;
+
+/** LOINC code and UCUM unit of each single-value vital; blood pressure is a panel of two */
+const VITAL_CODES: Array<{ key: Exclude<VitalKey, 'systolicBp' | 'diastolicBp'>; code: string; display: string; unit: string }> = [
+    { key: 'pulse', code: '8867-4', display: 'Heart rate', unit: '/min' },
+    { key: 'temperature', code: '8310-5', display: 'Body temperature', unit: '[degF]' },
+    { key: 'spo2', code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry', unit: '%' },
+    { key: 'respiratoryRate', code: '9279-1', display: 'Respiratory rate', unit: '/min' },
+    { key: 'heightCm', code: '8302-2', display: 'Body height', unit: 'cm' },
+    { key: 'weightKg', code: '29463-7', display: 'Body weight', unit: 'kg' },
+    { key: 'bmi', code: '39156-5', display: 'Body mass index (BMI) [Ratio]', unit: 'kg/m2' }
+];
+const BP_PANEL = { code: '85354-9', display: 'Blood pressure panel with all children optional' };
+const BP_SYSTOLIC = { code: '8480-6', display: 'Systolic blood pressure' };
+const BP_DIASTOLIC = { code: '8462-4', display: 'Diastolic blood pressure' };
+const BLOOD_GROUP_CODE = { code: '882-1', display: 'ABO and Rh group [Type] in Blood' };
+const OCCUPATION_CODE = { code: '11341-5', display: 'History of Occupation' };
+
+const ALLERGY_CATEGORY_TO_FHIR: Record<AllergyCategory, 'medication' | 'food' | 'environment'> = {
+    drug: 'medication',
+    food: 'food',
+    environmental: 'environment'
+};
+
+const PROBLEM_STATUS_TO_FHIR: Record<ProblemStatus, string> = {
+    'active': 'active',
+    'resolved': 'resolved',
+    'in-remission': 'remission'
+};
+
+const APPOINTMENT_STATUS_TO_FHIR: Record<AppointmentStatus, string> = {
+    'scheduled': 'booked',
+    'completed': 'fulfilled',
+    'cancelled': 'cancelled',
+    'no-show': 'noshow'
+};
+
+/** Everything that goes into one patient's bundle */
+export interface FhirPatientRecord {
+    patient: Patient;
+    visits: Visit[];
+    appointments: Appointment[];
+}
+
+export type FhirImportPatient = Omit<Patient, 'uniqueId' | 'userId' | 'familyId' | 'createdAt' | 'updatedAt'>;
+
+export interface FhirImportVisit {
+    visit: Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>;
+    recordedAt: Date;
+}
+
+/** The doctor is left out: another clinic's doctor has no account here */
+export type FhirImportAppointment = Pick<Appointment,
+    'appointmentDate' | 'appointmentTime' | 'reason' | 'ailments' | 'notes' | 'status'>;
+
+/** A bundle read back into IntelliRX shapes, ready to be saved */
+export interface FhirImportData {
+    patient: FhirImportPatient;
+    visits: FhirImportVisit[];
+    appointments: FhirImportAppointment[];
+}
+
+/** What parsePatientBundle found: data only when there are no errors */
+export interface FhirParseResult {
+    data: FhirImportData | null;
+    errors: string[];
+    warnings: string[];
+}
+
+// ──── EXPORT ────
+
+function uuid(): string {
+    return crypto.randomUUID();
+}
+
+function concept(text: string, system?: string, code?: string, display?: string): FhirCodeableConcept {
+    return code ? { coding: [{ system, code, ...(display ? { display } : {}) }], text } : { text };
+}
+
+function loinc(code: { code: string; display: string }): FhirCodeableConcept {
+    return concept(code.display, FHIR_SYSTEMS.loinc, code.code, code.display);
+}
+
+function noteExtensions(prefix: string, values: Record<string, string | undefined>): FhirExtension[] {
+    return Object.entries(values)
+        .filter(([, value]) => value && value.trim())
+        .map(([key, value]) => ({ url: `${EXTENSION_PREFIX}${prefix}-${key}`, valueString: value!.trim() }));
+}
+
+/** "Male" → "male"; values FHIR does not know become "unknown" */
+function fhirGender(gender: string | undefined): FhirPatient['gender'] | undefined {
+    if (!gender) return undefined;
+    const value = gender.toLowerCase();
+    return value === 'male' || value === 'female' || value === 'other' ? value : 'unknown';
+}
+
+export function toFhirPatient(patient: Patient, id: string): FhirPatient {
+    const nameParts = patient.name.trim().split(/\s+/);
+    const telecom: NonNullable<FhirPatient['telecom']> = [{ system: 'phone', value: patient.phone, use: 'mobile', rank: 1 }];
+    if (patient.alternatePhone) telecom.push({ system: 'phone', value: patient.alternatePhone, rank: 2 });
+    if (patient.email) telecom.push({ system: 'email', value: patient.email });
+
+    const identifier: NonNullable<FhirPatient['identifier']> = [{ system: FHIR_SYSTEMS.patientId, value: patient.uniqueId }];
+    if (patient.mrn) identifier.unshift({ system: FHIR_SYSTEMS.mrn, value: patient.mrn });
+    for (const gid of patient.governmentIds || []) {
+        identifier.push({ system: `${FHIR_SYSTEMS.governmentId}:${gid.type}`, value: gid.number });
+    }
+
+    const resource: FhirPatient = {
+        resourceType: 'Patient',
+        id,
+        identifier,
+        name: [{
+            text: patient.name,
+            ...(nameParts.length > 1 ? { family: nameParts[nameParts.length - 1], given: nameParts.slice(0, -1) } : { given: nameParts })
+        }],
+        telecom
+    };
+    const gender = fhirGender(patient.gender);
+    if (gender) resource.gender = gender;
+    if (patient.dateOfBirth) resource.birthDate = toLocalISO(new Date(patient.dateOfBirth));
+
+    const address = patient.address;
+    if (address && Object.values(address).some(v => v)) {
+        resource.address = [{
+            ...(address.line1 || address.line2 ? { line: [address.line1, address.line2].filter((l): l is string => !!l) } : {}),
+            ...(address.city ? { city: address.city } : {}),
+            ...(address.state ? { state: address.state } : {}),
+            ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+            ...(address.country ? { country: address.country } : {})
+        }];
+    }
+    const contact = patient.emergencyContact;
+    if (contact?.name || contact?.phone) {
+        resource.contact = [{
+            ...(contact.relation ? { relationship: [{ text: contact.relation }] } : {}),
+            ...(contact.name ? { name: { text: contact.name } } : {}),
+            ...(contact.phone ? { telecom: [{ system: 'phone', value: contact.phone }] } : {})
+        }];
+    }
+    if (patient.preferredLanguage) {
+        resource.communication = [{ language: { text: patient.preferredLanguage }, preferred: true }];
+    }
+    return resource;
+}
+
+export function toFhirAllergy(allergy: Allergy, patientRef: FhirReference): FhirAllergyIntolerance {
+    const resource: FhirAllergyIntolerance = {
+        resourceType: 'AllergyIntolerance',
+        id: uuid(),
+        clinicalStatus: concept('Active', FHIR_SYSTEMS.allergyClinical, 'active'),
+        category: [ALLERGY_CATEGORY_TO_FHIR[allergy.category] ?? 'medication'],
+        criticality: allergy.severity === 'severe' ? 'high' : allergy.severity === 'unknown' ? 'unable-to-assess' : 'low',
+        code: { text: allergy.substance },
+        patient: patientRef,
+        recordedDate: new Date(allergy.recordedAt).toISOString()
+    };
+    if (allergy.reaction || allergy.severity !== 'unknown') {
+        resource.reaction = [{
+            manifestation: [{ text: allergy.reaction || 'Unspecified reaction' }],
+            ...(allergy.severity !== 'unknown' ? { severity: allergy.severity } : {})
+        }];
+    }
+    return resource;
+}
+
+export function toFhirProblem(problem: Problem, patientRef: FhirReference): FhirCondition {
+    return {
+        resourceType: 'Condition',
+        id: uuid(),
+        clinicalStatus: concept(problem.status, FHIR_SYSTEMS.conditionClinical, PROBLEM_STATUS_TO_FHIR[problem.status] ?? 'active'),
+        category: [concept('Problem List Item', FHIR_SYSTEMS.conditionCategory, 'problem-list-item')],
+        code: concept(problem.condition, FHIR_SYSTEMS.icd10, problem.icdCode),
+        subject: patientRef,
+        ...(problem.onsetDate ? { onsetDateTime: toLocalISO(new Date(problem.onsetDate)) } : {}),
+        recordedDate: new Date(problem.recordedAt).toISOString(),
+        ...(problem.notes ? { note: [{ text: problem.notes }] } : {})
+    };
+}
+
+export function toFhirMedicationRequest(
+    medicine: Medicine,
+    patientRef: FhirReference,
+    encounterRef: FhirReference,
+    authoredOn: Date
+): FhirMedicationRequest {
+    return {
+        resourceType: 'MedicationRequest',
+        id: uuid(),
+        extension: noteExtensions('medicine', { dosage: medicine.dosage, duration: medicine.duration }),
+        status: 'completed',
+        intent: 'order',
+        medicationCodeableConcept: { text: medicine.name },
+        subject: patientRef,
+        encounter: encounterRef,
+        authoredOn: authoredOn.toISOString(),
+        dosageInstruction: [{
+            text: formatMedicineLine(medicine),
+            ...(medicine.frequency ? { timing: { code: { text: medicine.frequency } } } : {}),
+            ...(medicine.route ? { route: { text: medicine.route } } : {}),
+            ...(medicine.instructions ? { patientInstruction: medicine.instructions } : {})
+        }],
+        ...(medicine.quantity ? { dispenseRequest: { quantity: { value: medicine.quantity } } } : {})
+    };
+}
+
+function vitalObservation(
+    code: FhirCodeableConcept,
+    patientRef: FhirReference,
+    encounterRef: FhirReference,
+    effective: Date
+): FhirObservation {
+    return {
+        resourceType: 'Observation',
+        id: uuid(),
+        status: 'final',
+        category: [concept('Vital Signs', FHIR_SYSTEMS.observationCategory, 'vital-signs')],
+        code,
+        subject: patientRef,
+        encounter: encounterRef,
+        effectiveDateTime: effective.toISOString()
+    };
+}
+
+function quantity(value: number, unit: string) {
+    return { value, unit, system: FHIR_SYSTEMS.ucum, code: unit };
+}
+
+export function toFhirVitals(
+    vitals: Vitals,
+    patientRef: FhirReference,
+    encounterRef: FhirReference,
+    effective: Date
+): FhirObservation[] {
+    const observations: FhirObservation[] = [];
+    if (vitals.systolicBp || vitals.diastolicBp) {
+        const panel = vitalObservation(loinc(BP_PANEL), patientRef, encounterRef, effective);
+        panel.component = [];
+        if (vitals.systolicBp) panel.component.push({ code: loinc(BP_SYSTOLIC), valueQuantity: quantity(vitals.systolicBp, 'mm[Hg]') });
+        if (vitals.diastolicBp) panel.component.push({ code: loinc(BP_DIASTOLIC), valueQuantity: quantity(vitals.diastolicBp, 'mm[Hg]') });
+        observations.push(panel);
+    }
+    for (const vital of VITAL_CODES) {
+        const value = vitals[vital.key];
+        if (typeof value !== 'number') continue;
+        const observation = vitalObservation(loinc(vital), patientRef, encounterRef, effective);
+        observation.valueQuantity = quantity(value, vital.unit);
+        observations.push(observation);
+    }
+    return observations;
+}
+
+/**
+ * One Encounter per visit, with its coded diagnoses as Conditions and its
+ * prescription and vitals pointing back at it
+ */
+export function toFhirVisit(visit: Visit, patientRef: FhirReference): FhirResource[] {
+    const encounterId = uuid();
+    const encounterRef: FhirReference = { reference: `urn:uuid:${encounterId}` };
+    const recordedAt = new Date(visit.createdAt);
+
+    const codes = visit.diagnosisCodes || [];
+    const diagnoses: FhirCondition[] = codes.map(d => ({
+        resourceType: 'Condition',
+        id: uuid(),
+        category: [concept('Encounter Diagnosis', FHIR_SYSTEMS.conditionCategory, 'encounter-diagnosis')],
+        code: concept(d.description, FHIR_SYSTEMS.icd10, d.code, d.description),
+        subject: patientRef,
+        encounter: encounterRef,
+        recordedDate: recordedAt.toISOString()
+    }));
+    // Other systems only read Conditions, so an uncoded diagnosis gets one too
+    if (!codes.length && visit.diagnosis?.trim()) {
+        diagnoses.push({
+            resourceType: 'Condition',
+            id: uuid(),
+            category: [concept('Encounter Diagnosis', FHIR_SYSTEMS.conditionCategory, 'encounter-diagnosis')],
+            code: { text: visit.diagnosis.trim() },
+            subject: patientRef,
+            encounter: encounterRef,
+            recordedDate: recordedAt.toISOString()
+        });
+    }
+
+    const extension = noteExtensions('visit', {
+        presentIllness: visit.presentIllness,
+        diagnosis: visit.diagnosis,
+        examination: visit.examination,
+        treatmentPlan: visit.treatmentPlan,
+        advice: visit.advice,
+        visitType: visit.visitType
+    });
+    if (visit.followUpDate) {
+        extension.push({ url: `${EXTENSION_PREFIX}visit-followUpDate`, valueDate: toLocalISO(new Date(visit.followUpDate)) });
+    }
+
+    const encounter: FhirEncounter = {
+        resourceType: 'Encounter',
+        id: encounterId,
+        extension,
+        status: 'finished',
+        class: { system: FHIR_SYSTEMS.actCode, code: 'AMB', display: 'ambulatory' },
+        subject: patientRef,
+        period: { start: recordedAt.toISOString() },
+        ...(visit.chiefComplaints?.trim() ? { reasonCode: [{ text: visit.chiefComplaints.trim() }] } : {}),
+        ...(diagnoses.length ? {
+            diagnosis: diagnoses.map((c, i) => ({
+                condition: { reference: `urn:uuid:${c.id}` },
+                rank: codes[i] ? (codes[i].type === 'primary' ? 1 : 2) : 1
+            }))
+        } : {})
+    };
+
+    return [
+        encounter,
+        ...diagnoses,
+        ...(visit.medicines || []).map(m => toFhirMedicationRequest(m, patientRef, encounterRef, recordedAt)),
+        ...(visit.vitals ? toFhirVitals(visit.vitals, patientRef, encounterRef, recordedAt) : [])
+    ];
+}
+
+/** Appointment date and "HH:mm" time as a local date-time */
+function appointmentStart(appointment: Appointment): Date {
+    const start = new Date(appointment.appointmentDate);
+    const [hours, minutes] = (appointment.appointmentTime || '00:00').split(':').map(Number);
+    start.setHours(hours || 0, minutes || 0, 0, 0);
+    return start;
+}
+
+export function toFhirAppointment(appointment: Appointment, patientRef: FhirReference): FhirAppointment {
+    const participant: FhirAppointment['participant'] = [{ actor: patientRef, status: 'accepted' }];
+    if (appointment.doctorId) participant.push({ actor: { display: appointment.doctorId }, status: 'accepted' });
+    return {
+        resourceType: 'Appointment',
+        id: uuid(),
+        status: APPOINTMENT_STATUS_TO_FHIR[appointment.status] ?? 'booked',
+        ...(appointment.cancellationReason ? { cancelationReason: { text: appointment.cancellationReason } } : {}),
+        ...(appointment.reason ? { description: appointment.reason } : {}),
+        ...(appointment.ailments ? { reasonCode: [{ text: appointment.ailments }] } : {}),
+        start: appointmentStart(appointment).toISOString(),
+        ...(appointment.notes ? { comment: appointment.notes } : {}),
+        participant
+    };
+}
+
+/**
+ * The complete record as a FHIR R4 collection Bundle. Resources reference
+ * each other by `urn:uuid:` full URLs, so the bundle stands on its own.
+ */
+export function buildPatientBundle(record: FhirPatientRecord, exportedAt: Date = new Date()): FhirBundle {
+    const { patient } = record;
+    const patientId = uuid();
+    const patientRef: FhirReference = { reference: `urn:uuid:${patientId}`, display: patient.name };
+    const resources: FhirResource[] = [toFhirPatient(patient, patientId)];
+
+    const patientObservation = (code: { code: string; display: string }, value: FhirObservation['valueString'] | FhirCodeableConcept) => {
+        const observation: FhirObservation = {
+            resourceType: 'Observation',
+            id: uuid(),
+            status: 'final',
+            code: loinc(code),
+            subject: patientRef
+        };
+        if (typeof value === 'string') observation.valueString = value;
+        else observation.valueCodeableConcept = value;
+        return observation;
+    };
+    if (patient.bloodGroup) resources.push(patientObservation(BLOOD_GROUP_CODE, { text: patient.bloodGroup }));
+    if (patient.occupation) resources.push(patientObservation(OCCUPATION_CODE, patient.occupation));
+
+    resources.push(...(patient.allergies || []).map(a => toFhirAllergy(a, patientRef)));
+    resources.push(...(patient.ailments || []).map(p => toFhirProblem(p, patientRef)));
+    for (const visit of record.visits) resources.push(...toFhirVisit(visit, patientRef));
+    resources.push(...record.appointments.map(a => toFhirAppointment(a, patientRef)));
+
+    return {
+        resourceType: 'Bundle',
+        id: uuid(),
+        type: 'collection',
+        timestamp: exportedAt.toISOString(),
+        entry: resources.map(resource => ({ fullUrl: `urn:uuid:${resource.id}`, resource }))
+    };
+}
+
+/**
+ * Save a bundle as a .json file through a temporary link
+ */
+export function downloadFhirBundle(bundle: FhirBundle, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// ──── IMPORT ────
+
+/**
+ * FHIR date ("1990", "1990-08", "1990-08-15") or dateTime. Plain dates are
+ * read as local dates so a birth date does not shift a day across time zones.
+ */
+export function parseFhirDate(value: string | undefined): Date | null {
+    if (!value) return null;
+    const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+    const date = match
+        ? new Date(+match[1], match[2] ? +match[2] - 1 : 0, match[3] ? +match[3] : 1)
+        : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function conceptText(value: FhirCodeableConcept | undefined): string {
+    return (value?.text || value?.coding?.find(c => c.display)?.display || value?.coding?.[0]?.code || '').trim();
+}
+
+function codeIn(value: FhirCodeableConcept | undefined, system: string): string | undefined {
+    return value?.coding?.find(c => c.system === system && c.code)?.code;
+}
+
+function extensionValue(resource: { extension?: FhirExtension[] }, prefix: string, key: string): string | undefined {
+    const ext = resource.extension?.find(e => e.url === `${EXTENSION_PREFIX}${prefix}-${key}`);
+    return (ext?.valueString ?? ext?.valueDate)?.trim() || undefined;
+}
+
+function label(resource: { resourceType: string; id?: string }, index: number): string {
+    return `${resource.resourceType}/${resource.id || `#${index + 1}`}`;
+}
+
+function fromFhirGender(gender: string | undefined): string | undefined {
+    if (gender === 'male') return 'Male';
+    if (gender === 'female') return 'Female';
+    if (gender === 'other') return 'Other';
+    return undefined;
+}
+
+function fromFhirPatient(resource: FhirPatient): FhirImportPatient {
+    const name = resource.name?.[0];
+    const fullName = (name?.text || [...(name?.given || []), name?.family].filter(p => p).join(' ')).trim().replace(/\s+/g, ' ');
+    const phones = (resource.telecom || [])
+        .filter(t => t.system === 'phone' && t.value)
+        .sort((a, b) => (a.rank ?? 99) - (b.rank ?? 99))
+        .map(t => normalizeImportPhone(t.value!));
+    const address = resource.address?.[0];
+    const contact = resource.contact?.[0];
+
+    const patient: FhirImportPatient = {
+        name: fullName,
+        phone: phones[0] || '',
+        ...cleanDemographics({
+            address: {
+                line1: address?.line?.[0],
+                line2: address?.line?.slice(1).join(', '),
+                city: address?.city,
+                state: address?.state,
+                postalCode: address?.postalCode,
+                country: address?.country
+            },
+            alternatePhone: phones.find(p => p !== phones[0]) || '',
+            emergencyContact: {
+                name: contact?.name?.text,
+                relation: conceptText(contact?.relationship?.[0]),
+                phone: contact?.telecom?.find(t => t.system === 'phone')?.value
+                    ? normalizeImportPhone(contact.telecom.find(t => t.system === 'phone')!.value!)
+                    : ''
+            },
+            preferredLanguage: conceptText(resource.communication?.find(c => c.preferred)?.language ?? resource.communication?.[0]?.language),
+            governmentIds: (resource.identifier || [])
+                .filter(id => id.system?.startsWith(`${FHIR_SYSTEMS.governmentId}:`) && id.value)
+                .map(id => ({ type: id.system!.slice(FHIR_SYSTEMS.governmentId.length + 1) as GovernmentIdType, number: id.value! }))
+                .filter(id => GOVERNMENT_ID_TYPES.some(t => t.value === id.type))
+        })
+    };
+    const email = resource.telecom?.find(t => t.system === 'email' && t.value)?.value;
+    if (email) patient.email = email.trim();
+    const gender = fromFhirGender(resource.gender);
+    if (gender) patient.gender = gender;
+    return patient;
+}
+
+function fromFhirAllergy(resource: FhirAllergyIntolerance, fallbackDate: Date): Allergy {
+    const substance = conceptText(resource.code);
+    const category = resource.category?.[0];
+    const reaction = resource.reaction?.[0];
+    const severity: AllergySeverity = reaction?.severity
+        ?? (resource.criticality === 'high' ? 'severe' : 'unknown');
+    const manifestation = conceptText(reaction?.manifestation?.[0]);
+    return cleanAllergy({
+        substance,
+        category: category === 'food' ? 'food'
+            : category === 'environment' ? 'environmental'
+                : category === 'medication' || category === 'biologic' ? 'drug'
+                    : guessAllergyCategory(substance),
+        ...(manifestation && manifestation !== 'Unspecified reaction' ? { reaction: manifestation } : {}),
+        severity,
+        recordedAt: parseFhirDate(resource.recordedDate) ?? fallbackDate
+    });
+}
+
+function fromFhirProblem(resource: FhirCondition, fallbackDate: Date): Problem {
+    const status = codeIn(resource.clinicalStatus, FHIR_SYSTEMS.conditionClinical) || 'active';
+    const onset = parseFhirDate(resource.onsetDateTime);
+    const notes = (resource.note || []).map(n => n.text).filter(t => t).join('\n');
+    return cleanProblem({
+        condition: conceptText(resource.code),
+        status: status === 'resolved' || status === 'inactive' ? 'resolved' : status === 'remission' ? 'in-remission' : 'active',
+        ...(onset ? { onsetDate: onset } : {}),
+        ...(codeIn(resource.code, FHIR_SYSTEMS.icd10) ? { icdCode: codeIn(resource.code, FHIR_SYSTEMS.icd10) } : {}),
+        ...(notes ? { notes } : {}),
+        recordedAt: parseFhirDate(resource.recordedDate) ?? fallbackDate
+    });
+}
+
+function fromFhirMedicationRequest(resource: FhirMedicationRequest): Medicine {
+    const dosage = resource.dosageInstruction?.[0];
+    return cleanMedicine({
+        name: conceptText(resource.medicationCodeableConcept),
+        // Without our extension, the free-text sig is the best available dosage
+        dosage: extensionValue(resource, 'medicine', 'dosage') ?? (dosage?.timing?.code ? '' : dosage?.text || ''),
+        frequency: conceptText(dosage?.timing?.code),
+        duration: extensionValue(resource, 'medicine', 'duration'),
+        route: conceptText(dosage?.route),
+        instructions: dosage?.patientInstruction,
+        quantity: resource.dispenseRequest?.quantity?.value
+    });
+}
+
+function fromFhirVitals(observations: FhirObservation[]): Vitals | undefined {
+    const raw: Partial<Record<VitalKey, number>> = {};
+    for (const observation of observations) {
+        const code = codeIn(observation.code, FHIR_SYSTEMS.loinc);
+        if (code === BP_PANEL.code) {
+            for (const component of observation.component || []) {
+                const part = codeIn(component.code, FHIR_SYSTEMS.loinc);
+                if (part === BP_SYSTOLIC.code) raw.systolicBp = component.valueQuantity?.value;
+                if (part === BP_DIASTOLIC.code) raw.diastolicBp = component.valueQuantity?.value;
+            }
+            continue;
+        }
+        if (code === BP_SYSTOLIC.code) raw.systolicBp = observation.valueQuantity?.value;
+        if (code === BP_DIASTOLIC.code) raw.diastolicBp = observation.valueQuantity?.value;
+        const vital = VITAL_CODES.find(v => v.code === code);
+        if (vital) raw[vital.key] = observation.valueQuantity?.value;
+    }
+    return cleanVitals(raw);
+}
+
+function fromFhirAppointmentStatus(status: string): AppointmentStatus {
+    if (status === 'fulfilled') return 'completed';
+    if (status === 'cancelled') return 'cancelled';
+    if (status === 'noshow') return 'no-show';
+    return 'scheduled';
+}
+
+/**
+ * Read a bundle holding one patient's record. Returns readable errors (and
+ * no data) when the bundle cannot be imported as a whole. Resources it can
+ * safely leave out are listed in `warnings`, with or without errors.
+ */
+export function parsePatientBundle(raw: unknown): FhirParseResult {
+    const bundle = raw as FhirBundle;
+    if (!bundle || typeof bundle !== 'object' || bundle.resourceType !== 'Bundle') {
+        return { data: null, errors: ['The file is not a FHIR Bundle (resourceType must be "Bundle")'], warnings: [] };
+    }
+    if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) {
+        return { data: null, errors: ['The bundle has no entries'], warnings: [] };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const entries = bundle.entry
+        .map((e, index) => ({ fullUrl: e?.fullUrl, resource: e?.resource as FhirResource, index }))
+        .filter(e => e.resource && typeof e.resource === 'object');
+
+    const patients = entries.filter(e => e.resource.resourceType === 'Patient');
+    if (patients.length !== 1) {
+        return { data: null, errors: [`The bundle must contain exactly one Patient (found ${patients.length})`], warnings: [] };
+    }
+    const patientEntry = patients[0];
+    const patientResource = patientEntry.resource as FhirPatient;
+
+    // Every way the patient may be referenced inside the bundle
+    const patientRefs = new Set([patientEntry.fullUrl, patientResource.id && `Patient/${patientResource.id}`].filter(r => r));
+    const isOtherPatient = (ref: FhirReference | undefined) => !!ref?.reference && !patientRefs.has(ref.reference);
+
+    const patient = fromFhirPatient(patientResource);
+    if (!patient.name) errors.push('Patient: name is missing');
+    if (!patient.phone) errors.push('Patient: no phone number in telecom');
+    if (patientResource.birthDate) {
+        const dob = parseFhirDate(patientResource.birthDate);
+        if (dob) patient.dateOfBirth = dob;
+        else errors.push(`Patient: birthDate "${patientResource.birthDate}" is not a date`);
+    }
+    errors.push(...validatePatientData(patient).errors.map(e => `Patient: ${e}`));
+
+    const now = new Date();
+    const encounters = new Map<string, { resource: FhirEncounter; index: number }>();
+    const conditionsByRef = new Map<string, FhirCondition>();
+    const medicinesByEncounter = new Map<string, Medicine[]>();
+    const vitalsByEncounter = new Map<string, FhirObservation[]>();
+    const diagnosesByEncounter = new Map<string, FhirCondition[]>();
+    const appointments: FhirImportAppointment[] = [];
+    const allergies: Allergy[] = [];
+    const problems: Problem[] = [];
+    const skipped = new Map<string, number>();
+
+    const refsOf = (entry: { fullUrl?: string; resource: FhirResource }) =>
+        [entry.fullUrl, entry.resource.id && `${entry.resource.resourceType}/${entry.resource.id}`].filter((r): r is string => !!r);
+
+    for (const entry of entries) {
+        const resource = entry.resource;
+        if (resource.resourceType === 'Encounter') {
+            const found = { resource, index: entry.index };
+            refsOf(entry).forEach(ref => encounters.set(ref, found));
+        } else if (resource.resourceType === 'Condition') {
+            refsOf(entry).forEach(ref => conditionsByRef.set(ref, resource));
+        }
+    }
+    const encounterKey = (ref: FhirReference | undefined) => {
+        const found = ref?.reference ? encounters.get(ref.reference) : undefined;
+        return found ? (found.resource.id || String(found.index)) : undefined;
+    };
+    const pushTo = <T>(map: Map<string, T[]>, key: string, value: T) => map.set(key, [...(map.get(key) || []), value]);
+
+    for (const { resource, index } of entries) {
+        const where = label(resource, index);
+        switch (resource.resourceType) {
+            case 'Patient':
+            case 'Encounter':
+                break;
+
+            case 'AllergyIntolerance':
+                if (isOtherPatient(resource.patient)) { errors.push(`${where}: refers to a different patient`); break; }
+                if (!conceptText(resource.code)) { errors.push(`${where}: substance (code) is missing`); break; }
+                allergies.push(fromFhirAllergy(resource, now));
+                break;
+
+            case 'Condition': {
+                if (isOtherPatient(resource.subject)) { errors.push(`${where}: refers to a different patient`); break; }
+                if (!conceptText(resource.code)) { errors.push(`${where}: condition (code) is missing`); break; }
+                const encounter = encounterKey(resource.encounter);
+                const isEncounterDiagnosis = resource.category?.some(c => codeIn(c, FHIR_SYSTEMS.conditionCategory) === 'encounter-diagnosis');
+                if (encounter) pushTo(diagnosesByEncounter, encounter, resource);
+                else if (isEncounterDiagnosis) warnings.push(`${where}: diagnosis without a visit in the bundle was skipped`);
+                else problems.push(fromFhirProblem(resource, now));
+                break;
+            }
+
+            case 'MedicationRequest': {
+                if (isOtherPatient(resource.subject)) { errors.push(`${where}: refers to a different patient`); break; }
+                if (!conceptText(resource.medicationCodeableConcept)) { errors.push(`${where}: medication name is missing`); break; }
+                const encounter = encounterKey(resource.encounter);
+                if (encounter) pushTo(medicinesByEncounter, encounter, fromFhirMedicationRequest(resource));
+                else warnings.push(`${where}: prescription without a visit in the bundle was skipped`);
+                break;
+            }
+
+            case 'Observation': {
+                if (isOtherPatient(resource.subject)) { errors.push(`${where}: refers to a different patient`); break; }
+                const code = codeIn(resource.code, FHIR_SYSTEMS.loinc);
+                if (code === BLOOD_GROUP_CODE.code) {
+                    patient.bloodGroup = conceptText(resource.valueCodeableConcept) || resource.valueString?.trim();
+                } else if (code === OCCUPATION_CODE.code) {
+                    patient.occupation = resource.valueString?.trim() || conceptText(resource.valueCodeableConcept);
+                } else {
+                    const encounter = encounterKey(resource.encounter);
+                    if (encounter) pushTo(vitalsByEncounter, encounter, resource);
+                    else warnings.push(`${where}: observation without a visit in the bundle was skipped`);
+                }
+                break;
+            }
+
+            case 'Appointment': {
+                const start = parseFhirDate(resource.start);
+                if (!start) { errors.push(`${where}: start date is missing or invalid`); break; }
+                if (resource.participant?.some(p => p.actor?.reference && isOtherPatient(p.actor))
+                    && !resource.participant.some(p => p.actor?.reference && patientRefs.has(p.actor.reference))) {
+                    errors.push(`${where}: refers to a different patient`);
+                    break;
+                }
+                if (resource.status === 'entered-in-error') break;
+                appointments.push({
+                    appointmentDate: new Date(start.getFullYear(), start.getMonth(), start.getDate()),
+                    appointmentTime: `${String(start.getHours()).padStart(2, '0')}:${String(start.getMinutes()).padStart(2, '0')}`,
+                    status: fromFhirAppointmentStatus(resource.status),
+                    ...(resource.description ? { reason: resource.description } : {}),
+                    ...(conceptText(resource.reasonCode?.[0]) ? { ailments: conceptText(resource.reasonCode?.[0]) } : {}),
+                    ...(resource.comment ? { notes: resource.comment } : {})
+                });
+                break;
+            }
+
+            default: {
+                const type = (resource as { resourceType: string }).resourceType || 'unknown';
+                skipped.set(type, (skipped.get(type) || 0) + 1);
+            }
+        }
+    }
+    for (const [type, count] of skipped) {
+        warnings.push(`${count} ${type} resource${count === 1 ? ' is' : 's are'} not supported and will be skipped`);
+    }
+
+    const visits: FhirImportVisit[] = [];
+    for (const { resource, index } of new Set(encounters.values())) {
+        const where = label(resource, index);
+        if (isOtherPatient(resource.subject)) { errors.push(`${where}: refers to a different patient`); continue; }
+        const recordedAt = parseFhirDate(resource.period?.start);
+        if (!recordedAt) { errors.push(`${where}: period.start (visit date) is missing or invalid`); continue; }
+
+        const key = resource.id || String(index);
+        const conditions = diagnosesByEncounter.get(key) || [];
+        const rankOf = (c: FhirCondition) => resource.diagnosis?.find(d =>
+            d.condition.reference && conditionsByRef.get(d.condition.reference) === c)?.rank;
+        const coded = conditions.filter(c => codeIn(c.code, FHIR_SYSTEMS.icd10));
+        const primaryIndex = Math.max(0, coded.findIndex(c => rankOf(c) === 1));
+        const diagnosisCodes: CodedDiagnosis[] = coded.map((c, i) => ({
+            code: codeIn(c.code, FHIR_SYSTEMS.icd10)!,
+            description: conceptText(c.code),
+            type: i === primaryIndex ? 'primary' : 'secondary'
+        }));
+        const note = (field: typeof VISIT_NOTE_FIELDS[number]) => extensionValue(resource, 'visit', field);
+        const visitType = note('visitType');
+        const followUp = parseFhirDate(extensionValue(resource, 'visit', 'followUpDate'));
+        const medicines = medicinesByEncounter.get(key) || [];
+        const vitals = fromFhirVitals(vitalsByEncounter.get(key) || []);
+
+        visits.push({
+            recordedAt,
+            visit: {
+                chiefComplaints: (resource.reasonCode || []).map(conceptText).filter(t => t).join(', '),
+                diagnosis: note('diagnosis') ?? conditions.filter(c => !codeIn(c.code, FHIR_SYSTEMS.icd10)).map(c => conceptText(c.code)).join(', '),
+                examination: note('examination') || '',
+                treatmentPlan: note('treatmentPlan') || '',
+                advice: note('advice') || '',
+                ...(note('presentIllness') ? { presentIllness: note('presentIllness') } : {}),
+                ...(visitType === 'appointment' || visitType === 'walk-in' ? { visitType } : {}),
+                ...(diagnosisCodes.length ? { diagnosisCodes } : {}),
+                ...(medicines.length ? { medicines } : {}),
+                ...(vitals ? { vitals } : {}),
+                ...(followUp ? { followUpDate: followUp } : {})
+            }
+        });
+    }
+
+    if (errors.length) return { data: null, errors, warnings };
+    if (allergies.length) patient.allergies = allergies;
+    if (problems.length) patient.ailments = problems;
+    visits.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    return { data: { patient, visits, appointments }, errors: [], warnings };
+}
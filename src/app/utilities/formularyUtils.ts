@@ -0,0 +1,136 @@
+/**
+ * Formulary Utilities
+ * CSV import mapping, list cleanup and autocomplete matching for the clinic formulary
+ */
+
+import { FormularyDrug, FormularyDrugInput } from '../models/formulary.model';
+import { normalizeCsvHeader, parseCsv } from './csvUtils';
+
+export interface FormularyImportError {
+    line: number;     // 1-based row in the CSV (header = 1, blank lines not counted)
+    message: string;
+}
+
+export interface FormularyImportResult {
+    drugs: FormularyDrugInput[];
+    errors: FormularyImportError[];
+}
+
+/**
+ * Accepted header spellings for each formulary field
+ */
+const HEADER_ALIASES: Record<keyof FormularyDrugInput, string[]> = {
+    genericName: ['generic_name', 'generic', 'name', 'drug', 'medicine'],
+    brands: ['brands', 'brand', 'brand_names'],
+    strengths: ['strengths', 'strength', 'dosage', 'dosages'],
+    forms: ['forms', 'form', 'dosage_form'],
+    defaultFrequency: ['default_frequency', 'frequency'],
+    defaultRoute: ['default_route', 'route']
+};
+
+/** Case-insensitive key used to detect duplicate generic names */
+export function formularyKey(genericName: string): string {
+    return (genericName || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Split a multi-value cell ("250mg; 500mg" or "Mox|Novamox") into unique trimmed values
+ */
+export function splitFormularyList(value: string | undefined): string[] {
+    return mergeFormularyLists((value || '').split(/[;|]/));
+}
+
+/**
+ * Union of lists, case-insensitive, preserving the first spelling seen
+ */
+export function mergeFormularyLists(...lists: string[][]): string[] {
+    const seen = new Map<string, string>();
+    for (const item of lists.flat()) {
+        const trimmed = (item || '').trim();
+        if (trimmed && !seen.has(trimmed.toLowerCase())) seen.set(trimmed.toLowerCase(), trimmed);
+    }
+    return Array.from(seen.values());
+}
+
+/**
+ * Map CSV text to formulary entries. The first row must be a header;
+ * rows without a generic name are reported and skipped, repeated names are merged.
+ */
+export function parseFormularyCsv(text: string): FormularyImportResult {
+    const rows = parseCsv(text);
+    const errors: FormularyImportError[] = [];
+    if (rows.length === 0) return { drugs: [], errors: [{ line: 1, message: 'The file is empty' }] };
+
+    const headers = rows[0].map(normalizeCsvHeader);
+    const columnOf = (field: keyof FormularyDrugInput) =>
+        headers.findIndex(h => HEADER_ALIASES[field].includes(h));
+    const cols = {
+        genericName: columnOf('genericName'),
+        brands: columnOf('brands'),
+        strengths: columnOf('strengths'),
+        forms: columnOf('forms'),
+        defaultFrequency: columnOf('defaultFrequency'),
+        defaultRoute: columnOf('defaultRoute')
+    };
+    if (cols.genericName < 0) {
+        return { drugs: [], errors: [{ line: 1, message: 'Missing a "generic_name" column' }] };
+    }
+
+    const byKey = new Map<string, FormularyDrugInput>();
+    rows.slice(1).forEach((row, i) => {
+        const cell = (col: number) => (col >= 0 ? (row[col] || '').trim() : '');
+        const genericName = cell(cols.genericName);
+        if (!genericName) {
+            errors.push({ line: i + 2, message: 'Generic name is required' });
+            return;
+        }
+        const drug: FormularyDrugInput = {
+            genericName,
+            brands: splitFormularyList(cell(cols.brands)),
+            strengths: splitFormularyList(cell(cols.strengths)),
+            forms: splitFormularyList(cell(cols.forms))
+        };
+        if (cell(cols.defaultFrequency)) drug.defaultFrequency = cell(cols.defaultFrequency);
+        if (cell(cols.defaultRoute)) drug.defaultRoute = cell(cols.defaultRoute);
+
+        const existing = byKey.get(formularyKey(genericName));
+        byKey.set(formularyKey(genericName), existing ? mergeFormularyDrug(existing, drug) : drug);
+    });
+
+    return { drugs: Array.from(byKey.values()), errors };
+}
+
+/**
+ * Combine two entries for the same generic; list fields are unioned,
+ * defaults from `incoming` win when present
+ */
+export function mergeFormularyDrug<T extends FormularyDrugInput>(base: T, incoming: FormularyDrugInput): T {
+    const merged: T = {
+        ...base,
+        brands: mergeFormularyLists(base.brands, incoming.brands),
+        strengths: mergeFormularyLists(base.strengths, incoming.strengths),
+        forms: mergeFormularyLists(base.forms, incoming.forms)
+    };
+    if (incoming.defaultFrequency) merged.defaultFrequency = incoming.defaultFrequency;
+    if (incoming.defaultRoute) merged.defaultRoute = incoming.defaultRoute;
+    return merged;
+}
+
+/**
+ * Autocomplete matches: generic or brand names starting with the term rank first,
+ * then names containing it
+ */
+export function searchFormulary(drugs: FormularyDrug[], term: string, max = 8): FormularyDrug[] {
+    const q = (term || '').trim().toLowerCase();
+    if (!q) return [];
+    const scored: Array<{ drug: FormularyDrug; score: number }> = [];
+    for (const drug of drugs) {
+        const names = [drug.genericName, ...drug.brands].map(n => n.toLowerCase());
+        const score = names.some(n => n.startsWith(q)) ? 0 : names.some(n => n.includes(q)) ? 1 : -1;
+        if (score >= 0) scored.push({ drug, score });
+    }
+    return scored
+        .sort((a, b) => a.score - b.score || a.drug.genericName.localeCompare(b.drug.genericName))
+        .slice(0, max)
+        .map(s => s.drug);
+}
@@ -0,0 +1,93 @@
+/**
+ * ICD-10 Utilities
+ * Offline code search and helpers for coded visit diagnoses.
+ * The bundled list in data/icd10Codes.json covers common outpatient codes;
+ * add entries there to extend the picker.
+ */
+
+import icd10CodesData from '../data/icd10Codes.json';
+import { CodedDiagnosis, Visit } from '../models/patient.model';
+
+export interface Icd10Code {
+    code: string;
+    description: string;
+}
+
+export interface DiagnosisCodeCount extends Icd10Code {
+    count: number;
+    primaryCount: number;
+    lastSeen: Date;
+}
+
+export const ICD10_CODES: Icd10Code[] = icd10CodesData as Icd10Code[];
+
+/** Code without the dot, upper-cased: "j06.9" → "J069" */
+function compactCode(code: string): string {
+    return (code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Codes matching a search term. A code prefix ranks first, then descriptions
+ * with a word starting with the term, then descriptions containing every word.
+ */
+export function searchIcd10(term: string, max = 10, codes: Icd10Code[] = ICD10_CODES): Icd10Code[] {
+    const q = (term || '').trim().toLowerCase();
+    if (!q) return [];
+    const qCode = compactCode(q);
+    const words = q.split(/\s+/);
+
+    const scored: Array<{ entry: Icd10Code; score: number }> = [];
+    for (const entry of codes) {
+        const description = entry.description.toLowerCase();
+        let score = -1;
+        if (qCode && compactCode(entry.code).startsWith(qCode)) score = 0;
+        else if (description.split(/[^a-z0-9]+/).some(w => w.startsWith(q))) score = 1;
+        else if (words.every(w => description.includes(w))) score = 2;
+        if (score >= 0) scored.push({ entry, score });
+    }
+    return scored
+        .sort((a, b) => a.score - b.score || a.entry.code.localeCompare(b.entry.code))
+        .slice(0, max)
+        .map(s => s.entry);
+}
+
+/** "J06.9 — Acute upper respiratory infection, unspecified" */
+export function formatCodedDiagnosis(diagnosis: Icd10Code): string {
+    return `${diagnosis.code} — ${diagnosis.description}`;
+}
+
+/**
+ * Drop repeated codes and make sure exactly one entry is primary (listed first).
+ * When none is marked primary the first code is promoted.
+ */
+export function normalizeDiagnosisCodes(list: CodedDiagnosis[] | undefined): CodedDiagnosis[] {
+    const unique: CodedDiagnosis[] = [];
+    for (const d of list || []) {
+        if (!d?.code || unique.some(u => compactCode(u.code) === compactCode(d.code))) continue;
+        unique.push({ code: d.code.trim(), description: (d.description || '').trim(), type: d.type });
+    }
+    const primaryIndex = Math.max(0, unique.findIndex(d => d.type === 'primary'));
+    return unique
+        .map((d, i): CodedDiagnosis => ({ ...d, type: i === primaryIndex ? 'primary' : 'secondary' }))
+        .sort((a, b) => (a.type === b.type ? 0 : a.type === 'primary' ? -1 : 1));
+}
+
+/**
+ * How often each code was recorded across visits, most frequent first
+ */
+export function countDiagnosisCodes(visits: Pick<Visit, 'diagnosisCodes' | 'createdAt'>[]): DiagnosisCodeCount[] {
+    const counts = new Map<string, DiagnosisCodeCount>();
+    for (const visit of visits) {
+        const seen = new Date(visit.createdAt);
+        for (const d of visit.diagnosisCodes || []) {
+            const key = compactCode(d.code);
+            const entry = counts.get(key) ?? { code: d.code, description: d.description, count: 0, primaryCount: 0, lastSeen: seen };
+            entry.count++;
+            if (d.type === 'primary') entry.primaryCount++;
+            if (seen > entry.lastSeen) entry.lastSeen = seen;
+            counts.set(key, entry);
+        }
+    }
+    return Array.from(counts.values())
+        .sort((a, b) => b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime());
+}
@@ -0,0 +1,137 @@
+/**
+ * Lab Order Utilities
+ * Test catalog lookups, reference-range flags and trend series for lab results.
+ * The bundled catalog in data/labTests.json lists common tests with their
+ * analytes; tests not in the catalog can still be ordered by name.
+ */
+
+import labTestsData from '../data/labTests.json';
+import { LabOrder, LabOrderStatus, LabResultValue } from '../models/labOrder.model';
+
+export interface LabAnalyteDefinition {
+    name: string;
+    unit?: string;
+    referenceLow?: number;
+    referenceHigh?: number;
+}
+
+export interface LabTestDefinition {
+    name: string;
+    analytes: LabAnalyteDefinition[];
+}
+
+export type LabResultFlag = 'low' | 'high';
+
+/** Numeric results of one analyte across orders, oldest first */
+export interface LabTrendSeries {
+    key: string;
+    name: string;
+    unit?: string;
+    referenceLow?: number;
+    referenceHigh?: number;
+    points: Array<{ date: Date; value: number }>;
+}
+
+export const LAB_TESTS: LabTestDefinition[] = labTestsData as LabTestDefinition[];
+
+export const LAB_ORDER_STATUS_LABELS: Record<LabOrderStatus, string> = {
+    'ordered': 'Ordered',
+    'sample-collected': 'Sample collected',
+    'resulted': 'Resulted'
+};
+
+export function findLabTest(name: string): LabTestDefinition | undefined {
+    const key = (name || '').trim().toLowerCase();
+    return LAB_TESTS.find(t => t.name.toLowerCase() === key);
+}
+
+/**
+ * Empty result rows for a test — the catalog analytes with units and ranges,
+ * or a single row named after the test when it is not in the catalog.
+ */
+export function defaultLabResults(testName: string): LabResultValue[] {
+    const test = findLabTest(testName);
+    const analytes: LabAnalyteDefinition[] = test ? test.analytes : [{ name: testName.trim() }];
+    return analytes.map(a => ({ ...a, value: '' }));
+}
+
+export function isPendingLabOrder(order: Pick<LabOrder, 'status'>): boolean {
+    return order.status !== 'resulted';
+}
+
+/** The value as a number, or null for qualitative results like "Negative" */
+export function numericLabValue(value: string | number | null | undefined): number | null {
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim().replace(/,/g, '');
+    if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+    return Number(text);
+}
+
+export function labResultFlag(result: LabResultValue): LabResultFlag | null {
+    const value = numericLabValue(result.value);
+    if (value === null) return null;
+    if (result.referenceLow !== undefined && value < result.referenceLow) return 'low';
+    if (result.referenceHigh !== undefined && value > result.referenceHigh) return 'high';
+    return null;
+}
+
+/** "12–17", "< 200", "> 40" or '' when no range is known */
+export function formatReferenceRange(range: Pick<LabResultValue, 'referenceLow' | 'referenceHigh'>): string {
+    const { referenceLow: low, referenceHigh: high } = range;
+    if (low !== undefined && high !== undefined) return `${low}–${high}`;
+    if (high !== undefined) return `< ${high}`;
+    if (low !== undefined) return `> ${low}`;
+    return '';
+}
+
+/** "Hemoglobin 13.2 g/dL" */
+export function formatLabResult(result: LabResultValue): string {
+    return [result.name, result.value, result.unit].filter(p => p && String(p).trim()).join(' ');
+}
+
+/** Keep only filled-in result rows, trimmed, without empty optional fields */
+export function cleanLabResults(results: LabResultValue[]): LabResultValue[] {
+    return results
+        .map(r => ({ ...r, name: (r.name || '').trim(), value: String(r.value ?? '').trim(), unit: (r.unit || '').trim() }))
+        .filter(r => r.name && r.value)
+        .map(r => {
+            const cleaned: LabResultValue = { name: r.name, value: r.value };
+            if (r.unit) cleaned.unit = r.unit;
+            if (typeof r.referenceLow === 'number' && !isNaN(r.referenceLow)) cleaned.referenceLow = r.referenceLow;
+            if (typeof r.referenceHigh === 'number' && !isNaN(r.referenceHigh)) cleaned.referenceHigh = r.referenceHigh;
+            return cleaned;
+        });
+}
+
+/**
+ * One chartable series per analyte (name + unit) with at least one numeric
+ * result. The latest reported reference range is used for the series.
+ */
+export function buildLabTrendSeries(orders: LabOrder[]): LabTrendSeries[] {
+    const resulted = orders
+        .filter(o => o.status === 'resulted')
+        .sort((a, b) => labResultDate(a).getTime() - labResultDate(b).getTime());
+
+    const byKey = new Map<string, LabTrendSeries>();
+    for (const order of resulted) {
+        const date = labResultDate(order);
+        for (const result of order.results || []) {
+            const value = numericLabValue(result.value);
+            if (value === null) continue;
+            const key = `${result.name.toLowerCase()}|${(result.unit || '').toLowerCase()}`;
+            let series = byKey.get(key);
+            if (!series) {
+                series = { key, name: result.name, unit: result.unit, points: [] };
+                byKey.set(key, series);
+            }
+            series.referenceLow = result.referenceLow;
+            series.referenceHigh = result.referenceHigh;
+            series.points.push({ date, value });
+        }
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function labResultDate(order: LabOrder): Date {
+    return new Date(order.resultedAt ?? order.orderedAt);
+}
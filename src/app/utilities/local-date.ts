@@ -11,3 +11,34 @@ export function todayLocalISO(): string {
   const day = String(d.getDate()).padStart(2, '0');
   return `${y}-${m}-${day}`;
 }
+
+/**
+ * Returns the local date `days` days from today as a YYYY-MM-DD string.
+ */
+export function addDaysLocalISO(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/**
+ * Whole days from today until a YYYY-MM-DD date (negative for past dates).
+ */
+export function daysFromTodayLocal(dateStr: string): number {
+  const today = new Date(`${todayLocalISO()}T00:00:00`);
+  const target = new Date(`${dateStr}T00:00:00`);
+  return Math.round((target.getTime() - today.getTime()) / 86_400_000);
+}
+
+/**
+ * Local YYYY-MM-DD for a date, e.g. to fill an `<input type="date">`.
+ */
+export function toLocalISO(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Medical Record Number Utilities
+ * Short sequential numbers, issued per clinic (or per doctor without a
+ * clinic), that staff can read out over the phone. The counter itself lives
+ * in Firestore — see FirebaseService.addPatient.
+ */
+
+import { DEFAULT_SYSTEM_SETTINGS, PatientConfig } from '../config/systemSettings';
+
+type MrnFormat = Pick<PatientConfig, 'mrnPrefix' | 'mrnDigits'>;
+
+/** Firestore collection holding one counter document per scope */
+export const MRN_COUNTERS_COLLECTION = 'mrnCounters';
+
+/** Counter document of the clinic, or of the user when there is no clinic */
+export function mrnCounterId(userId: string, clinicId?: string | null): string {
+    return clinicId ? `clinic:${clinicId}` : `user:${userId}`;
+}
+
+/** 42 → "MR-000042"; longer sequences simply grow past the padding */
+export function formatMrn(sequence: number, format: MrnFormat = DEFAULT_SYSTEM_SETTINGS.patient): string {
+    const digits = String(sequence).padStart(format.mrnDigits, '0');
+    return format.mrnPrefix ? `${format.mrnPrefix}-${digits}` : digits;
+}
+
+/**
+ * The stored MRN a search term refers to, or null when it cannot be one.
+ * Accepts "MR-000042", "mr42", "MR 42", "000042" and "42".
+ */
+export function parseMrn(term: string, format: MrnFormat = DEFAULT_SYSTEM_SETTINGS.patient): string | null {
+    const compact = (term || '').trim().replace(/[\s-]/g, '').toUpperCase();
+    const prefix = format.mrnPrefix.toUpperCase();
+    const digits = prefix && compact.startsWith(prefix) ? compact.slice(prefix.length) : compact;
+    if (!/^\d{1,12}$/.test(digits)) return null;
+    const sequence = Number(digits);
+    return sequence > 0 ? formatMrn(sequence, format) : null;
+}
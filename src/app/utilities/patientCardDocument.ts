@@ -0,0 +1,101 @@
+/**
+ * Patient Card Document
+ * Builds the standalone, print-ready HTML for a wallet-sized patient ID card
+ * (85.6 × 54 mm) with the QR code reception scans to find the patient.
+ */
+
+import moment from 'moment';
+import { Patient } from '../models/patient.model';
+import { LetterheadConfig } from '../config/systemSettings';
+import { escapeHtml } from './prescriptionDocument';
+
+export interface PatientCardData {
+    letterhead: LetterheadConfig;
+    patient: Pick<Patient, 'uniqueId' | 'name' | 'mrn' | 'phone' | 'gender' | 'dateOfBirth' | 'bloodGroup' | 'photoUrl'>;
+    /** SVG markup of the patient's QR code — see patientQr */
+    qrSvg: string;
+}
+
+function initials(name: string): string {
+    return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+}
+
+function formatDob(dob: Date | any): string {
+    if (!dob) return '';
+    const m = moment(typeof dob.toDate === 'function' ? dob.toDate() : dob);
+    return m.isValid() ? m.format('DD MMM YYYY') : '';
+}
+
+function field(label: string, value: string | undefined): string {
+    return value ? `<div class="card-field"><span>${escapeHtml(label)}</span>${escapeHtml(value)}</div>` : '';
+}
+
+/**
+ * Full HTML document for the ID card print window
+ */
+export function buildPatientCardHtml(data: PatientCardData): string {
+    const { letterhead, patient, qrSvg } = data;
+    const photo = patient.photoUrl
+        ? `<img class="card-photo" src="${escapeHtml(patient.photoUrl)}" alt="">`
+        : `<div class="card-photo card-photo--initials">${escapeHtml(initials(patient.name))}</div>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Patient Card – ${escapeHtml(patient.name)}</title>
+<style>
+  @page { size: 85.6mm 54mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: 'Segoe UI', Arial, sans-serif; color: #1e293b; background: #e2e8f0; }
+  .card-toolbar { position: sticky; top: 0; display: flex; justify-content: center; padding: 10px; background: #1e293b; }
+  .card-toolbar button { border: 1px solid #6366f1; background: #6366f1; color: #fff; border-radius: 6px; padding: 6px 14px; font-size: 13px; cursor: pointer; }
+  .card { width: 85.6mm; height: 54mm; margin: 24px auto; padding: 3.5mm; background: #fff; border-radius: 3mm; overflow: hidden;
+    display: grid; grid-template-columns: 1fr 22mm; grid-template-rows: auto 1fr auto; gap: 1.5mm 3mm; font-size: 7.5pt; box-shadow: 0 4px 14px rgba(15, 23, 42, 0.18); }
+  .card-header { grid-column: 1 / -1; display: flex; justify-content: space-between; align-items: baseline; border-bottom: 0.6mm solid #6366f1; padding-bottom: 1mm; }
+  .card-header h1 { margin: 0; font-size: 9.5pt; color: #4f46e5; }
+  .card-header span { font-size: 6.5pt; color: #64748b; text-transform: uppercase; letter-spacing: 0.05em; }
+  .card-body { display: flex; gap: 2.5mm; min-width: 0; }
+  .card-photo { width: 16mm; height: 16mm; border-radius: 2mm; object-fit: cover; flex-shrink: 0; }
+  .card-photo--initials { display: flex; align-items: center; justify-content: center; background: #ede9fe; color: #4f46e5; font-weight: 700; font-size: 12pt; }
+  .card-details { min-width: 0; }
+  .card-name { font-size: 10pt; font-weight: 700; margin: 0 0 0.5mm; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .card-mrn { font-family: monospace; font-size: 9pt; font-weight: 700; color: #4f46e5; margin-bottom: 1mm; }
+  .card-field { line-height: 1.35; }
+  .card-field span { color: #64748b; margin-right: 1mm; }
+  .card-qr { grid-row: 2 / 4; grid-column: 2; align-self: center; }
+  .card-qr svg { width: 22mm; height: 22mm; display: block; }
+  .card-footer { font-size: 6pt; color: #64748b; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  @media print {
+    body { background: #fff; }
+    .card-toolbar { display: none; }
+    .card { margin: 0; border-radius: 0; box-shadow: none; }
+  }
+</style>
+</head>
+<body>
+  <div class="card-toolbar">
+    <button type="button" class="card-print">Print / Save as PDF</button>
+  </div>
+  <main class="card">
+    <header class="card-header">
+      <h1>${escapeHtml(letterhead.clinicName)}</h1>
+      <span>Patient Card</span>
+    </header>
+    <div class="card-body">
+      ${photo}
+      <div class="card-details">
+        <p class="card-name">${escapeHtml(patient.name)}</p>
+        ${patient.mrn ? `<div class="card-mrn">${escapeHtml(patient.mrn)}</div>` : ''}
+        ${field('DOB', formatDob(patient.dateOfBirth))}
+        ${field('Sex', patient.gender)}
+        ${field('Blood', patient.bloodGroup)}
+        ${field('Ph', patient.phone)}
+      </div>
+    </div>
+    <div class="card-qr">${qrSvg}</div>
+    <footer class="card-footer">${escapeHtml([letterhead.phone, letterhead.email].filter(Boolean).join(' · '))}</footer>
+  </main>
+</body>
+</html>`;
+}
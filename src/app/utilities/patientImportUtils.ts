@@ -0,0 +1,255 @@
+/**
+ * Patient Import Utilities
+ * Column mapping, row cleanup and validation for the bulk CSV patient import,
+ * plus the rejected-rows report
+ */
+
+import { DEFAULT_SYSTEM_SETTINGS } from '../config/systemSettings';
+import { Patient } from '../models/patient.model';
+import { normalizeCsvHeader, toCsv } from './csvUtils';
+import { cleanDemographics } from './demographicsUtils';
+import { parseLegacyAllergies } from './allergyUtils';
+import { parseLegacyProblems } from './problemUtils';
+import { validatePatientData } from './patientValidation';
+
+const PHONE_MAX_DIGITS = DEFAULT_SYSTEM_SETTINGS.patient.phoneMaxDigits;
+
+export type PatientImportField =
+    | 'name'
+    | 'firstName'
+    | 'lastName'
+    | 'phone'
+    | 'email'
+    | 'dateOfBirth'
+    | 'gender'
+    | 'bloodGroup'
+    | 'alternatePhone'
+    | 'addressLine1'
+    | 'addressLine2'
+    | 'city'
+    | 'state'
+    | 'postalCode'
+    | 'emergencyContactName'
+    | 'emergencyContactRelation'
+    | 'emergencyContactPhone'
+    | 'occupation'
+    | 'preferredLanguage'
+    | 'allergies'
+    | 'ailments';
+
+/** CSV column index for each field, -1 when the field is not imported */
+export type PatientImportMapping = Record<PatientImportField, number>;
+
+/** What a row becomes — the input PatientService.createPatient takes */
+export type PatientImportInput = Omit<Patient, 'uniqueId' | 'userId' | 'familyId' | 'createdAt' | 'updatedAt'>;
+
+export type PatientImportStatus = 'ready' | 'invalid' | 'duplicate' | 'imported' | 'failed';
+
+export interface PatientImportRow {
+    line: number;                       // 1-based row in the CSV (header = 1, blank lines not counted)
+    cells: string[];                    // the row as read, for the error report
+    patient: PatientImportInput | null; // null when the row could not be mapped
+    status: PatientImportStatus;
+    errors: string[];
+}
+
+/**
+ * Importable fields in the order the mapping step lists them, with the
+ * header spellings recognised automatically
+ */
+export const PATIENT_IMPORT_FIELDS: Array<{ field: PatientImportField; label: string; aliases: string[] }> = [
+    { field: 'name', label: 'Full name', aliases: ['name', 'full_name', 'patient_name', 'patient'] },
+    { field: 'firstName', label: 'First name', aliases: ['first_name', 'firstname', 'given_name'] },
+    { field: 'lastName', label: 'Last name', aliases: ['last_name', 'lastname', 'surname', 'family_name'] },
+    { field: 'phone', label: 'Phone', aliases: ['phone', 'mobile', 'phone_number', 'mobile_number', 'contact', 'contact_number'] },
+    { field: 'email', label: 'Email', aliases: ['email', 'email_address', 'e_mail'] },
+    { field: 'dateOfBirth', label: 'Date of birth', aliases: ['date_of_birth', 'dob', 'birth_date', 'birthdate'] },
+    { field: 'gender', label: 'Gender', aliases: ['gender', 'sex'] },
+    { field: 'bloodGroup', label: 'Blood group', aliases: ['blood_group', 'blood_type', 'blood'] },
+    { field: 'alternatePhone', label: 'Alternate phone', aliases: ['alternate_phone', 'alt_phone', 'other_phone', 'phone_2'] },
+    { field: 'addressLine1', label: 'Address line 1', aliases: ['address', 'address_line_1', 'address1', 'street'] },
+    { field: 'addressLine2', label: 'Address line 2', aliases: ['address_line_2', 'address2', 'area', 'landmark'] },
+    { field: 'city', label: 'City', aliases: ['city', 'town', 'village'] },
+    { field: 'state', label: 'State', aliases: ['state'] },
+    { field: 'postalCode', label: 'PIN code', aliases: ['pin', 'pin_code', 'pincode', 'postal_code', 'zip', 'zip_code'] },
+    { field: 'emergencyContactName', label: 'Emergency contact name', aliases: ['emergency_contact', 'emergency_contact_name'] },
+    { field: 'emergencyContactRelation', label: 'Emergency contact relation', aliases: ['emergency_contact_relation', 'emergency_relation', 'relation'] },
+    { field: 'emergencyContactPhone', label: 'Emergency contact phone', aliases: ['emergency_contact_phone', 'emergency_phone'] },
+    { field: 'occupation', label: 'Occupation', aliases: ['occupation', 'profession'] },
+    { field: 'preferredLanguage', label: 'Preferred language', aliases: ['preferred_language', 'language'] },
+    { field: 'allergies', label: 'Allergies', aliases: ['allergies', 'allergy'] },
+    { field: 'ailments', label: 'Problems / ailments', aliases: ['ailments', 'problems', 'conditions', 'medical_history'] }
+];
+
+/**
+ * Map each field to the first header that spells it a known way; a header is
+ * used for one field at most
+ */
+export function guessPatientImportMapping(headers: string[]): PatientImportMapping {
+    const normalized = headers.map(normalizeCsvHeader);
+    const used = new Set<number>();
+    const mapping = {} as PatientImportMapping;
+    for (const { field, aliases } of PATIENT_IMPORT_FIELDS) {
+        const col = normalized.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+        mapping[field] = col;
+        if (col >= 0) used.add(col);
+    }
+    return mapping;
+}
+
+/** Problems with the mapping itself, before any row is read */
+export function patientImportMappingErrors(mapping: PatientImportMapping): string[] {
+    const errors: string[] = [];
+    if (mapping.name < 0 && mapping.firstName < 0 && mapping.lastName < 0) {
+        errors.push('Map a column to the patient name (full name, or first and last name)');
+    }
+    if (mapping.phone < 0) {
+        errors.push('Map a column to the phone number');
+    }
+    return errors;
+}
+
+/**
+ * Digits only, without a leading "91" country code or "0" trunk prefix
+ * when dropping it leaves a full phone number
+ */
+export function normalizeImportPhone(value: string): string {
+    const digits = (value || '').replace(/\D/g, '');
+    if (digits.length === PHONE_MAX_DIGITS + 2 && digits.startsWith('91')) return digits.slice(2);
+    if (digits.length === PHONE_MAX_DIGITS + 1 && digits.startsWith('0')) return digits.slice(1);
+    return digits;
+}
+
+/**
+ * Read a date of birth written as YYYY-MM-DD or day first (DD/MM/YYYY,
+ * DD-MM-YYYY, DD.MM.YYYY). Returns null when it is not a real date.
+ */
+export function parseImportDate(value: string): Date | null {
+    const text = (value || '').trim();
+    let parts: number[] | null = null;
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (match) parts = [+match[1], +match[2], +match[3]];
+    match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (match) parts = [+match[3], +match[2], +match[1]];
+    if (!parts) return null;
+
+    const [year, month, day] = parts;
+    const date = new Date(year, month - 1, day);
+    // Rejects 31/02 and the like, which Date would roll over into the next month
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/** "M", "male", "F" … → the values validatePatientData accepts; anything else is kept to be reported */
+export function normalizeImportGender(value: string): string {
+    const text = (value || '').trim().toLowerCase();
+    if (text === 'm' || text === 'male') return 'Male';
+    if (text === 'f' || text === 'female') return 'Female';
+    if (text === 'o' || text === 'other') return 'Other';
+    return (value || '').trim();
+}
+
+/** "o +ve", "AB pos" → "O+", "AB+" */
+export function normalizeImportBloodGroup(value: string): string {
+    return (value || '').toUpperCase().replace(/\s+/g, '')
+        .replace(/(POS|POSITIVE|\+VE)$/, '+')
+        .replace(/(NEG|NEGATIVE|-VE)$/, '-');
+}
+
+/**
+ * Turn one CSV row into patient data and validate it with the same rules as
+ * the Add Patient form. Name and phone are required.
+ */
+export function mapPatientImportRow(
+    cells: string[],
+    line: number,
+    mapping: PatientImportMapping,
+    importedAt: Date = new Date()
+): PatientImportRow {
+    const cell = (field: PatientImportField) => (mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '');
+    const errors: string[] = [];
+
+    const name = (cell('name') || [cell('firstName'), cell('lastName')].filter(p => p).join(' ')).replace(/\s+/g, ' ');
+    const phone = normalizeImportPhone(cell('phone'));
+    if (!name) errors.push('Patient name is required');
+    if (!phone) errors.push('Phone is required');
+
+    let dateOfBirth: Date | undefined;
+    if (cell('dateOfBirth')) {
+        dateOfBirth = parseImportDate(cell('dateOfBirth')) ?? undefined;
+        if (!dateOfBirth) errors.push(`Date of birth "${cell('dateOfBirth')}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)`);
+    }
+
+    const demographics = cleanDemographics({
+        address: {
+            line1: cell('addressLine1'),
+            line2: cell('addressLine2'),
+            city: cell('city'),
+            state: cell('state'),
+            postalCode: cell('postalCode')
+        },
+        alternatePhone: cell('alternatePhone') ? normalizeImportPhone(cell('alternatePhone')) : '',
+        emergencyContact: {
+            name: cell('emergencyContactName'),
+            relation: cell('emergencyContactRelation'),
+            phone: cell('emergencyContactPhone') ? normalizeImportPhone(cell('emergencyContactPhone')) : ''
+        },
+        bloodGroup: normalizeImportBloodGroup(cell('bloodGroup')),
+        occupation: cell('occupation'),
+        preferredLanguage: cell('preferredLanguage')
+    });
+
+    const patient: PatientImportInput = { name, phone, ...demographics };
+    if (cell('email')) patient.email = cell('email');
+    if (dateOfBirth) patient.dateOfBirth = dateOfBirth;
+    if (cell('gender')) patient.gender = normalizeImportGender(cell('gender'));
+    // Lists may be separated by ";" or "|" as well as commas
+    const allergies = parseLegacyAllergies(cell('allergies').replace(/[;|]/g, ','), importedAt);
+    if (allergies.length) patient.allergies = allergies;
+    const ailments = parseLegacyProblems(cell('ailments').replace(/[;|]/g, ','), importedAt);
+    if (ailments.length) patient.ailments = ailments;
+
+    errors.push(...validatePatientData(patient).errors);
+    return { line, cells, patient, status: errors.length ? 'invalid' : 'ready', errors };
+}
+
+/**
+ * Map and validate every data row (the header row excluded). A phone number
+ * already used by an earlier row marks the later row a duplicate, matching
+ * the phone check Add Patient makes against saved patients.
+ */
+export function validatePatientImportRows(dataRows: string[][], mapping: PatientImportMapping): PatientImportRow[] {
+    const importedAt = new Date();
+    const firstLineByPhone = new Map<string, number>();
+    return dataRows.map((cells, i) => {
+        const row = mapPatientImportRow(cells, i + 2, mapping, importedAt);
+        if (row.status !== 'ready') return row;
+        const phone = row.patient!.phone;
+        const firstLine = firstLineByPhone.get(phone);
+        if (firstLine !== undefined) {
+            return { ...row, status: 'duplicate', errors: [`Same phone number as line ${firstLine}`] };
+        }
+        firstLineByPhone.set(phone, row.line);
+        return row;
+    });
+}
+
+/** Rows that were not (or could not be) imported */
+export function rejectedImportRows(rows: PatientImportRow[]): PatientImportRow[] {
+    return rows.filter(r => r.status === 'invalid' || r.status === 'duplicate' || r.status === 'failed');
+}
+
+/**
+ * CSV of the rejected rows: the original columns followed by the line,
+ * status and reasons, so the file can be fixed and imported again
+ */
+export function buildPatientImportReport(headers: string[], rows: PatientImportRow[]): string {
+    return toCsv([
+        [...headers, 'import_line', 'import_status', 'import_errors'],
+        ...rejectedImportRows(rows).map(r => [
+            ...headers.map((_, i) => r.cells[i] ?? ''),
+            r.line,
+            r.status,
+            r.errors.join('; ')
+        ])
+    ]);
+}
@@ -0,0 +1,38 @@
+/**
+ * Patient QR Codes
+ * The QR code on a patient ID card and reading it back from a webcam frame.
+ * Both libraries are bundled with the app (no network needed) and loaded
+ * only when a card is printed or scanned.
+ */
+
+/** Marks a QR code as one of our patient cards rather than any other code */
+export const PATIENT_QR_PREFIX = 'intellirx:patient:';
+
+export function patientQrPayload(patientId: string): string {
+    return `${PATIENT_QR_PREFIX}${patientId}`;
+}
+
+/** Patient ID encoded in a scanned QR code, or null when it is not a patient card */
+export function parsePatientQr(text: string | null | undefined): string | null {
+    const value = (text || '').trim();
+    if (!value.toLowerCase().startsWith(PATIENT_QR_PREFIX)) return null;
+    const patientId = value.slice(PATIENT_QR_PREFIX.length).trim();
+    return patientId && !patientId.includes('/') ? patientId : null;
+}
+
+/** Scalable SVG markup of the QR code for `text` */
+export async function createQrSvg(text: string): Promise<string> {
+    const { default: qrcode } = await import('qrcode-generator');
+    const qr = qrcode(0, 'M');
+    qr.addData(text);
+    qr.make();
+    return qr.createSvgTag({ cellSize: 4, margin: 2, scalable: true });
+}
+
+export type QrDecoder = (frame: ImageData) => string | null;
+
+/** Load the decoder once, then call it on every webcam frame */
+export async function loadQrDecoder(): Promise<QrDecoder> {
+    const { default: jsQR } = await import('jsqr');
+    return frame => jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+}
@@ -5,8 +5,27 @@
  */
 
 import { DEFAULT_SYSTEM_SETTINGS } from '../config/systemSettings';
+import { GovernmentIdType } from '../models/patient.model';
+import {
+    BLOOD_GROUPS,
+    PatientDemographics,
+    governmentIdLabel,
+    normalizeGovernmentIdNumber
+} from './demographicsUtils';
 
 const PHONE_MAX_DIGITS = DEFAULT_SYSTEM_SETTINGS.patient.phoneMaxDigits;
+const POSTAL_CODE_DIGITS = DEFAULT_SYSTEM_SETTINGS.patient.postalCodeDigits;
+const MAX_TEXT_LENGTH = 100;
+
+/** Expected format of each government ID number (after normalizeGovernmentIdNumber) */
+const GOVERNMENT_ID_PATTERNS: Record<GovernmentIdType, RegExp> = {
+    'aadhaar': /^[2-9]\d{11}$/,
+    'pan': /^[A-Z]{5}\d{4}[A-Z]$/,
+    'passport': /^[A-Z]\d{7}$/,
+    'voter-id': /^[A-Z]{3}\d{7}$/,
+    'driving-licence': /^[A-Z]{2}\d{2}[A-Z0-9]{7,16}$/,
+    'other': /^[A-Z0-9/]{3,30}$/
+};
 
 /**
  * Validate phone number (10 digits)
@@ -48,6 +67,104 @@ export function isValidGender(gender: string | undefined): boolean {
     return validGenders.includes(gender);
 }
 
+/**
+ * Validate postal (PIN) code
+ */
+export function isValidPostalCode(code: string): boolean {
+    return new RegExp(`^\\d{${POSTAL_CODE_DIGITS}}$`).test(code.trim());
+}
+
+/**
+ * Validate blood group (optional, but if provided should be one of BLOOD_GROUPS)
+ */
+export function isValidBloodGroup(bloodGroup: string | undefined): boolean {
+    if (!bloodGroup) return true; // Optional field
+    return BLOOD_GROUPS.includes(bloodGroup);
+}
+
+/**
+ * Validate a government ID number against the format for its type
+ */
+export function isValidGovernmentId(type: GovernmentIdType, value: string): boolean {
+    const pattern = GOVERNMENT_ID_PATTERNS[type];
+    return !!pattern && pattern.test(normalizeGovernmentIdNumber(value));
+}
+
+/**
+ * Validate free text such as occupation or preferred language: must contain
+ * a letter and stay within a sensible length
+ */
+export function isValidShortText(text: string | undefined): boolean {
+    if (!text || !text.trim()) return true; // Optional field
+    const value = text.trim();
+    return value.length <= MAX_TEXT_LENGTH && /\p{L}/u.test(value);
+}
+
+/**
+ * Address, alternate phone, emergency contact, blood group, occupation,
+ * preferred language and government IDs. `primaryPhone` catches an
+ * alternate phone that repeats it.
+ */
+export function validateDemographics(data: PatientDemographics, primaryPhone?: string): string[] {
+    const errors: string[] = [];
+
+    const address = data.address || {};
+    const addressParts = Object.values(address).map(v => (v || '').trim()).filter(v => v);
+    if (addressParts.length && !(address.line1 || '').trim() && !(address.city || '').trim()) {
+        errors.push('Address needs at least a street or a city');
+    }
+    if (addressParts.some(p => p.length > MAX_TEXT_LENGTH)) {
+        errors.push(`Address lines must be at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    if ((address.postalCode || '').trim() && !isValidPostalCode(address.postalCode!)) {
+        errors.push(`PIN code must be ${POSTAL_CODE_DIGITS} digits`);
+    }
+
+    const alternatePhone = (data.alternatePhone || '').trim();
+    if (alternatePhone && !isValidPhone(alternatePhone)) {
+        errors.push(`Alternate phone must be ${PHONE_MAX_DIGITS} digits`);
+    } else if (alternatePhone && alternatePhone === (primaryPhone || '').trim()) {
+        errors.push('Alternate phone must differ from the primary phone');
+    }
+
+    const contact = data.emergencyContact || {};
+    const contactName = (contact.name || '').trim();
+    const contactPhone = (contact.phone || '').trim();
+    if (contactName || contactPhone || (contact.relation || '').trim()) {
+        if (!contactName) errors.push('Emergency contact name is required');
+        else if (!isValidShortText(contactName)) errors.push('Emergency contact name is not valid');
+        if (!isValidShortText(contact.relation)) errors.push('Emergency contact relation is not valid');
+        if (!contactPhone) errors.push('Emergency contact phone is required');
+        else if (!isValidPhone(contactPhone)) errors.push(`Emergency contact phone must be ${PHONE_MAX_DIGITS} digits`);
+    }
+
+    if (!isValidBloodGroup(data.bloodGroup)) {
+        errors.push('Invalid blood group');
+    }
+    if (!isValidShortText(data.occupation)) {
+        errors.push('Occupation is not valid');
+    }
+    if (!isValidShortText(data.preferredLanguage)) {
+        errors.push('Preferred language is not valid');
+    }
+
+    const seenTypes = new Set<GovernmentIdType>();
+    for (const id of data.governmentIds || []) {
+        const label = governmentIdLabel(id.type);
+        if (!(id.number || '').trim()) {
+            errors.push(`${label} number is required`);
+        } else if (!isValidGovernmentId(id.type, id.number)) {
+            errors.push(`${label} number is not in a valid format`);
+        }
+        if (id.type !== 'other' && seenTypes.has(id.type)) {
+            errors.push(`Only one ${label} can be recorded`);
+        }
+        seenTypes.add(id.type);
+    }
+
+    return errors;
+}
+
 /**
  * Comprehensive patient data validation
  */
@@ -57,7 +174,7 @@ export function validatePatientData(data: {
     email?: string;
     dateOfBirth?: Date | string;
     gender?: string;
-}): { valid: boolean; errors: string[] } {
+} & PatientDemographics): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     if (data.name && !isValidName(data.name)) {
@@ -80,6 +197,8 @@ export function validatePatientData(data: {
         errors.push('Invalid gender value');
     }
 
+    errors.push(...validateDemographics(data, data.phone));
+
     return {
         valid: errors.length === 0,
         errors
@@ -0,0 +1,139 @@
+/**
+ * Patient Photo Utilities
+ * File checks, square cropping and JPEG compression for patient photos taken
+ * with the webcam or uploaded from a file. Everything runs in the browser, so
+ * only the small cropped photo is uploaded.
+ */
+
+/** Side of the stored square photo, in pixels */
+export const PHOTO_SIZE = 320;
+
+/** JPEG quality of the stored photo */
+export const PHOTO_QUALITY = 0.85;
+
+/** Largest source image accepted before cropping */
+export const MAX_PHOTO_SOURCE_BYTES = 10 * 1024 * 1024;
+
+export const PHOTO_ACCEPT = 'image/jpeg,image/png,image/webp';
+
+/** Most the crop can zoom in on the source image */
+export const MAX_PHOTO_ZOOM = 4;
+
+/**
+ * How the square crop sits on the source image. `zoom` 1 is the largest square
+ * that fits; offsets run from -1 (left/top edge) to 1 (right/bottom edge).
+ */
+export interface PhotoCrop {
+    zoom: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+export const DEFAULT_PHOTO_CROP: PhotoCrop = { zoom: 1, offsetX: 0, offsetY: 0 };
+
+/** Reason the file cannot be used as a photo, or null when it is acceptable */
+export function validatePhotoFile(file: Pick<File, 'name' | 'type' | 'size'>): string | null {
+    if (!PHOTO_ACCEPT.split(',').includes(file.type)) {
+        return `${file.name}: only JPEG, PNG or WebP images can be used as a photo`;
+    }
+    if (file.size > MAX_PHOTO_SOURCE_BYTES) {
+        return `${file.name} is larger than ${MAX_PHOTO_SOURCE_BYTES / (1024 * 1024)} MB`;
+    }
+    if (file.size === 0) {
+        return `${file.name} is empty`;
+    }
+    return null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keep zoom and offsets in range */
+export function clampCrop(crop: PhotoCrop): PhotoCrop {
+    return {
+        zoom: clamp(crop.zoom, 1, MAX_PHOTO_ZOOM),
+        offsetX: clamp(crop.offsetX, -1, 1),
+        offsetY: clamp(crop.offsetY, -1, 1)
+    };
+}
+
+/** Square area of the source image, in source pixels, that the crop selects */
+export function cropRect(width: number, height: number, crop: PhotoCrop): { x: number; y: number; size: number } {
+    const { zoom, offsetX, offsetY } = clampCrop(crop);
+    const size = Math.min(width, height) / zoom;
+    const x = (width - size) / 2 * (1 + offsetX);
+    const y = (height - size) / 2 * (1 + offsetY);
+    return { x, y, size };
+}
+
+/**
+ * Move the crop by a pointer drag of (dx, dy) display pixels on a preview
+ * `viewport` pixels wide — dragging right reveals more of the left side.
+ */
+export function panCrop(crop: PhotoCrop, dx: number, dy: number, width: number, height: number, viewport: number): PhotoCrop {
+    const { size } = cropRect(width, height, crop);
+    const sourcePerPixel = size / viewport;
+    const rangeX = (width - size) / 2;
+    const rangeY = (height - size) / 2;
+    return clampCrop({
+        zoom: crop.zoom,
+        offsetX: rangeX > 0 ? crop.offsetX - dx * sourcePerPixel / rangeX : 0,
+        offsetY: rangeY > 0 ? crop.offsetY - dy * sourcePerPixel / rangeY : 0
+    });
+}
+
+/** Decode an image file. Rejects when the browser cannot read it. */
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('This image could not be read'));
+        };
+        img.src = url;
+    });
+}
+
+/** Draw the cropped square of `source` onto `canvas`, filling it */
+export function drawCrop(
+    canvas: HTMLCanvasElement,
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    crop: PhotoCrop
+): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { x, y, size } = cropRect(width, height, crop);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, x, y, size, size, 0, 0, canvas.width, canvas.height);
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The photo could not be encoded')),
+            'image/jpeg', quality);
+    });
+}
+
+/** The cropped square as a compressed PHOTO_SIZE × PHOTO_SIZE JPEG */
+export function renderPhoto(source: CanvasImageSource, width: number, height: number, crop: PhotoCrop): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = PHOTO_SIZE;
+    canvas.height = PHOTO_SIZE;
+    drawCrop(canvas, source, width, height, crop);
+    return canvasToJpeg(canvas, PHOTO_QUALITY);
+}
+
+/** Grab the current webcam frame at full resolution, for cropping */
+export function captureVideoFrame(video: HTMLVideoElement): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvasToJpeg(canvas, 0.92);
+}
@@ -0,0 +1,190 @@
+/**
+ * Prescription Document
+ * Builds the standalone, print-ready HTML for a visit summary / prescription.
+ * Everything is rendered client-side; the browser's print dialog produces the PDF.
+ */
+
+import moment from 'moment';
+import { Patient, Visit } from '../models/patient.model';
+import { LetterheadConfig, PaperSize } from '../config/systemSettings';
+import { formatVitals } from './vitalsUtils';
+import { formatCodedDiagnosis } from './icd10Utils';
+
+export interface PrescriptionDoctor {
+    name: string;
+    specialty: string;
+}
+
+export interface PrescriptionDocumentData {
+    letterhead: LetterheadConfig;
+    doctor: PrescriptionDoctor | null;
+    patient: Pick<Patient, 'name' | 'phone' | 'gender' | 'dateOfBirth' | 'uniqueId' | 'mrn'>;
+    visit: Pick<Visit, 'chiefComplaints' | 'diagnosis' | 'examination' | 'medicines' | 'vitals' |
+        'treatmentPlan' | 'advice' | 'followUpDate' | 'createdAt'> & Partial<Pick<Visit, 'diagnosisCodes'>>;
+    paperSize: PaperSize;
+}
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Age in whole years on a given date, or null when DOB is missing/invalid
+ */
+export function calculateAgeYears(dob: Date | any, on: Date = new Date()): number | null {
+    if (!dob) return null;
+    const birth = typeof dob.toDate === 'function' ? dob.toDate() : new Date(dob);
+    if (isNaN(birth.getTime())) return null;
+    let age = on.getFullYear() - birth.getFullYear();
+    const m = on.getMonth() - birth.getMonth();
+    if (m < 0 || (m === 0 && on.getDate() < birth.getDate())) age--;
+    return age >= 0 ? age : null;
+}
+
+function formatDate(date: Date | any): string {
+    if (!date) return '';
+    const m = moment(typeof date.toDate === 'function' ? date.toDate() : date);
+    return m.isValid() ? m.format('DD MMM YYYY') : '';
+}
+
+/** @page rule for the chosen sheet; kept separate so the preview can swap it */
+export function pageSizeCss(size: PaperSize): string {
+    return `@page { size: ${size}; margin: ${size === 'A5' ? '10mm' : '15mm'}; }`;
+}
+
+function section(title: string, body: string): string {
+    return body ? `<section class="rx-section"><h3>${escapeHtml(title)}</h3>${body}</section>` : '';
+}
+
+function paragraph(text: string | undefined): string {
+    return text && text.trim() ? `<p>${escapeHtml(text.trim())}</p>` : '';
+}
+
+/** Coded diagnoses (primary first) followed by the free-text note */
+function diagnosisBody(visit: PrescriptionDocumentData['visit']): string {
+    const codes = (visit.diagnosisCodes || [])
+        .map(d => `<p>${escapeHtml(formatCodedDiagnosis(d))}</p>`)
+        .join('');
+    return codes + paragraph(visit.diagnosis);
+}
+
+function medicinesTable(visit: PrescriptionDocumentData['visit']): string {
+    const medicines = visit.medicines || [];
+    if (medicines.length === 0) return '';
+    const rows = medicines.map((m, i) => `
+        <tr>
+          <td>${i + 1}</td>
+          <td><strong>${escapeHtml(m.name)}</strong>${m.dosage ? ` ${escapeHtml(m.dosage)}` : ''}
+            ${m.instructions ? `<div class="rx-note">${escapeHtml(m.instructions)}</div>` : ''}</td>
+          <td>${escapeHtml(m.frequency)}</td>
+          <td>${escapeHtml(m.duration)}</td>
+          <td>${escapeHtml(m.route)}</td>
+          <td>${m.quantity ? escapeHtml(m.quantity) : ''}</td>
+        </tr>`).join('');
+    return `
+      <table class="rx-table">
+        <thead><tr><th>#</th><th>Medicine</th><th>Frequency</th><th>Duration</th><th>Route</th><th>Qty</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+}
+
+/**
+ * Full HTML document for the print preview window
+ */
+export function buildPrescriptionHtml(data: PrescriptionDocumentData): string {
+    const { letterhead, doctor, patient, visit, paperSize } = data;
+    const age = calculateAgeYears(patient.dateOfBirth, visit.createdAt ? new Date(visit.createdAt) : new Date());
+    const demographics = [
+        age !== null ? `${age} yrs` : '',
+        patient.gender || '',
+        patient.phone ? `Ph: ${patient.phone}` : ''
+    ].filter(Boolean).join(' · ');
+    const contact = [letterhead.phone, letterhead.email].filter(Boolean).join(' · ');
+    const vitals = formatVitals(visit.vitals);
+    const followUp = formatDate(visit.followUpDate);
+
+    return `<!DOCTYPE html>
+<html lang="en" data-size="${paperSize}">
+<head>
+<meta charset="utf-8">
+<title>Prescription – ${escapeHtml(patient.name)} – ${escapeHtml(formatDate(visit.createdAt))}</title>
+<style id="rx-page-size">${pageSizeCss(paperSize)}</style>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: 'Segoe UI', Arial, sans-serif; color: #1e293b; background: #e2e8f0; }
+  .rx-toolbar { position: sticky; top: 0; display: flex; gap: 8px; justify-content: center; padding: 10px; background: #1e293b; }
+  .rx-toolbar button { border: 1px solid #475569; background: #334155; color: #fff; border-radius: 6px; padding: 6px 14px; font-size: 13px; cursor: pointer; }
+  .rx-toolbar button.active, .rx-toolbar button.rx-print { background: #6366f1; border-color: #6366f1; }
+  .rx-sheet { background: #fff; margin: 16px auto; padding: 15mm; width: 210mm; min-height: 297mm; display: flex; flex-direction: column; font-size: 13px; }
+  html[data-size="A5"] .rx-sheet { width: 148mm; min-height: 210mm; padding: 10mm; font-size: 11px; }
+  .rx-header { display: flex; justify-content: space-between; gap: 16px; border-bottom: 2px solid #6366f1; padding-bottom: 8px; }
+  .rx-clinic h1 { margin: 0; font-size: 1.6em; color: #4f46e5; }
+  .rx-clinic p, .rx-doctor p { margin: 2px 0; color: #475569; }
+  .rx-doctor { text-align: right; }
+  .rx-doctor strong { font-size: 1.15em; }
+  .rx-patient { display: flex; justify-content: space-between; gap: 12px; padding: 8px 0; border-bottom: 1px solid #cbd5e1; }
+  .rx-patient strong { font-size: 1.1em; }
+  .rx-mrn { font-family: monospace; font-size: 0.95em; color: #334155; }
+  .rx-body { flex: 1; padding-top: 6px; }
+  .rx-section h3 { margin: 10px 0 4px; font-size: 0.85em; text-transform: uppercase; letter-spacing: 0.04em; color: #6366f1; }
+  .rx-section p { margin: 0; white-space: pre-wrap; }
+  .rx-symbol { font-size: 1.8em; font-weight: 700; font-family: Georgia, serif; color: #4f46e5; margin: 10px 0 2px; }
+  .rx-table { width: 100%; border-collapse: collapse; }
+  .rx-table th, .rx-table td { text-align: left; padding: 5px 6px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .rx-table th { font-size: 0.85em; color: #64748b; }
+  .rx-note { font-size: 0.9em; color: #64748b; font-style: italic; }
+  .rx-followup { margin-top: 12px; padding: 6px 10px; border: 1px dashed #6366f1; border-radius: 6px; display: inline-block; }
+  .rx-footer { display: flex; justify-content: space-between; align-items: flex-end; margin-top: 24px; padding-top: 8px; border-top: 1px solid #cbd5e1; font-size: 0.85em; color: #64748b; }
+  .rx-signature { text-align: center; min-width: 45mm; border-top: 1px solid #1e293b; padding-top: 4px; color: #1e293b; }
+  @media print {
+    body { background: #fff; }
+    .rx-toolbar { display: none; }
+    .rx-sheet, html[data-size="A5"] .rx-sheet { margin: 0; padding: 0; width: auto; min-height: auto; }
+  }
+</style>
+</head>
+<body>
+  <div class="rx-toolbar">
+    <button type="button" data-size="A4"${paperSize === 'A4' ? ' class="active"' : ''}>A4</button>
+    <button type="button" data-size="A5"${paperSize === 'A5' ? ' class="active"' : ''}>A5</button>
+    <button type="button" class="rx-print">Print / Save as PDF</button>
+  </div>
+  <main class="rx-sheet">
+    <header class="rx-header">
+      <div class="rx-clinic">
+        <h1>${escapeHtml(letterhead.clinicName)}</h1>
+        ${letterhead.addressLines.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+        ${contact ? `<p>${escapeHtml(contact)}</p>` : ''}
+      </div>
+      ${doctor ? `<div class="rx-doctor"><strong>${escapeHtml(doctor.name)}</strong><p>${escapeHtml(doctor.specialty)}</p></div>` : ''}
+    </header>
+    <div class="rx-patient">
+      <div><strong>${escapeHtml(patient.name)}</strong>${patient.mrn ? ` <span class="rx-mrn">${escapeHtml(patient.mrn)}</span>` : ''}${demographics ? `<div>${escapeHtml(demographics)}</div>` : ''}</div>
+      <div>Date: <strong>${escapeHtml(formatDate(visit.createdAt))}</strong></div>
+    </div>
+    <div class="rx-body">
+      ${section('Vitals', vitals ? `<p>${escapeHtml(vitals)}</p>` : '')}
+      ${section('Chief Complaints', paragraph(visit.chiefComplaints))}
+      ${section('Examination', paragraph(visit.examination))}
+      ${section('Diagnosis', diagnosisBody(visit))}
+      ${visit.medicines?.length ? `<div class="rx-symbol">℞</div>${medicinesTable(visit)}` : ''}
+      ${section('Treatment Plan', paragraph(visit.treatmentPlan))}
+      ${section('Advice', paragraph(visit.advice))}
+      ${followUp ? `<div class="rx-followup">Follow-up on <strong>${escapeHtml(followUp)}</strong></div>` : ''}
+    </div>
+    <footer class="rx-footer">
+      <span>${escapeHtml(letterhead.footerNote)}</span>
+      <span class="rx-signature">${doctor ? escapeHtml(doctor.name) : 'Signature'}</span>
+    </footer>
+  </main>
+</body>
+</html>`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Prescription Utilities
+ * Converts between the structured Medicine[] stored on visits and the
+ * legacy "name - dosage - frequency, ..." string written by older builds.
+ */
+
+import { Medicine } from '../models/patient.model';
+
+/**
+ * Routes of administration offered in the visit form
+ */
+export const MEDICINE_ROUTES: string[] = [
+    'Oral',
+    'Sublingual',
+    'Topical',
+    'Inhalation',
+    'Nasal',
+    'Ophthalmic',
+    'Otic',
+    'Rectal',
+    'IV',
+    'IM',
+    'SC'
+];
+
+/**
+ * Parse a legacy joined medicines string into structured lines.
+ * Each comma-separated entry is split on " - " into name, dosage and frequency.
+ */
+export function parseLegacyMedicines(text: string): Medicine[] {
+    if (!text || !text.trim()) return [];
+    return text
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+            const [name, dosage = '', frequency = ''] = entry.split(' - ').map(p => p.trim());
+            return { name, dosage, frequency };
+        });
+}
+
+/**
+ * Drop empty optional fields so the line can be written to Firestore
+ * (nested undefined values are rejected by setDoc).
+ */
+export function cleanMedicine(medicine: Medicine): Medicine {
+    const cleaned: Medicine = {
+        name: (medicine.name || '').trim(),
+        dosage: (medicine.dosage || '').trim(),
+        frequency: (medicine.frequency || '').trim()
+    };
+    const duration = (medicine.duration || '').trim();
+    const route = (medicine.route || '').trim();
+    const instructions = (medicine.instructions || '').trim();
+    if (duration) cleaned.duration = duration;
+    if (route) cleaned.route = route;
+    if (instructions) cleaned.instructions = instructions;
+    if (typeof medicine.quantity === 'number' && medicine.quantity > 0) cleaned.quantity = medicine.quantity;
+    return cleaned;
+}
+
+/**
+ * Normalize whatever is stored in `visit.medicines` into Medicine[].
+ * Accepts the structured array, the legacy string, or nothing.
+ */
+export function normalizeMedicines(raw: unknown): Medicine[] {
+    if (!raw) return [];
+    if (typeof raw === 'string') return parseLegacyMedicines(raw);
+    if (Array.isArray(raw)) {
+        return raw
+            .filter(m => m && typeof m === 'object' && typeof m.name === 'string' && m.name.trim())
+            .map(m => cleanMedicine(m as Medicine));
+    }
+    return [];
+}
+
+/**
+ * Single-line display form, e.g. "Amoxicillin 500mg · 1-0-1 · 5 days · Oral · Qty 15 — After food"
+ */
+export function formatMedicineLine(medicine: Medicine): string {
+    const head = [medicine.name, medicine.dosage].filter(p => p && p.trim()).join(' ');
+    const parts = [head, medicine.frequency, medicine.duration, medicine.route]
+        .filter((p): p is string => !!p && p.trim().length > 0);
+    if (medicine.quantity) parts.push(`Qty ${medicine.quantity}`);
+    const line = parts.join(' · ');
+    return medicine.instructions ? `${line} — ${medicine.instructions}` : line;
+}
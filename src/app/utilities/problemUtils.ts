@@ -0,0 +1,157 @@
+/**
+ * Problem List Utilities
+ * Structured chronic conditions on the patient (stored as `ailments`), conversion
+ * from the legacy comma-joined string, and per-visit change tracking.
+ */
+
+import { Problem, ProblemChange, ProblemStatus } from '../models/patient.model';
+import { searchIcd10 } from './icd10Utils';
+
+export const PROBLEM_STATUSES: Array<{ value: ProblemStatus; label: string }> = [
+    { value: 'active', label: 'Active' },
+    { value: 'in-remission', label: 'In remission' },
+    { value: 'resolved', label: 'Resolved' }
+];
+
+function problemKey(condition: string): string {
+    return condition.trim().toLowerCase();
+}
+
+/** ICD-10 code whose description is exactly the condition, if any */
+export function suggestProblemCode(condition: string): string | undefined {
+    const key = problemKey(condition);
+    if (!key) return undefined;
+    return searchIcd10(condition, 5).find(c => c.description.toLowerCase() === key)?.code;
+}
+
+/** New active problem for a condition typed as free text */
+export function createProblem(condition: string, recordedAt: Date = new Date()): Problem {
+    const name = condition.trim();
+    const problem: Problem = { condition: name, status: 'active', recordedAt };
+    const icdCode = suggestProblemCode(name);
+    if (icdCode) problem.icdCode = icdCode;
+    return problem;
+}
+
+/**
+ * Parse the legacy "Diabetes, Hypertension" string into active problems. The
+ * date is the best available one — usually the patient's last update.
+ */
+export function parseLegacyProblems(text: string, recordedAt: Date = new Date()): Problem[] {
+    if (!text || !text.trim()) return [];
+    return mergeProblems([], text.split(',').map(s => s.trim()).filter(s => s).map(s => createProblem(s, recordedAt)));
+}
+
+function toDate(value: any): Date | undefined {
+    if (!value) return undefined;
+    const date = value.toDate?.() ?? new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Accept any stored shape (legacy string, string[] or Problem[]) and return
+ * problems with real dates — nested Firestore Timestamps and JSON strings included.
+ */
+export function normalizeProblems(raw: unknown, fallbackDate: Date = new Date()): Problem[] {
+    if (typeof raw === 'string') return parseLegacyProblems(raw, fallbackDate);
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .map(p => typeof p === 'string' ? createProblem(p, fallbackDate) : p)
+        .filter(p => p && typeof p.condition === 'string' && p.condition.trim())
+        .map(p => cleanProblem({ ...p, onsetDate: toDate(p.onsetDate), recordedAt: toDate(p.recordedAt) ?? fallbackDate }));
+}
+
+/**
+ * Trim text and drop empty optional fields so the problem can be written to
+ * Firestore (nested undefined values are rejected by setDoc)
+ */
+export function cleanProblem(problem: Problem): Problem {
+    const cleaned: Problem = {
+        condition: (problem.condition || '').trim(),
+        status: PROBLEM_STATUSES.some(s => s.value === problem.status) ? problem.status : 'active',
+        recordedAt: problem.recordedAt
+    };
+    if (problem.onsetDate) cleaned.onsetDate = problem.onsetDate;
+    const icdCode = (problem.icdCode || '').trim().toUpperCase();
+    if (icdCode) cleaned.icdCode = icdCode;
+    const notes = (problem.notes || '').trim();
+    if (notes) cleaned.notes = notes;
+    return cleaned;
+}
+
+/**
+ * Add problems for conditions not already on the list (case-insensitive);
+ * existing entries keep their status, onset and notes
+ */
+export function mergeProblems(existing: Problem[], added: Problem[]): Problem[] {
+    const merged = [...existing];
+    for (const problem of added) {
+        const key = problemKey(problem.condition);
+        if (key && !merged.some(p => problemKey(p.condition) === key)) merged.push(problem);
+    }
+    return merged;
+}
+
+export function activeProblems(problems: Problem[] | undefined): Problem[] {
+    return (problems || []).filter(p => p.status === 'active');
+}
+
+/** Resolved and in-remission problems */
+export function inactiveProblems(problems: Problem[] | undefined): Problem[] {
+    return (problems || []).filter(p => p.status !== 'active');
+}
+
+export function problemStatusLabel(status: ProblemStatus): string {
+    return PROBLEM_STATUSES.find(s => s.value === status)?.label ?? 'Active';
+}
+
+/** "Hypertension (I10)" */
+export function formatProblem(problem: Problem): string {
+    return problem.icdCode ? `${problem.condition} (${problem.icdCode})` : problem.condition;
+}
+
+function storedShape(problem: Problem): string {
+    const { recordedAt, onsetDate, ...rest } = cleanProblem(problem);
+    return JSON.stringify({ ...rest, onset: onsetDate ? onsetDate.getTime() : null });
+}
+
+/** True when the two lists differ in anything that is stored */
+export function problemsChanged(a: Problem[] | undefined, b: Problem[] | undefined): boolean {
+    const key = (list: Problem[] | undefined) => (list || []).map(storedShape).join('|');
+    return key(a) !== key(b);
+}
+
+/**
+ * Changes from `before` to `after`, matched by condition name. A status change
+ * is reported with both statuses; other edits (onset, code, notes) as 'updated'.
+ */
+export function diffProblems(before: Problem[] | undefined, after: Problem[] | undefined): ProblemChange[] {
+    const previous = new Map((before || []).map(p => [problemKey(p.condition), p]));
+    const changes: ProblemChange[] = [];
+    for (const problem of after || []) {
+        const key = problemKey(problem.condition);
+        const old = previous.get(key);
+        previous.delete(key);
+        if (!old) {
+            changes.push({ condition: problem.condition, change: 'added', toStatus: problem.status });
+        } else if (old.status !== problem.status) {
+            changes.push({ condition: problem.condition, change: 'updated', fromStatus: old.status, toStatus: problem.status });
+        } else if (storedShape(old) !== storedShape(problem)) {
+            changes.push({ condition: problem.condition, change: 'updated' });
+        }
+    }
+    for (const removed of previous.values()) {
+        changes.push({ condition: removed.condition, change: 'removed', fromStatus: removed.status });
+    }
+    return changes;
+}
+
+/** "Added Asthma", "Hypertension: active → resolved", "Removed Migraine" */
+export function describeProblemChange(change: ProblemChange): string {
+    if (change.change === 'added') return `Added ${change.condition}`;
+    if (change.change === 'removed') return `Removed ${change.condition}`;
+    if (change.fromStatus && change.toStatus) {
+        return `${change.condition}: ${problemStatusLabel(change.fromStatus).toLowerCase()} → ${problemStatusLabel(change.toStatus).toLowerCase()}`;
+    }
+    return `Updated ${change.condition}`;
+}
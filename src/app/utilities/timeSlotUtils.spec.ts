@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { findFirstFreeSlot, findFollowUpSlot, generateTimeSlotsFromConfig, isClosedDay } from './timeSlotUtils';
+import { TimeSlotsConfig } from '../config/systemSettings';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+const config: TimeSlotsConfig = { startHour: 9, endHour: 12, slotMinutes: 30, closedWeekdays: [0] };
+const MONDAY = '2026-10-26';
+const SUNDAY = '2026-10-25';
+const SUNDAY_MORNING = new Date(2026, 9, 25, 8, 0);
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+describe('timeSlotUtils', () => {
+  it('generates fixed-length slots up to the end hour', () => {
+    expect(generateTimeSlotsFromConfig(config)).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00', '11:30']);
+  });
+
+  it('picks the first slot that is not booked', () => {
+    expect(findFirstFreeSlot(['09:00', '09:30', '10:00'], ['09:00'])).toBe('09:30');
+    expect(findFollowUpSlot(MONDAY, ['09:00', '09:30', '10:30'], config, SUNDAY_MORNING)).toBe('10:00');
+  });
+
+  it('skips slots already past when the follow-up is today', () => {
+    const mondayAt1010 = new Date(2026, 9, 26, 10, 10);
+    expect(findFollowUpSlot(MONDAY, ['10:30'], config, mondayAt1010)).toBe('11:00');
+  });
+
+  it('returns null when every slot of the day is booked', () => {
+    const allSlots = generateTimeSlotsFromConfig(config);
+    expect(findFirstFreeSlot(allSlots, allSlots)).toBeNull();
+    expect(findFollowUpSlot(MONDAY, allSlots, config, SUNDAY_MORNING)).toBeNull();
+  });
+
+  it('returns null for a follow-up on a day the clinic is closed', () => {
+    expect(isClosedDay(SUNDAY, config)).toBe(true);
+    expect(isClosedDay(MONDAY, config)).toBe(false);
+    expect(findFollowUpSlot(SUNDAY, [], config, SUNDAY_MORNING)).toBeNull();
+    expect(findFollowUpSlot(SUNDAY, [], { ...config, closedWeekdays: [] }, SUNDAY_MORNING)).toBe('09:00');
+  });
+});
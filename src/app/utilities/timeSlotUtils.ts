@@ -1,4 +1,5 @@
 import { TimeSlotsConfig } from '../config/systemSettings';
+import { toLocalISO } from './local-date';
 
 /**
  * Generates slot start times like `09:00`, `09:30`, ... based on configuration.
@@ -18,3 +19,35 @@ export function generateTimeSlotsFromConfig(config: TimeSlotsConfig): string[] {
   return slots;
 }
 
+
+/**
+ * First slot that is not already booked, or null when the day is full.
+ * Slots before `notBefore` (HH:MM) are skipped, so same-day bookings never land in the past.
+ */
+export function findFirstFreeSlot(slots: string[], bookedSlots: string[], notBefore?: string): string | null {
+  const booked = new Set(bookedSlots);
+  return slots.find(slot => !booked.has(slot) && (!notBefore || slot >= notBefore)) ?? null;
+}
+
+/** Whether the clinic takes no appointments on this date (YYYY-MM-DD) */
+export function isClosedDay(dateStr: string, config: TimeSlotsConfig): boolean {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return config.closedWeekdays.includes(new Date(y, m - 1, d).getDay());
+}
+
+/**
+ * Slot for a follow-up on `dateStr` (YYYY-MM-DD): the first free one of the day, never
+ * earlier than `now` when the follow-up is today. Null when the clinic is closed or the day is full.
+ */
+export function findFollowUpSlot(
+  dateStr: string,
+  bookedSlots: string[],
+  config: TimeSlotsConfig,
+  now: Date = new Date()
+): string | null {
+  if (isClosedDay(dateStr, config)) return null;
+  const notBefore = dateStr === toLocalISO(now)
+    ? `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
+    : undefined;
+  return findFirstFreeSlot(generateTimeSlotsFromConfig(config), bookedSlots, notBefore);
+}
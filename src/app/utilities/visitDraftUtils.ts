@@ -0,0 +1,73 @@
+/**
+ * Visit Draft Utilities
+ * Storage shape and summaries for the Add Visit form autosave
+ */
+
+import { AllergyOverride } from '../models/patient.model';
+import { VisitDraftFields } from '../models/visitDraft.model';
+import { cleanMedicine } from './prescriptionUtils';
+import { normalizeDiagnosisCodes } from './icd10Utils';
+import { normalizeAllergies } from './allergyUtils';
+import { normalizeProblems } from './problemUtils';
+
+/** Quiet period after the last edit before the draft is written */
+export const VISIT_DRAFT_AUTOSAVE_MS = 1500;
+
+/** One draft per doctor and patient, so saving again simply overwrites it */
+export function visitDraftId(userId: string, patientId: string): string {
+    return `${userId}_${patientId}`;
+}
+
+/**
+ * Copy of the form state that Firestore and localStorage accept: no undefined
+ * values and dates restored after a JSON round trip. Text is kept as typed.
+ */
+export function cleanVisitDraftFields(fields: Partial<VisitDraftFields>): VisitDraftFields {
+    const cleaned: VisitDraftFields = {
+        chiefComplaints: fields.chiefComplaints || '',
+        presentIllness: (fields.presentIllness || []).filter(i => !!i),
+        allergies: normalizeAllergies(fields.allergies),
+        ailments: normalizeProblems(fields.ailments),
+        diagnosis: fields.diagnosis || '',
+        diagnosisCodes: normalizeDiagnosisCodes(fields.diagnosisCodes),
+        examinations: (fields.examinations || []).map(e => ({ testName: e.testName || '', result: e.result || '' })),
+        labTestOrders: [...(fields.labTestOrders || [])],
+        treatmentPlan: fields.treatmentPlan || '',
+        advice: fields.advice || '',
+        followUpDate: fields.followUpDate || '',
+        bookFollowUp: fields.bookFollowUp !== false,
+        medicines: (fields.medicines || []).map(cleanMedicine),
+        allergyOverrides: (fields.allergyOverrides || []).map(cleanAllergyOverride)
+    };
+    if (fields.vitals && Object.keys(fields.vitals).length) cleaned.vitals = { ...fields.vitals };
+    return cleaned;
+}
+
+function cleanAllergyOverride(override: AllergyOverride): AllergyOverride {
+    const raw = override.acknowledgedAt as any;
+    const cleaned: AllergyOverride = {
+        medicine: override.medicine,
+        allergy: override.allergy,
+        reason: override.reason,
+        acknowledgedBy: override.acknowledgedBy,
+        acknowledgedAt: raw?.toDate?.() ?? new Date(raw)
+    };
+    if (override.allergenClass) cleaned.allergenClass = override.allergenClass;
+    return cleaned;
+}
+
+/**
+ * One-line summary for the resume banner and the dashboard,
+ * e.g. "Fever, cough · Viral URTI · 2 medicines"
+ */
+export function describeVisitDraft(fields: VisitDraftFields): string {
+    const parts: string[] = [];
+    const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    const complaints = fields.chiefComplaints.trim() || fields.presentIllness.join(', ');
+    if (complaints) parts.push(complaints);
+    const diagnosis = fields.diagnosis.trim() || fields.diagnosisCodes.map(d => d.description).join(', ');
+    if (diagnosis) parts.push(diagnosis);
+    if (fields.medicines.length) parts.push(plural(fields.medicines.length, 'medicine'));
+    if (fields.labTestOrders.length) parts.push(plural(fields.labTestOrders.length, 'lab test'));
+    return parts.join(' · ') || 'Unfinished visit notes';
+}
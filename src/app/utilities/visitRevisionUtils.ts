@@ -0,0 +1,87 @@
+/**
+ * Visit Revision Utilities
+ * Extracts the editable clinical content of a visit and compares two versions
+ * of it for the revision history diff view.
+ */
+
+import { Visit, VisitContent } from '../models/patient.model';
+import { cleanMedicine, formatMedicineLine } from './prescriptionUtils';
+import { formatVitals } from './vitalsUtils';
+import { formatCodedDiagnosis, normalizeDiagnosisCodes } from './icd10Utils';
+
+export type VisitContentKey = keyof VisitContent;
+
+export interface VisitFieldChange {
+    field: VisitContentKey;
+    label: string;
+    before: string[];
+    after: string[];
+}
+
+/**
+ * Editable fields in the order they appear on the visit card
+ */
+export const VISIT_CONTENT_FIELDS: { key: VisitContentKey; label: string }[] = [
+    { key: 'presentIllness', label: 'Present Illness' },
+    { key: 'vitals', label: 'Vitals' },
+    { key: 'chiefComplaints', label: 'Chief Complaints' },
+    { key: 'diagnosisCodes', label: 'Diagnosis Codes' },
+    { key: 'diagnosis', label: 'Diagnosis' },
+    { key: 'examination', label: 'Examination' },
+    { key: 'medicines', label: 'Medicines Prescribed' },
+    { key: 'treatmentPlan', label: 'Treatment Plan' },
+    { key: 'advice', label: 'Advice' }
+];
+
+/**
+ * Copy the editable fields of a visit, trimming text and dropping empty values
+ * so the result can be written to Firestore as a nested map.
+ */
+export function extractVisitContent(visit: Partial<Visit>): VisitContent {
+    const content: VisitContent = {
+        chiefComplaints: (visit.chiefComplaints || '').trim(),
+        diagnosis: (visit.diagnosis || '').trim(),
+        examination: (visit.examination || '').trim(),
+        treatmentPlan: (visit.treatmentPlan || '').trim(),
+        advice: (visit.advice || '').trim()
+    };
+    const presentIllness = (visit.presentIllness || '').trim();
+    if (presentIllness) content.presentIllness = presentIllness;
+    const medicines = (visit.medicines || []).filter(m => m.name && m.name.trim()).map(cleanMedicine);
+    if (medicines.length) content.medicines = medicines;
+    const diagnosisCodes = normalizeDiagnosisCodes(visit.diagnosisCodes);
+    if (diagnosisCodes.length) content.diagnosisCodes = diagnosisCodes;
+    if (visit.vitals && Object.keys(visit.vitals).length) content.vitals = { ...visit.vitals };
+    return content;
+}
+
+/**
+ * Display lines for one field; medicines render one line per prescription entry
+ */
+function fieldLines(content: VisitContent, key: VisitContentKey): string[] {
+    if (key === 'medicines') return (content.medicines || []).map(formatMedicineLine);
+    if (key === 'diagnosisCodes') {
+        return (content.diagnosisCodes || []).map(d => `${formatCodedDiagnosis(d)} (${d.type})`);
+    }
+    if (key === 'vitals') {
+        const summary = formatVitals(content.vitals);
+        return summary ? [summary] : [];
+    }
+    const text = (content[key] || '').trim();
+    return text ? [text] : [];
+}
+
+/**
+ * Fields whose displayed value differs between two versions of a visit
+ */
+export function diffVisitContent(before: VisitContent, after: VisitContent): VisitFieldChange[] {
+    const changes: VisitFieldChange[] = [];
+    for (const { key, label } of VISIT_CONTENT_FIELDS) {
+        const beforeLines = fieldLines(before, key);
+        const afterLines = fieldLines(after, key);
+        if (beforeLines.join('\n') !== afterLines.join('\n')) {
+            changes.push({ field: key, label, before: beforeLines, after: afterLines });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,51 @@
+/**
+ * Visit Template Utilities
+ * Cleanup and summaries for the named visit templates doctors apply on the Add Visit page
+ */
+
+import { VisitTemplateFields } from '../models/visitTemplate.model';
+import { cleanMedicine } from './prescriptionUtils';
+import { normalizeDiagnosisCodes } from './icd10Utils';
+
+/**
+ * Trim text and drop empty values so only the fields a template really sets
+ * are stored (and applied)
+ */
+export function cleanTemplateFields(fields: VisitTemplateFields): VisitTemplateFields {
+    const cleaned: VisitTemplateFields = {};
+    const text = (value: string | undefined) => (value || '').trim();
+
+    const presentIllness = (fields.presentIllness || []).map(i => i.trim()).filter(i => i);
+    if (presentIllness.length) cleaned.presentIllness = presentIllness;
+    if (text(fields.chiefComplaints)) cleaned.chiefComplaints = text(fields.chiefComplaints);
+    if (text(fields.diagnosis)) cleaned.diagnosis = text(fields.diagnosis);
+    const diagnosisCodes = normalizeDiagnosisCodes(fields.diagnosisCodes);
+    if (diagnosisCodes.length) cleaned.diagnosisCodes = diagnosisCodes;
+    const examinations = (fields.examinations || [])
+        .map(e => ({ testName: text(e.testName), result: text(e.result) }))
+        .filter(e => e.testName);
+    if (examinations.length) cleaned.examinations = examinations;
+    const medicines = (fields.medicines || []).filter(m => text(m.name)).map(cleanMedicine);
+    if (medicines.length) cleaned.medicines = medicines;
+    if (text(fields.treatmentPlan)) cleaned.treatmentPlan = text(fields.treatmentPlan);
+    if (text(fields.advice)) cleaned.advice = text(fields.advice);
+    if (fields.followUpDays && fields.followUpDays > 0) cleaned.followUpDays = Math.round(fields.followUpDays);
+    return cleaned;
+}
+
+/**
+ * Short list of what a template fills, e.g. ["Chief complaints", "3 medicines"]
+ */
+export function describeTemplateFields(fields: VisitTemplateFields): string[] {
+    const parts: string[] = [];
+    const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    if (fields.presentIllness?.length) parts.push('Present illness');
+    if (fields.chiefComplaints) parts.push('Chief complaints');
+    if (fields.diagnosis || fields.diagnosisCodes?.length) parts.push('Diagnosis');
+    if (fields.examinations?.length) parts.push(plural(fields.examinations.length, 'examination'));
+    if (fields.medicines?.length) parts.push(plural(fields.medicines.length, 'medicine'));
+    if (fields.treatmentPlan) parts.push('Treatment plan');
+    if (fields.advice) parts.push('Advice');
+    if (fields.followUpDays) parts.push(`Follow-up in ${plural(fields.followUpDays, 'day')}`);
+    return parts;
+}
@@ -0,0 +1,127 @@
+/**
+ * Vital Signs Utilities
+ * BMI calculation, range flagging and display formatting for visit vitals
+ */
+
+import { Vitals } from '../models/patient.model';
+import { DEFAULT_SYSTEM_SETTINGS, VitalRange, VitalsConfig } from '../config/systemSettings';
+
+export type VitalKey = keyof Vitals;
+export type VitalStatus = 'low' | 'normal' | 'high';
+
+export interface VitalField {
+    key: VitalKey;
+    label: string;
+    unit: string;
+}
+
+export interface VitalFlag extends VitalField {
+    value: number;
+    status: Exclude<VitalStatus, 'normal'>;
+}
+
+/**
+ * Display order for every recorded vital
+ */
+export const VITAL_FIELDS: VitalField[] = [
+    { key: 'systolicBp', label: 'Systolic BP', unit: 'mmHg' },
+    { key: 'diastolicBp', label: 'Diastolic BP', unit: 'mmHg' },
+    { key: 'pulse', label: 'Pulse', unit: 'bpm' },
+    { key: 'temperature', label: 'Temperature', unit: '°F' },
+    { key: 'spo2', label: 'SpO₂', unit: '%' },
+    { key: 'respiratoryRate', label: 'Resp. Rate', unit: '/min' },
+    { key: 'heightCm', label: 'Height', unit: 'cm' },
+    { key: 'weightKg', label: 'Weight', unit: 'kg' },
+    { key: 'bmi', label: 'BMI', unit: 'kg/m²' }
+];
+
+const VITALS_RANGES: VitalsConfig = DEFAULT_SYSTEM_SETTINGS.vitals;
+
+function rangeFor(key: VitalKey): VitalRange | undefined {
+    return (VITALS_RANGES as Partial<Record<VitalKey, VitalRange>>)[key];
+}
+
+/**
+ * BMI rounded to one decimal, or undefined when height/weight are missing
+ */
+export function calculateBmi(heightCm?: number | null, weightKg?: number | null): number | undefined {
+    if (!heightCm || !weightKg || heightCm <= 0 || weightKg <= 0) return undefined;
+    const heightM = heightCm / 100;
+    return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+}
+
+/**
+ * Compare a single value against its configured reference range.
+ * Vitals without a range (height, weight) are always 'normal'.
+ */
+export function getVitalStatus(key: VitalKey, value: number | null | undefined): VitalStatus {
+    if (value === null || value === undefined || !Number.isFinite(value)) return 'normal';
+    const range = rangeFor(key);
+    if (!range) return 'normal';
+    if (value < range.min) return 'low';
+    if (value > range.max) return 'high';
+    return 'normal';
+}
+
+/**
+ * Reference range label for a vital, e.g. "60–100 bpm"
+ */
+export function getVitalRangeLabel(key: VitalKey): string {
+    const range = rangeFor(key);
+    const field = VITAL_FIELDS.find(f => f.key === key);
+    if (!range || !field) return '';
+    return `${range.min}–${range.max} ${field.unit}`;
+}
+
+/**
+ * Every out-of-range value in a vitals record
+ */
+export function getVitalFlags(vitals: Vitals | null | undefined): VitalFlag[] {
+    if (!vitals) return [];
+    const flags: VitalFlag[] = [];
+    for (const field of VITAL_FIELDS) {
+        const value = vitals[field.key];
+        const status = getVitalStatus(field.key, value);
+        if (value !== undefined && status !== 'normal') {
+            flags.push({ ...field, value, status });
+        }
+    }
+    return flags;
+}
+
+/**
+ * Drop empty inputs and derive BMI. Returns undefined when nothing was recorded,
+ * so the visit can omit the field entirely.
+ */
+export function cleanVitals(raw: Partial<Record<VitalKey, number | null | undefined>>): Vitals | undefined {
+    const cleaned: Vitals = {};
+    for (const field of VITAL_FIELDS) {
+        if (field.key === 'bmi') continue;
+        const value = raw[field.key];
+        if (value !== null && value !== undefined && Number.isFinite(Number(value)) && Number(value) > 0) {
+            cleaned[field.key] = Number(value);
+        }
+    }
+    const bmi = calculateBmi(cleaned.heightCm, cleaned.weightKg);
+    if (bmi !== undefined) cleaned.bmi = bmi;
+    return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Compact one-line summary, e.g. "BP 120/80 · Pulse 72 · Temp 98.6°F · SpO₂ 98%"
+ */
+export function formatVitals(vitals: Vitals | null | undefined): string {
+    if (!vitals) return '';
+    const parts: string[] = [];
+    if (vitals.systolicBp || vitals.diastolicBp) {
+        parts.push(`BP ${vitals.systolicBp ?? '–'}/${vitals.diastolicBp ?? '–'}`);
+    }
+    if (vitals.pulse) parts.push(`Pulse ${vitals.pulse}`);
+    if (vitals.temperature) parts.push(`Temp ${vitals.temperature}°F`);
+    if (vitals.spo2) parts.push(`SpO₂ ${vitals.spo2}%`);
+    if (vitals.respiratoryRate) parts.push(`RR ${vitals.respiratoryRate}`);
+    if (vitals.heightCm) parts.push(`Ht ${vitals.heightCm}cm`);
+    if (vitals.weightKg) parts.push(`Wt ${vitals.weightKg}kg`);
+    if (vitals.bmi) parts.push(`BMI ${vitals.bmi}`);
+    return parts.join(' · ');
+}
@@ -9,6 +9,12 @@ export const environment = {
   messagingSenderId: "143213488063",
   appId: "1:143213488063:web:e88b8d09640113750fe30a",
   measurementId: "G-YPK8C0V09T"
+  },
+  // Local Firebase Storage emulator for attachment uploads (`firebase emulators:start --only storage`)
+  storageEmulator: {
+    enabled: false,
+    host: '127.0.0.1',
+    port: 9199
   }
 };
 